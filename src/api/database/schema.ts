@@ -1,6 +1,75 @@
-import { } from "drizzle-orm/sqlite-core"
+import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core"
+import type { StoredGuidelines } from "../../shared/analysis/schema"
+import type { Accuracy, AnalysisMetrics, ModelFormat, RuleCategory, Severity, UnitInfo } from "../../shared/analysis/types"
 
 /**
  * You can write your custom database schema here.
  * Use this file for also re-exporting any generated schema for drizzle to generate proper migrations.
  */
+
+/**
+ * Named sets of manufacturing limits, one per supplier or process.
+ * The guidelines are stored as JSON; open-ended channel tiers (Infinity) come back as null.
+ */
+export const guidelineProfiles = sqliteTable("guideline_profiles", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+  guidelines: text("guidelines", { mode: "json" }).$type<StoredGuidelines>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+})
+
+/**
+ * Uploaded model files, one row per file name and content. The bytes live in R2 under
+ * `models/<sha256>`, so the same content uploaded under two names is stored once.
+ */
+export const models = sqliteTable("models", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  fileName: text("file_name").notNull(),
+  format: text("format").$type<ModelFormat>().notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex("models_file_name_sha256_unique").on(table.fileName, table.sha256),
+])
+
+/**
+ * One run of the validator on a model. The guidelines are a copy of the profile at the time,
+ * the counts and metrics are denormalized so the history list needs no join on the results.
+ */
+export const analyses = sqliteTable("analyses", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  modelId: integer("model_id").notNull().references(() => models.id, { onDelete: "cascade" }),
+  // Not a reference: the built-in profile is 0 and stored profiles can be deleted
+  profileId: integer("profile_id").notNull(),
+  profileName: text("profile_name").notNull(),
+  guidelines: text("guidelines", { mode: "json" }).$type<StoredGuidelines>().notNull(),
+  units: text("units", { mode: "json" }).$type<UnitInfo>(),
+  errorCount: integer("error_count").notNull(),
+  warningCount: integer("warning_count").notNull(),
+  passedCount: integer("passed_count").notNull(),
+  metrics: text("metrics", { mode: "json" }).$type<AnalysisMetrics>().notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  index("analyses_model_id_idx").on(table.modelId),
+  index("analyses_created_at_idx").on(table.createdAt),
+])
+
+/**
+ * The outcome of each rule in an analysis, in the order the validator listed them.
+ */
+export const analysisResults = sqliteTable("analysis_results", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  analysisId: integer("analysis_id").notNull().references(() => analyses.id, { onDelete: "cascade" }),
+  ruleId: text("rule_id").notNull(),
+  category: text("category").$type<RuleCategory>().notNull(),
+  name: text("name").notNull(),
+  passed: integer("passed", { mode: "boolean" }).notNull(),
+  severity: text("severity").$type<Severity>().notNull(),
+  message: text("message").notNull(),
+  details: text("details"),
+  accuracy: text("accuracy").$type<Accuracy>(),
+}, (table) => [
+  index("analysis_results_analysis_id_idx").on(table.analysisId),
+])
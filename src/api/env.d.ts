@@ -0,0 +1,5 @@
+// Bundled by the Cloudflare plugin as a module compiled at deploy time
+declare module '*.wasm?module' {
+  const module: WebAssembly.Module;
+  export default module;
+}
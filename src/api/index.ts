@@ -1,5 +1,8 @@
 import { Hono } from 'hono';
 import { cors } from "hono/cors"
+import { analyzeRoutes } from './routes/analyze';
+import { historyRoutes } from './routes/history';
+import { profileRoutes } from './routes/profiles';
 
 const app = new Hono()
   .basePath('api');
@@ -10,4 +13,8 @@ app.use(cors({
 
 app.get('/ping', (c) => c.json({ message: `Pong! ${Date.now()}` }));
 
+app.route('/profiles', profileRoutes);
+app.route('/analyze', analyzeRoutes);
+app.route('/history', historyRoutes);
+
 export default app;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE `guideline_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`guidelines` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `guideline_profiles_name_unique` ON `guideline_profiles` (`name`);
\ No newline at end of file
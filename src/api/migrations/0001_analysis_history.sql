@@ -0,0 +1,42 @@
+CREATE TABLE `analyses` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`model_id` integer NOT NULL,
+	`profile_id` integer NOT NULL,
+	`profile_name` text NOT NULL,
+	`guidelines` text NOT NULL,
+	`units` text,
+	`error_count` integer NOT NULL,
+	`warning_count` integer NOT NULL,
+	`passed_count` integer NOT NULL,
+	`metrics` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`model_id`) REFERENCES `models`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `analyses_model_id_idx` ON `analyses` (`model_id`);--> statement-breakpoint
+CREATE INDEX `analyses_created_at_idx` ON `analyses` (`created_at`);--> statement-breakpoint
+CREATE TABLE `analysis_results` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`analysis_id` integer NOT NULL,
+	`rule_id` text NOT NULL,
+	`category` text NOT NULL,
+	`name` text NOT NULL,
+	`passed` integer NOT NULL,
+	`severity` text NOT NULL,
+	`message` text NOT NULL,
+	`details` text,
+	`accuracy` text,
+	FOREIGN KEY (`analysis_id`) REFERENCES `analyses`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `analysis_results_analysis_id_idx` ON `analysis_results` (`analysis_id`);--> statement-breakpoint
+CREATE TABLE `models` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`file_name` text NOT NULL,
+	`format` text NOT NULL,
+	`size` integer NOT NULL,
+	`sha256` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `models_file_name_sha256_unique` ON `models` (`file_name`,`sha256`);
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { Hono } from 'hono';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+import occtWasm from 'occt-import-js/dist/occt-import-js.wasm?module';
+import { database } from '../database';
+import { guidelineProfiles } from '../database/schema';
+import { formatOf } from '../../shared/analysis/formats';
+import { GUIDELINES, reviveGuidelines } from '../../shared/analysis/guidelines';
+import { loadModel, type LoadedModel, type OcctOptions } from '../../shared/analysis/parsers';
+import { analyzeModel } from '../../shared/analysis/pipeline';
+import { LENGTH_UNITS } from '../../shared/analysis/units';
+import { validateModel } from '../../shared/analysis/validation';
+import type { Guidelines, LengthUnit, ModelData, ModelFormat } from '../../shared/analysis/types';
+
+const API_FORMATS: ModelFormat[] = ['STL', 'STEP', 'IGES', 'BREP'];
+
+// Workers compile no wasm from bytes: occt is handed the module bundled with the Worker
+const OCCT_OPTIONS: OcctOptions = {
+  instantiateWasm: (imports: WebAssembly.Imports, receive) => {
+    const instance = new WebAssembly.Instance(occtWasm, imports);
+    receive(instance);
+    return instance.exports;
+  },
+};
+
+const optionsSchema = z.object({
+  profileId: z.coerce.number('Id profilo non numerico').int('Id profilo non intero').nonnegative('Id profilo negativo').optional(),
+  units: z.enum(Object.keys(LENGTH_UNITS) as [LengthUnit, ...LengthUnit[]], `Unità non riconosciuta, usare: ${Object.keys(LENGTH_UNITS).join(', ')}`).optional(),
+});
+
+// Whole models still carry their geometry, assembly bodies no longer do
+type Metrics = Omit<ModelData, 'geometry' | 'assembly'> & Partial<Pick<ModelData, 'geometry' | 'assembly'>>;
+
+// Per-corner and per-triangle buffers feed the viewer heatmaps; they have no place in JSON
+const toMetrics = ({
+  geometry: _,
+  assembly: _assembly,
+  edgeAnalysis: { curvature: _curvature, ...edgeAnalysis },
+  wallThickness: { faceThickness: _faceThickness, ...wallThickness },
+  ...metrics
+}: Metrics) => ({ ...metrics, edgeAnalysis, wallThickness });
+
+// Profile 0, or none, is the built-in one
+async function findGuidelines(profileId: number | undefined): Promise<{ id: number; name: string; guidelines: Guidelines } | null> {
+  if (!profileId) return { id: 0, name: 'Predefinito', guidelines: GUIDELINES };
+  const [row] = await database.select().from(guidelineProfiles).where(eq(guidelineProfiles.id, profileId)).limit(1);
+  return row ? { id: row.id, name: row.name, guidelines: reviveGuidelines(row.guidelines) } : null;
+}
+
+export const analyzeRoutes = new Hono();
+
+// Multipart upload: `file` (STL, STEP, IGES or BREP), optional `profileId` and `units`
+analyzeRoutes.post('/', async (c) => {
+  const body = await c.req.parseBody().catch(() => null);
+  if (!body) return c.json({ message: 'Richiesta non valida: inviare un form multipart con il campo "file"' }, 400);
+
+  const file = body.file;
+  if (!(file instanceof File) || file.size === 0) {
+    return c.json({ message: 'Nessun file caricato nel campo "file"' }, 400);
+  }
+  const format = formatOf(file.name);
+  if (!format || !API_FORMATS.includes(format)) {
+    return c.json({ message: `Formato non supportato: ${file.name}. Formati accettati: ${API_FORMATS.join(', ')}` }, 415);
+  }
+
+  const options = optionsSchema.safeParse({
+    profileId: typeof body.profileId === 'string' && body.profileId !== '' ? body.profileId : undefined,
+    units: typeof body.units === 'string' && body.units !== '' ? body.units : undefined,
+  });
+  if (!options.success) {
+    const issue = options.error.issues[0];
+    return c.json({ message: `Parametro non valido: ${issue.path.join('.')} — ${issue.message}` }, 400);
+  }
+  const profile = await findGuidelines(options.data.profileId);
+  if (!profile) return c.json({ message: 'Profilo non trovato' }, 404);
+
+  let model: LoadedModel;
+  try {
+    model = await loadModel(await file.arrayBuffer(), format, options.data.units ?? null, OCCT_OPTIONS);
+  } catch (err) {
+    console.error(err);
+    return c.json({ message: err instanceof Error && err.message ? err.message : `File ${format} non valido o danneggiato` }, 422);
+  }
+
+  try {
+    const { data, assembly } = analyzeModel(model, format, profile.guidelines);
+    return c.json({
+      fileName: file.name,
+      format,
+      profile: { id: profile.id, name: profile.name },
+      data: toMetrics(data),
+      validation: validateModel(data, profile.guidelines),
+      ...(assembly && {
+        assembly: { root: assembly.root, bodies: assembly.bodies.map(b => ({ ...b, data: toMetrics(b.data) })) },
+      }),
+    });
+  } catch (err) {
+    console.error(err);
+    return c.json({ message: `Errore durante l'analisi del file ${format}` }, 500);
+  }
+});
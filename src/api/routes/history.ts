@@ -0,0 +1,243 @@
+import { Hono } from 'hono';
+import { and, count, desc, eq, gt, gte, lt, ne, or, sql, type SQLWrapper } from 'drizzle-orm';
+import { env } from 'cloudflare:workers';
+import { z } from 'zod';
+import { database } from '../database';
+import { analyses, analysisResults, models } from '../database/schema';
+import { MODEL_FORMATS, formatOf } from '../../shared/analysis/formats';
+import { reviveGuidelines } from '../../shared/analysis/guidelines';
+import { guidelinesSchema } from '../../shared/analysis/schema';
+import { LENGTH_UNITS } from '../../shared/analysis/units';
+import type { HistoryEntry, HistoryEntryDetail, LengthUnit } from '../../shared/analysis/types';
+
+const unitSchema = z.enum(Object.keys(LENGTH_UNITS) as [LengthUnit, ...LengthUnit[]]);
+const dimension = z.number().nonnegative();
+
+// What the web app sends along with the file once an analysis is done
+const analysisSchema = z.object({
+  profile: z.object({
+    id: z.number().int().nonnegative(),
+    name: z.string().trim().min(1, 'Nome profilo obbligatorio').max(80),
+    guidelines: guidelinesSchema,
+  }),
+  units: z.object({ unit: unitSchema, source: z.enum(['file', 'detected', 'chosen']), detected: unitSchema.nullable() }).nullable(),
+  metrics: z.object({
+    dimensions: z.object({ length: dimension, width: dimension, height: dimension }),
+    volume: z.number(),
+    surfaceArea: dimension,
+    triangleCount: z.number().int().nonnegative(),
+    minWallThickness: dimension.nullable(),
+    isWatertight: z.boolean(),
+    componentCount: z.number().int().nonnegative(),
+  }),
+  results: z.array(z.object({
+    ruleId: z.string().min(1),
+    category: z.enum(['dimensions', 'geometry', 'features', 'manufacturing', 'mesh', 'custom']),
+    name: z.string().min(1),
+    passed: z.boolean(),
+    severity: z.enum(['error', 'warning', 'info']),
+    message: z.string(),
+    details: z.string().optional(),
+    accuracy: z.enum(['exact', 'estimated']).optional(),
+  })).min(1, 'Nessun risultato da salvare'),
+});
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+const listSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  format: z.enum(MODEL_FORMATS, `Formato non valido, usare: ${MODEL_FORMATS.join(', ')}`).optional(),
+  status: z.enum(['errors', 'warnings', 'ok'], 'Stato non valido, usare: errors, warnings, ok').optional(),
+  from: z.string().regex(DAY, 'Data non valida, usare AAAA-MM-GG').optional(),
+  to: z.string().regex(DAY, 'Data non valida, usare AAAA-MM-GG').optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+// D1 binds at most 100 parameters per statement and each result row takes 9
+const RESULTS_PER_INSERT = 10;
+
+// Text search where % and _ typed by the user are plain characters, not wildcards
+const contains = (column: SQLWrapper, text: string) =>
+  sql`${column} like ${`%${text.replace(/[\\%_]/g, '\\$&')}%`} escape '\\'`;
+
+type EntryRow = { analysis: typeof analyses.$inferSelect; model: typeof models.$inferSelect };
+
+const toEntry = ({ analysis, model }: EntryRow): HistoryEntry => ({
+  id: analysis.id,
+  modelId: model.id,
+  fileName: model.fileName,
+  format: model.format,
+  fileSize: model.size,
+  units: analysis.units,
+  profileId: analysis.profileId,
+  profileName: analysis.profileName,
+  errorCount: analysis.errorCount,
+  warningCount: analysis.warningCount,
+  passedCount: analysis.passedCount,
+  metrics: analysis.metrics,
+  createdAt: analysis.createdAt.toISOString(),
+});
+
+// Uploads are content-addressed, so the same bytes under two names are one object
+const fileKey = (sha256: string) => `models/${sha256}`;
+
+async function sha256Of(bytes: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return [...digest].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const selectEntries = () => database
+  .select({ analysis: analyses, model: models })
+  .from(analyses)
+  .innerJoin(models, eq(analyses.modelId, models.id));
+
+async function findEntry(id: number): Promise<EntryRow | undefined> {
+  const [row] = await selectEntries().where(eq(analyses.id, id)).limit(1);
+  return row;
+}
+
+export const historyRoutes = new Hono();
+
+historyRoutes.get('/', async (c) => {
+  const parsed = listSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return c.json({ message: `Parametro non valido: ${issue.path.join('.')} — ${issue.message}` }, 400);
+  }
+  const { q, format, status, from, to, limit, offset } = parsed.data;
+
+  const filter = and(
+    q ? or(contains(models.fileName, q), contains(analyses.profileName, q)) : undefined,
+    format ? eq(models.format, format) : undefined,
+    status === 'errors' ? gt(analyses.errorCount, 0) : undefined,
+    status === 'warnings' ? and(eq(analyses.errorCount, 0), gt(analyses.warningCount, 0)) : undefined,
+    status === 'ok' ? and(eq(analyses.errorCount, 0), eq(analyses.warningCount, 0)) : undefined,
+    from ? gte(analyses.createdAt, new Date(`${from}T00:00:00Z`)) : undefined,
+    // The end day is included
+    to ? lt(analyses.createdAt, new Date(Date.parse(`${to}T00:00:00Z`) + 86_400_000)) : undefined,
+  );
+
+  const [rows, [{ total }]] = await Promise.all([
+    selectEntries().where(filter).orderBy(desc(analyses.createdAt), desc(analyses.id)).limit(limit).offset(offset),
+    database.select({ total: count() }).from(analyses).innerJoin(models, eq(analyses.modelId, models.id)).where(filter),
+  ]);
+  return c.json({ entries: rows.map(toEntry), total });
+});
+
+historyRoutes.get('/:id{[0-9]+}', async (c) => {
+  const row = await findEntry(Number(c.req.param('id')));
+  if (!row) return c.json({ message: 'Analisi non trovata' }, 404);
+
+  const results = await database.select().from(analysisResults)
+    .where(eq(analysisResults.analysisId, row.analysis.id))
+    .orderBy(analysisResults.id);
+  const detail: HistoryEntryDetail = {
+    ...toEntry(row),
+    guidelines: reviveGuidelines(row.analysis.guidelines),
+    results: results.map(r => ({
+      ruleId: r.ruleId,
+      category: r.category,
+      name: r.name,
+      passed: r.passed,
+      severity: r.severity,
+      message: r.message,
+      ...(r.details !== null && { details: r.details }),
+      ...(r.accuracy !== null && { accuracy: r.accuracy }),
+    })),
+  };
+  return c.json(detail);
+});
+
+// The uploaded file, so an entry can be opened again without the original at hand
+historyRoutes.get('/:id{[0-9]+}/file', async (c) => {
+  const row = await findEntry(Number(c.req.param('id')));
+  if (!row) return c.json({ message: 'Analisi non trovata' }, 404);
+  const object = await env.BUCKET.get(fileKey(row.model.sha256));
+  if (!object) return c.json({ message: 'File del modello non più disponibile' }, 404);
+
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': String(object.size),
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(row.model.fileName)}`,
+    },
+  });
+});
+
+// Multipart upload: `file` as analyzed and `analysis`, the JSON described by analysisSchema
+historyRoutes.post('/', async (c) => {
+  const body = await c.req.parseBody().catch(() => null);
+  if (!body) return c.json({ message: 'Richiesta non valida: inviare un form multipart con i campi "file" e "analysis"' }, 400);
+
+  const file = body.file;
+  if (!(file instanceof File) || file.size === 0) {
+    return c.json({ message: 'Nessun file caricato nel campo "file"' }, 400);
+  }
+  const format = formatOf(file.name);
+  if (!format) return c.json({ message: `Formato non supportato: ${file.name}` }, 415);
+
+  let json: unknown = null;
+  try {
+    json = typeof body.analysis === 'string' ? JSON.parse(body.analysis) : null;
+  } catch {
+    // Reported below like any other invalid analysis
+  }
+  const parsed = analysisSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return c.json({ message: `Analisi non valida: ${issue.path.join('.') || 'corpo'} — ${issue.message}` }, 400);
+  }
+  const { profile, units, metrics, results } = parsed.data;
+
+  const bytes = await file.arrayBuffer();
+  const sha256 = await sha256Of(bytes);
+  if (!(await env.BUCKET.head(fileKey(sha256)))) {
+    await env.BUCKET.put(fileKey(sha256), bytes);
+  }
+
+  // One batch, so a failed insert leaves neither an analysis without results nor a stray model.
+  // The batch runs as a transaction, so the newest analysis is the one it just inserted.
+  const findModel = and(eq(models.fileName, file.name), eq(models.sha256, sha256));
+  const modelId = sql`(select ${models.id} from ${models} where ${findModel})`;
+  const analysisId = sql`(select max(${analyses.id}) from ${analyses})`;
+  const rows = results.map(r => ({ ...r, analysisId, details: r.details ?? null, accuracy: r.accuracy ?? null }));
+  const resultInserts = Array.from(
+    { length: Math.ceil(rows.length / RESULTS_PER_INSERT) },
+    (_, i) => database.insert(analysisResults).values(rows.slice(i * RESULTS_PER_INSERT, (i + 1) * RESULTS_PER_INSERT)),
+  );
+  const [, [model], [analysis]] = await database.batch([
+    database.insert(models).values({ fileName: file.name, format, size: file.size, sha256 }).onConflictDoNothing(),
+    database.select().from(models).where(findModel).limit(1),
+    database.insert(analyses).values({
+      modelId,
+      profileId: profile.id,
+      profileName: profile.name,
+      guidelines: profile.guidelines,
+      units,
+      errorCount: results.filter(r => r.severity === 'error').length,
+      warningCount: results.filter(r => r.severity === 'warning').length,
+      passedCount: results.filter(r => r.passed).length,
+      metrics,
+    }).returning(),
+    ...resultInserts,
+  ]);
+
+  return c.json(toEntry({ analysis, model }), 201);
+});
+
+// Deleting the last analysis of a model also drops the model, and its file once no model uses it
+historyRoutes.delete('/:id{[0-9]+}', async (c) => {
+  const row = await findEntry(Number(c.req.param('id')));
+  if (!row) return c.json({ message: 'Analisi non trovata' }, 404);
+  await database.delete(analyses).where(eq(analyses.id, row.analysis.id));
+
+  const [{ remaining }] = await database.select({ remaining: count() }).from(analyses).where(eq(analyses.modelId, row.model.id));
+  if (remaining === 0) {
+    await database.delete(models).where(eq(models.id, row.model.id));
+    const [{ sharing }] = await database.select({ sharing: count() }).from(models)
+      .where(and(eq(models.sha256, row.model.sha256), ne(models.id, row.model.id)));
+    if (sharing === 0) await env.BUCKET.delete(fileKey(row.model.sha256));
+  }
+  return c.body(null, 204);
+});
@@ -0,0 +1,107 @@
+import { Hono } from 'hono';
+import { asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { database } from '../database';
+import { guidelineProfiles } from '../database/schema';
+import { guidelinesSchema } from '../../shared/analysis/schema';
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, 'Nome obbligatorio').max(80),
+  guidelines: guidelinesSchema,
+});
+
+type ProfileInput = z.infer<typeof profileSchema>;
+type ProfileRow = typeof guidelineProfiles.$inferSelect;
+
+// Stored as validated, open-ended tiers as null; readers revive them with reviveGuidelines
+const toRow = (profile: ProfileInput) => ({ name: profile.name, guidelines: profile.guidelines });
+
+const toResponse = (row: ProfileRow) => ({
+  id: row.id,
+  name: row.name,
+  guidelines: row.guidelines,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+async function findByName(name: string) {
+  const [row] = await database.select().from(guidelineProfiles).where(eq(guidelineProfiles.name, name)).limit(1);
+  return row;
+}
+
+async function findById(id: number) {
+  const [row] = await database.select().from(guidelineProfiles).where(eq(guidelineProfiles.id, id)).limit(1);
+  return row;
+}
+
+// Parses the body, answering 400 with the first problem when it is not a valid profile
+async function readProfile(body: Promise<unknown>): Promise<{ profile: ProfileInput } | { message: string }> {
+  const parsed = profileSchema.safeParse(await body.catch(() => null));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { message: `Profilo non valido: ${issue.path.join('.') || 'corpo'} — ${issue.message}` };
+  }
+  return { profile: parsed.data };
+}
+
+export const profileRoutes = new Hono();
+
+profileRoutes.get('/', async (c) => {
+  const rows = await database.select().from(guidelineProfiles).orderBy(asc(guidelineProfiles.name));
+  return c.json(rows.map(toResponse));
+});
+
+profileRoutes.get('/:id{[0-9]+}', async (c) => {
+  const row = await findById(Number(c.req.param('id')));
+  if (!row) return c.json({ message: 'Profilo non trovato' }, 404);
+  return c.json(toResponse(row));
+});
+
+profileRoutes.post('/', async (c) => {
+  const result = await readProfile(c.req.json());
+  if ('message' in result) return c.json(result, 400);
+  if (await findByName(result.profile.name)) {
+    return c.json({ message: 'Esiste già un profilo con questo nome' }, 409);
+  }
+
+  const [row] = await database.insert(guidelineProfiles).values(toRow(result.profile)).returning();
+  return c.json(toResponse(row), 201);
+});
+
+profileRoutes.put('/:id{[0-9]+}', async (c) => {
+  const id = Number(c.req.param('id'));
+  const result = await readProfile(c.req.json());
+  if ('message' in result) return c.json(result, 400);
+  const sameName = await findByName(result.profile.name);
+  if (sameName && sameName.id !== id) {
+    return c.json({ message: 'Esiste già un profilo con questo nome' }, 409);
+  }
+
+  const [row] = await database.update(guidelineProfiles)
+    .set({ ...toRow(result.profile), updatedAt: new Date() })
+    .where(eq(guidelineProfiles.id, id))
+    .returning();
+  if (!row) return c.json({ message: 'Profilo non trovato' }, 404);
+  return c.json(toResponse(row));
+});
+
+// Copies a profile under the first free "<name> (copia N)"
+profileRoutes.post('/:id{[0-9]+}/duplicate', async (c) => {
+  const source = await findById(Number(c.req.param('id')));
+  if (!source) return c.json({ message: 'Profilo non trovato' }, 404);
+
+  let name = `${source.name} (copia)`;
+  for (let copy = 2; await findByName(name); copy++) {
+    name = `${source.name} (copia ${copy})`;
+  }
+  const [row] = await database.insert(guidelineProfiles).values({ name, guidelines: source.guidelines }).returning();
+  return c.json(toResponse(row), 201);
+});
+
+profileRoutes.delete('/:id{[0-9]+}', async (c) => {
+  const [row] = await database.delete(guidelineProfiles)
+    .where(eq(guidelineProfiles.id, Number(c.req.param('id'))))
+    .returning();
+  if (!row) return c.json({ message: 'Profilo non trovato' }, 404);
+  return c.body(null, 204);
+});
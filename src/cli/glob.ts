@@ -0,0 +1,60 @@
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+const GLOB_CHARS = /[*?[{]/;
+
+// `**` spans directories, `*` and `?` stay within one, `[...]` is a character class
+// and `{a,b}` a choice
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && pattern.indexOf("}", i) !== -1) {
+      const end = pattern.indexOf("}", i);
+      source += `(?:${pattern.slice(i + 1, end).split(",").map(option => globToRegExp(option).source.slice(1, -1)).join("|")})`;
+      i = end;
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      source += `[${pattern.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Files matching a path or glob, sorted; a plain path that does not exist matches nothing
+export async function expandGlob(pattern: string): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join("/");
+  if (!GLOB_CHARS.test(normalized)) {
+    const info = await stat(normalized).catch(() => null);
+    return info?.isFile() ? [normalized] : [];
+  }
+
+  // Walk only below the part of the pattern without wildcards
+  const segments = normalized.split("/");
+  const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+  const base = segments.slice(0, firstGlob).join("/");
+  const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+
+  const entries = await readdir(base || ".", { recursive: true, withFileTypes: true }).catch(() => []);
+  return entries
+    .filter(entry => entry.isFile())
+    .map(entry => path.relative(base || ".", path.join(entry.parentPath, entry.name)).split(path.sep).join("/"))
+    .filter(relative => matcher.test(relative))
+    .map(relative => (base ? `${base}/${relative}` : relative))
+    .sort();
+}
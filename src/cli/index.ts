@@ -0,0 +1,142 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { formatOf } from "../shared/analysis/formats";
+import { GUIDELINES, reviveGuidelines } from "../shared/analysis/guidelines";
+import { loadModel, type OcctOptions } from "../shared/analysis/parsers";
+import { analyzeModel } from "../shared/analysis/pipeline";
+import { guidelinesSchema } from "../shared/analysis/schema";
+import { LENGTH_UNITS } from "../shared/analysis/units";
+import { validateModel } from "../shared/analysis/validation";
+import type { Guidelines, LengthUnit } from "../shared/analysis/types";
+import { expandGlob } from "./glob";
+import { formatReports, hasErrors, type FileReport, type ReportFormat } from "./reporters";
+
+const USAGE = `Uso: analyze [opzioni] <file o glob>...
+
+Analizza modelli STL, STEP e gli altri formati supportati e li valida contro le linee guida.
+
+Opzioni:
+  -p, --profile <file>   profilo JSON ({ "name", "guidelines" } o le sole linee guida)
+  -f, --format <tipo>    table (predefinito), json o junit
+  -o, --output <file>    scrive il report su file invece che sullo standard output
+  -u, --units <unità>    unità dei file senza unità (${Object.keys(LENGTH_UNITS).join(", ")}); predefinita: rilevata
+  -h, --help             mostra questo aiuto
+
+Esce con codice 1 se una regola ha gravità "error" o un file non si legge, 2 per errori d'uso.`;
+
+const REPORT_FORMATS: ReportFormat[] = ["table", "json", "junit"];
+
+// The reports own stdout; what occt says while reading goes with the progress lines
+const OCCT_OPTIONS: OcctOptions = { print: (text) => console.error(text) };
+
+// Prints a usage problem followed by the help text and returns the exit code for misuse
+function usageError(message: string): number {
+  console.error(`${message}\n\n${USAGE}`);
+  return 2;
+}
+
+// A profile file is either what the API returns for a profile or a bare Guidelines object
+async function readProfile(file: string): Promise<{ profile: { name: string; guidelines: Guidelines } } | { message: string }> {
+  const text = await readFile(file, "utf8").catch(() => null);
+  if (text === null) return { message: `Profilo non leggibile: ${file}` };
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { message: `Profilo non valido: ${file} non è un file JSON` };
+  }
+
+  const wrapped = typeof json === "object" && json !== null && "guidelines" in json ? json as { name?: unknown; guidelines: unknown } : null;
+  const parsed = guidelinesSchema.safeParse(wrapped ? wrapped.guidelines : json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { message: `Profilo non valido: ${issue.path.join(".") || "corpo"} — ${issue.message}` };
+  }
+  const name = typeof wrapped?.name === "string" ? wrapped.name : path.basename(file, path.extname(file));
+  return { profile: { name, guidelines: reviveGuidelines(parsed.data) } };
+}
+
+async function analyzeFile(file: string, guidelines: Guidelines, units: LengthUnit | null): Promise<FileReport> {
+  const started = performance.now();
+  const format = formatOf(file);
+  const report = (rest: Omit<FileReport, "file" | "format" | "durationMs">): FileReport =>
+    ({ file, format, ...rest, durationMs: Math.round(performance.now() - started) });
+  if (!format) return report({ results: [], error: "Formato non supportato" });
+
+  try {
+    const buffer = await readFile(file);
+    const model = await loadModel(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer, format, units, OCCT_OPTIONS);
+    const { data } = analyzeModel(model, format, guidelines);
+    return report({ units: data.units, results: validateModel(data, guidelines) });
+  } catch (err) {
+    return report({ results: [], error: err instanceof Error && err.message ? err.message : `Errore durante l'analisi del file ${format}` });
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        profile: { type: "string", short: "p" },
+        format: { type: "string", short: "f", default: "table" },
+        output: { type: "string", short: "o" },
+        units: { type: "string", short: "u" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (err) {
+    return usageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) return usageError("Nessun file indicato");
+
+  const format = values.format as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    return usageError(`Formato di report sconosciuto: ${values.format} (usare ${REPORT_FORMATS.join(", ")})`);
+  }
+  const units = (values.units ?? null) as LengthUnit | null;
+  if (units && !Object.hasOwn(LENGTH_UNITS, units)) {
+    return usageError(`Unità non riconosciuta: ${units} (usare ${Object.keys(LENGTH_UNITS).join(", ")})`);
+  }
+  let profile = { name: "Predefinito", guidelines: GUIDELINES };
+  if (values.profile) {
+    const result = await readProfile(values.profile);
+    if ("message" in result) return usageError(result.message);
+    profile = result.profile;
+  }
+
+  const matches = await Promise.all(positionals.map(expandGlob));
+  const unmatched = positionals.filter((_, i) => matches[i].length === 0);
+  if (unmatched.length > 0) return usageError(`Nessun file trovato per: ${unmatched.join(" ")}`);
+  // The same file reached by two patterns is analyzed once
+  const files = [...new Set(matches.flat())];
+
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    if (format === "table") console.error(`Analisi di ${file} (profilo ${profile.name})...`);
+    reports.push(await analyzeFile(file, profile.guidelines, units));
+  }
+
+  const output = formatReports(reports, format);
+  if (values.output) {
+    await writeFile(values.output, `${output}\n`);
+  } else {
+    console.log(output);
+  }
+  return reports.some(hasErrors) ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+}, (err) => {
+  console.error(err);
+  process.exitCode = 2;
+});
@@ -0,0 +1,107 @@
+import type { ModelFormat, Severity, UnitInfo, ValidationResult } from "../shared/analysis/types";
+
+export type ReportFormat = "table" | "json" | "junit";
+
+// What one file produced: the rule results, or why it could not be analyzed
+export interface FileReport {
+  file: string;
+  format: ModelFormat | null;
+  units?: UnitInfo;
+  results: ValidationResult[];
+  error?: string;
+  durationMs: number;
+}
+
+const SEVERITY_LABELS: Record<Severity, string> = { error: "ERRORE", warning: "AVVISO", info: "OK" };
+
+// A file fails the gate when it could not be read or a rule reported an error
+export function hasErrors(report: FileReport): boolean {
+  return report.error !== undefined || report.results.some(r => r.severity === "error");
+}
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+const countBy = (results: ValidationResult[], severity: Severity) => results.filter(r => r.severity === severity).length;
+
+function formatTable(reports: FileReport[]): string {
+  const lines: string[] = [];
+  const nameWidth = Math.max(0, ...reports.flatMap(r => r.results.map(result => result.name.length)));
+  for (const report of reports) {
+    if (report.error !== undefined) {
+      lines.push(`${report.file}: ${report.error}`, "");
+      continue;
+    }
+    const errors = countBy(report.results, "error");
+    const warnings = countBy(report.results, "warning");
+    lines.push(`${report.file} (${report.format}, ${report.results.length} regole: ${plural(errors, "errore", "errori")}, ${plural(warnings, "avviso", "avvisi")})`);
+    for (const result of report.results) {
+      const label = SEVERITY_LABELS[result.severity ?? "info"];
+      const accuracy = result.accuracy === "estimated" ? " (stima)" : "";
+      lines.push(`  ${label.padEnd(6)}  ${result.name.padEnd(nameWidth)}  ${result.message}${accuracy}`);
+    }
+    lines.push("");
+  }
+  const failed = reports.filter(hasErrors).length;
+  lines.push(`${reports.length} file analizzati, ${failed} con errori`);
+  return lines.join("\n");
+}
+
+function formatJSON(reports: FileReport[]): string {
+  return JSON.stringify(reports.map(report => ({ ...report, passed: !hasErrors(report) })), null, 2);
+}
+
+const escapeXML = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[char]!);
+
+// One suite per file and one case per rule. Only error-level rules fail; warnings pass
+// with their message in system-out, and an unreadable file is a JUnit <error>.
+function formatJUnit(reports: FileReport[]): string {
+  const suites = reports.map((report) => {
+    const file = escapeXML(report.file);
+    const time = (report.durationMs / 1000).toFixed(3);
+    if (report.error !== undefined) {
+      return [
+        `  <testsuite name="${file}" tests="1" failures="0" errors="1" time="${time}">`,
+        `    <testcase classname="${file}" name="Lettura file" time="${time}">`,
+        `      <error message="${escapeXML(report.error)}"/>`,
+        "    </testcase>",
+        "  </testsuite>",
+      ].join("\n");
+    }
+    const cases = report.results.map((result) => {
+      const open = `    <testcase classname="${file}" name="${escapeXML(result.name)}">`;
+      const text = escapeXML(result.details ? `${result.message}\n${result.details}` : result.message);
+      if (result.severity === "error") {
+        return `${open}\n      <failure message="${escapeXML(result.message)}" type="error">${text}</failure>\n    </testcase>`;
+      }
+      return `${open}\n      <system-out>${text}</system-out>\n    </testcase>`;
+    });
+    const failures = countBy(report.results, "error");
+    return [
+      `  <testsuite name="${file}" tests="${report.results.length}" failures="${failures}" errors="0" time="${time}">`,
+      ...cases,
+      "  </testsuite>",
+    ].join("\n");
+  });
+
+  const tests = reports.reduce((sum, r) => sum + (r.error !== undefined ? 1 : r.results.length), 0);
+  const failures = reports.reduce((sum, r) => sum + countBy(r.results, "error"), 0);
+  const errors = reports.filter(r => r.error !== undefined).length;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Analisi modelli" tests="${tests}" failures="${failures}" errors="${errors}">`,
+    ...suites,
+    "</testsuites>",
+  ].join("\n");
+}
+
+export function formatReports(reports: FileReport[], format: ReportFormat): string {
+  switch (format) {
+    case "table":
+      return formatTable(reports);
+    case "json":
+      return formatJSON(reports);
+    case "junit":
+      return formatJUnit(reports);
+  }
+}
@@ -0,0 +1,1002 @@
+import * as THREE from "three";
+import { buildEdgeMap, calculateFaceNormals, computeSignedVolume, vertexKey, weldVertices, type EdgeMap } from "./mesh";
+import { buildFaceAdjacency, fitCylinder, growSmoothRegions } from "./surfaces";
+import { buildTriangleBVH, closestPointOnBVH, raycastBVH, type TriangleBVH } from "./bvh";
+import { FACING_DOT, analyzeClearance } from "./clearance";
+import { analyzeMeshIntegrity, buildDirectedEdges, computeShellDepths } from "./integrity";
+import { computeVertexCurvature } from "./curvature";
+import { analyzeOrientation } from "./orientation";
+import { analyzeSurfaceFeatures } from "./reliefs";
+import { analyzeThreads } from "./threads";
+import { analyzeVoids } from "./voids";
+import type {
+  AnalysisStage,
+  BoundaryLoop,
+  CavityAnalysis,
+  ChannelAnalysis,
+  ChannelInfo,
+  ComponentAnalysis,
+  ComponentInfo,
+  EdgeAnalysis,
+  FilletInfo,
+  GeometricComplexity,
+  Guidelines,
+  HoleInfo,
+  ModelData,
+  PartGap,
+  SharpEdgeChain,
+  WallThicknessAnalysis,
+} from "./types";
+
+// Normal change (deg) across an edge above which it is a crease with no fillet;
+// tessellated fillets step by less than this between rows
+const SHARP_EDGE_ANGLE = 40;
+// Below this the two faces are treated as coplanar
+const FLAT_EDGE_ANGLE = 1;
+
+function analyzeEdges(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[]): EdgeAnalysis {
+  const triangleCount = positions.count / 3;
+  const { vertexOf, vertexCount } = weldVertices(positions);
+  const edges = buildDirectedEdges(vertexOf, triangleCount);
+  const outwardSign = computeSignedVolume(positions) < 0 ? -1 : 1;
+  const curvature = computeVertexCurvature(positions, vertexOf, vertexCount, outwardSign);
+
+  const cornerOf = (face: number, vertex: number) => {
+    for (let k = 0; k < 3; k++) if (vertexOf[face * 3 + k] === vertex) return face * 3 + k;
+    return face * 3;
+  };
+  const point = (corner: number) => new THREE.Vector3().fromBufferAttribute(positions, corner);
+  const faceArea = (face: number) => {
+    const a = point(face * 3);
+    return new THREE.Vector3().crossVectors(point(face * 3 + 1).sub(a), point(face * 3 + 2).sub(a)).length() / 2;
+  };
+
+  // Faces joined by bend edges whose rows have similar widths: the strips of a tessellated fillet.
+  // A flat face meeting a fillet is much wider than a fillet row, so it stays out.
+  const parent = Int32Array.from({ length: triangleCount }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const inStrip = new Uint8Array(triangleCount);
+  const hinges: { faces: [number, number]; radius: number; convex: boolean }[] = [];
+  const coplanarPairs: [number, number][] = [];
+  const sharp: { from: number; to: number; start: THREE.Vector3; end: THREE.Vector3; convex: boolean; angle: number }[] = [];
+
+  edges.forEach((edge) => {
+    if (edge.length !== 2) return;
+    const [a, b] = edge;
+    const n1 = faceNormals[a.face];
+    const n2 = faceNormals[b.face];
+    if (n1.lengthSq() === 0 || n2.lengthSq() === 0) return;
+
+    const angle = Math.acos(Math.min(1, Math.max(-1, n1.dot(n2)))) * (180 / Math.PI);
+    if (angle <= FLAT_EDGE_ANGLE) {
+      coplanarPairs.push([a.face, b.face]);
+      return;
+    }
+
+    const start = point(cornerOf(a.face, a.from));
+    const end = point(cornerOf(a.face, a.to));
+    let opposite = b.face * 3;
+    for (let k = 0; k < 3; k++) {
+      const id = vertexOf[b.face * 3 + k];
+      if (id !== a.from && id !== a.to) opposite = b.face * 3 + k;
+    }
+    // The second face drops below the first one's plane on an outer edge
+    const convex = point(opposite).sub(start).dot(n1) * outwardSign < 0;
+
+    if (angle > SHARP_EDGE_ANGLE) {
+      sharp.push({ from: a.from, to: a.to, start, end, convex, angle });
+      return;
+    }
+
+    const length = start.distanceTo(end);
+    const heightA = 2 * faceArea(a.face) / length;
+    const heightB = 2 * faceArea(b.face) / length;
+    if (Math.min(heightA, heightB) / Math.max(heightA, heightB) < 0.5) return;
+
+    parent[find(a.face)] = find(b.face);
+    inStrip[a.face] = 1;
+    inStrip[b.face] = 1;
+    // Bending by `angle` over one row width gives the local radius
+    hinges.push({ faces: [a.face, b.face], radius: (heightA + heightB) / 2 / (angle * Math.PI / 180), convex });
+  });
+
+  // Quads split into two coplanar triangles keep a fillet row together
+  for (const [a, b] of coplanarPairs) {
+    if (inStrip[a] && inStrip[b]) parent[find(a)] = find(b);
+  }
+
+  const strips = new Map<number, number[]>();
+  for (let face = 0; face < triangleCount; face++) {
+    if (!inStrip[face]) continue;
+    const root = find(face);
+    if (!strips.has(root)) strips.set(root, []);
+    strips.get(root)!.push(face);
+  }
+  const hingesOf = new Map<number, typeof hinges>();
+  for (const hinge of hinges) {
+    const root = find(hinge.faces[0]);
+    if (!hingesOf.has(root)) hingesOf.set(root, []);
+    hingesOf.get(root)!.push(hinge);
+  }
+
+  const incidentFaces = new Int32Array(vertexCount);
+  for (let corner = 0; corner < positions.count; corner++) incidentFaces[vertexOf[corner]]++;
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((x, y) => x - y);
+    return sorted[Math.floor(sorted.length / 2)];
+  };
+
+  const fillets: FilletInfo[] = [];
+  strips.forEach((faces, root) => {
+    if (faces.length < 2) return;
+    const stripHinges = hingesOf.get(root) ?? [];
+
+    let area = 0;
+    const center = new THREE.Vector3();
+    for (const face of faces) {
+      const faceAreaValue = faceArea(face);
+      area += faceAreaValue;
+      center.addScaledVector(point(face * 3).add(point(face * 3 + 1)).add(point(face * 3 + 2)), faceAreaValue / 3);
+    }
+    center.divideScalar(area);
+
+    const fit = faces.length >= 4 ? fitCylinder(positions, faceNormals, faces) : null;
+    if (fit && fit.residual <= 0.1) {
+      // Full bores and bosses are holes and walls, not blends
+      if (fit.coverage > 180) return;
+      fillets.push({ radius: fit.radius, convex: !fit.concave, center, area, triangleCount: faces.length, fit: "cylinder" });
+      return;
+    }
+
+    // Corner blends and freeform strips: curvature at the vertices fully inside the strip,
+    // or the hinge estimate when every vertex lies on the strip border
+    const cornersInStrip = new Map<number, { corner: number; count: number }>();
+    for (const face of faces) {
+      for (let k = 0; k < 3; k++) {
+        const id = vertexOf[face * 3 + k];
+        const entry = cornersInStrip.get(id) ?? { corner: face * 3 + k, count: 0 };
+        entry.count++;
+        cornersInStrip.set(id, entry);
+      }
+    }
+    const interiorCurvatures: number[] = [];
+    cornersInStrip.forEach(({ corner, count }, id) => {
+      if (count === incidentFaces[id]) {
+        interiorCurvatures.push(Math.max(Math.abs(curvature.max[corner]), Math.abs(curvature.min[corner])));
+      }
+    });
+
+    const radius = interiorCurvatures.length > 0
+      ? 1 / median(interiorCurvatures)
+      : median(stripHinges.map(h => h.radius));
+    if (!isFinite(radius)) return;
+    const convexHinges = stripHinges.filter(h => h.convex).length;
+    fillets.push({ radius, convex: convexHinges * 2 >= stripHinges.length, center, area, triangleCount: faces.length, fit: "curvature" });
+  });
+
+  // Sharp edges meeting end to end in nearly the same direction form one crease
+  const sharpParent = sharp.map((_, i) => i);
+  const findSharp = (i: number): number => (sharpParent[i] === i ? i : (sharpParent[i] = findSharp(sharpParent[i])));
+  const sharpAtVertex = new Map<number, number[]>();
+  sharp.forEach((edge, i) => {
+    for (const id of [edge.from, edge.to]) {
+      if (!sharpAtVertex.has(id)) sharpAtVertex.set(id, []);
+      sharpAtVertex.get(id)!.push(i);
+    }
+  });
+  const direction = (i: number) => sharp[i].end.clone().sub(sharp[i].start).normalize();
+  sharpAtVertex.forEach((incident) => {
+    for (let i = 0; i < incident.length; i++) {
+      for (let j = i + 1; j < incident.length; j++) {
+        const [a, b] = [incident[i], incident[j]];
+        if (sharp[a].convex !== sharp[b].convex) continue;
+        if (Math.abs(direction(a).dot(direction(b))) < Math.cos(Math.PI / 6)) continue;
+        sharpParent[findSharp(a)] = findSharp(b);
+      }
+    }
+  });
+
+  const chains = new Map<number, SharpEdgeChain & { longest: number }>();
+  sharp.forEach((edge, i) => {
+    const root = findSharp(i);
+    const length = edge.start.distanceTo(edge.end);
+    const angle = edge.convex ? 180 - edge.angle : 180 + edge.angle;
+    const chain = chains.get(root);
+    if (!chain) {
+      chains.set(root, { convex: edge.convex, angle, length, center: edge.start.clone().add(edge.end).multiplyScalar(0.5), longest: length });
+      return;
+    }
+    chain.length += length;
+    chain.angle = edge.convex ? Math.min(chain.angle, angle) : Math.max(chain.angle, angle);
+    if (length > chain.longest) {
+      chain.longest = length;
+      chain.center = edge.start.clone().add(edge.end).multiplyScalar(0.5);
+    }
+  });
+  const sharpEdgeChains: SharpEdgeChain[] = [...chains.values()].map(({ longest: _, ...chain }) => chain);
+
+  const outerChains = sharpEdgeChains.filter(c => c.convex);
+  const innerChains = sharpEdgeChains.filter(c => !c.convex);
+  const outerRadii = fillets.filter(f => f.convex).map(f => f.radius);
+  const innerRadii = fillets.filter(f => !f.convex).map(f => f.radius);
+  if (outerChains.length > 0) outerRadii.push(0);
+  if (innerChains.length > 0) innerRadii.push(0);
+
+  return {
+    totalEdges: edges.size,
+    sharpEdges: outerChains.length,
+    sharpEdgeAngles: outerChains.map(c => c.angle),
+    sharpEdgeChains,
+    fillets: fillets.sort((a, b) => a.radius - b.radius),
+    minFilletRadius: outerRadii.length > 0 ? Math.min(...outerRadii) : null,
+    minTJunctionRadius: innerRadii.length > 0 ? Math.min(...innerRadii) : null,
+    tJunctionCount: innerChains.length + fillets.filter(f => !f.convex).length,
+    curvature,
+  };
+}
+
+// Chain single-face edges into closed loops (openings in the mesh)
+function extractBoundaryLoops(edgeMap: EdgeMap): BoundaryLoop[] {
+  const boundaryEdges: [THREE.Vector3, THREE.Vector3][] = [];
+  edgeMap.forEach((edge) => {
+    if (edge.faces.length === 1) boundaryEdges.push(edge.vertices);
+  });
+
+  const edgesAtVertex = new Map<string, number[]>();
+  boundaryEdges.forEach(([a, b], index) => {
+    for (const key of [vertexKey(a), vertexKey(b)]) {
+      if (!edgesAtVertex.has(key)) edgesAtVertex.set(key, []);
+      edgesAtVertex.get(key)!.push(index);
+    }
+  });
+
+  const visited = new Uint8Array(boundaryEdges.length);
+  const loops: BoundaryLoop[] = [];
+
+  for (let start = 0; start < boundaryEdges.length; start++) {
+    if (visited[start]) continue;
+    visited[start] = 1;
+
+    const points = [boundaryEdges[start][0], boundaryEdges[start][1]];
+    let perimeter = points[0].distanceTo(points[1]);
+    let currentKey = vertexKey(points[1]);
+    const startKey = vertexKey(points[0]);
+
+    while (currentKey !== startKey) {
+      const next = edgesAtVertex.get(currentKey)!.find(index => !visited[index]);
+      if (next === undefined) break;
+      visited[next] = 1;
+      const [a, b] = boundaryEdges[next];
+      const nextPoint = vertexKey(a) === currentKey ? b : a;
+      perimeter += points[points.length - 1].distanceTo(nextPoint);
+      points.push(nextPoint);
+      currentKey = vertexKey(nextPoint);
+    }
+    if (currentKey === startKey) points.pop();
+
+    const center = new THREE.Vector3();
+    points.forEach(p => center.add(p));
+    center.divideScalar(points.length);
+    const meanRadius = points.reduce((sum, p) => sum + p.distanceTo(center), 0) / points.length;
+
+    loops.push({ edgeCount: points.length, perimeter, diameter: meanRadius * 2, center });
+  }
+
+  return loops.sort((a, b) => b.perimeter - a.perimeter);
+}
+
+// Cylindrical bores on the surface: smooth concave patches that wrap (almost) fully around an axis
+function extractHoles(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[], edgeMap: EdgeMap): HoleInfo[] {
+  const triangleCount = positions.count / 3;
+  const orientedNormals = computeSignedVolume(positions) < 0
+    ? faceNormals.map(n => n.clone().negate())
+    : faceNormals;
+  const adjacency = buildFaceAdjacency(edgeMap, triangleCount);
+  const regions = growSmoothRegions(adjacency, orientedNormals, 40);
+
+  let bvh: TriangleBVH | null = null;
+  const holes: HoleInfo[] = [];
+
+  for (const region of regions) {
+    if (region.length < 6) continue;
+    const fit = fitCylinder(positions, orientedNormals, region);
+    if (!fit || !fit.concave || fit.residual > 0.08 || fit.coverage < 300) continue;
+
+    // A bottom face within reach of either end of the bore makes it blind.
+    // The allowance of one radius past the wall covers conical drill points.
+    bvh ??= buildTriangleBVH(positions, Array.from({ length: triangleCount }, (_, i) => i));
+    const reach = fit.length / 2 + fit.radius;
+    const capped = [fit.axis, fit.axis.clone().negate()].filter(direction =>
+      raycastBVH(bvh!, fit.center, direction, 0, reach) !== null
+    ).length;
+
+    const diameter = fit.radius * 2;
+    holes.push({
+      type: capped > 0 ? "blind" : "through",
+      diameter,
+      depth: fit.length,
+      depthRatio: fit.length / diameter,
+      center: fit.center,
+      axis: fit.axis,
+      accuracy: "estimated",
+    });
+  }
+
+  return holes.sort((a, b) => a.diameter - b.diameter);
+}
+
+function analyzeCavities(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[], boundingBox: THREE.Box3): CavityAnalysis {
+  const edgeMap = buildEdgeMap(positions);
+  const boundaryLoopDetails = extractBoundaryLoops(edgeMap);
+  const holes = extractHoles(positions, faceNormals, edgeMap);
+
+  // Estimate potential cavities from concave regions
+  let concaveRegions = 0;
+  const triangleCount = positions.count / 3;
+  
+  for (let i = 0; i < triangleCount; i++) {
+    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
+    const centroid = new THREE.Vector3().addVectors(v0, 
+      new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1))
+      .add(new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2))
+      .divideScalar(3);
+    
+    // Check if normal points inward (potential cavity indicator)
+    const boxCenter = new THREE.Vector3();
+    boundingBox.getCenter(boxCenter);
+    const toCenter = new THREE.Vector3().subVectors(boxCenter, centroid).normalize();
+    
+    if (faceNormals[i].dot(toCenter) > 0.7) {
+      concaveRegions++;
+    }
+  }
+
+  return {
+    potentialCavities: Math.floor(concaveRegions / 10),
+    boundaryLoops: boundaryLoopDetails.length,
+    boundaryLoopDetails,
+    holes,
+    blindHoleCount: holes.filter(h => h.type === "blind").length,
+    throughHoleCount: holes.filter(h => h.type === "through").length,
+  };
+}
+
+// Voxel-average centreline samples and chain them into an ordered polyline
+function orderCenterline(points: THREE.Vector3[], spacing: number): THREE.Vector3[] {
+  const cells = new Map<string, { sum: THREE.Vector3; count: number }>();
+  for (const p of points) {
+    const key = `${Math.floor(p.x / spacing)},${Math.floor(p.y / spacing)},${Math.floor(p.z / spacing)}`;
+    if (!cells.has(key)) cells.set(key, { sum: new THREE.Vector3(), count: 0 });
+    const cell = cells.get(key)!;
+    cell.sum.add(p);
+    cell.count++;
+  }
+  const nodes = Array.from(cells.values()).map(c => c.sum.divideScalar(c.count));
+  if (nodes.length < 2) return nodes;
+
+  // Double sweep: the node farthest from an arbitrary node is one end of the path
+  const farthestFrom = (from: THREE.Vector3) =>
+    nodes.reduce((best, n) => (n.distanceTo(from) > best.distanceTo(from) ? n : best), nodes[0]);
+  let current = farthestFrom(farthestFrom(nodes[0]));
+
+  const remaining = new Set(nodes);
+  const ordered: THREE.Vector3[] = [];
+  while (remaining.size > 0) {
+    remaining.delete(current);
+    ordered.push(current);
+    let next: THREE.Vector3 | null = null;
+    for (const n of remaining) {
+      if (!next || n.distanceTo(current) < next.distanceTo(current)) next = n;
+    }
+    if (!next) break;
+    current = next;
+  }
+  return ordered;
+}
+
+// Radius of the circle through three points, Infinity when they are collinear
+function circumradius(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): number {
+  const doubleArea = new THREE.Vector3().crossVectors(
+    new THREE.Vector3().subVectors(b, a),
+    new THREE.Vector3().subVectors(c, a)
+  ).length();
+  if (doubleArea < 1e-12) return Infinity;
+  return (a.distanceTo(b) * b.distanceTo(c) * c.distanceTo(a)) / (2 * doubleArea);
+}
+
+function analyzeChannels(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[]): ChannelAnalysis {
+  const triangleCount = positions.count / 3;
+  const edgeMap = buildEdgeMap(positions);
+  const orientedNormals = computeSignedVolume(positions) < 0
+    ? faceNormals.map(n => n.clone().negate())
+    : faceNormals;
+  const regions = growSmoothRegions(buildFaceAdjacency(edgeMap, triangleCount), orientedNormals, 40);
+  const regionOf = new Int32Array(triangleCount);
+  regions.forEach((region, index) => region.forEach(tri => { regionOf[tri] = index; }));
+
+  let bvh: TriangleBVH | null = null;
+  const channels: ChannelInfo[] = [];
+  const centroid = new THREE.Vector3();
+  const vertex = new THREE.Vector3();
+
+  regions.forEach((region, regionIndex) => {
+    if (region.length < 8) return;
+    bvh ??= buildTriangleBVH(positions, Array.from({ length: triangleCount }, (_, i) => i));
+
+    // A tube wall seen along its normal faces its own opposite wall across the
+    // bore; the midpoint of that chord lies on the centreline
+    const step = Math.max(1, Math.floor(region.length / 400));
+    const diameters: number[] = [];
+    const centerPoints: THREE.Vector3[] = [];
+    let rays = 0;
+    for (let i = 0; i < region.length; i += step) {
+      const tri = region[i];
+      rays++;
+      centroid.set(0, 0, 0);
+      for (let k = 0; k < 3; k++) centroid.add(vertex.fromBufferAttribute(positions, tri * 3 + k));
+      centroid.divideScalar(3);
+
+      const hit = raycastBVH(bvh!, centroid, orientedNormals[tri], 1e-4, Infinity, tri);
+      if (!hit || regionOf[hit.triangle] !== regionIndex) continue;
+      if (orientedNormals[hit.triangle].dot(orientedNormals[tri]) > -0.5) continue;
+      diameters.push(hit.distance);
+      centerPoints.push(centroid.clone().addScaledVector(orientedNormals[tri], hit.distance / 2));
+    }
+    if (diameters.length < Math.max(4, rays * 0.6)) return;
+
+    diameters.sort((a, b) => a - b);
+    const medianDiameter = diameters[Math.floor(diameters.length / 2)];
+    const mean = diameters.reduce((a, b) => a + b, 0) / diameters.length;
+    const spread = Math.sqrt(diameters.reduce((sum, d) => sum + (d - mean) ** 2, 0) / diameters.length);
+    if (spread / medianDiameter > 0.2) return;
+
+    const cylinder = fitCylinder(positions, orientedNormals, region);
+    if (cylinder && cylinder.concave && cylinder.residual < 0.08 && cylinder.coverage >= 300) {
+      // Straight bore: open channels are through bores, blind ones are holes (see analyzeCavities)
+      const reach = cylinder.length / 2 + cylinder.radius;
+      const capped = [cylinder.axis, cylinder.axis.clone().negate()].some(direction =>
+        raycastBVH(bvh!, cylinder.center, direction, 0, reach) !== null
+      );
+      if (capped) return;
+
+      const halfAxis = cylinder.axis.clone().multiplyScalar(cylinder.length / 2);
+      channels.push({
+        diameter: cylinder.radius * 2,
+        length: cylinder.length,
+        curved: false,
+        bendRadius: null,
+        start: cylinder.center.clone().sub(halfAxis),
+        end: cylinder.center.clone().add(halfAxis),
+        fit: "cylinder",
+      });
+      return;
+    }
+
+    const centerline = orderCenterline(centerPoints, Math.max(medianDiameter / 2, 1e-3));
+    if (centerline.length < 2) return;
+
+    let length = 0;
+    for (let i = 1; i < centerline.length; i++) length += centerline[i].distanceTo(centerline[i - 1]);
+    // Tubes are elongated; shorter patches are pockets or fillets
+    if (length < medianDiameter) return;
+
+    // Local bend radius over chords of roughly one diameter on each side
+    const span = Math.max(1, Math.round(medianDiameter / (length / (centerline.length - 1))));
+    let bendRadius = Infinity;
+    for (let i = span; i + span < centerline.length; i++) {
+      bendRadius = Math.min(bendRadius, circumradius(centerline[i - span], centerline[i], centerline[i + span]));
+    }
+
+    // Straight when no centreline node strays from the end-to-end chord
+    const start = centerline[0];
+    const end = centerline[centerline.length - 1];
+    const chord = new THREE.Line3(start, end);
+    const closest = new THREE.Vector3();
+    const maxDeviation = Math.max(...centerline.map(p => chord.closestPointToPoint(p, true, closest).distanceTo(p)));
+    const curved = maxDeviation > medianDiameter * 0.25 && bendRadius < Infinity;
+
+    channels.push({
+      diameter: medianDiameter,
+      length: length + medianDiameter / 2,
+      curved,
+      bendRadius: curved ? bendRadius : null,
+      start,
+      end,
+      fit: "centerline",
+    });
+  });
+
+  channels.sort((a, b) => a.diameter - b.diameter);
+
+  return {
+    potentialChannels: channels.length,
+    channels,
+    straightChannels: channels.filter(c => !c.curved).length,
+    curvedChannels: channels.filter(c => c.curved).length,
+  };
+}
+
+function analyzeWallThickness(
+  positions: THREE.BufferAttribute,
+  faceNormals: THREE.Vector3[],
+  boundingBox: THREE.Box3,
+  guidelines: Guidelines
+): WallThicknessAnalysis {
+  const triangleCount = positions.count / 3;
+  const allTriangles = Array.from({ length: triangleCount }, (_, i) => i);
+  const bvh = buildTriangleBVH(positions, allTriangles);
+
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+
+  const faceAreas = new Float32Array(triangleCount);
+  for (let i = 0; i < triangleCount; i++) {
+    v0.fromBufferAttribute(positions, i * 3);
+    v1.fromBufferAttribute(positions, i * 3 + 1);
+    v2.fromBufferAttribute(positions, i * 3 + 2);
+    faceAreas[i] = new THREE.Vector3().crossVectors(
+      new THREE.Vector3().subVectors(v1, v0),
+      new THREE.Vector3().subVectors(v2, v0)
+    ).length() * 0.5;
+  }
+
+  // Face normals follow the winding order; a mesh wound inside-out has its
+  // material on the normal side, so "inward" is along the normal instead
+  const inwardSign = computeSignedVolume(positions) < 0 ? 1 : -1;
+
+  // Multi-angle ray directions (normal + offset angles)
+  const angleOffsets = [
+    new THREE.Vector3(0, 0, 0), // Normal direction
+    new THREE.Vector3(0.1, 0, 0),
+    new THREE.Vector3(-0.1, 0, 0),
+    new THREE.Vector3(0, 0.1, 0),
+    new THREE.Vector3(0, -0.1, 0),
+  ];
+
+  // Thickness at every triangle centroid: nearest exit along the inward rays
+  const faceThickness = new Float32Array(triangleCount).fill(NaN);
+  const samples: number[] = [];
+  const centroid = new THREE.Vector3();
+  const rayDir = new THREE.Vector3();
+
+  for (let i = 0; i < triangleCount; i++) {
+    v0.fromBufferAttribute(positions, i * 3);
+    v1.fromBufferAttribute(positions, i * 3 + 1);
+    v2.fromBufferAttribute(positions, i * 3 + 2);
+    centroid.addVectors(v0, v1).add(v2).divideScalar(3);
+
+    let minHitDist = Infinity;
+    for (const offset of angleOffsets) {
+      rayDir.copy(faceNormals[i]).add(offset).normalize().multiplyScalar(inwardSign);
+      const hit = raycastBVH(bvh, centroid, rayDir, 0.01, minHitDist, i);
+      // Tilted rays near an edge leave through the neighbouring side, which is no opposite wall
+      if (hit && faceNormals[hit.triangle].dot(faceNormals[i]) <= FACING_DOT) minHitDist = hit.distance;
+    }
+
+    if (minHitDist < Infinity) {
+      faceThickness[i] = minHitDist;
+      samples.push(minHitDist);
+    }
+  }
+
+  // Fallback if no samples found
+  if (samples.length === 0) {
+    const size = new THREE.Vector3();
+    boundingBox.getSize(size);
+    samples.push(Math.min(size.x, size.y, size.z) * 0.1);
+  }
+
+  // Sort samples for statistics
+  samples.sort((a, b) => a - b);
+  
+  // Calculate comprehensive statistics
+  const minThickness = samples[0] || 0;
+  const maxThickness = samples[samples.length - 1] || 0;
+  const avgThickness = samples.reduce((a, b) => a + b, 0) / samples.length;
+  
+  // Median
+  const midIndex = Math.floor(samples.length / 2);
+  const medianThickness = samples.length % 2 === 0
+    ? (samples[midIndex - 1] + samples[midIndex]) / 2
+    : samples[midIndex];
+  
+  // Standard deviation
+  const variance = samples.reduce((sum, val) => sum + Math.pow(val - avgThickness, 2), 0) / samples.length;
+  const stdDeviation = Math.sqrt(variance);
+  
+  // Count thin areas
+  const thinAreas = samples.filter(s => s < guidelines.wallThickness.min).length;
+  const borderlineAreas = samples.filter(s => s >= guidelines.wallThickness.min && s < guidelines.hollowWallThickness).length;
+  
+  // Percentages of the measured surface area
+  let measuredArea = 0;
+  let thinArea = 0;
+  let borderlineArea = 0;
+  for (let i = 0; i < triangleCount; i++) {
+    const thickness = faceThickness[i];
+    if (Number.isNaN(thickness)) continue;
+    measuredArea += faceAreas[i];
+    if (thickness < guidelines.wallThickness.min) thinArea += faceAreas[i];
+    else if (thickness < guidelines.hollowWallThickness) borderlineArea += faceAreas[i];
+  }
+  const percentBelow1mm = measuredArea > 0 ? (thinArea / measuredArea) * 100 : 0;
+  const percentBelow1_2mm = measuredArea > 0 ? ((thinArea + borderlineArea) / measuredArea) * 100 : 0;
+  
+  // Calculate quality score (0-100)
+  // Based on: % above threshold, consistency (low std dev), and minimum thickness
+  const thicknessScore = Math.min(100, (minThickness / guidelines.wallThickness.min) * 50);
+  const consistencyScore = Math.max(0, 30 - (stdDeviation / avgThickness) * 30);
+  const coverageScore = Math.max(0, 20 - percentBelow1mm);
+  const qualityScore = Math.round(thicknessScore + consistencyScore + coverageScore);
+  
+  // Quality grade
+  let qualityGrade: string;
+  if (qualityScore >= 90) qualityGrade = "Eccellente";
+  else if (qualityScore >= 75) qualityGrade = "Buono";
+  else if (qualityScore >= 50) qualityGrade = "Accettabile";
+  else if (qualityScore >= 25) qualityGrade = "Critico";
+  else qualityGrade = "Insufficiente";
+
+  return {
+    minThickness,
+    maxThickness,
+    avgThickness,
+    medianThickness,
+    stdDeviation,
+    samples,
+    thinAreas,
+    borderlineAreas,
+    percentBelow1mm,
+    percentBelow1_2mm,
+    qualityScore,
+    qualityGrade,
+    sampleCount: samples.length,
+    faceThickness,
+    coveragePercent: (faceThickness.filter(t => !Number.isNaN(t)).length / Math.max(1, triangleCount)) * 100,
+  };
+}
+
+function analyzeGeometricComplexity(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[], boundingBox: THREE.Box3, surfaceArea: number, componentCount: number): GeometricComplexity {
+  const triangleCount = positions.count / 3;
+  const size = new THREE.Vector3();
+  boundingBox.getSize(size);
+  
+  // Triangle density
+  const triangleDensity = triangleCount / surfaceArea;
+  
+  // Surface curvature variance
+  let curvatureSum = 0;
+  let curvatureSqSum = 0;
+  
+  for (let i = 1; i < faceNormals.length; i++) {
+    const angleDiff = 1 - faceNormals[i].dot(faceNormals[i - 1]);
+    curvatureSum += angleDiff;
+    curvatureSqSum += angleDiff * angleDiff;
+  }
+  
+  const avgCurvature = curvatureSum / faceNormals.length;
+  const curvatureVariance = (curvatureSqSum / faceNormals.length) - (avgCurvature * avgCurvature);
+  
+  // Detect flat base
+  let flatBaseArea = 0;
+  let flatBaseNormal: THREE.Vector3 | null = null;
+  let hasFlatBase = false;
+  
+  // Group faces by normal direction (binned)
+  const normalBins = new Map<string, { area: number; normal: THREE.Vector3 }>();
+  
+  for (let i = 0; i < triangleCount; i++) {
+    const normal = faceNormals[i];
+    const binKey = `${Math.round(normal.x * 10)},${Math.round(normal.y * 10)},${Math.round(normal.z * 10)}`;
+    
+    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
+    const v1 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1);
+    const v2 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2);
+    
+    const edge1 = new THREE.Vector3().subVectors(v1, v0);
+    const edge2 = new THREE.Vector3().subVectors(v2, v0);
+    const triArea = new THREE.Vector3().crossVectors(edge1, edge2).length() * 0.5;
+    
+    if (!normalBins.has(binKey)) {
+      normalBins.set(binKey, { area: 0, normal: normal.clone() });
+    }
+    normalBins.get(binKey)!.area += triArea;
+  }
+  
+  // Find largest planar region facing down (negative Y or Z)
+  normalBins.forEach((bin) => {
+    if (bin.area > flatBaseArea && (bin.normal.y < -0.9 || bin.normal.z < -0.9)) {
+      flatBaseArea = bin.area;
+      flatBaseNormal = bin.normal.clone();
+      hasFlatBase = true;
+    }
+  });
+  
+  // Estimate genus (simplified - based on boundary edges)
+  const edgeMap = buildEdgeMap(positions);
+  let boundaryEdges = 0;
+  edgeMap.forEach((edge) => {
+    if (edge.faces.length === 1) boundaryEdges++;
+  });
+  const estimatedGenus = Math.max(0, Math.floor(boundaryEdges / 6) - 1);
+
+  return {
+    triangleDensity,
+    surfaceCurvatureVariance: curvatureVariance,
+    componentCount,
+    genus: estimatedGenus,
+    hasFlatBase,
+    flatBaseArea,
+    flatBaseNormal,
+    flatBaseAccuracy: "estimated",
+  };
+}
+
+// Split the mesh into connected shells (triangles sharing welded vertices)
+// and measure the closest approach between every pair of shells
+function analyzeComponents(positions: THREE.BufferAttribute, guidelines: Guidelines): ComponentAnalysis {
+  const triangleCount = positions.count / 3;
+  const { vertexOf, vertexCount } = weldVertices(positions);
+  const parent = Array.from({ length: vertexCount }, (_, i) => i);
+
+  const find = (id: number): number => {
+    while (parent[id] !== id) {
+      parent[id] = parent[parent[id]];
+      id = parent[id];
+    }
+    return id;
+  };
+
+  for (let i = 0; i < triangleCount; i++) {
+    const root = find(vertexOf[i * 3]);
+    parent[find(vertexOf[i * 3 + 1])] = root;
+    parent[find(vertexOf[i * 3 + 2])] = root;
+  }
+
+  // Group triangles and unique vertices by root
+  const shells = new Map<number, { triangles: number[]; vertices: Map<number, number> }>();
+  for (let i = 0; i < triangleCount; i++) {
+    const root = find(vertexOf[i * 3]);
+    if (!shells.has(root)) {
+      shells.set(root, { triangles: [], vertices: new Map() });
+    }
+    const shell = shells.get(root)!;
+    shell.triangles.push(i);
+    for (let k = 0; k < 3; k++) {
+      shell.vertices.set(vertexOf[i * 3 + k], i * 3 + k);
+    }
+  }
+
+  const pA = new THREE.Vector3();
+  const pB = new THREE.Vector3();
+  const pC = new THREE.Vector3();
+
+  // Voids (shells nested at odd depth) are cavities in their body, not separate parts
+  const depths = computeShellDepths(positions, Array.from(shells.values(), shell => shell.triangles));
+  const parts = Array.from(shells.values()).filter((_, s) => depths[s] % 2 === 0).map((shell) => {
+    let volume = 0;
+    let surfaceArea = 0;
+    const boundingBox = new THREE.Box3();
+
+    for (const tri of shell.triangles) {
+      pA.fromBufferAttribute(positions, tri * 3);
+      pB.fromBufferAttribute(positions, tri * 3 + 1);
+      pC.fromBufferAttribute(positions, tri * 3 + 2);
+      boundingBox.expandByPoint(pA).expandByPoint(pB).expandByPoint(pC);
+      surfaceArea += new THREE.Vector3().crossVectors(
+        new THREE.Vector3().subVectors(pB, pA),
+        new THREE.Vector3().subVectors(pC, pA)
+      ).length() * 0.5;
+      volume += pA.dot(pB.clone().cross(pC)) / 6;
+    }
+
+    return {
+      triangles: shell.triangles,
+      vertices: Array.from(shell.vertices.values()),
+      volume: Math.abs(volume),
+      surfaceArea,
+      boundingBox,
+    };
+  });
+
+  // Largest part first so "Parte 1" is the main body
+  parts.sort((a, b) => b.volume - a.volume || b.triangles.length - a.triangles.length);
+
+  const components: ComponentInfo[] = parts.map((part, index) => ({
+    index,
+    triangleCount: part.triangles.length,
+    volume: part.volume,
+    surfaceArea: part.surfaceArea,
+    boundingBox: part.boundingBox,
+  }));
+
+  const partGaps: PartGap[] = [];
+  if (parts.length > 1) {
+    const bvhs = new Map<number, TriangleBVH>();
+    const getBVH = (index: number) => {
+      if (!bvhs.has(index)) {
+        bvhs.set(index, buildTriangleBVH(positions, parts[index].triangles));
+      }
+      return bvhs.get(index)!;
+    };
+
+    const vertex = new THREE.Vector3();
+    for (let a = 0; a < parts.length; a++) {
+      for (let b = a + 1; b < parts.length; b++) {
+        const boxA = parts[a].boundingBox;
+        const boxB = parts[b].boundingBox;
+        const boxGap = Math.max(
+          0,
+          boxA.min.x - boxB.max.x, boxB.min.x - boxA.max.x,
+          boxA.min.y - boxB.max.y, boxB.min.y - boxA.max.y,
+          boxA.min.z - boxB.max.z, boxB.min.z - boxA.max.z
+        );
+
+        if (boxGap >= guidelines.minGap) {
+          const centerA = boxA.getCenter(new THREE.Vector3());
+          const centerB = boxB.getCenter(new THREE.Vector3());
+          partGaps.push({
+            partA: a,
+            partB: b,
+            distance: boxGap,
+            pointA: boxA.clampPoint(centerB, new THREE.Vector3()),
+            pointB: boxB.clampPoint(centerA, new THREE.Vector3()),
+            isLowerBound: true,
+          });
+          continue;
+        }
+
+        // Vertex-to-surface distance in both directions
+        let best = Infinity;
+        let bestA = new THREE.Vector3();
+        let bestB = new THREE.Vector3();
+        for (const [from, to, swap] of [[a, b, false], [b, a, true]] as [number, number, boolean][]) {
+          const target = getBVH(to);
+          for (const index of parts[from].vertices) {
+            vertex.fromBufferAttribute(positions, index);
+            if (target.root.box.distanceToPoint(vertex) >= best) continue;
+            const hit = closestPointOnBVH(target, vertex, best);
+            if (hit) {
+              best = hit.distance;
+              bestA = swap ? hit.point : vertex.clone();
+              bestB = swap ? vertex.clone() : hit.point;
+            }
+          }
+        }
+
+        partGaps.push({ partA: a, partB: b, distance: best, pointA: bestA, pointB: bestB, isLowerBound: false });
+      }
+    }
+    partGaps.sort((x, y) => x.distance - y.distance);
+  }
+
+  return {
+    componentCount: components.length,
+    components,
+    partGaps,
+    minPartGap: partGaps.length > 0 ? partGaps[0].distance : null,
+  };
+}
+
+export function analyzeSTLGeometry(
+  geometry: THREE.BufferGeometry,
+  guidelines: Guidelines,
+  onProgress?: (stage: AnalysisStage) => void
+): ModelData {
+  onProgress?.("mesh");
+  geometry.computeBoundingBox();
+  const boundingBox = geometry.boundingBox!;
+  
+  const size = new THREE.Vector3();
+  boundingBox.getSize(size);
+
+  const positions = geometry.getAttribute("position") as THREE.BufferAttribute;
+  const triangleCount = positions.count / 3;
+  const vertexCount = positions.count;
+
+  // Calculate volume and surface area
+  let volume = 0;
+  let surfaceArea = 0;
+  let normalSum = new THREE.Vector3();
+
+  const pA = new THREE.Vector3();
+  const pB = new THREE.Vector3();
+  const pC = new THREE.Vector3();
+  const cb = new THREE.Vector3();
+  const ab = new THREE.Vector3();
+
+  for (let i = 0; i < positions.count; i += 3) {
+    pA.fromBufferAttribute(positions, i);
+    pB.fromBufferAttribute(positions, i + 1);
+    pC.fromBufferAttribute(positions, i + 2);
+
+    cb.subVectors(pC, pB);
+    ab.subVectors(pA, pB);
+    const cross = new THREE.Vector3().crossVectors(cb, ab);
+    surfaceArea += cross.length() * 0.5;
+    normalSum.add(cross.normalize());
+
+    volume += pA.dot(pB.cross(pC)) / 6;
+  }
+
+  volume = Math.abs(volume);
+  
+  // Normalize normal distribution
+  const normalDistribution = {
+    x: Math.abs(normalSum.x) / triangleCount,
+    y: Math.abs(normalSum.y) / triangleCount,
+    z: Math.abs(normalSum.z) / triangleCount,
+  };
+
+  // Calculate face normals for analysis
+  const faceNormals = calculateFaceNormals(positions);
+  
+  // Build edge map and count edges
+  const edgeMap = buildEdgeMap(positions);
+  const edgeCount = edgeMap.size;
+
+  onProgress?.("integrity");
+  const meshIntegrity = analyzeMeshIntegrity(positions);
+  const volumeReliable = meshIntegrity.isWatertight;
+
+  // Perform detailed analyses
+  onProgress?.("edges");
+  const edgeAnalysis = analyzeEdges(positions, faceNormals);
+  onProgress?.("cavities");
+  const cavityAnalysis = analyzeCavities(positions, faceNormals, boundingBox);
+  onProgress?.("voids");
+  const voidAnalysis = analyzeVoids(positions, faceNormals);
+  onProgress?.("channels");
+  const channelAnalysis = analyzeChannels(positions, faceNormals);
+  onProgress?.("threads");
+  const threadAnalysis = analyzeThreads(positions, faceNormals);
+  onProgress?.("surface");
+  const surfaceFeatures = analyzeSurfaceFeatures(positions, faceNormals);
+  onProgress?.("wallThickness");
+  const wallThickness = analyzeWallThickness(positions, faceNormals, boundingBox, guidelines);
+  onProgress?.("clearance");
+  const clearance = analyzeClearance(positions, faceNormals, guidelines);
+  onProgress?.("components");
+  const componentAnalysis = analyzeComponents(positions, guidelines);
+  onProgress?.("complexity");
+  const geometricComplexity = analyzeGeometricComplexity(positions, faceNormals, boundingBox, surfaceArea, componentAnalysis.componentCount);
+  onProgress?.("orientation");
+  const orientation = analyzeOrientation(positions, faceNormals, guidelines);
+
+  return {
+    geometry,
+    dimensions: {
+      length: size.x,
+      width: size.y,
+      height: size.z,
+    },
+    volume,
+    volumeReliable,
+    surfaceArea,
+    triangleCount,
+    vertexCount,
+    edgeCount,
+    boundingBox,
+    normalDistribution,
+    edgeAnalysis,
+    cavityAnalysis,
+    voidAnalysis,
+    channelAnalysis,
+    threadAnalysis,
+    surfaceFeatures,
+    wallThickness,
+    clearance,
+    geometricComplexity,
+    componentAnalysis,
+    meshIntegrity,
+    orientation,
+    fileFormat: "STL",
+  };
+}
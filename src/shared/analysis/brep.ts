@@ -0,0 +1,394 @@
+import * as THREE from "three";
+import { addOuterProduct, perpendicularBasis, solve3, solveLinearSystem, symmetricEigen3, zeroMatrix3 } from "./linalg";
+import type { BrepAnalysis, BrepFace, BrepSurface, FilletInfo, HoleInfo, ModelData } from "./types";
+
+// Triangle range of one CAD face, as occt reports it (both ends included)
+export interface BrepFaceRange {
+  first: number;
+  last: number;
+}
+
+interface FaceSamples {
+  // Tessellation vertices, which lie on the exact surface
+  points: THREE.Vector3[];
+  // occt averages them over the adjacent triangles: only good for telling the sides apart
+  normals: THREE.Vector3[];
+  triangleNormals: THREE.Vector3[];
+}
+
+// Deviation allowed from an analytic surface: float32 rounding of the tessellation, not modelling error
+const fitTolerance = (points: THREE.Vector3[]) =>
+  Math.max(1e-3, 1e-6 * Math.max(...points.map(p => Math.abs(p.x) + Math.abs(p.y) + Math.abs(p.z))));
+
+const rms = (values: number[]) => Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+
+const centroid = (points: THREE.Vector3[]) => points.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(points.length);
+
+function fitPlane({ points, normals }: FaceSamples, tolerance: number): BrepSurface | null {
+  const mean = centroid(points);
+  const covariance = zeroMatrix3();
+  for (const p of points) addOuterProduct(covariance, p.clone().sub(mean));
+  const normal = symmetricEigen3(covariance).vectors[2];
+  if (normals.reduce((sum, n) => sum + n.dot(normal), 0) < 0) normal.negate();
+  const offset = mean.dot(normal);
+  if (rms(points.map(p => p.dot(normal) - offset)) > tolerance) return null;
+  return { type: "plane", normal, offset };
+}
+
+// Angle covered by points around an axis, from the largest gap between them, in degrees
+function angularCoverage(points: THREE.Vector3[], axis: THREE.Vector3, center: THREE.Vector3): number {
+  const [u, v] = perpendicularBasis(axis);
+  const relative = new THREE.Vector3();
+  const angles = points.map(p => {
+    relative.subVectors(p, center);
+    return Math.atan2(relative.dot(v), relative.dot(u));
+  }).sort((a, b) => a - b);
+  let largestGap = angles[0] + 2 * Math.PI - angles[angles.length - 1];
+  for (let i = 1; i < angles.length; i++) largestGap = Math.max(largestGap, angles[i] - angles[i - 1]);
+  return 360 - largestGap * 180 / Math.PI;
+}
+
+// Kåsa circle fit in the plane normal to `axis`, about the points' centroid for conditioning
+function fitCircle(points: THREE.Vector3[], axis: THREE.Vector3): { center: THREE.Vector3; radius: number } | null {
+  const [u, v] = perpendicularBasis(axis);
+  const mean = centroid(points);
+  const normal = zeroMatrix3();
+  const rhs: [number, number, number] = [0, 0, 0];
+  const relative = new THREE.Vector3();
+  for (const p of points) {
+    relative.subVectors(p, mean);
+    const x = relative.dot(u);
+    const y = relative.dot(v);
+    const row = [x, y, 1];
+    const target = -(x * x + y * y);
+    for (let a = 0; a < 3; a++) {
+      rhs[a] += row[a] * target;
+      for (let b = 0; b < 3; b++) normal[a][b] += row[a] * row[b];
+    }
+  }
+  const solution = solve3(normal, rhs);
+  if (!solution) return null;
+  const [cx, cy] = [-solution[0] / 2, -solution[1] / 2];
+  const radiusSq = cx * cx + cy * cy - solution[2];
+  if (!(radiusSq > 0)) return null;
+  return { center: mean.addScaledVector(u, cx).addScaledVector(v, cy), radius: Math.sqrt(radiusSq) };
+}
+
+const axisFromAngles = (theta: number, phi: number) =>
+  new THREE.Vector3(Math.sin(theta) * Math.cos(phi), Math.sin(theta) * Math.sin(phi), Math.cos(theta));
+
+// Surfaces of revolution as [θ, φ, cx, cy, cz, ...radii]: axis direction, a point on it, shape
+function axisParameters(axis: THREE.Vector3, center: THREE.Vector3, ...radii: number[]): number[] {
+  return [Math.acos(Math.max(-1, Math.min(1, axis.z))), Math.atan2(axis.y, axis.x), center.x, center.y, center.z, ...radii];
+}
+
+// Levenberg–Marquardt on the distances of the points to the surface, with a numeric Jacobian
+function refineFit(initial: number[], distances: (params: number[]) => number[]): number[] {
+  let params = initial;
+  let residuals = distances(params);
+  let cost = residuals.reduce((sum, r) => sum + r * r, 0);
+  let damping = 1e-3;
+
+  for (let iteration = 0; iteration < 50 && cost > 0; iteration++) {
+    const columns = params.map((value, k) => {
+      const step = 1e-7 * Math.max(1, Math.abs(value));
+      const shifted = distances(params.map((p, j) => (j === k ? p + step : p)));
+      return shifted.map((d, i) => (d - residuals[i]) / step);
+    });
+    const normal = columns.map(a => columns.map(b => a.reduce((sum, x, i) => sum + x * b[i], 0)));
+    const gradient = columns.map(a => -a.reduce((sum, x, i) => sum + x * residuals[i], 0));
+
+    let improved = false;
+    while (damping < 1e12) {
+      const damped = normal.map((row, i) => row.map((value, j) => (i === j ? value * (1 + damping) + 1e-15 : value)));
+      const delta = solveLinearSystem(damped, gradient);
+      if (delta) {
+        const candidate = params.map((p, k) => p + delta[k]);
+        const candidateResiduals = distances(candidate);
+        const candidateCost = candidateResiduals.reduce((sum, r) => sum + r * r, 0);
+        if (candidateCost < cost) {
+          const converged = cost - candidateCost < 1e-14 * cost;
+          [params, residuals, cost] = [candidate, candidateResiduals, candidateCost];
+          damping = Math.max(damping / 3, 1e-12);
+          improved = !converged;
+          break;
+        }
+      }
+      damping *= 4;
+    }
+    if (!improved) break;
+  }
+  return params;
+}
+
+// Whether normals point away from the axis: a boss or an outer round rather than a bore or an inner blend
+function facesAway({ points, normals }: FaceSamples, axis: THREE.Vector3, center: THREE.Vector3): boolean {
+  let away = 0;
+  const radial = new THREE.Vector3();
+  points.forEach((p, i) => {
+    radial.subVectors(p, center);
+    radial.addScaledVector(axis, -radial.dot(axis));
+    away += radial.dot(normals[i]);
+  });
+  return away > 0;
+}
+
+// The facets of a cylinder run between rulings, so their normals are perpendicular to the axis
+function fitCylinderFace(samples: FaceSamples, tolerance: number): BrepSurface | null {
+  const { points, triangleNormals } = samples;
+  const tensor = zeroMatrix3();
+  for (const n of triangleNormals) addOuterProduct(tensor, n);
+  const { values, vectors } = symmetricEigen3(tensor);
+  if (values[2] > 1e-3 * values[0]) return null;
+  const circle = fitCircle(points, vectors[2]);
+  if (!circle) return null;
+
+  const [theta, phi, cx, cy, cz, radius] = refineFit(axisParameters(vectors[2], circle.center, circle.radius), ([t, f, x, y, z, r]) => {
+    const axis = axisFromAngles(t, f);
+    const relative = new THREE.Vector3();
+    return points.map(p => {
+      relative.set(p.x - x, p.y - y, p.z - z);
+      return relative.addScaledVector(axis, -relative.dot(axis)).length() - r;
+    });
+  });
+  const axis = axisFromAngles(theta, phi);
+  const onAxis = new THREE.Vector3(cx, cy, cz);
+  const relative = new THREE.Vector3();
+  const deviations = points.map(p => relative.subVectors(p, onAxis).addScaledVector(axis, -relative.dot(axis)).length() - radius);
+  if (!(radius > tolerance) || rms(deviations) > tolerance) return null;
+
+  const heights = points.map(p => p.clone().sub(onAxis).dot(axis));
+  const tMin = Math.min(...heights);
+  const tMax = Math.max(...heights);
+  const center = onAxis.addScaledVector(axis, (tMin + tMax) / 2);
+  return {
+    type: "cylinder",
+    axis,
+    center,
+    radius,
+    concave: !facesAway(samples, axis, center),
+    coverage: angularCoverage(points, axis, center),
+    length: tMax - tMin,
+  };
+}
+
+// Smallest spread of the points moved `rho` against their normals; zero where they land on a plane
+function planarity({ points, normals }: FaceSamples, rho: number): { spread: number; axis: THREE.Vector3 } {
+  const shifted = points.map((p, i) => p.clone().addScaledVector(normals[i], -rho));
+  const mean = centroid(shifted);
+  const covariance = zeroMatrix3();
+  for (const q of shifted) addOuterProduct(covariance, q.clone().sub(mean), 1 / shifted.length);
+  const { values, vectors } = symmetricEigen3(covariance);
+  return { spread: Math.sqrt(Math.max(0, values[2])), axis: vectors[2] };
+}
+
+// A torus is a tube of radius r around a circle: moving every point r against its normal
+// lands it on that circle. A first guess comes from the approximate normals (tube radius
+// near the strongest curvature along the triangle edges), then the exact points refine it.
+function fitTorusFace(samples: FaceSamples, tolerance: number): BrepSurface | null {
+  const { points, normals } = samples;
+  let strongest = 0;
+  for (let i = 0; i + 2 < points.length; i += 3) {
+    for (const [a, b] of [[i, i + 1], [i + 1, i + 2], [i + 2, i]]) {
+      const chord = points[b].clone().sub(points[a]);
+      const lengthSq = chord.lengthSq();
+      if (lengthSq === 0) continue;
+      const curvature = normals[b].clone().sub(normals[a]).dot(chord) / lengthSq;
+      if (Math.abs(curvature) > Math.abs(strongest)) strongest = curvature;
+    }
+  }
+  if (strongest === 0) return null;
+
+  // Edge curvatures stay below the principal one, so the tube radius is at most about 1/|κ|
+  let low = 0.3 / strongest;
+  let high = 1.1 / strongest;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 60; i++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (Math.abs(planarity(samples, a).spread) < Math.abs(planarity(samples, b).spread)) high = b;
+    else low = a;
+  }
+  const rho = (low + high) / 2;
+  const guessAxis = planarity(samples, rho).axis;
+  const spine = fitCircle(points.map((p, i) => p.clone().addScaledVector(normals[i], -rho)), guessAxis);
+  if (!spine) return null;
+
+  const torusDistance = (p: THREE.Vector3, axis: THREE.Vector3, center: THREE.Vector3, major: number, minor: number) => {
+    const relative = p.clone().sub(center);
+    const height = relative.dot(axis);
+    const radial = relative.addScaledVector(axis, -height).length();
+    return Math.hypot(radial - major, height) - minor;
+  };
+  const [theta, phi, cx, cy, cz, majorRadius, minorRadius] = refineFit(
+    axisParameters(guessAxis, spine.center, spine.radius, Math.abs(rho)),
+    ([t, f, x, y, z, major, minor]) => {
+      const axis = axisFromAngles(t, f);
+      const center = new THREE.Vector3(x, y, z);
+      return points.map(p => torusDistance(p, axis, center, major, minor));
+    }
+  );
+  const axis = axisFromAngles(theta, phi);
+  const center = new THREE.Vector3(cx, cy, cz);
+  // A vanishing major radius is a sphere, not a blend around an edge
+  if (!(minorRadius > tolerance) || !(majorRadius > tolerance)) return null;
+  if (rms(points.map(p => torusDistance(p, axis, center, majorRadius, minorRadius))) > tolerance) return null;
+
+  // Normals pointing away from the tube's centre circle make a convex round
+  let away = 0;
+  points.forEach((p, i) => {
+    const relative = p.clone().sub(center);
+    const ring = relative.clone().addScaledVector(axis, -relative.dot(axis)).setLength(majorRadius);
+    away += relative.sub(ring).dot(normals[i]);
+  });
+  return { type: "torus", axis, center, majorRadius, minorRadius, concave: away < 0 };
+}
+
+// Same cylinder: parallel axes on one line, equal radius, same side of the material
+function sameCylinder(a: Extract<BrepSurface, { type: "cylinder" }>, b: Extract<BrepSurface, { type: "cylinder" }>, tolerance: number): boolean {
+  if (a.concave !== b.concave || Math.abs(a.radius - b.radius) > tolerance) return false;
+  if (Math.abs(a.axis.dot(b.axis)) < 1 - 1e-6) return false;
+  const offset = b.center.clone().sub(a.center);
+  return offset.sub(a.axis.clone().multiplyScalar(offset.dot(a.axis))).length() <= tolerance;
+}
+
+// Classifies every CAD face of an unindexed mesh whose normals come from the CAD surfaces
+export function classifyBrepFaces(geometry: THREE.BufferGeometry, ranges: BrepFaceRange[]): BrepAnalysis {
+  const positions = geometry.getAttribute("position");
+  const normalAttribute = geometry.getAttribute("normal");
+  const samples: FaceSamples[] = [];
+
+  const faces: BrepFace[] = ranges.map(({ first, last }) => {
+    const points: THREE.Vector3[] = [];
+    const normals: THREE.Vector3[] = [];
+    const triangleNormals: THREE.Vector3[] = [];
+    let area = 0;
+    for (let tri = first; tri <= last; tri++) {
+      const corners = [0, 1, 2].map(k => new THREE.Vector3().fromBufferAttribute(positions, tri * 3 + k));
+      const cross = corners[1].clone().sub(corners[0]).cross(corners[2].clone().sub(corners[0]));
+      area += cross.length() / 2;
+      if (cross.lengthSq() > 0) triangleNormals.push(cross.normalize());
+      points.push(...corners);
+      if (normalAttribute) {
+        for (let k = 0; k < 3; k++) normals.push(new THREE.Vector3().fromBufferAttribute(normalAttribute, tri * 3 + k).normalize());
+      }
+    }
+    const faceSamples = { points, normals, triangleNormals };
+    samples.push(faceSamples);
+
+    let surface: BrepSurface | null = null;
+    if (normals.length === points.length && triangleNormals.length > 0) {
+      const tolerance = fitTolerance(points);
+      surface = fitPlane(faceSamples, tolerance)
+        ?? fitCylinderFace(faceSamples, tolerance)
+        ?? fitTorusFace(faceSamples, tolerance);
+    }
+    return { firstTriangle: first, lastTriangle: last, area, surface: surface ?? { type: "other" } };
+  });
+
+  // CAD systems split full cylinders at a seam: coverage counts every face of the same cylinder
+  const cylinders = faces.flatMap((face, i) => (face.surface.type === "cylinder" ? [i] : []));
+  const grouped = new Set<number>();
+  for (const i of cylinders) {
+    if (grouped.has(i)) continue;
+    const surface = faces[i].surface as Extract<BrepSurface, { type: "cylinder" }>;
+    const tolerance = fitTolerance(samples[i].points);
+    const group = cylinders.filter(j => !grouped.has(j) && sameCylinder(surface, faces[j].surface as typeof surface, tolerance));
+    group.forEach(j => grouped.add(j));
+    if (group.length < 2) continue;
+    const points = group.flatMap(j => samples[j].points);
+    const coverage = angularCoverage(points, surface.axis, surface.center);
+    for (const j of group) (faces[j].surface as typeof surface).coverage = coverage;
+  }
+
+  const count = (type: BrepSurface["type"]) => faces.filter(f => f.surface.type === type).length;
+  return { faces, planeCount: count("plane"), cylinderCount: count("cylinder"), torusCount: count("torus"), otherCount: count("other") };
+}
+
+// The faces of one body, renumbered from the body's first triangle
+export function sliceBrep(brep: BrepAnalysis, triangleStart: number, triangleCount: number): BrepAnalysis {
+  const faces = brep.faces
+    .filter(f => f.firstTriangle >= triangleStart && f.lastTriangle < triangleStart + triangleCount)
+    .map(f => ({ ...f, firstTriangle: f.firstTriangle - triangleStart, lastTriangle: f.lastTriangle - triangleStart }));
+  const count = (type: BrepSurface["type"]) => faces.filter(f => f.surface.type === type).length;
+  return { faces, planeCount: count("plane"), cylinderCount: count("cylinder"), torusCount: count("torus"), otherCount: count("other") };
+}
+
+function faceCenter(positions: THREE.BufferAttribute, face: BrepFace): THREE.Vector3 {
+  const center = new THREE.Vector3();
+  const vertex = new THREE.Vector3();
+  for (let corner = face.firstTriangle * 3; corner < (face.lastTriangle + 1) * 3; corner++) {
+    center.add(vertex.fromBufferAttribute(positions, corner));
+  }
+  return center.divideScalar((face.lastTriangle - face.firstTriangle + 1) * 3);
+}
+
+// Replaces the mesh estimates of fillets, hole diameters and the flat base with the
+// parameters of the CAD faces. Sharp edges and hole detection stay with the mesh analysis.
+export function applyBrep(data: ModelData, brep: BrepAnalysis): ModelData {
+  const positions = data.geometry.getAttribute("position") as THREE.BufferAttribute;
+
+  // Blends are cylinders covering at most half a turn, and tori; the same limit the mesh analysis uses
+  const fillets: FilletInfo[] = brep.faces.flatMap((face) => {
+    const { surface } = face;
+    if (surface.type !== "torus" && (surface.type !== "cylinder" || surface.coverage > 180)) return [];
+    return [{
+      radius: surface.type === "torus" ? surface.minorRadius : surface.radius,
+      convex: !surface.concave,
+      center: faceCenter(positions, face),
+      area: face.area,
+      triangleCount: face.lastTriangle - face.firstTriangle + 1,
+      fit: "brep" as const,
+    }];
+  }).sort((a, b) => a.radius - b.radius);
+
+  const { edgeAnalysis } = data;
+  const outerRadii = fillets.filter(f => f.convex).map(f => f.radius);
+  const innerRadii = fillets.filter(f => !f.convex).map(f => f.radius);
+  if (edgeAnalysis.sharpEdgeChains.some(c => c.convex)) outerRadii.push(0);
+  if (edgeAnalysis.sharpEdgeChains.some(c => !c.convex)) innerRadii.push(0);
+
+  const bores = brep.faces.flatMap(f => (f.surface.type === "cylinder" && f.surface.concave && f.surface.coverage >= 300 ? [f.surface] : []));
+  const holes = data.cavityAnalysis.holes.map((hole): HoleInfo => {
+    const bore = bores.find((b) => {
+      if (Math.abs(b.axis.dot(hole.axis)) < 0.99 || Math.abs(hole.diameter / 2 - b.radius) > 0.25 * b.radius) return false;
+      const offset = hole.center.clone().sub(b.center);
+      return offset.sub(b.axis.clone().multiplyScalar(offset.dot(b.axis))).length() < 0.25 * b.radius;
+    });
+    if (!bore) return hole;
+    const diameter = bore.radius * 2;
+    return { ...hole, diameter, depthRatio: hole.depth / diameter, accuracy: "exact" };
+  }).sort((a, b) => a.diameter - b.diameter);
+
+  // Largest set of coplanar faces facing down, with the mesh analysis's -Y or -Z criterion
+  const bases = new Map<string, { normal: THREE.Vector3; area: number }>();
+  for (const face of brep.faces) {
+    const { surface } = face;
+    if (surface.type !== "plane" || !(surface.normal.y < -0.9 || surface.normal.z < -0.9)) continue;
+    const key = [surface.normal.x, surface.normal.y, surface.normal.z, surface.offset].map(v => v.toFixed(3)).join(",");
+    const base = bases.get(key) ?? { normal: surface.normal, area: 0 };
+    base.area += face.area;
+    bases.set(key, base);
+  }
+  const base = [...bases.values()].sort((a, b) => b.area - a.area)[0];
+
+  return {
+    ...data,
+    brep,
+    edgeAnalysis: {
+      ...edgeAnalysis,
+      fillets,
+      minFilletRadius: outerRadii.length > 0 ? Math.min(...outerRadii) : null,
+      minTJunctionRadius: innerRadii.length > 0 ? Math.min(...innerRadii) : null,
+      tJunctionCount: edgeAnalysis.sharpEdgeChains.filter(c => !c.convex).length + fillets.filter(f => !f.convex).length,
+    },
+    cavityAnalysis: { ...data.cavityAnalysis, holes },
+    geometricComplexity: {
+      ...data.geometricComplexity,
+      hasFlatBase: base !== undefined,
+      flatBaseArea: base?.area ?? 0,
+      flatBaseNormal: base?.normal.clone() ?? null,
+      flatBaseAccuracy: "exact",
+    },
+  };
+}
@@ -0,0 +1,241 @@
+import * as THREE from "three";
+
+// Scratch vectors for rayTriangleIntersect, which runs millions of times per analysis
+const _edge1 = new THREE.Vector3();
+const _edge2 = new THREE.Vector3();
+const _h = new THREE.Vector3();
+const _s = new THREE.Vector3();
+const _q = new THREE.Vector3();
+
+// Ray-triangle intersection using Möller–Trumbore algorithm
+export function rayTriangleIntersect(
+  rayOrigin: THREE.Vector3,
+  rayDir: THREE.Vector3,
+  v0: THREE.Vector3,
+  v1: THREE.Vector3,
+  v2: THREE.Vector3
+): number | null {
+  const EPSILON = 0.0000001;
+  const edge1 = _edge1.subVectors(v1, v0);
+  const edge2 = _edge2.subVectors(v2, v0);
+  const h = _h.crossVectors(rayDir, edge2);
+  const a = edge1.dot(h);
+  
+  if (a > -EPSILON && a < EPSILON) return null;
+  
+  const f = 1.0 / a;
+  const s = _s.subVectors(rayOrigin, v0);
+  const u = f * s.dot(h);
+  
+  if (u < 0.0 || u > 1.0) return null;
+  
+  const q = _q.crossVectors(s, edge1);
+  const v = f * rayDir.dot(q);
+  
+  if (v < 0.0 || u + v > 1.0) return null;
+  
+  const t = f * edge2.dot(q);
+  
+  if (t > EPSILON) return t;
+  
+  return null;
+}
+
+interface TriangleBVHNode {
+  box: THREE.Box3;
+  start: number;
+  count: number;
+  left: TriangleBVHNode | null;
+  right: TriangleBVHNode | null;
+}
+
+export interface TriangleBVH {
+  root: TriangleBVHNode;
+  triangles: number[];
+  positions: THREE.BufferAttribute;
+}
+
+const BVH_LEAF_SIZE = 8;
+
+// Bounding volume hierarchy over a subset of triangles (midpoint split on the longest centroid axis)
+export function buildTriangleBVH(positions: THREE.BufferAttribute, triangleIndices: number[]): TriangleBVH {
+  const triangles = triangleIndices.slice();
+  const centroids = new Float32Array(positions.count);
+  const vertex = new THREE.Vector3();
+
+  for (const tri of triangles) {
+    for (let axis = 0; axis < 3; axis++) {
+      centroids[tri * 3 + axis] =
+        (positions.getComponent(tri * 3, axis) +
+          positions.getComponent(tri * 3 + 1, axis) +
+          positions.getComponent(tri * 3 + 2, axis)) / 3;
+    }
+  }
+
+  const buildNode = (start: number, count: number): TriangleBVHNode => {
+    const box = new THREE.Box3();
+    const centroidBox = new THREE.Box3();
+    for (let i = start; i < start + count; i++) {
+      const tri = triangles[i];
+      for (let k = 0; k < 3; k++) {
+        box.expandByPoint(vertex.fromBufferAttribute(positions, tri * 3 + k));
+      }
+      centroidBox.expandByPoint(vertex.set(centroids[tri * 3], centroids[tri * 3 + 1], centroids[tri * 3 + 2]));
+    }
+
+    const node: TriangleBVHNode = { box, start, count, left: null, right: null };
+    if (count <= BVH_LEAF_SIZE) return node;
+
+    const extent = new THREE.Vector3();
+    centroidBox.getSize(extent);
+    const axis = extent.x >= extent.y && extent.x >= extent.z ? 0 : extent.y >= extent.z ? 1 : 2;
+    const splitValue = (centroidBox.min.getComponent(axis) + centroidBox.max.getComponent(axis)) / 2;
+
+    let mid = start;
+    for (let i = start; i < start + count; i++) {
+      if (centroids[triangles[i] * 3 + axis] < splitValue) {
+        [triangles[i], triangles[mid]] = [triangles[mid], triangles[i]];
+        mid++;
+      }
+    }
+    // All centroids on one side (coincident triangles): split the range in half
+    if (mid === start || mid === start + count) mid = start + Math.floor(count / 2);
+
+    node.left = buildNode(start, mid - start);
+    node.right = buildNode(mid, start + count - mid);
+    return node;
+  };
+
+  return { root: buildNode(0, triangles.length), triangles, positions };
+}
+
+// Closest point on the BVH surface to `point`, searching only within `maxDistance`
+export function closestPointOnBVH(
+  bvh: TriangleBVH,
+  point: THREE.Vector3,
+  maxDistance = Infinity
+): { distance: number; point: THREE.Vector3; triangle: number } | null {
+  let bestDistance = maxDistance;
+  let bestPoint: THREE.Vector3 | null = null;
+  let bestTriangle = -1;
+
+  const triangle = new THREE.Triangle();
+  const candidate = new THREE.Vector3();
+  const stack: TriangleBVHNode[] = [bvh.root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node.box.distanceToPoint(point) >= bestDistance) continue;
+
+    if (!node.left || !node.right) {
+      for (let i = node.start; i < node.start + node.count; i++) {
+        const tri = bvh.triangles[i];
+        triangle.setFromAttributeAndIndices(bvh.positions, tri * 3, tri * 3 + 1, tri * 3 + 2);
+        triangle.closestPointToPoint(point, candidate);
+        const distance = candidate.distanceTo(point);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          bestPoint = candidate.clone();
+          bestTriangle = tri;
+        }
+      }
+      continue;
+    }
+
+    // Visit the nearer child first so its result prunes the farther one
+    const leftDistance = node.left.box.distanceToPoint(point);
+    const rightDistance = node.right.box.distanceToPoint(point);
+    if (leftDistance < rightDistance) {
+      stack.push(node.right, node.left);
+    } else {
+      stack.push(node.left, node.right);
+    }
+  }
+
+  return bestPoint ? { distance: bestDistance, point: bestPoint, triangle: bestTriangle } : null;
+}
+
+// Candidate triangles from the BVH leaves overlapping `box` (callers do the exact test)
+export function trianglesInBox(bvh: TriangleBVH, box: THREE.Box3): number[] {
+  const found: number[] = [];
+  const stack: TriangleBVHNode[] = [bvh.root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (!node.box.intersectsBox(box)) continue;
+    if (!node.left || !node.right) {
+      for (let i = node.start; i < node.start + node.count; i++) found.push(bvh.triangles[i]);
+      continue;
+    }
+    stack.push(node.left, node.right);
+  }
+
+  return found;
+}
+
+// Entry distance of a ray into a box (slab test), Infinity when it misses
+function rayBoxDistance(origin: THREE.Vector3, invDir: THREE.Vector3, box: THREE.Box3): number {
+  const tx1 = (box.min.x - origin.x) * invDir.x;
+  const tx2 = (box.max.x - origin.x) * invDir.x;
+  const ty1 = (box.min.y - origin.y) * invDir.y;
+  const ty2 = (box.max.y - origin.y) * invDir.y;
+  const tz1 = (box.min.z - origin.z) * invDir.z;
+  const tz2 = (box.max.z - origin.z) * invDir.z;
+  // NaN (ray lying on a slab plane) falls back to an unbounded slab; erring wide only costs an extra node visit
+  const tMin = Math.max(
+    Math.min(tx1, tx2) || 0, Math.min(ty1, ty2) || 0, Math.min(tz1, tz2) || 0, 0
+  );
+  const tMax = Math.min(
+    Math.max(tx1, tx2) || Infinity, Math.max(ty1, ty2) || Infinity, Math.max(tz1, tz2) || Infinity
+  );
+  return tMax >= tMin ? tMin : Infinity;
+}
+
+// Nearest triangle hit along a ray, ignoring hits closer than `minDistance`
+export function raycastBVH(
+  bvh: TriangleBVH,
+  origin: THREE.Vector3,
+  direction: THREE.Vector3,
+  minDistance = 0,
+  maxDistance = Infinity,
+  ignoreTriangle = -1
+): { distance: number; triangle: number } | null {
+  const invDir = new THREE.Vector3(1 / direction.x, 1 / direction.y, 1 / direction.z);
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  let bestDistance = maxDistance;
+  let bestTriangle = -1;
+  const stack: TriangleBVHNode[] = [bvh.root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (rayBoxDistance(origin, invDir, node.box) >= bestDistance) continue;
+
+    if (!node.left || !node.right) {
+      for (let i = node.start; i < node.start + node.count; i++) {
+        const tri = bvh.triangles[i];
+        if (tri === ignoreTriangle) continue;
+        v0.fromBufferAttribute(bvh.positions, tri * 3);
+        v1.fromBufferAttribute(bvh.positions, tri * 3 + 1);
+        v2.fromBufferAttribute(bvh.positions, tri * 3 + 2);
+        const t = rayTriangleIntersect(origin, direction, v0, v1, v2);
+        if (t !== null && t > minDistance && t < bestDistance) {
+          bestDistance = t;
+          bestTriangle = tri;
+        }
+      }
+      continue;
+    }
+
+    const leftDistance = rayBoxDistance(origin, invDir, node.left.box);
+    const rightDistance = rayBoxDistance(origin, invDir, node.right.box);
+    if (leftDistance < rightDistance) {
+      stack.push(node.right, node.left);
+    } else {
+      stack.push(node.left, node.right);
+    }
+  }
+
+  return bestTriangle >= 0 ? { distance: bestDistance, triangle: bestTriangle } : null;
+}
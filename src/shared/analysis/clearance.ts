@@ -0,0 +1,131 @@
+import * as THREE from "three";
+import { buildTriangleBVH, raycastBVH } from "./bvh";
+import { buildEdgeMap, computeSignedVolume } from "./mesh";
+import { buildFaceAdjacency } from "./surfaces";
+import type { ClearanceAnalysis, GapBin, GapLocation, Guidelines } from "./types";
+
+// Gaps wider than this are open space, not clearances
+const MAX_GAP = 10;
+// The wall that is hit has to face back towards the ray: normals at least 120° apart
+export const FACING_DOT = -0.5;
+const MAX_NARROWEST = 10;
+// Neighbouring faces belong to the same gap while their widths stay this close
+const SAME_GAP_RATIO = 1.25;
+
+// Air gaps between surfaces that face each other: slots, the space between fins or
+// snap-fit arms, bores. The mirror of wall thickness: rays leave every triangle
+// along its outward normal and stop at the first wall looking back at them.
+export function analyzeClearance(
+  positions: THREE.BufferAttribute,
+  faceNormals: THREE.Vector3[],
+  guidelines: Guidelines
+): ClearanceAnalysis {
+  const triangleCount = positions.count / 3;
+  const orientedNormals = computeSignedVolume(positions) < 0
+    ? faceNormals.map(n => n.clone().negate())
+    : faceNormals;
+  const bvh = buildTriangleBVH(positions, Array.from({ length: triangleCount }, (_, i) => i));
+
+  // Same spread of rays as the wall thickness analysis
+  const angleOffsets = [
+    new THREE.Vector3(0, 0, 0),
+    new THREE.Vector3(0.1, 0, 0),
+    new THREE.Vector3(-0.1, 0, 0),
+    new THREE.Vector3(0, 0.1, 0),
+    new THREE.Vector3(0, -0.1, 0),
+  ];
+
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  const centroids: THREE.Vector3[] = [];
+  const faceAreas = new Float32Array(triangleCount);
+  const faceGap = new Float32Array(triangleCount).fill(NaN);
+  const faceHit = new Int32Array(triangleCount).fill(-1);
+  const faceDirection: THREE.Vector3[] = [];
+  const rayDir = new THREE.Vector3();
+
+  for (let i = 0; i < triangleCount; i++) {
+    v0.fromBufferAttribute(positions, i * 3);
+    v1.fromBufferAttribute(positions, i * 3 + 1);
+    v2.fromBufferAttribute(positions, i * 3 + 2);
+    const centroid = new THREE.Vector3().addVectors(v0, v1).add(v2).divideScalar(3);
+    centroids.push(centroid);
+    faceAreas[i] = v1.sub(v0).cross(v2.sub(v0)).length() * 0.5;
+
+    let nearest = MAX_GAP;
+    for (const offset of angleOffsets) {
+      rayDir.copy(orientedNormals[i]).add(offset).normalize();
+      const hit = raycastBVH(bvh, centroid, rayDir, 0.01, nearest, i);
+      // Side walls of a concave corner are hit too, but they do not face back
+      if (!hit || orientedNormals[hit.triangle].dot(orientedNormals[i]) > FACING_DOT) continue;
+      nearest = hit.distance;
+      faceGap[i] = hit.distance;
+      faceHit[i] = hit.triangle;
+      faceDirection[i] = rayDir.clone();
+    }
+  }
+
+  const measured: number[] = [];
+  let measuredArea = 0;
+  for (let i = 0; i < triangleCount; i++) {
+    if (Number.isNaN(faceGap[i])) continue;
+    measured.push(i);
+    measuredArea += faceAreas[i];
+  }
+  measured.sort((a, b) => faceGap[a] - faceGap[b]);
+
+  // Bins split at the profile's limits, then at fixed widths; bounds that would run backwards are dropped
+  const bounds = [guidelines.minCavityWidth, guidelines.minGap, 2, 5, MAX_GAP].filter((upTo, i, all) => i === 0 || upTo > all[i - 1]);
+  const distribution: GapBin[] = bounds.map(upTo => ({ upTo, faceCount: 0, areaPercent: 0 }));
+  for (const face of measured) {
+    const bin = distribution.find(b => faceGap[face] < b.upTo) ?? distribution[distribution.length - 1];
+    bin.faceCount++;
+    bin.areaPercent += measuredArea > 0 ? (faceAreas[face] / measuredArea) * 100 : 0;
+  }
+
+  // One entry per gap: faces join their neighbours of similar width and the wall they
+  // look at, so both sides of a slot and its whole length count as one place
+  const adjacency = buildFaceAdjacency(buildEdgeMap(positions), triangleCount);
+  const parent = Int32Array.from({ length: triangleCount }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  for (const face of measured) {
+    const hit = faceHit[face];
+    if (!Number.isNaN(faceGap[hit])) parent[find(hit)] = find(face);
+    for (const neighbour of adjacency[face]) {
+      if (Number.isNaN(faceGap[neighbour])) continue;
+      const ratio = Math.max(faceGap[face], faceGap[neighbour]) / Math.min(faceGap[face], faceGap[neighbour]);
+      if (ratio <= SAME_GAP_RATIO) parent[find(neighbour)] = find(face);
+    }
+  }
+
+  // Faces are sorted, so the first face seen in each group is its narrowest point
+  const narrowest: GapLocation[] = [];
+  const listed = new Set<number>();
+  for (const face of measured) {
+    if (narrowest.length >= MAX_NARROWEST) break;
+    const group = find(face);
+    if (listed.has(group)) continue;
+    listed.add(group);
+    narrowest.push({
+      distance: faceGap[face],
+      pointA: centroids[face].clone(),
+      pointB: centroids[face].clone().addScaledVector(faceDirection[face], faceGap[face]),
+    });
+  }
+
+  const gaps = measured.map(face => faceGap[face]);
+  const mid = Math.floor(gaps.length / 2);
+  return {
+    minGap: gaps.length > 0 ? gaps[0] : null,
+    medianGap: gaps.length === 0 ? null : gaps.length % 2 === 0 ? (gaps[mid - 1] + gaps[mid]) / 2 : gaps[mid],
+    measuredFaceCount: measured.length,
+    facesBelowMinGap: gaps.filter(g => g < guidelines.minGap).length,
+    facesBelowMinCavityWidth: gaps.filter(g => g < guidelines.minCavityWidth).length,
+    distribution,
+    narrowest,
+  };
+}
@@ -0,0 +1,86 @@
+import * as THREE from "three";
+import { perpendicularBasis, solve3, zeroMatrix3 } from "./linalg";
+import type { VertexCurvature } from "./types";
+
+// Discrete curvature at every welded vertex, spread back onto the corners of the
+// unindexed buffer. The shape operator is fitted by least squares to how the
+// vertex normal changes towards each one-ring neighbour (dn ≈ S · dp in the
+// tangent plane); its eigenvalues are the principal curvatures. `outwardSign`
+// is -1 for inside-out meshes so that convex regions stay positive.
+export function computeVertexCurvature(
+  positions: THREE.BufferAttribute,
+  vertexOf: Int32Array,
+  vertexCount: number,
+  outwardSign: number
+): VertexCurvature {
+  const triangleCount = positions.count / 3;
+  const points: THREE.Vector3[] = Array.from({ length: vertexCount }, () => new THREE.Vector3());
+  const normals: THREE.Vector3[] = Array.from({ length: vertexCount }, () => new THREE.Vector3());
+  const neighbours: number[][] = Array.from({ length: vertexCount }, () => []);
+
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  const areaNormal = new THREE.Vector3();
+
+  for (let face = 0; face < triangleCount; face++) {
+    v0.fromBufferAttribute(positions, face * 3);
+    v1.fromBufferAttribute(positions, face * 3 + 1);
+    v2.fromBufferAttribute(positions, face * 3 + 2);
+    // Unnormalized cross product: normals are area-weighted
+    areaNormal.crossVectors(v1.clone().sub(v0), v2.clone().sub(v0)).multiplyScalar(outwardSign);
+
+    for (let k = 0; k < 3; k++) {
+      const id = vertexOf[face * 3 + k];
+      points[id].fromBufferAttribute(positions, face * 3 + k);
+      normals[id].add(areaNormal);
+      for (const other of [vertexOf[face * 3 + (k + 1) % 3], vertexOf[face * 3 + (k + 2) % 3]]) {
+        if (other !== id && !neighbours[id].includes(other)) neighbours[id].push(other);
+      }
+    }
+  }
+  normals.forEach(n => n.normalize());
+
+  const mean = new Float32Array(vertexCount);
+  const max = new Float32Array(vertexCount);
+  const min = new Float32Array(vertexCount);
+  const dp = new THREE.Vector3();
+  const dn = new THREE.Vector3();
+
+  for (let id = 0; id < vertexCount; id++) {
+    if (neighbours[id].length < 2) continue;
+    const [u, v] = perpendicularBasis(normals[id]);
+
+    // Unknowns [S11, S12, S22]; each neighbour gives one equation per tangent direction
+    const lhs = zeroMatrix3();
+    const rhs: [number, number, number] = [0, 0, 0];
+    for (const other of neighbours[id]) {
+      dp.subVectors(points[other], points[id]);
+      dn.subVectors(normals[other], normals[id]);
+      const du = dp.dot(u);
+      const dv = dp.dot(v);
+      const rows: [[number, number, number], number][] = [
+        [[du, dv, 0], dn.dot(u)],
+        [[0, du, dv], dn.dot(v)],
+      ];
+      for (const [row, target] of rows) {
+        for (let i = 0; i < 3; i++) {
+          rhs[i] += row[i] * target;
+          for (let j = 0; j < 3; j++) lhs[i][j] += row[i] * row[j];
+        }
+      }
+    }
+
+    const solution = solve3(lhs, rhs);
+    if (!solution) continue;
+    const [s11, s12, s22] = solution;
+    const h = (s11 + s22) / 2;
+    const spread = Math.sqrt(((s11 - s22) / 2) ** 2 + s12 * s12);
+    mean[id] = h;
+    max[id] = h + spread;
+    min[id] = h - spread;
+  }
+
+  const perCorner = (values: Float32Array) => Float32Array.from(vertexOf, id => values[id]);
+  return { mean: perCorner(mean), max: perCorner(max), min: perCorner(min) };
+}
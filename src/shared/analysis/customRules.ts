@@ -0,0 +1,88 @@
+import type * as THREE from "three";
+import { format, parse, type MathNode } from "mathjs";
+import type { CustomRule, ValidationRule } from "./types";
+
+type ScopeValue = number | boolean | string | { [key: string]: ScopeValue };
+
+// Numbers, flags and labels of the model, nested as in ModelData. Meshes and lists stay
+// out; a missing measurement (null) becomes NaN, so comparisons on it fail instead of throwing.
+function toScope(value: unknown): ScopeValue | undefined {
+  if (value === null) return NaN;
+  if (typeof value === "number" || typeof value === "boolean" || typeof value === "string") return value;
+  if (typeof value !== "object" || Array.isArray(value)) return undefined;
+  if ((value as THREE.Vector3).isVector3) {
+    const { x, y, z } = value as THREE.Vector3;
+    return { x, y, z };
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) return undefined;
+
+  const scope: { [key: string]: ScopeValue } = {};
+  for (const [key, field] of Object.entries(value)) {
+    const converted = toScope(field);
+    if (converted !== undefined) scope[key] = converted;
+  }
+  return scope;
+}
+
+// "volume = 1234.5" for every field the expression reads, to show why it passed or failed
+function referencedValues(node: MathNode, scope: Record<string, unknown>): string[] {
+  const values = new Map<string, string>();
+  node.traverse((child, path, parent) => {
+    if (child.type !== "SymbolNode" && child.type !== "AccessorNode") return;
+    // Only whole paths: skip the `a` and `a.b` inside `a.b.c`, and function names
+    if ((parent?.type === "AccessorNode" && path === "object") || path === "fn") return;
+    const text = child.toString();
+    if (values.has(text)) return;
+    try {
+      const value = child.compile().evaluate({ ...scope });
+      if (typeof value === "number" || typeof value === "boolean") values.set(text, `${text} = ${format(value, { precision: 6 })}`);
+    } catch {
+      // An unknown field already fails the whole expression
+    }
+  });
+  return Array.from(values.values());
+}
+
+// Syntax check for the editor; unknown fields only show up against a model
+export function expressionError(expression: string): string | null {
+  try {
+    parse(expression);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Espressione non valida";
+  }
+}
+
+export function customRule(rule: CustomRule): ValidationRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    category: "custom",
+    severity: { passed: "info", failed: rule.severity },
+    check: ({ data, guidelines }) => {
+      const scope = { ...(toScope(data) as object), guidelines: toScope(guidelines) };
+      try {
+        const node = parse(rule.expression);
+        const result = node.compile().evaluate({ ...scope });
+        if (typeof result !== "boolean") {
+          throw new Error("l'espressione deve restituire vero o falso");
+        }
+        const values = referencedValues(node, scope);
+        return {
+          passed: result,
+          message: result
+            ? `Condizione rispettata: ${rule.expression}`
+            : `${rule.severity === "error" ? "ERRORE" : "ATTENZIONE"}: condizione non rispettata: ${rule.expression}`,
+          details: `${values.length > 0 ? `Valori: ${values.join(', ')}. ` : ''}Regola personalizzata del profilo.`,
+        };
+      } catch (err) {
+        return {
+          passed: false,
+          severity: "warning",
+          message: `Regola non valutabile: ${err instanceof Error ? err.message : String(err)}`,
+          details: `Espressione: ${rule.expression}`,
+        };
+      }
+    },
+  };
+}
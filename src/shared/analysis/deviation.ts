@@ -0,0 +1,258 @@
+import * as THREE from "three";
+import { buildTriangleBVH, closestPointOnBVH, type TriangleBVH } from "./bvh";
+import { symmetricEigen3, zeroMatrix3, type Matrix3x3 } from "./linalg";
+import { weldVertices } from "./mesh";
+import type { AnalysisStage, DeviationOptions, RevisionDeviation } from "./types";
+
+// Points spread over the new revision's surface to drive the alignment
+const ALIGNMENT_SAMPLES = 2000;
+const MAX_ITERATIONS = 50;
+// Pairs farther than this share of the samples are left out of each step: they are
+// where the part actually changed, and would drag the fit toward the change
+const TRIMMED_FRACTION = 0.1;
+// The deviation is measured at vertices, so long triangles are split until their edges are
+// shorter than this share of the model diagonal, within a cap on the triangles shown
+const REFINED_EDGE = 1 / 150;
+const MAX_REFINED_TRIANGLES = 300_000;
+
+interface Alignment {
+  matrix: THREE.Matrix4;
+  rms: number;
+}
+
+// Rotation R minimizing Σ|R·sᵢ − tᵢ|² for centred point pairs, from H = Σ sᵢ tᵢᵀ (Kabsch).
+// The singular vectors come from the eigenvectors of HᵀH; completing both bases with a cross
+// product keeps R a rotation even when the best orthogonal fit would be a reflection.
+function optimalRotation(h: Matrix3x3): THREE.Matrix4 {
+  const hth = zeroMatrix3();
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      hth[i][j] = h[0][i] * h[0][j] + h[1][i] * h[1][j] + h[2][i] * h[2][j];
+    }
+  }
+  const { values, vectors } = symmetricEigen3(hth);
+  // Collinear samples leave the rotation about their line undetermined
+  if (values[1] < 1e-12 * Math.max(values[0], 1e-300)) return new THREE.Matrix4();
+
+  const hv = (v: THREE.Vector3) => new THREE.Vector3(
+    h[0][0] * v.x + h[0][1] * v.y + h[0][2] * v.z,
+    h[1][0] * v.x + h[1][1] * v.y + h[1][2] * v.z,
+    h[2][0] * v.x + h[2][1] * v.y + h[2][2] * v.z,
+  );
+  const u0 = hv(vectors[0]).normalize();
+  const u1 = hv(vectors[1]).normalize();
+  const us = [u0, u1, new THREE.Vector3().crossVectors(u0, u1)];
+  const vs = [vectors[0], vectors[1], new THREE.Vector3().crossVectors(vectors[0], vectors[1])];
+
+  const r = zeroMatrix3();
+  for (let k = 0; k < 3; k++) {
+    const u = us[k].toArray();
+    const v = vs[k].toArray();
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) r[i][j] += v[i] * u[j];
+    }
+  }
+  return new THREE.Matrix4().set(
+    r[0][0], r[0][1], r[0][2], 0,
+    r[1][0], r[1][1], r[1][2], 0,
+    r[2][0], r[2][1], r[2][2], 0,
+    0, 0, 0, 1,
+  );
+}
+
+// Trimmed ICP: pair each sample with the closest point of the old surface, fit the rigid
+// transform of the closest 90% of the pairs, and repeat until the fit stops improving
+function iterateClosestPoint(bvh: TriangleBVH, samples: THREE.Vector3[], start: THREE.Matrix4, scale: number): Alignment {
+  const matrix = start.clone();
+  const moved = new THREE.Vector3();
+  const keep = Math.max(3, Math.ceil(samples.length * (1 - TRIMMED_FRACTION)));
+  let rms = Infinity;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const pairs: { source: THREE.Vector3; target: THREE.Vector3; distance: number }[] = [];
+    for (const sample of samples) {
+      moved.copy(sample).applyMatrix4(matrix);
+      const closest = closestPointOnBVH(bvh, moved);
+      if (closest) pairs.push({ source: moved.clone(), target: closest.point, distance: closest.distance });
+    }
+    pairs.sort((a, b) => a.distance - b.distance);
+    const kept = pairs.slice(0, keep);
+    if (kept.length < 3) break;
+
+    const previous = rms;
+    rms = Math.sqrt(kept.reduce((sum, p) => sum + p.distance * p.distance, 0) / kept.length);
+    if (previous - rms < 1e-7 * scale) break;
+
+    const sourceCenter = new THREE.Vector3();
+    const targetCenter = new THREE.Vector3();
+    for (const pair of kept) {
+      sourceCenter.add(pair.source);
+      targetCenter.add(pair.target);
+    }
+    sourceCenter.divideScalar(kept.length);
+    targetCenter.divideScalar(kept.length);
+
+    const h = zeroMatrix3();
+    for (const pair of kept) {
+      const s = pair.source.clone().sub(sourceCenter).toArray();
+      const t = pair.target.clone().sub(targetCenter).toArray();
+      for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) h[i][j] += s[i] * t[j];
+      }
+    }
+
+    // x ↦ R(x − s̄) + t̄, applied after what has been found so far
+    const rotation = optimalRotation(h);
+    const step = new THREE.Matrix4().makeTranslation(targetCenter)
+      .multiply(rotation)
+      .multiply(new THREE.Matrix4().makeTranslation(sourceCenter.clone().negate()));
+    matrix.premultiply(step);
+  }
+
+  return { matrix, rms };
+}
+
+// About `count` points evenly spread by area, so a large face of two triangles weighs as much as
+// a finely tessellated fillet of the same size. Barycentric coordinates follow the R2 sequence.
+function sampleSurface(positions: THREE.BufferAttribute, count: number): THREE.Vector3[] {
+  const triangle = new THREE.Triangle();
+  const triangleCount = positions.count / 3;
+  let totalArea = 0;
+  for (let tri = 0; tri < triangleCount; tri++) {
+    totalArea += triangle.setFromAttributeAndIndices(positions, tri * 3, tri * 3 + 1, tri * 3 + 2).getArea();
+  }
+  if (totalArea === 0) return [];
+
+  const spacing = totalArea / count;
+  const samples: THREE.Vector3[] = [];
+  let carry = 0;
+  for (let tri = 0; tri < triangleCount; tri++) {
+    triangle.setFromAttributeAndIndices(positions, tri * 3, tri * 3 + 1, tri * 3 + 2);
+    for (carry += triangle.getArea(); carry >= spacing; carry -= spacing) {
+      const n = samples.length;
+      let u = (0.5 + n * 0.7548776662) % 1;
+      let v = (0.5 + n * 0.5698402910) % 1;
+      if (u + v > 1) [u, v] = [1 - u, 1 - v];
+      samples.push(new THREE.Vector3()
+        .addScaledVector(triangle.a, 1 - u - v)
+        .addScaledVector(triangle.b, u)
+        .addScaledVector(triangle.c, v));
+    }
+  }
+  return samples;
+}
+
+// Two starting points: the files' own placement, for revisions drawn in the same frame, and the
+// new revision moved onto the old one's box center, for a part exported somewhere else
+function alignRevision(bvh: TriangleBVH, reference: THREE.BufferAttribute, revision: THREE.BufferAttribute): Alignment {
+  const samples = sampleSurface(revision, ALIGNMENT_SAMPLES);
+
+  const referenceBox = new THREE.Box3().setFromBufferAttribute(reference);
+  const revisionBox = new THREE.Box3().setFromBufferAttribute(revision);
+  const scale = referenceBox.getSize(new THREE.Vector3()).length();
+  const offset = referenceBox.getCenter(new THREE.Vector3()).sub(revisionBox.getCenter(new THREE.Vector3()));
+
+  const inPlace = iterateClosestPoint(bvh, samples, new THREE.Matrix4(), scale);
+  const centered = iterateClosestPoint(bvh, samples, new THREE.Matrix4().makeTranslation(offset), scale);
+  return centered.rms < inPlace.rms ? centered : inPlace;
+}
+
+// Longest-edge bisection, widest triangles first. A flat face exported as two triangles would
+// otherwise be measured only at its corners, which may all sit on the old surface.
+function refineTriangles(positions: THREE.BufferAttribute, maxEdge: number): Float32Array {
+  const queue: THREE.Vector3[][] = [];
+  for (let i = 0; i < positions.count; i += 3) {
+    queue.push([0, 1, 2].map(k => new THREE.Vector3().fromBufferAttribute(positions, i + k)));
+  }
+
+  const done: THREE.Vector3[][] = [];
+  for (let head = 0; head < queue.length; head++) {
+    const [a, b, c] = queue[head];
+    const edges = [a.distanceTo(b), b.distanceTo(c), c.distanceTo(a)];
+    const longest = edges.indexOf(Math.max(...edges));
+    if (edges[longest] <= maxEdge || done.length + queue.length - head >= MAX_REFINED_TRIANGLES) {
+      done.push(queue[head]);
+      continue;
+    }
+    // Rotate so the split edge is p0–p1, keeping the winding
+    const [p0, p1, p2] = [[a, b, c], [b, c, a], [c, a, b]][longest];
+    const mid = p0.clone().lerp(p1, 0.5);
+    queue.push([p0, mid, p2], [mid, p1, p2]);
+  }
+
+  const refined = new Float32Array(done.length * 9);
+  done.forEach((triangle, i) => triangle.forEach((v, k) => v.toArray(refined, i * 9 + k * 3)));
+  return refined;
+}
+
+// Signed distance from the surface of `revision` to the surface of `reference`, after aligning
+// the two when asked. The sign comes from the normal of the closest triangle, which can be
+// wrong just outside a convex edge sharper than 90°.
+export function measureDeviation(
+  reference: THREE.BufferAttribute,
+  revision: THREE.BufferAttribute,
+  options: DeviationOptions,
+  onProgress?: (stage: AnalysisStage) => void
+): RevisionDeviation {
+  const triangles = Array.from({ length: reference.count / 3 }, (_, i) => i);
+  const bvh = buildTriangleBVH(reference, triangles);
+
+  onProgress?.("alignment");
+  const { matrix, rms: alignmentRms } = options.align
+    ? alignRevision(bvh, reference, revision)
+    : { matrix: new THREE.Matrix4(), rms: 0 };
+
+  onProgress?.("deviation");
+  const diagonal = new THREE.Box3().setFromBufferAttribute(reference).getSize(new THREE.Vector3()).length();
+  const aligned = revision.clone().applyMatrix4(matrix) as THREE.BufferAttribute;
+  const surface = new THREE.BufferAttribute(refineTriangles(aligned, diagonal * REFINED_EDGE), 3);
+  // Corners of the unindexed buffer share a welded vertex, measured once
+  const { vertexOf, vertexCount } = weldVertices(surface);
+  const distances = new Float32Array(vertexCount).fill(NaN);
+  const values = new Float32Array(surface.count);
+  const point = new THREE.Vector3();
+  const triangle = new THREE.Triangle();
+  const normal = new THREE.Vector3();
+
+  for (let i = 0; i < surface.count; i++) {
+    const vertex = vertexOf[i];
+    if (Number.isNaN(distances[vertex])) {
+      point.fromBufferAttribute(surface, i);
+      const closest = closestPointOnBVH(bvh, point);
+      if (closest) {
+        triangle.setFromAttributeAndIndices(reference, closest.triangle * 3, closest.triangle * 3 + 1, closest.triangle * 3 + 2);
+        triangle.getNormal(normal);
+        const side = point.sub(closest.point).dot(normal);
+        distances[vertex] = side < 0 ? -closest.distance : closest.distance;
+      } else {
+        distances[vertex] = 0;
+      }
+    }
+    values[i] = distances[vertex];
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  let sumAbsolute = 0;
+  let sumSquares = 0;
+  let within = 0;
+  for (const distance of distances) {
+    min = Math.min(min, distance);
+    max = Math.max(max, distance);
+    sumAbsolute += Math.abs(distance);
+    sumSquares += distance * distance;
+    if (Math.abs(distance) <= options.tolerance) within++;
+  }
+
+  return {
+    matrix: matrix.toArray(),
+    alignmentRms,
+    positions: surface.array as Float32Array,
+    values,
+    min: vertexCount > 0 ? min : 0,
+    max: vertexCount > 0 ? max : 0,
+    meanAbsolute: vertexCount > 0 ? sumAbsolute / vertexCount : 0,
+    rms: vertexCount > 0 ? Math.sqrt(sumSquares / vertexCount) : 0,
+    withinTolerance: vertexCount > 0 ? within / vertexCount : 1,
+  };
+}
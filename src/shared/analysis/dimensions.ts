@@ -0,0 +1,198 @@
+import * as THREE from "three";
+import { buildTriangleBVH, closestPointOnBVH } from "./bvh";
+import { buildEdgeMap, calculateFaceNormals } from "./mesh";
+import { buildFaceAdjacency, fitCylinder, type CylinderFit } from "./surfaces";
+import type { DimensionMeasurement, DimensionPick, Guidelines, NominalDimension } from "./types";
+
+// Facets of one curved face, as for bore detection
+const CURVED_FACE_ANGLE = 40;
+// Facets of one flat face, measured against the picked facet
+const FLAT_FACE_ANGLE = 1;
+// A bore or boss needs half its circumference to give a diameter
+const MIN_CYLINDER_COVERAGE = 180;
+// Imported points farther than this from the mesh are a wrong coordinate, not a pick
+const MAX_SNAP_DISTANCE = 1;
+
+// Allowed deviation for a nominal size: absolute for small sizes, a percentage above
+export function toleranceBand(size: number, guidelines: Guidelines): number {
+  const { absolute, percent, threshold } = guidelines.tolerance;
+  return size < threshold ? absolute : size * percent / 100;
+}
+
+interface MeshTopology {
+  normals: THREE.Vector3[];
+  adjacency: number[][];
+}
+
+// Picks arrive one click at a time; the adjacency of a mesh is built once
+const topologyCache = new WeakMap<THREE.BufferAttribute, MeshTopology>();
+
+function topologyOf(positions: THREE.BufferAttribute): MeshTopology {
+  let topology = topologyCache.get(positions);
+  if (!topology) {
+    topology = {
+      normals: calculateFaceNormals(positions),
+      adjacency: buildFaceAdjacency(buildEdgeMap(positions), positions.count / 3),
+    };
+    topologyCache.set(positions, topology);
+  }
+  return topology;
+}
+
+type PickedSurface =
+  | { kind: "plane"; normal: THREE.Vector3; point: THREE.Vector3 }
+  | { kind: "cylinder"; faces: Set<number>; fit: CylinderFit };
+
+// The face a pick lies on: the smooth patch around it when that is a cylinder,
+// otherwise the facets coplanar with the picked one
+function pickedSurface(positions: THREE.BufferAttribute, topology: MeshTopology, pick: DimensionPick): PickedSurface {
+  const { normals, adjacency } = topology;
+  const grow = (maxAngleDeg: number, fromSeed: boolean): number[] => {
+    const minDot = Math.cos(maxAngleDeg * Math.PI / 180);
+    const seen = new Set([pick.triangle]);
+    const stack = [pick.triangle];
+    while (stack.length > 0) {
+      const face = stack.pop()!;
+      const reference = normals[fromSeed ? pick.triangle : face];
+      for (const neighbour of adjacency[face]) {
+        if (seen.has(neighbour) || reference.dot(normals[neighbour]) < minDot) continue;
+        seen.add(neighbour);
+        stack.push(neighbour);
+      }
+    }
+    return Array.from(seen);
+  };
+
+  const curved = grow(CURVED_FACE_ANGLE, false);
+  const fit = curved.length >= 6 ? fitCylinder(positions, normals, curved) : null;
+  if (fit && fit.residual <= 0.08 && fit.coverage >= MIN_CYLINDER_COVERAGE) {
+    return { kind: "cylinder", faces: new Set(curved), fit };
+  }
+
+  // Area-weighted centroid of the flat face
+  const point = new THREE.Vector3();
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  let area = 0;
+  for (const face of grow(FLAT_FACE_ANGLE, true)) {
+    v0.fromBufferAttribute(positions, face * 3);
+    v1.fromBufferAttribute(positions, face * 3 + 1);
+    v2.fromBufferAttribute(positions, face * 3 + 2);
+    const faceArea = new THREE.Vector3().subVectors(v1, v0).cross(new THREE.Vector3().subVectors(v2, v0)).length() / 2;
+    point.addScaledVector(v0.add(v1).add(v2), faceArea / 3);
+    area += faceArea;
+  }
+  return { kind: "plane", normal: normals[pick.triangle].clone(), point: area > 0 ? point.divideScalar(area) : pick.point.clone() };
+}
+
+// Distance from `point` to the line through `origin` along `axis`
+function distanceToAxis(point: THREE.Vector3, origin: THREE.Vector3, axis: THREE.Vector3): number {
+  const offset = new THREE.Vector3().subVectors(point, origin);
+  return offset.addScaledVector(axis, -offset.dot(axis)).length();
+}
+
+function measureFaces(
+  positions: THREE.BufferAttribute,
+  a: DimensionPick,
+  b: DimensionPick
+): { measured: number; method: DimensionMeasurement["method"] } {
+  const topology = topologyOf(positions);
+  const first = pickedSurface(positions, topology, a);
+  const second = pickedSurface(positions, topology, b);
+
+  if (first.kind === "cylinder" && second.kind === "cylinder") {
+    // Both picks on one bore or boss measure across it; on two of them, between their axes
+    return first.faces.has(b.triangle)
+      ? { measured: first.fit.radius * 2, method: "diameter" }
+      : { measured: distanceToAxis(second.fit.center, first.fit.center, first.fit.axis), method: "axes" };
+  }
+  if (first.kind === "plane" && second.kind === "plane") {
+    return { measured: Math.abs(first.normal.dot(new THREE.Vector3().subVectors(second.point, first.point))), method: "planes" };
+  }
+  const plane = first.kind === "plane" ? first : second as Extract<PickedSurface, { kind: "plane" }>;
+  const cylinder = first.kind === "cylinder" ? first : second as Extract<PickedSurface, { kind: "cylinder" }>;
+  return {
+    measured: Math.abs(plane.normal.dot(new THREE.Vector3().subVectors(cylinder.fit.center, plane.point))),
+    method: "axisToPlane",
+  };
+}
+
+// Measures every dimension that has a nominal and both picks
+export function measureDimensions(
+  positions: THREE.BufferAttribute,
+  dimensions: NominalDimension[],
+  guidelines: Guidelines
+): DimensionMeasurement[] {
+  return dimensions.flatMap(dimension => {
+    const { a, b } = dimension;
+    if (!a || !b || !(dimension.nominal > 0)) return [];
+    const { measured, method } = dimension.mode === "faces"
+      ? measureFaces(positions, a, b)
+      : { measured: a.point.distanceTo(b.point), method: "points" as const };
+    const tolerance = toleranceBand(dimension.nominal, guidelines);
+    const deviation = measured - dimension.nominal;
+    return [{
+      id: dimension.id,
+      label: dimension.label,
+      nominal: dimension.nominal,
+      measured,
+      method,
+      tolerance,
+      deviation,
+      // Rounding slack so a dimension exactly on the band edge passes
+      withinTolerance: Math.abs(deviation) <= tolerance + 1e-9,
+    }];
+  });
+}
+
+// Dimension table exported from a spreadsheet, one dimension per line:
+//   nome;nominale;ax;ay;az;bx;by;bz[;punti|facce]
+// Semicolon-separated lines may use decimal commas; comma-separated ones need decimal points.
+// Points are snapped onto the mesh so they carry the triangle they were taken on.
+export function parseDimensionTable(text: string, positions: THREE.BufferAttribute, firstId = 1): NominalDimension[] {
+  const bvh = buildTriangleBVH(positions, Array.from({ length: positions.count / 3 }, (_, i) => i));
+  const dimensions: NominalDimension[] = [];
+  let firstRow = true;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) return;
+    const semicolons = trimmed.includes(";");
+    const fields = trimmed.split(semicolons ? ";" : ",").map(f => f.trim());
+    const numbers = fields.slice(1, 8).map(f => (f === "" ? NaN : Number(semicolons ? f.replace(",", ".") : f)));
+    // A header row in front of the data
+    const header = firstRow && Number.isNaN(numbers[0]);
+    firstRow = false;
+    if (header) return;
+    if (fields.length < 8 || numbers.some(n => !Number.isFinite(n))) {
+      throw new Error(`Riga ${index + 1}: attesi nome, nominale e due punti (x, y, z)`);
+    }
+    if (numbers[0] <= 0) {
+      throw new Error(`Riga ${index + 1}: la quota nominale deve essere positiva`);
+    }
+    const mode = (fields[8] ?? "").toLowerCase();
+    if (mode !== "" && !["punti", "points", "facce", "faces"].includes(mode)) {
+      throw new Error(`Riga ${index + 1}: modo "${fields[8]}" non valido (punti o facce)`);
+    }
+
+    const [a, b] = [numbers.slice(1, 4), numbers.slice(4, 7)].map((coordinates, k) => {
+      const snapped = closestPointOnBVH(bvh, new THREE.Vector3().fromArray(coordinates), MAX_SNAP_DISTANCE);
+      if (!snapped) {
+        throw new Error(`Riga ${index + 1}: il punto ${k === 0 ? "A" : "B"} è a più di ${MAX_SNAP_DISTANCE}mm dalla superficie`);
+      }
+      return { triangle: snapped.triangle, point: snapped.point };
+    });
+
+    dimensions.push({
+      id: firstId + dimensions.length,
+      label: fields[0] || `Quota ${firstId + dimensions.length}`,
+      nominal: numbers[0],
+      mode: mode === "facce" || mode === "faces" ? "faces" : "points",
+      a,
+      b,
+    });
+  });
+
+  return dimensions;
+}
@@ -0,0 +1,28 @@
+import type { ModelFormat } from "./types";
+
+const EXTENSIONS: Record<string, ModelFormat> = {
+  stl: "STL",
+  step: "STEP",
+  stp: "STEP",
+  iges: "IGES",
+  igs: "IGES",
+  brep: "BREP",
+  brp: "BREP",
+  obj: "OBJ",
+  "3mf": "3MF",
+  ply: "PLY",
+  gltf: "GLTF",
+  glb: "GLB",
+};
+
+export const ACCEPTED_EXTENSIONS = Object.keys(EXTENSIONS).map(extension => `.${extension}`);
+
+export const MODEL_FORMATS = [...new Set(Object.values(EXTENSIONS))];
+
+// Formats that carry no unit: their coordinates are read in the chosen or detected one
+export const UNITLESS_FORMATS: ModelFormat[] = ["STL", "OBJ", "PLY"];
+
+export function formatOf(fileName: string): ModelFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  return EXTENSIONS[extension] ?? null;
+}
@@ -0,0 +1,43 @@
+import type { StoredGuidelines } from "./schema";
+import type { Guidelines } from "./types";
+
+// Built-in profile, used until a stored one is picked
+export const GUIDELINES: Guidelines = {
+  maxDimensions: { length: 50, width: 80, height: 40 },
+  wallThickness: { min: 1, max: 15 },
+  tolerance: { absolute: 0.1, percent: 1, threshold: 10 },
+  minGap: 1,
+  aspectRatioMax: 10,
+  aspectRatioRecommended: 5,
+  minCurvatureRadius: 0.5,
+  minTJunctionRadius: 2,
+  minCavityWidth: 0.4,
+  cavityDepthRatio: { min: 2, max: 4 },
+  channelSpecs: [
+    { diameterRange: [1, 3], maxDepth: 10 },
+    { diameterRange: [3, 5], maxDepth: 30 },
+    { diameterRange: [5, Infinity], minCurvatureRadius: 25 },
+  ],
+  minCharacterHeight: 4,
+  minLineWidth: 0.5,
+  minThreadSize: 10,
+  hollowWallThickness: 1.2,
+  drainHoleDiameter: { min: 2, recommended: 4 },
+  minDrainHoles: 2,
+  disabledRules: [],
+  customRules: [],
+};
+
+// JSON has no Infinity: open-ended channel tiers are stored and served as null.
+// Profiles stored before the rule engine lack the rule lists.
+export function reviveGuidelines(guidelines: Guidelines | StoredGuidelines): Guidelines {
+  return {
+    ...guidelines,
+    disabledRules: guidelines.disabledRules ?? [],
+    customRules: guidelines.customRules ?? [],
+    channelSpecs: guidelines.channelSpecs.map(spec => ({
+      ...spec,
+      diameterRange: [spec.diameterRange[0], spec.diameterRange[1] ?? Infinity],
+    })),
+  };
+}
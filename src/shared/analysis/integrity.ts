@@ -0,0 +1,291 @@
+import * as THREE from "three";
+import { buildTriangleBVH, raycastBVH, rayTriangleIntersect, trianglesInBox, type TriangleBVH } from "./bvh";
+import { weldVertices } from "./mesh";
+import type { MeshDefect, MeshIntegrityAnalysis } from "./types";
+
+// Locations kept per defect type; counts are always complete
+const MAX_DEFECT_LOCATIONS = 50;
+
+function createDefect(): MeshDefect {
+  return { count: 0, locations: [] };
+}
+
+function recordDefect(defect: MeshDefect, location: () => THREE.Vector3): void {
+  defect.count++;
+  if (defect.locations.length < MAX_DEFECT_LOCATIONS) {
+    defect.locations.push(location());
+  }
+}
+
+export interface DirectedEdge {
+  face: number;
+  // Welded vertex ids in the face's winding order
+  from: number;
+  to: number;
+}
+
+// Edges keyed by their (unordered) welded vertex pair, keeping each face's traversal direction
+export function buildDirectedEdges(vertexOf: Int32Array, triangleCount: number): Map<string, DirectedEdge[]> {
+  const edges = new Map<string, DirectedEdge[]>();
+  for (let face = 0; face < triangleCount; face++) {
+    for (let k = 0; k < 3; k++) {
+      const from = vertexOf[face * 3 + k];
+      const to = vertexOf[face * 3 + (k + 1) % 3];
+      if (from === to) continue;
+      const key = from < to ? `${from}-${to}` : `${to}-${from}`;
+      if (!edges.has(key)) edges.set(key, []);
+      edges.get(key)!.push({ face, from, to });
+    }
+  }
+  return edges;
+}
+
+// How many other shells enclose each shell. A ray from one of its faces crosses an
+// enclosing shell an odd number of times; shells at odd depth are voids.
+export function computeShellDepths(positions: THREE.BufferAttribute, shells: number[][]): Int32Array {
+  const depths = new Int32Array(shells.length);
+  if (shells.length < 2) return depths;
+
+  const shellOf = new Int32Array(positions.count / 3);
+  const boxes = shells.map((shell, s) => {
+    const box = new THREE.Box3();
+    const corner = new THREE.Vector3();
+    for (const face of shell) {
+      shellOf[face] = s;
+      for (let k = 0; k < 3; k++) box.expandByPoint(corner.fromBufferAttribute(positions, face * 3 + k));
+    }
+    return box;
+  });
+
+  let bvh: TriangleBVH | null = null;
+  // Skewed so the ray is unlikely to graze an edge or run along a face
+  const direction = new THREE.Vector3(0.5362, 0.6211, 0.5717).normalize();
+
+  shells.forEach((shell, s) => {
+    if (!boxes.some((box, other) => other !== s && box.containsBox(boxes[s]))) return;
+    bvh ??= buildTriangleBVH(positions, shells.flat());
+    const origin = new THREE.Vector3();
+    for (let k = 0; k < 3; k++) origin.add(new THREE.Vector3().fromBufferAttribute(positions, shell[0] * 3 + k));
+    origin.divideScalar(3);
+
+    const crossings = new Uint8Array(shells.length);
+    let distance = 0;
+    let hit = raycastBVH(bvh, origin, direction, 1e-6);
+    while (hit) {
+      if (shellOf[hit.triangle] !== s) crossings[shellOf[hit.triangle]] ^= 1;
+      distance = hit.distance;
+      hit = raycastBVH(bvh, origin, direction, distance + 1e-6);
+    }
+    depths[s] = crossings.reduce((sum, odd) => sum + odd, 0);
+  });
+
+  return depths;
+}
+
+// For every face, whether its winding must be reversed so that each shell is
+// consistently oriented with its normals pointing away from the material:
+// outward for bodies, into the void for shells nested at odd depth
+export function computeFlipsToOutward(
+  positions: THREE.BufferAttribute,
+  edges: Map<string, DirectedEdge[]>,
+  triangleCount: number
+): { flip: Uint8Array; shellOf: Int32Array; shellCount: number; invertedShells: number } {
+  const neighbours: { face: number; sameDirection: boolean }[][] = Array.from({ length: triangleCount }, () => []);
+  edges.forEach((edge) => {
+    if (edge.length !== 2) return;
+    const [a, b] = edge;
+    // Consistent neighbours walk a shared edge in opposite directions
+    const sameDirection = a.from === b.from;
+    neighbours[a.face].push({ face: b.face, sameDirection });
+    neighbours[b.face].push({ face: a.face, sameDirection });
+  });
+
+  const flip = new Uint8Array(triangleCount);
+  const shellOf = new Int32Array(triangleCount).fill(-1);
+  const shells: number[][] = [];
+  const signedVolumes: number[] = [];
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (shellOf[seed] !== -1) continue;
+    const shell: number[] = [];
+    const stack = [seed];
+    shellOf[seed] = shells.length;
+
+    while (stack.length > 0) {
+      const face = stack.pop()!;
+      shell.push(face);
+      for (const { face: next, sameDirection } of neighbours[face]) {
+        if (shellOf[next] !== -1) continue;
+        shellOf[next] = shells.length;
+        flip[next] = flip[face] ^ (sameDirection ? 1 : 0);
+        stack.push(next);
+      }
+    }
+
+    // Keep the majority winding
+    const flipped = shell.filter(face => flip[face]).length;
+    const invertMajority = flipped > shell.length / 2;
+    let signedVolume = 0;
+    for (const face of shell) {
+      if (invertMajority) flip[face] ^= 1;
+      v0.fromBufferAttribute(positions, face * 3);
+      v1.fromBufferAttribute(positions, face * 3 + 1);
+      v2.fromBufferAttribute(positions, face * 3 + 2);
+      const volume = v0.dot(v1.cross(v2)) / 6;
+      signedVolume += flip[face] ? -volume : volume;
+    }
+    shells.push(shell);
+    signedVolumes.push(signedVolume);
+  }
+
+  // Then make bodies enclose positive volume and voids negative volume
+  const depths = computeShellDepths(positions, shells);
+  let invertedShells = 0;
+  shells.forEach((shell, s) => {
+    const expectedSign = depths[s] % 2 === 1 ? -1 : 1;
+    if (Math.sign(signedVolumes[s]) !== -expectedSign) return;
+    invertedShells++;
+    for (const face of shell) flip[face] ^= 1;
+  });
+
+  return { flip, shellOf, shellCount: shells.length, invertedShells };
+}
+
+export function analyzeMeshIntegrity(positions: THREE.BufferAttribute): MeshIntegrityAnalysis {
+  const triangleCount = positions.count / 3;
+  const { vertexOf, vertexCount } = weldVertices(positions);
+  const edges = buildDirectedEdges(vertexOf, triangleCount);
+
+  const vertexPosition = (id: number) => {
+    const corner = vertexOf.indexOf(id);
+    return new THREE.Vector3().fromBufferAttribute(positions, corner);
+  };
+  const edgeMidpoint = (edge: DirectedEdge) => vertexPosition(edge.from).add(vertexPosition(edge.to)).multiplyScalar(0.5);
+  const faceCentroid = (face: number) => new THREE.Vector3()
+    .fromBufferAttribute(positions, face * 3)
+    .add(new THREE.Vector3().fromBufferAttribute(positions, face * 3 + 1))
+    .add(new THREE.Vector3().fromBufferAttribute(positions, face * 3 + 2))
+    .divideScalar(3);
+
+  // Open and non-manifold edges
+  const openEdges = createDefect();
+  const nonManifoldEdges = createDefect();
+  edges.forEach((edge) => {
+    if (edge.length === 1) recordDefect(openEdges, () => edgeMidpoint(edge[0]));
+    else if (edge.length > 2) recordDefect(nonManifoldEdges, () => edgeMidpoint(edge[0]));
+  });
+
+  // Non-manifold vertices: the faces around a vertex split into more than one edge-connected fan
+  const facesAtVertex: number[][] = Array.from({ length: vertexCount }, () => []);
+  for (let face = 0; face < triangleCount; face++) {
+    for (let k = 0; k < 3; k++) facesAtVertex[vertexOf[face * 3 + k]].push(face);
+  }
+  const nonManifoldVertices = createDefect();
+  facesAtVertex.forEach((faces, vertex) => {
+    if (faces.length < 2) return;
+    const fanOf = new Map<number, number>(faces.map((face, i) => [face, i]));
+    const parent = faces.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const faceAtNeighbour = new Map<number, number>();
+    for (const face of faces) {
+      for (let k = 0; k < 3; k++) {
+        const other = vertexOf[face * 3 + k];
+        if (other === vertex) continue;
+        const previous = faceAtNeighbour.get(other);
+        if (previous === undefined) faceAtNeighbour.set(other, face);
+        else parent[find(fanOf.get(face)!)] = find(fanOf.get(previous)!);
+      }
+    }
+    const fans = new Set(faces.map((_, i) => find(i))).size;
+    if (fans > 1) recordDefect(nonManifoldVertices, () => vertexPosition(vertex));
+  });
+
+  // Degenerate (collapsed vertices), zero-area (collinear) and duplicate faces
+  const degenerateFaces = createDefect();
+  const zeroAreaFaces = createDefect();
+  const duplicateFaces = createDefect();
+  const seenFaces = new Set<string>();
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  for (let face = 0; face < triangleCount; face++) {
+    const [a, b, c] = [vertexOf[face * 3], vertexOf[face * 3 + 1], vertexOf[face * 3 + 2]];
+    if (a === b || b === c || c === a) {
+      recordDefect(degenerateFaces, () => faceCentroid(face));
+      continue;
+    }
+    v0.fromBufferAttribute(positions, face * 3);
+    v1.fromBufferAttribute(positions, face * 3 + 1);
+    v2.fromBufferAttribute(positions, face * 3 + 2);
+    const doubleArea = new THREE.Vector3().crossVectors(v1.sub(v0), v2.sub(v0)).length();
+    if (doubleArea < 1e-10) {
+      recordDefect(zeroAreaFaces, () => faceCentroid(face));
+    }
+    const key = [a, b, c].sort((x, y) => x - y).join(",");
+    if (seenFaces.has(key)) recordDefect(duplicateFaces, () => faceCentroid(face));
+    else seenFaces.add(key);
+  }
+
+  // Faces wound against the outward orientation of their shell
+  const { flip, invertedShells } = computeFlipsToOutward(positions, edges, triangleCount);
+  const flippedFaces = createDefect();
+  for (let face = 0; face < triangleCount; face++) {
+    if (flip[face]) recordDefect(flippedFaces, () => faceCentroid(face));
+  }
+
+  // Self-intersections: an edge of one triangle piercing another triangle
+  // that shares no vertex with it
+  const selfIntersections = createDefect();
+  const bvh = buildTriangleBVH(positions, Array.from({ length: triangleCount }, (_, i) => i));
+  const corners = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const others = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const box = new THREE.Box3();
+  const direction = new THREE.Vector3();
+
+  const edgePierces = (from: THREE.Vector3[], into: THREE.Vector3[]): THREE.Vector3 | null => {
+    for (let k = 0; k < 3; k++) {
+      const start = from[k];
+      const end = from[(k + 1) % 3];
+      const length = start.distanceTo(end);
+      if (length === 0) continue;
+      direction.subVectors(end, start).divideScalar(length);
+      const t = rayTriangleIntersect(start, direction, into[0], into[1], into[2]);
+      if (t !== null && t < length) return start.clone().addScaledVector(direction, t);
+    }
+    return null;
+  };
+
+  for (let face = 0; face < triangleCount; face++) {
+    const ids = [vertexOf[face * 3], vertexOf[face * 3 + 1], vertexOf[face * 3 + 2]];
+    if (ids[0] === ids[1] || ids[1] === ids[2] || ids[2] === ids[0]) continue;
+    corners.forEach((corner, k) => corner.fromBufferAttribute(positions, face * 3 + k));
+    box.setFromPoints(corners);
+
+    for (const other of trianglesInBox(bvh, box)) {
+      // Each pair once
+      if (other <= face) continue;
+      const otherIds = [vertexOf[other * 3], vertexOf[other * 3 + 1], vertexOf[other * 3 + 2]];
+      if (otherIds.some(id => ids.includes(id))) continue;
+      others.forEach((corner, k) => corner.fromBufferAttribute(positions, other * 3 + k));
+
+      const hit = edgePierces(corners, others) ?? edgePierces(others, corners);
+      if (hit) recordDefect(selfIntersections, () => hit);
+    }
+  }
+
+  return {
+    isWatertight: openEdges.count === 0 && nonManifoldEdges.count === 0,
+    openEdges,
+    nonManifoldEdges,
+    nonManifoldVertices,
+    flippedFaces,
+    invertedShells,
+    degenerateFaces,
+    zeroAreaFaces,
+    duplicateFaces,
+    selfIntersections,
+  };
+}
@@ -0,0 +1,115 @@
+import * as THREE from "three";
+
+export type Matrix3x3 = [[number, number, number], [number, number, number], [number, number, number]];
+
+export function zeroMatrix3(): Matrix3x3 {
+  return [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+}
+
+// Accumulate weight * v vᵀ into a symmetric matrix (covariance / normal tensor)
+export function addOuterProduct(m: Matrix3x3, v: THREE.Vector3, weight = 1): void {
+  const c = [v.x, v.y, v.z];
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      m[i][j] += weight * c[i] * c[j];
+    }
+  }
+}
+
+// Eigen-decomposition of a symmetric 3x3 matrix (cyclic Jacobi), sorted by descending eigenvalue
+export function symmetricEigen3(matrix: Matrix3x3): { values: [number, number, number]; vectors: [THREE.Vector3, THREE.Vector3, THREE.Vector3] } {
+  const a = matrix.map(row => row.slice()) as Matrix3x3;
+  const v: Matrix3x3 = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const offDiagonal = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+    if (offDiagonal < 1e-12) break;
+
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]] as [number, number][]) {
+      if (Math.abs(a[p][q]) < 1e-15) continue;
+      const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k][p];
+        const akq = a[k][q];
+        a[k][p] = c * akp - s * akq;
+        a[k][q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p][k];
+        const aqk = a[q][k];
+        a[p][k] = c * apk - s * aqk;
+        a[q][k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k][p];
+        const vkq = v[k][q];
+        v[k][p] = c * vkp - s * vkq;
+        v[k][q] = s * vkp + c * vkq;
+      }
+    }
+  }
+
+  const order = [0, 1, 2].sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]) as [number, number, number],
+    vectors: order.map(i => new THREE.Vector3(v[0][i], v[1][i], v[2][i]).normalize()) as [THREE.Vector3, THREE.Vector3, THREE.Vector3],
+  };
+}
+
+// Solve a 3x3 linear system with Cramer's rule, null when singular
+export function solve3(m: Matrix3x3, b: [number, number, number]): [number, number, number] | null {
+  const det = (x: Matrix3x3) =>
+    x[0][0] * (x[1][1] * x[2][2] - x[1][2] * x[2][1]) -
+    x[0][1] * (x[1][0] * x[2][2] - x[1][2] * x[2][0]) +
+    x[0][2] * (x[1][0] * x[2][1] - x[1][1] * x[2][0]);
+
+  const d = det(m);
+  if (Math.abs(d) < 1e-12) return null;
+
+  const result: [number, number, number] = [0, 0, 0];
+  for (let col = 0; col < 3; col++) {
+    const replaced = m.map((row, i) => row.map((value, j) => (j === col ? b[i] : value))) as Matrix3x3;
+    result[col] = det(replaced) / d;
+  }
+  return result;
+}
+
+// Any unit vector perpendicular to `axis`, plus the third vector completing a right-handed basis
+export function perpendicularBasis(axis: THREE.Vector3): [THREE.Vector3, THREE.Vector3] {
+  const helper = Math.abs(axis.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+  const u = new THREE.Vector3().crossVectors(axis, helper).normalize();
+  const v = new THREE.Vector3().crossVectors(axis, u).normalize();
+  return [u, v];
+}
+
+// Solve an n×n linear system by Gaussian elimination with partial pivoting, null when singular
+export function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const result = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * result[k];
+    result[row] = sum / a[row][row];
+  }
+  return result;
+}
@@ -0,0 +1,97 @@
+import * as THREE from "three";
+
+export type EdgeMap = Map<string, { faces: number[]; vertices: [THREE.Vector3, THREE.Vector3] }>;
+
+// Vertices closer than 1e-4 mm share a key, which welds the unindexed STL soup.
+// Adding 0 folds -0 into 0 so that seam vertices at ±1e-16 still weld.
+export function vertexKey(v: THREE.Vector3): string {
+  const round = (value: number) => Math.round(value * 1e4) + 0;
+  return `${round(v.x)},${round(v.y)},${round(v.z)}`;
+}
+
+// Map every corner of the unindexed buffer to a welded vertex id (same rounding as vertexKey)
+export function weldVertices(positions: THREE.BufferAttribute): { vertexOf: Int32Array; vertexCount: number } {
+  const vertexIds = new Map<string, number>();
+  const vertexOf = new Int32Array(positions.count);
+  const vertex = new THREE.Vector3();
+
+  for (let i = 0; i < positions.count; i++) {
+    const key = vertexKey(vertex.fromBufferAttribute(positions, i));
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = vertexIds.size;
+      vertexIds.set(key, id);
+    }
+    vertexOf[i] = id;
+  }
+
+  return { vertexOf, vertexCount: vertexIds.size };
+}
+
+export function buildEdgeMap(positions: THREE.BufferAttribute): EdgeMap {
+  const edgeMap: EdgeMap = new Map();
+  
+  const makeEdgeKey = (v1: THREE.Vector3, v2: THREE.Vector3) => {
+    const key1 = vertexKey(v1);
+    const key2 = vertexKey(v2);
+    return key1 < key2 ? `${key1}-${key2}` : `${key2}-${key1}`;
+  };
+
+  const triangleCount = positions.count / 3;
+  for (let i = 0; i < triangleCount; i++) {
+    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
+    const v1 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1);
+    const v2 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2);
+
+    const edges = [
+      [v0, v1],
+      [v1, v2],
+      [v2, v0],
+    ] as [THREE.Vector3, THREE.Vector3][];
+
+    for (const [va, vb] of edges) {
+      const key = makeEdgeKey(va, vb);
+      if (!edgeMap.has(key)) {
+        edgeMap.set(key, { faces: [], vertices: [va, vb] });
+      }
+      edgeMap.get(key)!.faces.push(i);
+    }
+  }
+
+  return edgeMap;
+}
+
+export function calculateFaceNormals(positions: THREE.BufferAttribute): THREE.Vector3[] {
+  const normals: THREE.Vector3[] = [];
+  const triangleCount = positions.count / 3;
+  
+  for (let i = 0; i < triangleCount; i++) {
+    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
+    const v1 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1);
+    const v2 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2);
+    
+    const edge1 = new THREE.Vector3().subVectors(v1, v0);
+    const edge2 = new THREE.Vector3().subVectors(v2, v0);
+    const normal = new THREE.Vector3().crossVectors(edge1, edge2).normalize();
+    normals.push(normal);
+  }
+  
+  return normals;
+}
+
+// Signed volume from the winding order; negative when the mesh is wound inside-out
+export function computeSignedVolume(positions: THREE.BufferAttribute): number {
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  let volume = 0;
+
+  for (let i = 0; i < positions.count; i += 3) {
+    v0.fromBufferAttribute(positions, i);
+    v1.fromBufferAttribute(positions, i + 1);
+    v2.fromBufferAttribute(positions, i + 2);
+    volume += v0.dot(v1.cross(v2)) / 6;
+  }
+
+  return volume;
+}
@@ -0,0 +1,284 @@
+import * as THREE from "three";
+import { ConvexHull } from "three/addons/math/ConvexHull.js";
+import { perpendicularBasis } from "./linalg";
+import { weldVertices } from "./mesh";
+import type { Guidelines, ModelData, OrientationAnalysis, OrientationPose } from "./types";
+
+const DOWN = new THREE.Vector3(0, 0, -1);
+// Hull facets closer than this in direction are one resting plane
+const COPLANAR_DOT = Math.cos(0.5 * Math.PI / 180);
+// Mesh faces within this angle of the resting plane count as contact area
+const CONTACT_DOT = Math.cos(5 * Math.PI / 180);
+const MAX_CANDIDATES = 30;
+const MIN_PLANE_AREA_RATIO = 0.005;
+const MAX_POSES = 5;
+
+type Point2 = [number, number];
+
+// Andrew's monotone chain, counter-clockwise
+function convexHull2D(points: Point2[]): Point2[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: Point2, a: Point2, b: Point2) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const lower: Point2[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+// Signed distance from `p` to the boundary of a counter-clockwise convex polygon, positive inside
+function distanceInsidePolygon(polygon: Point2[], p: Point2): number {
+  let margin = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const [ax, ay] = polygon[i];
+    const [bx, by] = polygon[(i + 1) % polygon.length];
+    const length = Math.hypot(bx - ax, by - ay);
+    if (length === 0) continue;
+    margin = Math.min(margin, ((bx - ax) * (p[1] - ay) - (by - ay) * (p[0] - ax)) / length);
+  }
+  return margin;
+}
+
+// Envelope overflow of a footprint, with the longer side placed along the envelope width
+function footprintOverflow(a: number, b: number, envelope: Guidelines["maxDimensions"]): number {
+  const { length, width } = envelope;
+  return Math.max(0, Math.min(a, b) - length) + Math.max(0, Math.max(a, b) - width);
+}
+
+function computeCenterOfMass(positions: THREE.BufferAttribute): THREE.Vector3 {
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  const volumeCenter = new THREE.Vector3();
+  const areaCenter = new THREE.Vector3();
+  let volume = 0;
+  let area = 0;
+
+  for (let i = 0; i < positions.count; i += 3) {
+    v0.fromBufferAttribute(positions, i);
+    v1.fromBufferAttribute(positions, i + 1);
+    v2.fromBufferAttribute(positions, i + 2);
+    const tetra = v0.dot(new THREE.Vector3().crossVectors(v1, v2)) / 6;
+    const triangle = new THREE.Vector3().crossVectors(v1.clone().sub(v0), v2.clone().sub(v0)).length() / 2;
+    const sum = v0.clone().add(v1).add(v2);
+    volumeCenter.addScaledVector(sum, tetra / 4);
+    areaCenter.addScaledVector(sum, triangle / 3);
+    volume += tetra;
+    area += triangle;
+  }
+
+  // Open meshes have no meaningful volume: fall back to the surface centroid
+  return Math.abs(volume) > 1e-9 ? volumeCenter.divideScalar(volume) : areaCenter.divideScalar(area || 1);
+}
+
+export function poseQuaternion(pose: Pick<OrientationPose, "baseNormal" | "yaw">): THREE.Quaternion {
+  const tilt = new THREE.Quaternion().setFromUnitVectors(pose.baseNormal.clone().normalize(), DOWN);
+  const yaw = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), pose.yaw);
+  return yaw.multiply(tilt);
+}
+
+// Stable resting poses on the convex hull facets, ranked by envelope fit, flat contact area and height
+export function analyzeOrientation(
+  positions: THREE.BufferAttribute,
+  faceNormals: THREE.Vector3[],
+  guidelines: Guidelines
+): OrientationAnalysis {
+  const envelope = guidelines.maxDimensions;
+  const centerOfMass = computeCenterOfMass(positions);
+
+  const { vertexOf, vertexCount } = weldVertices(positions);
+  const points: THREE.Vector3[] = new Array(vertexCount);
+  for (let corner = 0; corner < positions.count; corner++) {
+    points[vertexOf[corner]] ??= new THREE.Vector3().fromBufferAttribute(positions, corner);
+  }
+  if (points.length < 4) return { poses: [], centerOfMass };
+
+  let hull: ConvexHull;
+  try {
+    hull = new ConvexHull().setFromPoints(points);
+  } catch {
+    // Flat or degenerate point sets have no 3D hull
+    return { poses: [], centerOfMass };
+  }
+
+  // Merge coplanar hull facets into resting planes; on a convex hull one direction is one plane.
+  // Normals are bucketed on a grid so only neighbouring buckets are compared.
+  type RestingPlane = { normal: THREE.Vector3; area: number; points: THREE.Vector3[] };
+  const planes: RestingPlane[] = [];
+  const buckets = new Map<number, RestingPlane[]>();
+  const bucketOf = (n: THREE.Vector3) => [n.x, n.y, n.z].map(c => Math.round(c * 100) + 101);
+  // Components range over 1..201, so 203 per axis leaves room for the neighbour offsets
+  const bucketKey = (x: number, y: number, z: number) => (x * 203 + y) * 203 + z;
+  for (const face of [...hull.faces].sort((a, b) => b.area - a.area)) {
+    const [bx, by, bz] = bucketOf(face.normal);
+    const matches = (p: RestingPlane) => p.normal.dot(face.normal) > COPLANAR_DOT;
+    let plane = buckets.get(bucketKey(bx, by, bz))?.find(matches);
+    for (let dx = -1; dx <= 1 && !plane; dx++) {
+      for (let dy = -1; dy <= 1 && !plane; dy++) {
+        for (let dz = -1; dz <= 1 && !plane; dz++) {
+          plane = buckets.get(bucketKey(bx + dx, by + dy, bz + dz))?.find(matches);
+        }
+      }
+    }
+    if (!plane) {
+      plane = { normal: face.normal.clone(), area: 0, points: [] };
+      planes.push(plane);
+      const key = bucketKey(bx, by, bz);
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(plane);
+    }
+    plane.area += face.area;
+    let edge = face.edge;
+    do {
+      plane.points.push(edge.head().point);
+      edge = edge.next;
+    } while (edge !== face.edge);
+  }
+  planes.sort((a, b) => b.area - a.area);
+
+  const hullPoints = [...new Set(planes.flatMap(p => p.points))];
+  const faceArea = new Float32Array(faceNormals.length);
+  const faceCenter: THREE.Vector3[] = [];
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  for (let face = 0; face < faceNormals.length; face++) {
+    v0.fromBufferAttribute(positions, face * 3);
+    v1.fromBufferAttribute(positions, face * 3 + 1);
+    v2.fromBufferAttribute(positions, face * 3 + 2);
+    faceArea[face] = new THREE.Vector3().crossVectors(v1.clone().sub(v0), v2.clone().sub(v0)).length() / 2;
+    faceCenter.push(v0.clone().add(v1).add(v2).divideScalar(3));
+  }
+
+  // Facets too small to hold a part (the faceting of curved surfaces) are only tried when nothing else exists
+  const hullArea = planes.reduce((sum, p) => sum + p.area, 0);
+  const significant = planes.filter(p => p.area >= MIN_PLANE_AREA_RATIO * hullArea);
+  const candidatePlanes = (significant.length > 0 ? significant : planes.slice(0, 3)).slice(0, MAX_CANDIDATES);
+
+  const candidates: Omit<OrientationPose, "score">[] = [];
+  for (const plane of candidatePlanes) {
+    const normal = plane.normal;
+    const offset = plane.points.reduce((max, p) => Math.max(max, p.dot(normal)), -Infinity);
+    const [u, v] = perpendicularBasis(normal);
+
+    // Stable when the centre of mass falls inside the support polygon
+    const support = convexHull2D(plane.points.map(p => [p.dot(u), p.dot(v)] as Point2));
+    if (support.length < 3) continue;
+    const stabilityMargin = distanceInsidePolygon(support, [centerOfMass.dot(u), centerOfMass.dot(v)]);
+    if (stabilityMargin <= 0) continue;
+
+    // Actual flat contact: mesh faces lying in the resting plane
+    const tolerance = 1e-3 * Math.max(1, offset);
+    let baseArea = 0;
+    for (let face = 0; face < faceNormals.length; face++) {
+      if (faceNormals[face].dot(normal) < CONTACT_DOT) continue;
+      if (Math.abs(faceCenter[face].dot(normal) - offset) > tolerance) continue;
+      baseArea += faceArea[face];
+    }
+
+    // Yaw: the footprint's best-fitting rectangle is aligned with one of its hull edges
+    // (the file-frame directions that the tilt turns into X and Y)
+    const untilt = new THREE.Quaternion().setFromUnitVectors(normal, DOWN).invert();
+    const axisX = new THREE.Vector3(1, 0, 0).applyQuaternion(untilt);
+    const axisY = new THREE.Vector3(0, 1, 0).applyQuaternion(untilt);
+    const footprint = convexHull2D(hullPoints.map(p => [p.dot(axisX), p.dot(axisY)] as Point2));
+    const height = offset - hullPoints.reduce((min, p) => Math.min(min, p.dot(normal)), Infinity);
+
+    let best = { yaw: 0, x: Infinity, y: Infinity, overflow: Infinity };
+    for (let i = 0; i < footprint.length; i++) {
+      const [ax, ay] = footprint[i];
+      const [bx, by] = footprint[(i + 1) % footprint.length];
+      const angle = -Math.atan2(by - ay, bx - ax);
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+      for (const [px, py] of footprint) {
+        const x = px * cos - py * sin;
+        const y = px * sin + py * cos;
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+      const x = maxX - minX;
+      const y = maxY - minY;
+      const overflow = footprintOverflow(x, y, envelope);
+      if (overflow < best.overflow || (overflow === best.overflow && x * y < best.x * best.y)) {
+        // Quarter turn so the longer side runs along Y (the envelope width)
+        best = x > y ? { yaw: angle + Math.PI / 2, x: y, y: x, overflow } : { yaw: angle, x, y, overflow };
+      }
+    }
+
+    const { length, width, height: maxHeight } = envelope;
+    candidates.push({
+      baseNormal: normal.clone(),
+      yaw: best.yaw,
+      dimensions: { length: best.x, width: best.y, height },
+      fitsEnvelope: best.x <= length && best.y <= width && height <= maxHeight,
+      baseArea,
+      stabilityMargin,
+    });
+  }
+
+  // Fitting the envelope dominates; among equals prefer a large flat base and a low part
+  const maxBase = Math.max(1e-9, ...candidates.map(c => c.baseArea));
+  const maxHeight = Math.max(1e-9, ...candidates.map(c => c.dimensions.height));
+  const poses: OrientationPose[] = candidates.map((candidate) => {
+    const { length, width, height } = candidate.dimensions;
+    const overflow = footprintOverflow(length, width, envelope) + Math.max(0, height - envelope.height);
+    const score = (candidate.fitsEnvelope ? 50 : -overflow) + 30 * candidate.baseArea / maxBase + 20 * (1 - height / maxHeight);
+    return { ...candidate, score };
+  });
+  poses.sort((a, b) => b.score - a.score);
+
+  return { poses: poses.slice(0, MAX_POSES), centerOfMass };
+}
+
+// The analysis seen from a pose: geometry and every point and direction rotated,
+// size and flat base taken from the pose. Rotation-invariant metrics are kept as they are.
+export function applyPose(data: ModelData, pose: OrientationPose): ModelData {
+  const rotation = poseQuaternion(pose);
+  const rotate = (value: unknown): unknown => {
+    if (value instanceof THREE.Vector3) return value.clone().applyQuaternion(rotation);
+    if (value instanceof THREE.Box3) {
+      const corners = [value.min, value.max].flatMap(a => [value.min, value.max].flatMap(b => [value.min, value.max].map(c =>
+        new THREE.Vector3(a.x, b.y, c.z).applyQuaternion(rotation))));
+      return new THREE.Box3().setFromPoints(corners);
+    }
+    if (Array.isArray(value)) return value.map(rotate);
+    if (!value || typeof value !== "object" || ArrayBuffer.isView(value)) return value;
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, rotate(entry)]));
+  };
+
+  // Bodies keep the file's orientation: each has poses of its own
+  const { geometry, assembly: _, ...metrics } = data;
+  const rotated = rotate(metrics) as Omit<ModelData, "geometry">;
+  const orientedGeometry = geometry.clone().applyQuaternion(rotation);
+  orientedGeometry.computeBoundingBox();
+  const boundingBox = orientedGeometry.boundingBox!.clone();
+  const size = boundingBox.getSize(new THREE.Vector3());
+
+  return {
+    ...rotated,
+    geometry: orientedGeometry,
+    dimensions: { length: size.x, width: size.y, height: size.z },
+    boundingBox,
+    orientation: data.orientation,
+    geometricComplexity: {
+      ...rotated.geometricComplexity,
+      hasFlatBase: pose.baseArea > 0,
+      flatBaseArea: pose.baseArea,
+      flatBaseNormal: pose.baseArea > 0 ? DOWN.clone() : null,
+      // The support polygon of a pose comes from the mesh hull
+      flatBaseAccuracy: "estimated",
+    },
+  };
+}
@@ -0,0 +1,400 @@
+import * as THREE from "three";
+import { unzipSync, strFromU8 } from "three/addons/libs/fflate.module.js";
+import { GLTFLoader } from "three/addons/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/addons/loaders/OBJLoader.js";
+import { PLYLoader } from "three/addons/loaders/PLYLoader.js";
+import { STLLoader } from "three/addons/loaders/STLLoader.js";
+import occtimportjs from "occt-import-js";
+import type { AssemblyBody, AssemblyNode, LengthUnit, ModelFormat, UnitInfo } from "./types";
+import type { BrepFaceRange } from "./brep";
+import { LENGTH_UNITS, applyUnits } from "./units";
+
+// Unexpected failures inside a third-party parser become one message per format
+function parseWith<T>(format: ModelFormat, parse: () => T): T {
+  try {
+    return parse();
+  } catch {
+    throw new Error(`File ${format} non valido o danneggiato`);
+  }
+}
+
+// Non-indexed triangles with positions only, the layout every analysis expects
+function toTriangleSoup(geometries: { geometry: THREE.BufferGeometry; matrix?: THREE.Matrix4 }[]): THREE.BufferGeometry {
+  const parts = geometries.map(({ geometry, matrix }) => {
+    const soup = new THREE.BufferGeometry();
+    soup.setAttribute("position", geometry.getAttribute("position"));
+    soup.setIndex(geometry.getIndex());
+    const triangles = soup.index ? soup.toNonIndexed() : soup.clone();
+    if (matrix) triangles.applyMatrix4(matrix);
+    return triangles.getAttribute("position").array as ArrayLike<number>;
+  });
+
+  const positions = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    positions.set(part, offset);
+    offset += part.length;
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+  return geometry;
+}
+
+// Every triangle mesh of a scene in world coordinates; lines and points are dropped
+function meshesOf(root: THREE.Object3D): { geometry: THREE.BufferGeometry; matrix: THREE.Matrix4 }[] {
+  root.updateMatrixWorld(true);
+  const meshes: { geometry: THREE.BufferGeometry; matrix: THREE.Matrix4 }[] = [];
+  root.traverse((object) => {
+    const mesh = object as THREE.Mesh;
+    if (mesh.isMesh && mesh.geometry.getAttribute("position")) {
+      meshes.push({ geometry: mesh.geometry, matrix: mesh.matrixWorld });
+    }
+  });
+  return meshes;
+}
+
+export function parseSTLFile(fileBuffer: ArrayBuffer): THREE.BufferGeometry {
+  const loader = new STLLoader();
+  return loader.parse(fileBuffer);
+}
+
+function parseOBJFile(fileBuffer: ArrayBuffer): THREE.BufferGeometry {
+  const group = parseWith("OBJ", () => new OBJLoader().parse(new TextDecoder().decode(fileBuffer)));
+  const meshes = meshesOf(group);
+  if (meshes.length === 0) {
+    throw new Error("Il file OBJ non contiene facce (solo linee o punti)");
+  }
+  return toTriangleSoup(meshes);
+}
+
+function parsePLYFile(fileBuffer: ArrayBuffer): THREE.BufferGeometry {
+  const geometry = parseWith("PLY", () => new PLYLoader().parse(fileBuffer));
+  // PLYLoader only builds an index when the file lists faces
+  if (!geometry.getIndex()) {
+    throw new Error("Il file PLY è una nuvola di punti: servono le facce per l'analisi");
+  }
+  return toTriangleSoup([{ geometry }]);
+}
+
+// glTF is always in meters. The loader needs the whole asset in memory, so external
+// buffers and compressed meshes are refused up front with a clear reason.
+async function parseGLTFFile(fileBuffer: ArrayBuffer, format: "GLTF" | "GLB"): Promise<THREE.BufferGeometry> {
+  const bytes = new Uint8Array(fileBuffer);
+  const json = parseWith(format, () => {
+    if (format === "GLTF") return JSON.parse(new TextDecoder().decode(bytes));
+    // GLB: 12-byte header, then the JSON chunk (length, type, data)
+    const view = new DataView(fileBuffer);
+    const length = view.getUint32(12, true);
+    return JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + length)));
+  }) as { extensionsRequired?: string[]; buffers?: { uri?: string }[] };
+
+  const compression = (json.extensionsRequired ?? []).filter(e => e === "KHR_draco_mesh_compression" || e === "EXT_meshopt_compression");
+  if (compression.length > 0) {
+    throw new Error(`File ${format} con mesh compresse (${compression.join(", ")}): esporta senza compressione`);
+  }
+  if ((json.buffers ?? []).some(buffer => buffer.uri !== undefined && !buffer.uri.startsWith("data:"))) {
+    throw new Error("File glTF con buffer esterni (.bin): esporta come GLB o con risorse incorporate");
+  }
+
+  const gltf = await new Promise<{ scene: THREE.Object3D }>((resolve, reject) => {
+    parseWith(format, () => new GLTFLoader().parse(fileBuffer, "", resolve, reject));
+  }).catch(() => {
+    throw new Error(`File ${format} non valido o danneggiato`);
+  });
+  const meshes = meshesOf(gltf.scene);
+  if (meshes.length === 0) {
+    throw new Error(`Il file ${format} non contiene mesh`);
+  }
+  return toTriangleSoup(meshes);
+}
+
+const THREE_MF_UNITS: Record<string, LengthUnit> = {
+  micron: "micron",
+  millimeter: "mm",
+  centimeter: "cm",
+  meter: "m",
+  inch: "inch",
+  foot: "foot",
+};
+
+function xmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of text.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+    // Namespace prefixes differ between writers: keep the local name, but "p:path" stays distinct
+    attributes[name.startsWith("p:") ? name : name.replace(/^\w+:/, "")] = value;
+  }
+  return attributes;
+}
+
+// 3MF transforms are 4×3, row vectors: p' = p · M
+function threeMFMatrix(transform: string | undefined): THREE.Matrix4 {
+  const m = (transform ?? "").trim().split(/\s+/).map(Number);
+  if (m.length !== 12 || m.some(v => !Number.isFinite(v))) return new THREE.Matrix4();
+  return new THREE.Matrix4().set(m[0], m[3], m[6], m[9], m[1], m[4], m[7], m[10], m[2], m[5], m[8], m[11], 0, 0, 0, 1);
+}
+
+interface ThreeMFObject {
+  mesh: THREE.BufferGeometry | null;
+  components: { path: string; objectId: string; matrix: THREE.Matrix4 }[];
+}
+
+// Read with regular expressions rather than DOMParser, which workers do not have
+function parseThreeMFModel(xml: string, path: string, objects: Map<string, ThreeMFObject>): void {
+  for (const [, attributeText, body] of xml.matchAll(/<(?:\w+:)?object\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?object>/g)) {
+    const { id } = xmlAttributes(attributeText);
+    const vertices: number[] = [];
+    for (const [, vertex] of body.matchAll(/<(?:\w+:)?vertex\b([^>]*)>/g)) {
+      const { x, y, z } = xmlAttributes(vertex);
+      vertices.push(Number(x), Number(y), Number(z));
+    }
+    const indices: number[] = [];
+    for (const [, triangle] of body.matchAll(/<(?:\w+:)?triangle\b([^>]*)>/g)) {
+      const { v1, v2, v3 } = xmlAttributes(triangle);
+      indices.push(Number(v1), Number(v2), Number(v3));
+    }
+    if (indices.some(i => !(i >= 0 && i < vertices.length / 3)) || vertices.some(v => !Number.isFinite(v))) {
+      throw new Error(`File 3MF non valido: indici o coordinate errati nell'oggetto ${id}`);
+    }
+
+    let mesh: THREE.BufferGeometry | null = null;
+    if (indices.length > 0) {
+      mesh = new THREE.BufferGeometry();
+      mesh.setAttribute("position", new THREE.Float32BufferAttribute(vertices, 3));
+      mesh.setIndex(indices);
+    }
+    const components = Array.from(body.matchAll(/<(?:\w+:)?component\b([^>]*)>/g), ([, component]) => {
+      const attributes = xmlAttributes(component);
+      return { path: attributes["p:path"] ?? path, objectId: attributes.objectid, matrix: threeMFMatrix(attributes.transform) };
+    });
+    objects.set(`${path}#${id}`, { mesh, components });
+  }
+}
+
+// 3MF declares its unit on the <model> element, millimeters when it does not
+function parseThreeMFFile(fileBuffer: ArrayBuffer): { geometry: THREE.BufferGeometry; unit: LengthUnit } {
+  const files = parseWith("3MF", () => unzipSync(new Uint8Array(fileBuffer)));
+  const relationships = files["_rels/.rels"] ? strFromU8(files["_rels/.rels"]) : "";
+  const target = /Target="([^"]+)"[^>]*Type="[^"]*3dmodel"|Type="[^"]*3dmodel"[^>]*Target="([^"]+)"/.exec(relationships);
+  const rootPath = (target?.[1] ?? target?.[2] ?? "/3D/3dmodel.model").replace(/^\//, "");
+  if (!files[rootPath]) {
+    throw new Error("File 3MF senza modello 3D (3D/3dmodel.model mancante)");
+  }
+
+  // Objects can live in other model parts of the package (production extension)
+  const objects = new Map<string, ThreeMFObject>();
+  for (const name of Object.keys(files).filter(n => n.endsWith(".model"))) {
+    parseThreeMFModel(strFromU8(files[name]), `/${name}`, objects);
+  }
+
+  const rootXml = strFromU8(files[rootPath]);
+  const modelTag = /<(?:\w+:)?model\b([^>]*)>/.exec(rootXml);
+  const unitName = modelTag ? xmlAttributes(modelTag[1]).unit ?? "millimeter" : "millimeter";
+  const unit = THREE_MF_UNITS[unitName];
+  if (!unit) {
+    throw new Error(`File 3MF con unità "${unitName}" non riconosciuta`);
+  }
+
+  const meshes: { geometry: THREE.BufferGeometry; matrix: THREE.Matrix4 }[] = [];
+  const place = (key: string, matrix: THREE.Matrix4, depth: number) => {
+    const object = objects.get(key);
+    if (!object || depth > 32) {
+      throw new Error(`File 3MF non valido: riferimento all'oggetto ${key.split("#")[1]} non risolto`);
+    }
+    if (object.mesh) meshes.push({ geometry: object.mesh, matrix });
+    for (const component of object.components) {
+      place(`${component.path}#${component.objectId}`, matrix.clone().multiply(component.matrix), depth + 1);
+    }
+  };
+  const build = /<(?:\w+:)?build\b[^>]*>([\s\S]*?)<\/(?:\w+:)?build>/.exec(rootXml)?.[1] ?? "";
+  for (const [, item] of build.matchAll(/<(?:\w+:)?item\b([^>]*)>/g)) {
+    const attributes = xmlAttributes(item);
+    place(`${attributes["p:path"] ?? `/${rootPath}`}#${attributes.objectid}`, threeMFMatrix(attributes.transform), 0);
+  }
+  if (meshes.length === 0) {
+    throw new Error("Il file 3MF non contiene oggetti da stampare");
+  }
+  return { geometry: toTriangleSoup(meshes), unit };
+}
+
+const OCCT_READERS = { STEP: "ReadStepFile", IGES: "ReadIgesFile", BREP: "ReadBrepFile" } as const;
+
+// Emscripten options for occt, where each runtime says how to find or instantiate the
+// wasm and where the reader's own messages go (stdout by default)
+export interface OcctOptions {
+  locateFile?: (file: string) => string;
+  instantiateWasm?(imports: object, receive: (instance: { exports: object }) => void): object;
+  print?: (text: string) => void;
+}
+
+// Bodies of a multi-body file, without their analysis
+export interface ModelAssembly {
+  root: AssemblyNode;
+  bodies: Omit<AssemblyBody, "data">[];
+}
+
+interface OcctNode {
+  name: string;
+  meshes: number[];
+  children: OcctNode[];
+}
+
+interface OcctMesh {
+  name: string;
+  color?: [number, number, number];
+  attributes: { position: { array: number[] }; normal?: { array: number[] } };
+  index: { array: number[] };
+  brep_faces: { first: number; last: number }[];
+}
+
+// Product structure with the meshes of each node replaced by body indices. Bodies are named
+// after their node, as occt names the meshes themselves after the shape type ("SOLID").
+function occtAssembly(root: OcctNode, meshes: OcctMesh[], bodyOf: (number | null)[], ranges: { start: number; count: number }[]): ModelAssembly {
+  const names: string[] = meshes.map((mesh, i) => mesh.name || `Corpo ${i + 1}`);
+  const toNode = (node: OcctNode): AssemblyNode => {
+    if (node.name) {
+      for (const i of node.meshes) names[i] = node.meshes.length === 1 ? node.name : `${node.name} / ${names[i]}`;
+    }
+    return {
+      name: node.name,
+      bodies: node.meshes.flatMap(i => (bodyOf[i] === null ? [] : [bodyOf[i]!])),
+      children: node.children.map(toNode),
+    };
+  };
+  const tree = toNode(root);
+
+  // Repeated parts (the same bracket mounted twice) get a running number
+  const seen = new Map<string, number>();
+  const bodies = meshes.flatMap((mesh, i) => {
+    if (bodyOf[i] === null) return [];
+    const count = (seen.get(names[i]) ?? 0) + 1;
+    seen.set(names[i], count);
+    return [{
+      name: count > 1 ? `${names[i]} (${count})` : names[i],
+      color: mesh.color ?? null,
+      triangleStart: ranges[bodyOf[i]!].start,
+      triangleCount: ranges[bodyOf[i]!].count,
+    }];
+  });
+  return { root: tree, bodies };
+}
+
+// STEP and IGES are converted to millimeters by occt; BREP has no unit and is taken as mm
+async function parseOCCTFile(
+  fileBuffer: ArrayBuffer,
+  format: keyof typeof OCCT_READERS,
+  occtOptions: OcctOptions
+): Promise<{ geometry: THREE.BufferGeometry; assembly: ModelAssembly | null; faces: BrepFaceRange[] }> {
+  // Emscripten fills in the object it is given as its module, so every run needs its own
+  const occt = await occtimportjs({ ...occtOptions });
+  const fileContent = new Uint8Array(fileBuffer);
+
+  const result = occt[OCCT_READERS[format]](fileContent, {
+    linearUnit: "millimeter",
+    linearDeflectionType: "bounding_box_ratio",
+    linearDeflection: 0.001,
+    angularDeflection: 0.5
+  });
+
+  if (!result.success || result.meshes.length === 0) {
+    throw new Error(`Impossibile analizzare il file ${format}`);
+  }
+
+  // Combine all meshes into a single geometry, each body a contiguous run of triangles
+  const geometry = new THREE.BufferGeometry();
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const meshes = result.meshes as OcctMesh[];
+  const bodyOf: (number | null)[] = [];
+  const ranges: { start: number; count: number }[] = [];
+  const faces: BrepFaceRange[] = [];
+
+  for (const mesh of meshes) {
+    const meshPositions = mesh.attributes.position.array;
+    const meshNormals = mesh.attributes.normal?.array;
+    const indices = mesh.index.array;
+
+    // Meshes without triangles are not bodies
+    bodyOf.push(indices.length >= 3 ? ranges.length : null);
+    if (indices.length >= 3) ranges.push({ start: positions.length / 9, count: Math.floor(indices.length / 3) });
+    // CAD faces keep their triangles, renumbered into the combined geometry
+    for (const face of mesh.brep_faces ?? []) {
+      faces.push({ first: positions.length / 9 + face.first, last: positions.length / 9 + face.last });
+    }
+
+    // Convert indexed geometry to non-indexed for consistency with STL
+    for (let i = 0; i < indices.length; i++) {
+      const idx = indices[i];
+      positions.push(
+        meshPositions[idx * 3],
+        meshPositions[idx * 3 + 1],
+        meshPositions[idx * 3 + 2]
+      );
+      if (meshNormals) {
+        normals.push(
+          meshNormals[idx * 3],
+          meshNormals[idx * 3 + 1],
+          meshNormals[idx * 3 + 2]
+        );
+      }
+    }
+  }
+
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  if (normals.length > 0) {
+    geometry.setAttribute("normal", new THREE.Float32BufferAttribute(normals, 3));
+  } else {
+    geometry.computeVertexNormals();
+  }
+
+  return { geometry, assembly: ranges.length > 1 ? occtAssembly(result.root, meshes, bodyOf, ranges) : null, faces };
+}
+
+export interface LoadedModel {
+  geometry: THREE.BufferGeometry;
+  units: UnitInfo;
+  assembly?: ModelAssembly;
+  faces?: BrepFaceRange[];
+}
+
+// Reads any supported file into a mm-scale triangle mesh. Unitless formats use the
+// chosen unit, or the detected one when none was chosen.
+export async function loadModel(
+  fileBuffer: ArrayBuffer,
+  format: ModelFormat,
+  chosenUnit: LengthUnit | null,
+  occtOptions: OcctOptions = {}
+): Promise<LoadedModel> {
+  const fromFile = (geometry: THREE.BufferGeometry, unit: LengthUnit) => {
+    const { scale } = LENGTH_UNITS[unit];
+    if (scale !== 1) geometry.scale(scale, scale, scale);
+    return { geometry, units: { unit, source: "file" as const, detected: null } };
+  };
+  const unitless = (geometry: THREE.BufferGeometry) => {
+    if (geometry.getAttribute("position").count === 0) {
+      throw new Error(`Il file ${format} non contiene triangoli`);
+    }
+    return { geometry, units: applyUnits(geometry, chosenUnit) };
+  };
+
+  switch (format) {
+    case "STL":
+      return unitless(parseWith(format, () => parseSTLFile(fileBuffer)));
+    case "OBJ":
+      return unitless(parseOBJFile(fileBuffer));
+    case "PLY":
+      return unitless(parsePLYFile(fileBuffer));
+    case "3MF": {
+      const { geometry, unit } = parseThreeMFFile(fileBuffer);
+      return fromFile(geometry, unit);
+    }
+    case "GLTF":
+    case "GLB":
+      return fromFile(await parseGLTFFile(fileBuffer, format), "m");
+    case "STEP":
+    case "IGES":
+    case "BREP": {
+      const { geometry, assembly, faces } = await parseOCCTFile(fileBuffer, format, occtOptions);
+      return { ...fromFile(geometry, "mm"), faces, ...(assembly && { assembly }) };
+    }
+  }
+}
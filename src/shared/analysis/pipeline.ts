@@ -0,0 +1,36 @@
+import * as THREE from "three";
+import { analyzeSTLGeometry } from "./analyzers";
+import { applyBrep, classifyBrepFaces, sliceBrep } from "./brep";
+import type { LoadedModel, ModelAssembly } from "./parsers";
+import type { AnalysisStage, AssemblyMetrics, BrepAnalysis, Guidelines, ModelData, ModelFormat } from "./types";
+
+// Each body gets the full analysis on a copy of its own triangles
+function analyzeAssembly(data: ModelData, assembly: ModelAssembly, guidelines: Guidelines): AssemblyMetrics {
+  const positions = data.geometry.getAttribute("position").array as Float32Array;
+  const bodies = assembly.bodies.map((body) => {
+    const geometry = new THREE.BufferGeometry();
+    const start = body.triangleStart * 9;
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions.slice(start, start + body.triangleCount * 9), 3));
+    let bodyData = analyzeSTLGeometry(geometry, guidelines);
+    if (data.brep) bodyData = applyBrep(bodyData, sliceBrep(data.brep, body.triangleStart, body.triangleCount));
+    const { geometry: _, ...metrics } = bodyData;
+    return { ...body, data: { ...metrics, fileFormat: data.fileFormat, units: data.units } };
+  });
+  return { root: assembly.root, bodies };
+}
+
+// Everything after parsing, shared by the browser worker and the API
+export function analyzeModel(
+  model: LoadedModel,
+  format: ModelFormat,
+  guidelines: Guidelines,
+  onProgress?: (stage: AnalysisStage) => void
+): { data: ModelData; assembly?: AssemblyMetrics } {
+  // CAD faces are classified from the tessellation points occt places on the exact surfaces
+  const brep: BrepAnalysis | null = model.faces ? classifyBrepFaces(model.geometry, model.faces) : null;
+  const analyzed = analyzeSTLGeometry(model.geometry, guidelines, onProgress);
+  const data: ModelData = { ...(brep ? applyBrep(analyzed, brep) : analyzed), fileFormat: format, units: model.units };
+  if (!model.assembly) return { data };
+  onProgress?.("bodies");
+  return { data, assembly: analyzeAssembly(data, model.assembly, guidelines) };
+}
@@ -0,0 +1,400 @@
+import * as THREE from "three";
+import { perpendicularBasis, solveLinearSystem } from "./linalg";
+import { buildEdgeMap, computeSignedVolume } from "./mesh";
+import { buildFaceAdjacency, growSmoothRegions } from "./surfaces";
+import type { SurfaceFeature, SurfaceFeatureAnalysis } from "./types";
+
+// Base faces: smooth patches whose normals all stay within BASE_MAX_SPREAD of their mean
+const BASE_NEIGHBOUR_ANGLE = 5;
+const BASE_MAX_SPREAD = 25;
+const MIN_BASE_AREA = 10;
+const MAX_BASES = 12;
+// Height map resolution: cells of at least MIN_CELL_SIZE mm, at most MAX_CELLS per face
+const MIN_CELL_SIZE = 0.05;
+const MAX_CELLS = 1_000_000;
+// Height band around the base that counts as relief or engraving (mm)
+const MIN_FEATURE_HEIGHT = 0.1;
+const MAX_FEATURE_HEIGHT = 5;
+const MIN_FEATURE_CELLS = 4;
+// Share of a feature's outline that must border the base, so steps at the face edge are not features
+const MIN_ENCLOSURE = 0.8;
+// Features closer than this (mm) are read as one line of text
+const TEXT_GROUP_GAP = 1.5;
+
+// Exact squared Euclidean distance transform along one line (Felzenszwalb–Huttenlocher)
+function distanceTransform1D(f: Float64Array, n: number, out: Float64Array): void {
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < n; q++) {
+    if (f[q] === Infinity) continue;
+    if (f[v[k]] === Infinity) {
+      v[k] = q;
+      continue;
+    }
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    out[q] = f[v[k]] === Infinity ? Infinity : (q - v[k]) ** 2 + f[v[k]];
+  }
+}
+
+// Distance (in cells) from every cell inside `mask` to the nearest cell outside it
+function distanceTransform(mask: Uint8Array, width: number, height: number): Float64Array {
+  const grid = Float64Array.from(mask, inside => (inside ? Infinity : 0));
+  const line = new Float64Array(Math.max(width, height));
+  const result = new Float64Array(Math.max(width, height));
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) line[y] = grid[y * width + x];
+    distanceTransform1D(line, height, result);
+    for (let y = 0; y < height; y++) grid[y * width + x] = result[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) line[x] = grid[y * width + x];
+    distanceTransform1D(line, width, result);
+    for (let x = 0; x < width; x++) grid[y * width + x] = Math.sqrt(result[x]);
+  }
+  return grid;
+}
+
+// Extents along the principal axes of a set of 2D points, longest first
+function orientedExtents(points: [number, number][]): { length: number; width: number } {
+  let cu = 0;
+  let cv = 0;
+  points.forEach(([u, v]) => { cu += u; cv += v; });
+  cu /= points.length;
+  cv /= points.length;
+  let suu = 0;
+  let suv = 0;
+  let svv = 0;
+  points.forEach(([u, v]) => {
+    suu += (u - cu) ** 2;
+    suv += (u - cu) * (v - cv);
+    svv += (v - cv) ** 2;
+  });
+  const angle = 0.5 * Math.atan2(2 * suv, suu - svv);
+  const [au, av] = [Math.cos(angle), Math.sin(angle)];
+  let minA = Infinity;
+  let maxA = -Infinity;
+  let minB = Infinity;
+  let maxB = -Infinity;
+  points.forEach(([u, v]) => {
+    const a = u * au + v * av;
+    const b = -u * av + v * au;
+    minA = Math.min(minA, a);
+    maxA = Math.max(maxA, a);
+    minB = Math.min(minB, b);
+    maxB = Math.max(maxB, b);
+  });
+  const extents = [maxA - minA, maxB - minB].sort((x, y) => y - x);
+  return { length: extents[0], width: extents[1] };
+}
+
+interface RasterFeature {
+  feature: SurfaceFeature;
+  // Footprint on the face (u, v bounds and cell centres), for grouping into lines of text
+  bounds: [number, number, number, number];
+  points: [number, number][];
+}
+
+// Rasterize everything facing the same way as the base into a height map over the
+// base's footprint, relative to a plane or quadratic fitted to the base itself, and
+// segment the cells standing clear of it into raised and recessed features
+function scanBase(
+  positions: THREE.BufferAttribute,
+  normals: THREE.Vector3[],
+  base: number[],
+  featureTriangles: Uint8Array
+): SurfaceFeature[] {
+  const triangleCount = positions.count / 3;
+  const normal = new THREE.Vector3();
+  base.forEach(face => normal.add(normals[face]));
+  normal.normalize();
+  const [axisU, axisV] = perpendicularBasis(normal);
+
+  const corner = new THREE.Vector3();
+  const project = (index: number): [number, number, number] => {
+    corner.fromBufferAttribute(positions, index);
+    return [corner.dot(axisU), corner.dot(axisV), corner.dot(normal)];
+  };
+
+  // Reference surface through the base's vertices: constant height for planar faces, quadratic otherwise
+  const samples = base.flatMap(face => [0, 1, 2].map(k => project(face * 3 + k)));
+  let uMin = Infinity;
+  let uMax = -Infinity;
+  let vMin = Infinity;
+  let vMax = -Infinity;
+  let hMin = Infinity;
+  let hMax = -Infinity;
+  let meanHeight = 0;
+  samples.forEach(([u, v, h]) => {
+    uMin = Math.min(uMin, u);
+    uMax = Math.max(uMax, u);
+    vMin = Math.min(vMin, v);
+    vMax = Math.max(vMax, v);
+    hMin = Math.min(hMin, h);
+    hMax = Math.max(hMax, h);
+    meanHeight += h / samples.length;
+  });
+  const u0 = (uMin + uMax) / 2;
+  const v0 = (vMin + vMax) / 2;
+  const terms = (u: number, v: number) => [1, u - u0, v - v0, (u - u0) ** 2, (u - u0) * (v - v0), (v - v0) ** 2];
+  const planar = base.every(face => normals[face].dot(normal) > Math.cos(Math.PI / 180));
+  let coefficients: number[] | null = null;
+  if (!planar) {
+    const lhs = Array.from({ length: 6 }, () => new Array<number>(6).fill(0));
+    const rhs = new Array<number>(6).fill(0);
+    samples.forEach(([u, v, h]) => {
+      const row = terms(u, v);
+      for (let i = 0; i < 6; i++) {
+        rhs[i] += row[i] * h;
+        for (let j = 0; j < 6; j++) lhs[i][j] += row[i] * row[j];
+      }
+    });
+    coefficients = solveLinearSystem(lhs, rhs);
+  }
+  const reference = (u: number, v: number) =>
+    coefficients ? terms(u, v).reduce((sum, term, i) => sum + term * coefficients![i], 0) : meanHeight;
+
+  const cellSize = Math.max(MIN_CELL_SIZE, Math.sqrt((uMax - uMin) * (vMax - vMin) / MAX_CELLS));
+  const width = Math.max(1, Math.ceil((uMax - uMin) / cellSize));
+  const height = Math.max(1, Math.ceil((vMax - vMin) / cellSize));
+  const relief = new Float32Array(width * height).fill(NaN);
+  const top = new Float32Array(width * height).fill(-Infinity);
+  const source = new Int32Array(width * height).fill(-1);
+
+  // Topmost surface over every cell centre
+  for (let face = 0; face < triangleCount; face++) {
+    if (normals[face].dot(normal) < 0.3) continue;
+    const [a, b, c] = [project(face * 3), project(face * 3 + 1), project(face * 3 + 2)];
+    if (Math.max(a[2], b[2], c[2]) < hMin - MAX_FEATURE_HEIGHT || Math.min(a[2], b[2], c[2]) > hMax + MAX_FEATURE_HEIGHT) continue;
+    const x0 = Math.max(0, Math.floor((Math.min(a[0], b[0], c[0]) - uMin) / cellSize));
+    const x1 = Math.min(width - 1, Math.ceil((Math.max(a[0], b[0], c[0]) - uMin) / cellSize));
+    const y0 = Math.max(0, Math.floor((Math.min(a[1], b[1], c[1]) - vMin) / cellSize));
+    const y1 = Math.min(height - 1, Math.ceil((Math.max(a[1], b[1], c[1]) - vMin) / cellSize));
+    const det = (b[1] - c[1]) * (a[0] - c[0]) + (c[0] - b[0]) * (a[1] - c[1]);
+    if (Math.abs(det) < 1e-12) continue;
+
+    for (let y = y0; y <= y1; y++) {
+      const pv = vMin + (y + 0.5) * cellSize;
+      for (let x = x0; x <= x1; x++) {
+        const pu = uMin + (x + 0.5) * cellSize;
+        const wa = ((b[1] - c[1]) * (pu - c[0]) + (c[0] - b[0]) * (pv - c[1])) / det;
+        const wb = ((c[1] - a[1]) * (pu - c[0]) + (a[0] - c[0]) * (pv - c[1])) / det;
+        const wc = 1 - wa - wb;
+        if (wa < -1e-9 || wb < -1e-9 || wc < -1e-9) continue;
+        const h = wa * a[2] + wb * b[2] + wc * c[2];
+        const cell = y * width + x;
+        if (h <= top[cell]) continue;
+        top[cell] = h;
+        source[cell] = face;
+        relief[cell] = h - reference(pu, pv);
+      }
+    }
+  }
+
+  // 1 = raised, -1 = recessed, 0 = base, 2 = unrelated geometry or nothing
+  const kind = new Int8Array(width * height).fill(2);
+  relief.forEach((r, cell) => {
+    if (isNaN(r) || Math.abs(r) > MAX_FEATURE_HEIGHT) return;
+    kind[cell] = r > MIN_FEATURE_HEIGHT ? 1 : r < -MIN_FEATURE_HEIGHT ? -1 : 0;
+  });
+
+  const features: RasterFeature[] = [];
+  const visited = new Uint8Array(width * height);
+  const neighbours4 = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+  for (let seed = 0; seed < width * height; seed++) {
+    if (visited[seed] || (kind[seed] !== 1 && kind[seed] !== -1)) continue;
+    const sign = kind[seed];
+    const cells: number[] = [];
+    const stack = [seed];
+    visited[seed] = 1;
+    let outline = 0;
+    let outlineOnBase = 0;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      cells.push(cell);
+      const x = cell % width;
+      const y = Math.floor(cell / width);
+      for (const [dx, dy] of neighbours4) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const next = ny * width + nx;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height || kind[next] !== sign) {
+          outline++;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height && kind[next] === 0) outlineOnBase++;
+          continue;
+        }
+        if (visited[next]) continue;
+        visited[next] = 1;
+        stack.push(next);
+      }
+    }
+    if (cells.length < MIN_FEATURE_CELLS || outlineOnBase < MIN_ENCLOSURE * outline) continue;
+
+    // Stroke width from the distance transform: twice the clearance along the ridge of each
+    // stroke (exact for an even cell count across it, one cell over for an odd one)
+    let cx0 = width;
+    let cy0 = height;
+    let cx1 = 0;
+    let cy1 = 0;
+    cells.forEach((cell) => {
+      cx0 = Math.min(cx0, cell % width);
+      cx1 = Math.max(cx1, cell % width);
+      cy0 = Math.min(cy0, Math.floor(cell / width));
+      cy1 = Math.max(cy1, Math.floor(cell / width));
+    });
+    const boxWidth = cx1 - cx0 + 3;
+    const boxHeight = cy1 - cy0 + 3;
+    const mask = new Uint8Array(boxWidth * boxHeight);
+    cells.forEach((cell) => {
+      mask[(Math.floor(cell / width) - cy0 + 1) * boxWidth + (cell % width) - cx0 + 1] = 1;
+    });
+    const clearance = distanceTransform(mask, boxWidth, boxHeight);
+    const ridge: number[] = [];
+    for (let y = 1; y < boxHeight - 1; y++) {
+      for (let x = 1; x < boxWidth - 1; x++) {
+        const value = clearance[y * boxWidth + x];
+        if (!mask[y * boxWidth + x]) continue;
+        let isRidge = true;
+        for (let dy = -1; dy <= 1 && isRidge; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if (clearance[(y + dy) * boxWidth + x + dx] > value) {
+              isRidge = false;
+              break;
+            }
+          }
+        }
+        if (isRidge) ridge.push(value);
+      }
+    }
+    ridge.sort((a, b) => a - b);
+    const ridgeClearance = ridge[Math.floor(ridge.length * 0.1)] ?? 1;
+
+    let peak = 0;
+    const centroid = new THREE.Vector3();
+    const points: [number, number][] = cells.map((cell) => {
+      const x = cell % width;
+      const y = Math.floor(cell / width);
+      const u = uMin + (x + 0.5) * cellSize;
+      const v = vMin + (y + 0.5) * cellSize;
+      peak = Math.max(peak, sign * relief[cell]);
+      centroid.addScaledVector(axisU, u).addScaledVector(axisV, v).addScaledVector(normal, top[cell]);
+      if (source[cell] !== -1) featureTriangles[source[cell]] = 1;
+      return [u, v];
+    });
+    const extents = orientedExtents(points);
+
+    features.push({
+      feature: {
+        kind: sign > 0 ? "relief" : "engraving",
+        height: peak,
+        strokeWidth: 2 * ridgeClearance * cellSize,
+        length: extents.length + cellSize,
+        width: extents.width + cellSize,
+        characterHeight: extents.length + cellSize,
+        area: cells.length * cellSize * cellSize,
+        center: centroid.divideScalar(cells.length),
+      },
+      bounds: [uMin + cx0 * cellSize, vMin + cy0 * cellSize, uMin + (cx1 + 1) * cellSize, vMin + (cy1 + 1) * cellSize],
+      points,
+    });
+  }
+
+  // Glyphs of one line of text share its character height (the dot of an "i" is not a character)
+  const parent = features.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  features.forEach((a, i) => {
+    features.forEach((b, j) => {
+      if (j <= i || a.feature.kind !== b.feature.kind) return;
+      const gap = Math.max(a.bounds[0] - b.bounds[2], b.bounds[0] - a.bounds[2], a.bounds[1] - b.bounds[3], b.bounds[1] - a.bounds[3]);
+      if (gap <= TEXT_GROUP_GAP) parent[find(j)] = find(i);
+    });
+  });
+  const groups = new Map<number, RasterFeature[]>();
+  features.forEach((feature, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(feature);
+  });
+  groups.forEach((members) => {
+    if (members.length < 2) return;
+    const across = orientedExtents(members.flatMap(m => m.points)).width + cellSize;
+    const characterHeight = Math.max(across, ...members.map(m => m.feature.length));
+    members.forEach((m) => { m.feature.characterHeight = characterHeight; });
+  });
+
+  return features.map(f => f.feature);
+}
+
+// Embossed and engraved features on the large planar or gently curved faces of the part
+export function analyzeSurfaceFeatures(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[]): SurfaceFeatureAnalysis {
+  const triangleCount = positions.count / 3;
+  const orientedNormals = computeSignedVolume(positions) < 0
+    ? faceNormals.map(n => n.clone().negate())
+    : faceNormals;
+  const adjacency = buildFaceAdjacency(buildEdgeMap(positions), triangleCount);
+
+  const faceArea = new Float64Array(triangleCount);
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  for (let face = 0; face < triangleCount; face++) {
+    a.fromBufferAttribute(positions, face * 3);
+    b.fromBufferAttribute(positions, face * 3 + 1).sub(a);
+    c.fromBufferAttribute(positions, face * 3 + 2).sub(a);
+    faceArea[face] = b.cross(c).length() / 2;
+  }
+
+  const minSpreadDot = Math.cos(BASE_MAX_SPREAD * Math.PI / 180);
+  const bases = growSmoothRegions(adjacency, orientedNormals, BASE_NEIGHBOUR_ANGLE)
+    .map(region => ({ region, area: region.reduce((sum, face) => sum + faceArea[face], 0) }))
+    .filter(({ area }) => area >= MIN_BASE_AREA)
+    .filter(({ region }) => {
+      const mean = new THREE.Vector3();
+      region.forEach(face => mean.addScaledVector(orientedNormals[face], faceArea[face]));
+      mean.normalize();
+      return region.every(face => orientedNormals[face].dot(mean) >= minSpreadDot);
+    })
+    .sort((x, y) => y.area - x.area)
+    .slice(0, MAX_BASES);
+
+  // Larger faces go first; a face that is itself the top of a relief or the floor
+  // of an engraving already found is not scanned again
+  const featureTriangles = new Uint8Array(triangleCount);
+  const features: SurfaceFeature[] = [];
+  let scannedSurfaces = 0;
+  for (const { region } of bases) {
+    const covered = region.filter(face => featureTriangles[face]).length;
+    if (covered > region.length / 2) continue;
+    scannedSurfaces++;
+    features.push(...scanBase(positions, orientedNormals, region, featureTriangles));
+  }
+
+  const reliefs = features.filter(f => f.kind === "relief");
+  const engravings = features.filter(f => f.kind === "engraving");
+  return {
+    features: features.sort((x, y) => x.strokeWidth - y.strokeWidth),
+    reliefCount: reliefs.length,
+    engravingCount: engravings.length,
+    scannedSurfaces,
+    minStrokeWidth: features.length > 0 ? Math.min(...features.map(f => f.strokeWidth)) : null,
+    minCharacterHeight: features.length > 0 ? Math.min(...features.map(f => f.characterHeight)) : null,
+    maxReliefHeight: reliefs.length > 0 ? Math.max(...reliefs.map(f => f.height)) : 0,
+    maxEngravingDepth: engravings.length > 0 ? Math.max(...engravings.map(f => f.height)) : 0,
+  };
+}
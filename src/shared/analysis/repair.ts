@@ -0,0 +1,204 @@
+import * as THREE from "three";
+import { buildDirectedEdges, computeFlipsToOutward } from "./integrity";
+import type { MeshRepairOptions, MeshRepairReport } from "./types";
+
+export const DEFAULT_REPAIR_OPTIONS: MeshRepairOptions = {
+  weldTolerance: 0.001,
+  maxHoleDiameter: 5,
+};
+
+// Merge corners closer than `tolerance` into shared vertices (spatial hash over the 27 neighbouring cells)
+function weldWithTolerance(positions: ArrayLike<number>, tolerance: number): { vertices: number[]; vertexOf: Int32Array; merged: number } {
+  const cornerCount = positions.length / 3;
+  const cellSize = Math.max(tolerance, 1e-9);
+  const cells = new Map<string, number[]>();
+  const vertices: number[] = [];
+  const vertexOf = new Int32Array(cornerCount);
+  const toleranceSq = tolerance * tolerance;
+  // Distinct exact positions, to tell real merges from the soup's shared corners
+  const exactPositions = new Set<string>();
+
+  for (let i = 0; i < cornerCount; i++) {
+    const x = positions[i * 3];
+    const y = positions[i * 3 + 1];
+    const z = positions[i * 3 + 2];
+    exactPositions.add(`${x},${y},${z}`);
+    const cx = Math.floor(x / cellSize);
+    const cy = Math.floor(y / cellSize);
+    const cz = Math.floor(z / cellSize);
+
+    let match = -1;
+    for (let dx = -1; dx <= 1 && match === -1; dx++) {
+      for (let dy = -1; dy <= 1 && match === -1; dy++) {
+        for (let dz = -1; dz <= 1 && match === -1; dz++) {
+          for (const id of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+            const ex = vertices[id * 3] - x;
+            const ey = vertices[id * 3 + 1] - y;
+            const ez = vertices[id * 3 + 2] - z;
+            if (ex * ex + ey * ey + ez * ez <= toleranceSq) {
+              match = id;
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    if (match === -1) {
+      match = vertices.length / 3;
+      vertices.push(x, y, z);
+      const key = `${cx},${cy},${cz}`;
+      if (!cells.has(key)) cells.set(key, []);
+      cells.get(key)!.push(match);
+    }
+    vertexOf[i] = match;
+  }
+
+  return { vertices, vertexOf, merged: exactPositions.size - vertices.length / 3 };
+}
+
+function facesToPositions(vertices: number[], faces: number[][]): THREE.BufferAttribute {
+  const array = new Float32Array(faces.length * 9);
+  faces.forEach((face, f) => {
+    face.forEach((id, k) => {
+      array[f * 9 + k * 3] = vertices[id * 3];
+      array[f * 9 + k * 3 + 1] = vertices[id * 3 + 1];
+      array[f * 9 + k * 3 + 2] = vertices[id * 3 + 2];
+    });
+  });
+  return new THREE.BufferAttribute(array, 3);
+}
+
+// Flip faces so every shell is consistently wound outward; returns the number of flipped faces
+function orientOutward(vertices: number[], faces: number[][]): number {
+  const vertexOf = Int32Array.from(faces.flat());
+  const edges = buildDirectedEdges(vertexOf, faces.length);
+  const { flip } = computeFlipsToOutward(facesToPositions(vertices, faces), edges, faces.length);
+
+  let flipped = 0;
+  faces.forEach((face, f) => {
+    if (!flip[f]) return;
+    [face[1], face[2]] = [face[2], face[1]];
+    flipped++;
+  });
+  return flipped;
+}
+
+// Walk the open half-edges into loops and close those up to `maxDiameter` with a fan
+// around the loop centroid; returns the filled and skipped loop counts
+function fillHoles(vertices: number[], faces: number[][], maxDiameter: number): { filled: number; unfilled: number; addedFaces: number } {
+  const vertexOf = Int32Array.from(faces.flat());
+  const edges = buildDirectedEdges(vertexOf, faces.length);
+  const outgoing = new Map<number, number[]>();
+  edges.forEach((edge) => {
+    if (edge.length !== 1) return;
+    const { from, to } = edge[0];
+    if (!outgoing.has(from)) outgoing.set(from, []);
+    outgoing.get(from)!.push(to);
+  });
+
+  const point = (id: number) => new THREE.Vector3(vertices[id * 3], vertices[id * 3 + 1], vertices[id * 3 + 2]);
+  let filled = 0;
+  let unfilled = 0;
+  let addedFaces = 0;
+
+  for (const start of outgoing.keys()) {
+    while ((outgoing.get(start)?.length ?? 0) > 0) {
+      const loop = [start];
+      let current = outgoing.get(start)!.pop()!;
+      while (current !== start) {
+        const next = outgoing.get(current);
+        if (!next || next.length === 0) break;
+        loop.push(current);
+        current = next.pop()!;
+      }
+      if (current !== start || loop.length < 3) {
+        unfilled++;
+        continue;
+      }
+
+      let perimeter = 0;
+      const centroid = new THREE.Vector3();
+      loop.forEach((id, i) => {
+        perimeter += point(id).distanceTo(point(loop[(i + 1) % loop.length]));
+        centroid.add(point(id));
+      });
+      if (perimeter / Math.PI > maxDiameter) {
+        unfilled++;
+        continue;
+      }
+
+      // The neighbouring faces walk the loop forward, so the patch walks it backward
+      if (loop.length === 3) {
+        faces.push([loop[0], loop[2], loop[1]]);
+        addedFaces++;
+      } else {
+        centroid.divideScalar(loop.length);
+        const center = vertices.length / 3;
+        vertices.push(centroid.x, centroid.y, centroid.z);
+        loop.forEach((id, i) => {
+          faces.push([loop[(i + 1) % loop.length], id, center]);
+          addedFaces++;
+        });
+      }
+      filled++;
+    }
+  }
+
+  return { filled, unfilled, addedFaces };
+}
+
+export function repairMesh(
+  positions: ArrayLike<number>,
+  options: MeshRepairOptions = DEFAULT_REPAIR_OPTIONS
+): { positions: Float32Array; report: MeshRepairReport } {
+  const triangleCountBefore = positions.length / 9;
+  const { vertices, vertexOf, merged } = weldWithTolerance(positions, options.weldTolerance);
+
+  // Drop collapsed, zero-area and repeated faces
+  const faces: number[][] = [];
+  const seenFaces = new Set<string>();
+  let removedDegenerateFaces = 0;
+  let removedDuplicateFaces = 0;
+  const edgeA = new THREE.Vector3();
+  const edgeB = new THREE.Vector3();
+
+  for (let f = 0; f < triangleCountBefore; f++) {
+    const face = [vertexOf[f * 3], vertexOf[f * 3 + 1], vertexOf[f * 3 + 2]];
+    const [a, b, c] = face;
+    edgeA.set(vertices[b * 3] - vertices[a * 3], vertices[b * 3 + 1] - vertices[a * 3 + 1], vertices[b * 3 + 2] - vertices[a * 3 + 2]);
+    edgeB.set(vertices[c * 3] - vertices[a * 3], vertices[c * 3 + 1] - vertices[a * 3 + 1], vertices[c * 3 + 2] - vertices[a * 3 + 2]);
+    if (a === b || b === c || c === a || edgeA.cross(edgeB).length() < 1e-10) {
+      removedDegenerateFaces++;
+      continue;
+    }
+    const key = [...face].sort((x, y) => x - y).join(",");
+    if (seenFaces.has(key)) {
+      removedDuplicateFaces++;
+      continue;
+    }
+    seenFaces.add(key);
+    faces.push(face);
+  }
+
+  // Orient before filling so the open loops have a consistent direction, then
+  // again because closing a shell can change which side its volume is on
+  let flippedFaces = orientOutward(vertices, faces);
+  const holes = fillHoles(vertices, faces, options.maxHoleDiameter);
+  if (holes.filled > 0) flippedFaces += orientOutward(vertices, faces);
+
+  return {
+    positions: facesToPositions(vertices, faces).array as Float32Array,
+    report: {
+      weldedVertices: merged,
+      removedDegenerateFaces,
+      removedDuplicateFaces,
+      flippedFaces,
+      filledHoles: holes.filled,
+      unfilledHoles: holes.unfilled,
+      addedFaces: holes.addedFaces,
+      triangleCountBefore,
+      triangleCountAfter: faces.length,
+    },
+  };
+}
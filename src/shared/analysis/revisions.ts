@@ -0,0 +1,91 @@
+import type { MetricChange, ModelData, RevisionComparison, RuleFlip, ValidationResult } from "./types";
+
+interface MetricDefinition {
+  id: string;
+  label: string;
+  unit: string;
+  digits: number;
+  value: (data: ModelData) => number | null;
+  // Direction that makes the part harder to produce; absent for metrics that are only different
+  worse?: "lower" | "higher";
+}
+
+const finite = (value: number) => (Number.isFinite(value) ? value : null);
+
+const METRICS: MetricDefinition[] = [
+  { id: "length", label: "Lunghezza", unit: "mm", digits: 2, value: d => d.dimensions.length },
+  { id: "width", label: "Larghezza", unit: "mm", digits: 2, value: d => d.dimensions.width },
+  { id: "height", label: "Altezza", unit: "mm", digits: 2, value: d => d.dimensions.height },
+  { id: "volume", label: "Volume", unit: "mm³", digits: 1, value: d => d.volume },
+  { id: "surfaceArea", label: "Superficie", unit: "mm²", digits: 1, value: d => d.surfaceArea },
+  { id: "triangleCount", label: "Triangoli", unit: "", digits: 0, value: d => d.triangleCount },
+  { id: "minWallThickness", label: "Spessore parete minimo", unit: "mm", digits: 2, value: d => finite(d.wallThickness.minThickness), worse: "lower" },
+  { id: "thinAreas", label: "Aree sottili", unit: "", digits: 0, value: d => d.wallThickness.thinAreas, worse: "higher" },
+  { id: "minFilletRadius", label: "Raggio minimo raccordi", unit: "mm", digits: 2, value: d => d.edgeAnalysis.minFilletRadius, worse: "lower" },
+  { id: "minTJunctionRadius", label: "Raggio minimo giunzioni a T", unit: "mm", digits: 2, value: d => d.edgeAnalysis.minTJunctionRadius, worse: "lower" },
+  { id: "sharpEdges", label: "Spigoli vivi", unit: "", digits: 0, value: d => d.edgeAnalysis.sharpEdges, worse: "higher" },
+  { id: "holes", label: "Fori", unit: "", digits: 0, value: d => d.cavityAnalysis.holes.length },
+  { id: "minGap", label: "Fessura minima", unit: "mm", digits: 2, value: d => d.clearance.minGap, worse: "lower" },
+  { id: "voidVolume", label: "Volume cavità interne", unit: "mm³", digits: 1, value: d => d.voidAnalysis.totalVoidVolume },
+  { id: "componentCount", label: "Parti separate", unit: "", digits: 0, value: d => d.componentAnalysis.componentCount },
+  { id: "openEdges", label: "Spigoli aperti", unit: "", digits: 0, value: d => d.meshIntegrity.openEdges.count, worse: "higher" },
+  { id: "nonManifoldEdges", label: "Spigoli non-manifold", unit: "", digits: 0, value: d => d.meshIntegrity.nonManifoldEdges.count, worse: "higher" },
+];
+
+// Rounded as shown, so noise below the last digit is not a change
+const formatValue = (value: number, digits: number) => String(Number(value.toFixed(digits)));
+
+function describeChange(change: MetricChange): string {
+  const unit = change.unit ? ` ${change.unit}` : "";
+  const verb = change.after! < change.before! ? "sceso" : "salito";
+  return `${change.label} ${verb} da ${formatValue(change.before!, change.digits)} a ${formatValue(change.after!, change.digits)}${unit}`;
+}
+
+function compareMetric(metric: MetricDefinition, before: ModelData, after: ModelData): MetricChange {
+  const a = metric.value(before);
+  const b = metric.value(after);
+  // A metric that appears or disappears (no fillets before, say) has no direction
+  const changed = a !== null && b !== null && formatValue(a, metric.digits) !== formatValue(b, metric.digits);
+  const worse = changed && metric.worse !== undefined && (metric.worse === "lower" ? b! < a! : b! > a!);
+  return {
+    id: metric.id,
+    label: metric.label,
+    unit: metric.unit,
+    digits: metric.digits,
+    before: a,
+    after: b,
+    regression: worse,
+    improvement: changed && metric.worse !== undefined && !worse,
+  };
+}
+
+// Metrics of the old and new revision side by side, the rules whose outcome changed, and a
+// sentence for each change for the worse or for the better. Rules run only on one of the two
+// revisions (nominal dimensions, say) are not compared.
+export function compareRevisions(
+  before: ModelData,
+  after: ModelData,
+  beforeResults: ValidationResult[],
+  afterResults: ValidationResult[]
+): RevisionComparison {
+  const metrics = METRICS.map(metric => compareMetric(metric, before, after));
+
+  const previous = new Map(beforeResults.map(r => [r.ruleId, r]));
+  const flips: RuleFlip[] = afterResults.flatMap((result) => {
+    const old = previous.get(result.ruleId);
+    return old && old.passed !== result.passed ? [{ ruleId: result.ruleId, name: result.name, before: old, after: result }] : [];
+  });
+
+  return {
+    metrics,
+    flips,
+    regressions: [
+      ...flips.filter(f => !f.after.passed).map(f => `${f.name}: non più conforme (${f.after.message})`),
+      ...metrics.filter(m => m.regression).map(describeChange),
+    ],
+    improvements: [
+      ...flips.filter(f => f.after.passed).map(f => `${f.name}: ora conforme`),
+      ...metrics.filter(m => m.improvement).map(describeChange),
+    ],
+  };
+}
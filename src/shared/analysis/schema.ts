@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+const positive = z.number().positive();
+const nonNegative = z.number().nonnegative();
+
+// Mirrors the Guidelines type, for profiles sent to the API or read from a file.
+// An open-ended channel tier arrives as null (JSON has no Infinity).
+export const guidelinesSchema = z.object({
+  maxDimensions: z.object({ length: positive, width: positive, height: positive }),
+  wallThickness: z.object({ min: positive, max: positive }).refine(w => w.min <= w.max, "Spessore minimo oltre il massimo"),
+  tolerance: z.object({ absolute: nonNegative, percent: nonNegative, threshold: positive }),
+  minGap: nonNegative,
+  aspectRatioMax: positive,
+  aspectRatioRecommended: positive,
+  minCurvatureRadius: nonNegative,
+  minTJunctionRadius: nonNegative,
+  minCavityWidth: nonNegative,
+  cavityDepthRatio: z.object({ min: positive, max: positive }).refine(r => r.min <= r.max, "Rapporto minimo oltre il massimo"),
+  channelSpecs: z.array(z.object({
+    diameterRange: z.tuple([nonNegative, positive.nullable()]),
+    maxDepth: positive.optional(),
+    minCurvatureRadius: nonNegative.optional(),
+  })).min(1),
+  minCharacterHeight: nonNegative,
+  minLineWidth: nonNegative,
+  minThreadSize: nonNegative,
+  hollowWallThickness: nonNegative,
+  drainHoleDiameter: z.object({ min: nonNegative, recommended: nonNegative }),
+  minDrainHoles: z.number().int().nonnegative(),
+  // Profiles saved before the rule engine have neither list
+  disabledRules: z.array(z.string()).default([]),
+  customRules: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1, "Nome regola obbligatorio"),
+    expression: z.string().trim().min(1, "Espressione obbligatoria"),
+    severity: z.enum(["error", "warning"]),
+  })).default([])
+    .refine(rules => new Set(rules.map(r => r.id)).size === rules.length, "Id delle regole duplicati"),
+}).refine(g => g.aspectRatioRecommended <= g.aspectRatioMax, "Aspect ratio consigliato oltre il massimo");
+
+// Guidelines as validated and stored as JSON, open tiers still null; reviveGuidelines restores Infinity
+export type StoredGuidelines = z.output<typeof guidelinesSchema>;
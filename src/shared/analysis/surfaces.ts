@@ -0,0 +1,153 @@
+import * as THREE from "three";
+import { addOuterProduct, perpendicularBasis, solve3, symmetricEigen3, zeroMatrix3 } from "./linalg";
+import type { EdgeMap } from "./mesh";
+
+// Triangle neighbours across manifold edges
+export function buildFaceAdjacency(edgeMap: EdgeMap, triangleCount: number): number[][] {
+  const adjacency: number[][] = Array.from({ length: triangleCount }, () => []);
+  edgeMap.forEach((edge) => {
+    if (edge.faces.length !== 2) return;
+    const [a, b] = edge.faces;
+    adjacency[a].push(b);
+    adjacency[b].push(a);
+  });
+  return adjacency;
+}
+
+// Flood-fill triangles into smooth patches: neighbours join while their normals stay within `maxAngleDeg`
+export function growSmoothRegions(adjacency: number[][], faceNormals: THREE.Vector3[], maxAngleDeg: number): number[][] {
+  const minDot = Math.cos(maxAngleDeg * Math.PI / 180);
+  const regionOf = new Int32Array(faceNormals.length).fill(-1);
+  const regions: number[][] = [];
+
+  for (let seed = 0; seed < faceNormals.length; seed++) {
+    if (regionOf[seed] !== -1) continue;
+    const region: number[] = [];
+    const stack = [seed];
+    regionOf[seed] = regions.length;
+
+    while (stack.length > 0) {
+      const face = stack.pop()!;
+      region.push(face);
+      for (const neighbour of adjacency[face]) {
+        if (regionOf[neighbour] !== -1) continue;
+        if (faceNormals[face].dot(faceNormals[neighbour]) < minDot) continue;
+        regionOf[neighbour] = regions.length;
+        stack.push(neighbour);
+      }
+    }
+    regions.push(region);
+  }
+
+  return regions;
+}
+
+export interface CylinderFit {
+  axis: THREE.Vector3;
+  // Point on the axis at the middle of the fitted span
+  center: THREE.Vector3;
+  radius: number;
+  length: number;
+  // RMS radial deviation divided by the radius
+  residual: number;
+  // Angular span covered around the axis, in degrees
+  coverage: number;
+  // True when the surface faces the axis (a bore), false when it faces away (a boss)
+  concave: boolean;
+}
+
+// Least-squares cylinder through a triangle patch. The axis is the direction the
+// normals are most perpendicular to; the radius comes from a circle fit of the
+// vertices projected onto the plane normal to that axis.
+export function fitCylinder(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[], triangles: number[]): CylinderFit | null {
+  if (triangles.length < 4) return null;
+
+  const tensor = zeroMatrix3();
+  for (const tri of triangles) {
+    addOuterProduct(tensor, faceNormals[tri]);
+  }
+  const { values, vectors } = symmetricEigen3(tensor);
+  // Normals of a cylinder span a plane: two comparable eigenvalues and a vanishing third
+  if (values[0] <= 0 || values[1] / values[0] < 0.15 || values[2] / values[0] > 0.05) return null;
+
+  const axis = vectors[2];
+  const [u, v] = perpendicularBasis(axis);
+
+  const points: THREE.Vector3[] = [];
+  const vertex = new THREE.Vector3();
+  for (const tri of triangles) {
+    for (let k = 0; k < 3; k++) {
+      vertex.fromBufferAttribute(positions, tri * 3 + k);
+      points.push(new THREE.Vector3(vertex.dot(u), vertex.dot(v), vertex.dot(axis)));
+    }
+  }
+
+  // Kåsa circle fit: x² + y² + D x + E y + F = 0
+  const normal = zeroMatrix3();
+  const rhs: [number, number, number] = [0, 0, 0];
+  for (const p of points) {
+    const row = [p.x, p.y, 1];
+    const target = -(p.x * p.x + p.y * p.y);
+    for (let i = 0; i < 3; i++) {
+      rhs[i] += row[i] * target;
+      for (let j = 0; j < 3; j++) normal[i][j] += row[i] * row[j];
+    }
+  }
+  const solution = solve3(normal, rhs);
+  if (!solution) return null;
+  const [D, E, F] = solution;
+  const cx = -D / 2;
+  const cy = -E / 2;
+  const radiusSq = cx * cx + cy * cy - F;
+  if (radiusSq <= 0) return null;
+  const radius = Math.sqrt(radiusSq);
+
+  let squaredError = 0;
+  let tMin = Infinity;
+  let tMax = -Infinity;
+  const angles: number[] = [];
+  for (const p of points) {
+    const dx = p.x - cx;
+    const dy = p.y - cy;
+    squaredError += (Math.hypot(dx, dy) - radius) ** 2;
+    angles.push(Math.atan2(dy, dx));
+    tMin = Math.min(tMin, p.z);
+    tMax = Math.max(tMax, p.z);
+  }
+  const residual = Math.sqrt(squaredError / points.length) / radius;
+
+  angles.sort((a, b) => a - b);
+  let largestGap = angles[0] + 2 * Math.PI - angles[angles.length - 1];
+  for (let i = 1; i < angles.length; i++) {
+    largestGap = Math.max(largestGap, angles[i] - angles[i - 1]);
+  }
+  const coverage = 360 - largestGap * 180 / Math.PI;
+
+  const center = new THREE.Vector3()
+    .addScaledVector(u, cx)
+    .addScaledVector(v, cy)
+    .addScaledVector(axis, (tMin + tMax) / 2);
+
+  // Outward normals of a bore point back towards its axis
+  let towardsAxis = 0;
+  const centroid = new THREE.Vector3();
+  const radial = new THREE.Vector3();
+  for (const tri of triangles) {
+    centroid.set(0, 0, 0);
+    for (let k = 0; k < 3; k++) centroid.add(vertex.fromBufferAttribute(positions, tri * 3 + k));
+    centroid.divideScalar(3);
+    radial.subVectors(center, centroid);
+    radial.addScaledVector(axis, -radial.dot(axis));
+    towardsAxis += Math.sign(radial.dot(faceNormals[tri]));
+  }
+
+  return {
+    axis,
+    center,
+    radius,
+    length: tMax - tMin,
+    residual,
+    coverage,
+    concave: towardsAxis > 0,
+  };
+}
@@ -0,0 +1,212 @@
+import * as THREE from "three";
+import { buildEdgeMap, computeSignedVolume } from "./mesh";
+import { addOuterProduct, perpendicularBasis, solve3, symmetricEigen3, zeroMatrix3 } from "./linalg";
+import { buildFaceAdjacency, growSmoothRegions } from "./surfaces";
+import type { ThreadAnalysis, ThreadInfo } from "./types";
+
+// Flanks meet at crest and root at ~60° for metric threads; 30° keeps each flank a separate patch
+const FLANK_REGION_ANGLE = 30;
+const MIN_FLANK_TRIANGLES = 24;
+
+interface HelicalFlank {
+  axis: THREE.Vector3;
+  // Point on the axis
+  origin: THREE.Vector3;
+  // Signed advance per turn: positive for right-handed helices
+  pitch: number;
+  internal: boolean;
+  minRadius: number;
+  maxRadius: number;
+  tMin: number;
+  tMax: number;
+}
+
+// A thread flank is a helicoid strip: its normals keep a constant angle to the axis
+// (a cone, like a chamfer), but the axial position keeps rising as the strip winds
+// round, turn after turn. Fitting t = α + β·r + γ·θ over the unwrapped angle θ
+// separates the two: a chamfer gives γ ≈ 0, a flank gives γ = pitch / 2π.
+function fitHelicalFlank(
+  positions: THREE.BufferAttribute,
+  normals: THREE.Vector3[],
+  adjacency: number[][],
+  region: number[]
+): HelicalFlank | null {
+  const meanNormal = new THREE.Vector3();
+  region.forEach(face => meanNormal.add(normals[face]));
+  meanNormal.divideScalar(region.length);
+
+  // The axis is the direction along which the normals do not vary
+  const covariance = zeroMatrix3();
+  const deviation = new THREE.Vector3();
+  region.forEach(face => addOuterProduct(covariance, deviation.subVectors(normals[face], meanNormal)));
+  const { values, vectors } = symmetricEigen3(covariance);
+  if (values[0] <= 0 || values[1] / values[0] < 0.3 || values[2] / values[0] > 0.02) return null;
+  const axis = vectors[2];
+  const axialComponent = meanNormal.dot(axis);
+  // Cylinders (≈0) and flat rings (≈1) are not flanks
+  if (Math.abs(axialComponent) < 0.2 || Math.abs(axialComponent) > 0.9) return null;
+
+  const centroids = region.map(face => {
+    const centroid = new THREE.Vector3();
+    for (let k = 0; k < 3; k++) centroid.add(new THREE.Vector3().fromBufferAttribute(positions, face * 3 + k));
+    return centroid.divideScalar(3);
+  });
+
+  // Axis position: least-squares meeting point of the normal lines, projected across the axis
+  const lhs = zeroMatrix3();
+  const rhs: [number, number, number] = [0, 0, 0];
+  const direction = new THREE.Vector3();
+  region.forEach((face, i) => {
+    direction.copy(normals[face]).addScaledVector(axis, -normals[face].dot(axis)).normalize();
+    const p = [centroids[i].x, centroids[i].y, centroids[i].z];
+    const d = [direction.x, direction.y, direction.z];
+    const pd = centroids[i].dot(direction);
+    for (let row = 0; row < 3; row++) {
+      rhs[row] += p[row] - d[row] * pd;
+      for (let col = 0; col < 3; col++) lhs[row][col] += (row === col ? 1 : 0) - d[row] * d[col];
+    }
+  });
+  const solution = solve3(lhs, rhs);
+  if (!solution) return null;
+  const origin = new THREE.Vector3(...solution);
+
+  // Cylindrical coordinates in a right-handed frame (u, v, axis)
+  const [u, v] = perpendicularBasis(axis);
+  const indexOf = new Map<number, number>();
+  region.forEach((face, i) => indexOf.set(face, i));
+  const radius = new Float64Array(region.length);
+  const height = new Float64Array(region.length);
+  const angle = new Float64Array(region.length);
+  let outward = 0;
+  const relative = new THREE.Vector3();
+  region.forEach((face, i) => {
+    relative.subVectors(centroids[i], origin);
+    height[i] = relative.dot(axis);
+    relative.addScaledVector(axis, -height[i]);
+    radius[i] = relative.length();
+    angle[i] = Math.atan2(relative.dot(v), relative.dot(u));
+    outward += Math.sign(relative.dot(normals[face]));
+  });
+
+  // Unwrap the angle across neighbouring faces so it keeps growing past a full turn
+  const unwrapped = new Float64Array(region.length).fill(NaN);
+  unwrapped[0] = angle[0];
+  const stack = [0];
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    for (const neighbour of adjacency[region[i]]) {
+      const j = indexOf.get(neighbour);
+      if (j === undefined || !isNaN(unwrapped[j])) continue;
+      let step = angle[j] - angle[i];
+      if (step > Math.PI) step -= 2 * Math.PI;
+      if (step < -Math.PI) step += 2 * Math.PI;
+      unwrapped[j] = unwrapped[i] + step;
+      stack.push(j);
+    }
+  }
+
+  let angleMin = Infinity;
+  let angleMax = -Infinity;
+  const normal = zeroMatrix3();
+  const target: [number, number, number] = [0, 0, 0];
+  for (let i = 0; i < region.length; i++) {
+    angleMin = Math.min(angleMin, unwrapped[i]);
+    angleMax = Math.max(angleMax, unwrapped[i]);
+    const row = [1, radius[i], unwrapped[i]];
+    for (let a = 0; a < 3; a++) {
+      target[a] += row[a] * height[i];
+      for (let b = 0; b < 3; b++) normal[a][b] += row[a] * row[b];
+    }
+  }
+  // A closed ring unwraps to just under one turn; a flank has to wind on past it
+  if (angleMax - angleMin < 2.4 * Math.PI) return null;
+  const fit = solve3(normal, target);
+  if (!fit) return null;
+  const [alpha, beta, gamma] = fit;
+  const pitch = gamma * 2 * Math.PI;
+  if (Math.abs(pitch) < 0.1) return null;
+
+  let squaredError = 0;
+  for (let i = 0; i < region.length; i++) {
+    squaredError += (alpha + beta * radius[i] + gamma * unwrapped[i] - height[i]) ** 2;
+  }
+  if (Math.sqrt(squaredError / region.length) > 0.1 * Math.abs(pitch)) return null;
+
+  let minRadius = Infinity;
+  let maxRadius = 0;
+  let tMin = Infinity;
+  let tMax = -Infinity;
+  const corner = new THREE.Vector3();
+  for (const face of region) {
+    for (let k = 0; k < 3; k++) {
+      relative.subVectors(corner.fromBufferAttribute(positions, face * 3 + k), origin);
+      const t = relative.dot(axis);
+      const r = relative.addScaledVector(axis, -t).length();
+      minRadius = Math.min(minRadius, r);
+      maxRadius = Math.max(maxRadius, r);
+      tMin = Math.min(tMin, t);
+      tMax = Math.max(tMax, t);
+    }
+  }
+
+  return { axis, origin, pitch, internal: outward < 0, minRadius, maxRadius, tMin, tMax };
+}
+
+// Both flanks of one thread share axis, pitch and side
+function sameThread(a: HelicalFlank, b: HelicalFlank): boolean {
+  if (Math.abs(a.axis.dot(b.axis)) < 0.99 || a.internal !== b.internal) return false;
+  if (Math.abs(Math.abs(a.pitch) - Math.abs(b.pitch)) > 0.05 * Math.abs(a.pitch)) return false;
+  const offset = new THREE.Vector3().subVectors(b.origin, a.origin);
+  offset.addScaledVector(a.axis, -offset.dot(a.axis));
+  return offset.length() < Math.max(0.5, 0.05 * a.maxRadius);
+}
+
+export function analyzeThreads(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[]): ThreadAnalysis {
+  const triangleCount = positions.count / 3;
+  const orientedNormals = computeSignedVolume(positions) < 0
+    ? faceNormals.map(n => n.clone().negate())
+    : faceNormals;
+  const adjacency = buildFaceAdjacency(buildEdgeMap(positions), triangleCount);
+  const regions = growSmoothRegions(adjacency, orientedNormals, FLANK_REGION_ANGLE);
+
+  const groups: HelicalFlank[][] = [];
+  for (const region of regions) {
+    if (region.length < MIN_FLANK_TRIANGLES) continue;
+    const flank = fitHelicalFlank(positions, orientedNormals, adjacency, region);
+    if (!flank) continue;
+    const group = groups.find(g => sameThread(g[0], flank));
+    if (group) group.push(flank);
+    else groups.push([flank]);
+  }
+
+  const threads: ThreadInfo[] = groups.map((flanks) => {
+    const { axis, origin, internal } = flanks[0];
+    // Project every flank's span onto the first flank's axis direction
+    let tMin = Infinity;
+    let tMax = -Infinity;
+    for (const flank of flanks) {
+      const shift = new THREE.Vector3().subVectors(flank.origin, origin).dot(axis);
+      const sign = Math.sign(flank.axis.dot(axis));
+      tMin = Math.min(tMin, shift + Math.min(sign * flank.tMin, sign * flank.tMax));
+      tMax = Math.max(tMax, shift + Math.max(sign * flank.tMin, sign * flank.tMax));
+    }
+    const pitch = flanks.reduce((sum, f) => sum + Math.abs(f.pitch), 0) / flanks.length;
+
+    return {
+      type: internal ? "internal" : "external",
+      // The largest radius is the crest of a bolt and the root of a nut: the major diameter either way
+      majorDiameter: 2 * Math.max(...flanks.map(f => f.maxRadius)),
+      minorDiameter: 2 * Math.min(...flanks.map(f => f.minRadius)),
+      pitch,
+      length: tMax - tMin,
+      center: origin.clone().addScaledVector(axis, (tMin + tMax) / 2),
+      axis: axis.clone(),
+    };
+  });
+
+  return {
+    threads: threads.sort((a, b) => a.majorDiameter - b.majorDiameter),
+    internalThreadCount: threads.filter(t => t.type === "internal").length,
+    externalThreadCount: threads.filter(t => t.type === "external").length,
+  };
+}
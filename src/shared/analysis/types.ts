@@ -0,0 +1,651 @@
+import type * as THREE from "three";
+
+export type Severity = "error" | "warning" | "info";
+
+export type RuleCategory = "dimensions" | "geometry" | "features" | "manufacturing" | "mesh" | "custom";
+
+export interface ValidationResult {
+  ruleId: string;
+  category: RuleCategory;
+  name: string;
+  passed: boolean;
+  message: string;
+  details?: string;
+  severity?: Severity;
+  // Set by rules on detected features (holes, fillets, base)
+  accuracy?: Accuracy;
+}
+
+export interface RuleContext {
+  data: ModelData;
+  guidelines: Guidelines;
+  dimensions: DimensionMeasurement[];
+}
+
+// What a rule found; `severity` overrides the rule's mapping for graded outcomes
+export interface RuleOutcome {
+  passed: boolean;
+  message: string;
+  details?: string;
+  severity?: Severity;
+  accuracy?: Accuracy;
+}
+
+export interface ValidationRule {
+  id: string;
+  name: string;
+  category: RuleCategory;
+  severity: { passed: Severity; failed: Severity };
+  // null when the rule has nothing to check on this model
+  check: (context: RuleContext) => RuleOutcome | null;
+}
+
+// A rule written in the profile editor: a mathjs condition over the ModelData fields
+export interface CustomRule {
+  id: string;
+  name: string;
+  expression: string;
+  severity: "error" | "warning";
+}
+
+// Discrete curvature (1/mm) per corner of the unindexed buffer, positive where the surface bulges outward
+export interface VertexCurvature {
+  mean: Float32Array;
+  max: Float32Array;
+  min: Float32Array;
+}
+
+// "exact" when a value comes from the CAD surfaces of the file, "estimated" when from mesh heuristics
+export type Accuracy = "exact" | "estimated";
+
+export interface FilletInfo {
+  radius: number;
+  // true for an outer round, false for an inner blend (T-junction)
+  convex: boolean;
+  center: THREE.Vector3;
+  area: number;
+  triangleCount: number;
+  // "cylinder" when the strip fits a cylinder, "curvature" when the radius comes from vertex curvature,
+  // "brep" when it is a cylindrical or toroidal face of the CAD model
+  fit: "cylinder" | "curvature" | "brep";
+}
+
+export interface SharpEdgeChain {
+  convex: boolean;
+  // Angle through the material between the two faces: below 180° for outer edges, above for inner corners
+  angle: number;
+  length: number;
+  center: THREE.Vector3;
+}
+
+export interface EdgeAnalysis {
+  totalEdges: number;
+  // Outer edges left without a fillet
+  sharpEdges: number;
+  sharpEdgeAngles: number[];
+  sharpEdgeChains: SharpEdgeChain[];
+  fillets: FilletInfo[];
+  // Smallest outer fillet radius (0 when an outer edge is sharp), null when the model has none
+  minFilletRadius: number | null;
+  // Smallest inner blend radius (0 when an inner corner is sharp), null when the model has none
+  minTJunctionRadius: number | null;
+  tJunctionCount: number;
+  curvature: VertexCurvature;
+}
+
+export interface HoleInfo {
+  type: "blind" | "through";
+  diameter: number;
+  depth: number;
+  depthRatio: number;
+  // Point on the bore axis, halfway along the cylindrical wall
+  center: THREE.Vector3;
+  axis: THREE.Vector3;
+  accuracy: Accuracy;
+}
+
+export interface BoundaryLoop {
+  edgeCount: number;
+  perimeter: number;
+  diameter: number;
+  center: THREE.Vector3;
+}
+
+export interface CavityAnalysis {
+  potentialCavities: number;
+  boundaryLoops: number;
+  boundaryLoopDetails: BoundaryLoop[];
+  holes: HoleInfo[];
+  blindHoleCount: number;
+  throughHoleCount: number;
+}
+
+export interface InternalVoid {
+  volume: number;
+  center: THREE.Vector3;
+  // Thinnest material between the void and any other surface, null when it could not be measured
+  shellThickness: number | null;
+  // Bores connecting the void to the outside, widest first (empty for a sealed void)
+  openingDiameters: number[];
+}
+
+export interface VoidAnalysis {
+  voids: InternalVoid[];
+  totalVoidVolume: number;
+}
+
+export interface ChannelInfo {
+  diameter: number;
+  // Length along the centreline (the channel depth for straight channels)
+  length: number;
+  curved: boolean;
+  // Tightest centreline bend radius, null for straight channels
+  bendRadius: number | null;
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+  fit: "cylinder" | "centerline";
+}
+
+export interface ChannelAnalysis {
+  potentialChannels: number;
+  channels: ChannelInfo[];
+  straightChannels: number;
+  curvedChannels: number;
+}
+
+export interface ThreadInfo {
+  type: "internal" | "external";
+  majorDiameter: number;
+  minorDiameter: number;
+  // Axial advance per turn
+  pitch: number;
+  // Threaded length along the axis
+  length: number;
+  center: THREE.Vector3;
+  axis: THREE.Vector3;
+}
+
+export interface ThreadAnalysis {
+  threads: ThreadInfo[];
+  internalThreadCount: number;
+  externalThreadCount: number;
+}
+
+export interface ChannelSpec {
+  diameterRange: [number, number];
+  // Maximum length for straight channels; tiers with a limit only allow straight channels
+  maxDepth?: number;
+  minCurvatureRadius?: number;
+}
+
+// Manufacturing limits every check is measured against: one set per supplier or process
+export interface Guidelines {
+  // Build envelope in mm
+  maxDimensions: { length: number; width: number; height: number };
+  wallThickness: { min: number; max: number };
+  // General tolerance: absolute below the threshold size, relative above it
+  tolerance: { absolute: number; percent: number; threshold: number };
+  minGap: number;
+  aspectRatioMax: number;
+  aspectRatioRecommended: number;
+  minCurvatureRadius: number;
+  minTJunctionRadius: number;
+  minCavityWidth: number;
+  cavityDepthRatio: { min: number; max: number };
+  // Tiers by diameter; the last one usually runs to Infinity
+  channelSpecs: ChannelSpec[];
+  minCharacterHeight: number;
+  minLineWidth: number;
+  minThreadSize: number;
+  hollowWallThickness: number;
+  drainHoleDiameter: { min: number; recommended: number };
+  minDrainHoles: number;
+  // Ids of built-in or custom rules this profile skips
+  disabledRules: string[];
+  customRules: CustomRule[];
+}
+
+// A named set of guidelines stored in the database
+export interface GuidelineProfile {
+  id: number;
+  name: string;
+  guidelines: Guidelines;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Headline numbers of an analysis, kept with it in the history
+export interface AnalysisMetrics {
+  dimensions: { length: number; width: number; height: number };
+  volume: number;
+  surfaceArea: number;
+  triangleCount: number;
+  // null when no wall could be measured
+  minWallThickness: number | null;
+  isWatertight: boolean;
+  componentCount: number;
+}
+
+// A stored analysis as listed in the history
+export interface HistoryEntry {
+  id: number;
+  modelId: number;
+  fileName: string;
+  format: ModelFormat;
+  fileSize: number;
+  units: UnitInfo | null;
+  profileId: number;
+  profileName: string;
+  errorCount: number;
+  warningCount: number;
+  passedCount: number;
+  metrics: AnalysisMetrics;
+  createdAt: string;
+}
+
+// Opening an entry also brings its rule results and the guidelines they were checked against
+export interface HistoryEntryDetail extends HistoryEntry {
+  guidelines: Guidelines;
+  results: ValidationResult[];
+}
+
+export interface SurfaceFeature {
+  kind: "relief" | "engraving";
+  // Raised height or recessed depth relative to the surrounding face
+  height: number;
+  // Narrowest stroke across the feature
+  strokeWidth: number;
+  // Oriented bounding size on the face, length ≥ width
+  length: number;
+  width: number;
+  // Height of the line of text the feature belongs to (its own length when it stands alone)
+  characterHeight: number;
+  area: number;
+  center: THREE.Vector3;
+}
+
+export interface SurfaceFeatureAnalysis {
+  features: SurfaceFeature[];
+  reliefCount: number;
+  engravingCount: number;
+  // Faces rasterized into height maps
+  scannedSurfaces: number;
+  minStrokeWidth: number | null;
+  minCharacterHeight: number | null;
+  maxReliefHeight: number;
+  maxEngravingDepth: number;
+}
+
+export interface WallThicknessAnalysis {
+  minThickness: number;
+  maxThickness: number;
+  avgThickness: number;
+  medianThickness: number;
+  stdDeviation: number;
+  samples: number[];
+  thinAreas: number;
+  borderlineAreas: number;
+  percentBelow1mm: number;
+  percentBelow1_2mm: number;
+  qualityScore: number;
+  qualityGrade: string;
+  sampleCount: number;
+  // Thickness at each triangle centroid, NaN where no opposite wall was hit
+  faceThickness: Float32Array;
+  coveragePercent: number;
+}
+
+export interface GapLocation {
+  distance: number;
+  // Ray origin on one wall and where it meets the facing wall
+  pointA: THREE.Vector3;
+  pointB: THREE.Vector3;
+}
+
+export interface GapBin {
+  // Exclusive upper bound of the bin in mm
+  upTo: number;
+  faceCount: number;
+  // Share of the surface area that faces another wall
+  areaPercent: number;
+}
+
+export interface ClearanceAnalysis {
+  // null when no surface faces another one within reach
+  minGap: number | null;
+  medianGap: number | null;
+  measuredFaceCount: number;
+  facesBelowMinGap: number;
+  facesBelowMinCavityWidth: number;
+  distribution: GapBin[];
+  // Narrowest gaps, at most one per place
+  narrowest: GapLocation[];
+}
+
+// A point picked on the mesh, in the file's own coordinates
+export interface DimensionPick {
+  triangle: number;
+  point: THREE.Vector3;
+}
+
+// Nominal dimension from the drawing, measured between two picks: the points
+// themselves, or the faces they lie on (planes, bores and bosses)
+export interface NominalDimension {
+  id: number;
+  label: string;
+  nominal: number;
+  mode: "points" | "faces";
+  a: DimensionPick | null;
+  b: DimensionPick | null;
+}
+
+export interface DimensionMeasurement {
+  id: number;
+  label: string;
+  nominal: number;
+  measured: number;
+  // How the picks were turned into a length
+  method: "points" | "planes" | "diameter" | "axes" | "axisToPlane";
+  // Half-width of the allowed band around the nominal
+  tolerance: number;
+  deviation: number;
+  withinTolerance: boolean;
+}
+
+export interface ComponentInfo {
+  index: number;
+  triangleCount: number;
+  volume: number;
+  surfaceArea: number;
+  boundingBox: THREE.Box3;
+}
+
+export interface PartGap {
+  partA: number;
+  partB: number;
+  distance: number;
+  pointA: THREE.Vector3;
+  pointB: THREE.Vector3;
+  // true when the parts' bounding boxes are already farther apart than minGap
+  // and the distance is the box separation rather than a surface measurement
+  isLowerBound: boolean;
+}
+
+export interface ComponentAnalysis {
+  componentCount: number;
+  components: ComponentInfo[];
+  partGaps: PartGap[];
+  minPartGap: number | null;
+}
+
+export interface MeshDefect {
+  count: number;
+  // Sample positions (capped) to point the user at the defect
+  locations: THREE.Vector3[];
+}
+
+export interface MeshIntegrityAnalysis {
+  isWatertight: boolean;
+  openEdges: MeshDefect;
+  nonManifoldEdges: MeshDefect;
+  nonManifoldVertices: MeshDefect;
+  flippedFaces: MeshDefect;
+  // Shells whose whole winding points inward
+  invertedShells: number;
+  degenerateFaces: MeshDefect;
+  zeroAreaFaces: MeshDefect;
+  duplicateFaces: MeshDefect;
+  selfIntersections: MeshDefect;
+}
+
+export interface MeshRepairOptions {
+  // Corners closer than this (mm) are merged
+  weldTolerance: number;
+  // Open loops up to this equivalent diameter (mm) are closed
+  maxHoleDiameter: number;
+}
+
+export interface MeshRepairReport {
+  weldedVertices: number;
+  removedDegenerateFaces: number;
+  removedDuplicateFaces: number;
+  flippedFaces: number;
+  filledHoles: number;
+  unfilledHoles: number;
+  addedFaces: number;
+  triangleCountBefore: number;
+  triangleCountAfter: number;
+}
+
+export interface OrientationPose {
+  // Outward normal of the resting hull facet in the file's frame; the pose turns it to −Z
+  baseNormal: THREE.Vector3;
+  // Rotation about Z (radians) applied once the base is down, to fit the footprint
+  yaw: number;
+  dimensions: { length: number; width: number; height: number };
+  fitsEnvelope: boolean;
+  // Mesh area actually lying on the build plate
+  baseArea: number;
+  // Distance from the centre of mass to the edge of the support polygon (mm)
+  stabilityMargin: number;
+  score: number;
+}
+
+export interface OrientationAnalysis {
+  // Stable poses, best first
+  poses: OrientationPose[];
+  centerOfMass: THREE.Vector3;
+}
+
+export interface GeometricComplexity {
+  triangleDensity: number;
+  surfaceCurvatureVariance: number;
+  componentCount: number;
+  genus: number;
+  hasFlatBase: boolean;
+  flatBaseArea: number;
+  flatBaseNormal: THREE.Vector3 | null;
+  flatBaseAccuracy: Accuracy;
+}
+
+// Analytic surface of a CAD face. Tessellation vertices and normals lie on the exact surface,
+// so these are the CAD parameters up to float precision.
+export type BrepSurface =
+  | { type: "plane"; normal: THREE.Vector3; offset: number }
+  | {
+      type: "cylinder";
+      axis: THREE.Vector3;
+      // Point on the axis halfway along the face
+      center: THREE.Vector3;
+      radius: number;
+      // Faces towards the axis (a bore or an inner blend)
+      concave: boolean;
+      // Angle covered around the axis by all faces on the same cylinder, in degrees
+      coverage: number;
+      length: number;
+    }
+  | { type: "torus"; axis: THREE.Vector3; center: THREE.Vector3; majorRadius: number; minorRadius: number; concave: boolean }
+  | { type: "other" };
+
+export interface BrepFace {
+  // Triangles firstTriangle..lastTriangle (inclusive) of the model's geometry
+  firstTriangle: number;
+  lastTriangle: number;
+  area: number;
+  surface: BrepSurface;
+}
+
+export interface BrepAnalysis {
+  faces: BrepFace[];
+  planeCount: number;
+  cylinderCount: number;
+  torusCount: number;
+  otherCount: number;
+}
+
+export type LengthUnit = "micron" | "mm" | "cm" | "m" | "inch" | "foot";
+
+export type ModelFormat = "STL" | "STEP" | "IGES" | "BREP" | "OBJ" | "3MF" | "PLY" | "GLTF" | "GLB";
+
+// Unit the file's coordinates were read in; geometry is always converted to mm before analysis
+export interface UnitInfo {
+  unit: LengthUnit;
+  // "file" when the format declares it (STEP, 3MF, glTF), "detected" by the size heuristic, "chosen" by the user
+  source: "file" | "detected" | "chosen";
+  // What the heuristic suggested for a unitless file, also when the user overrode it
+  detected: LengthUnit | null;
+}
+
+// One solid of a multi-body file (STEP, IGES or BREP assembly), analyzed on its own
+export interface AssemblyBody {
+  name: string;
+  // RGB in 0–1 from the file, null when the body has no color
+  color: [number, number, number] | null;
+  // Its triangles within the whole model's geometry
+  triangleStart: number;
+  triangleCount: number;
+  data: ModelData;
+}
+
+// Product structure of the file; `bodies` index into AssemblyAnalysis.bodies
+export interface AssemblyNode {
+  name: string;
+  bodies: number[];
+  children: AssemblyNode[];
+}
+
+export interface AssemblyAnalysis {
+  root: AssemblyNode;
+  bodies: AssemblyBody[];
+}
+
+export interface ModelData {
+  geometry: THREE.BufferGeometry;
+  dimensions: { length: number; width: number; height: number };
+  volume: number;
+  // false when open or non-manifold edges make the enclosed volume meaningless
+  volumeReliable: boolean;
+  surfaceArea: number;
+  triangleCount: number;
+  vertexCount: number;
+  edgeCount: number;
+  boundingBox: THREE.Box3;
+  normalDistribution: { x: number; y: number; z: number };
+  edgeAnalysis: EdgeAnalysis;
+  cavityAnalysis: CavityAnalysis;
+  voidAnalysis: VoidAnalysis;
+  channelAnalysis: ChannelAnalysis;
+  threadAnalysis: ThreadAnalysis;
+  surfaceFeatures: SurfaceFeatureAnalysis;
+  wallThickness: WallThicknessAnalysis;
+  clearance: ClearanceAnalysis;
+  geometricComplexity: GeometricComplexity;
+  componentAnalysis: ComponentAnalysis;
+  meshIntegrity: MeshIntegrityAnalysis;
+  orientation: OrientationAnalysis;
+  fileFormat?: ModelFormat;
+  units?: UnitInfo;
+  // Only for files with more than one body
+  assembly?: AssemblyAnalysis;
+  // Only for CAD files (STEP, IGES, BREP), whose faces are known
+  brep?: BrepAnalysis;
+}
+
+export type AnalysisStage =
+  | "parsing"
+  | "repair"
+  | "mesh"
+  | "integrity"
+  | "edges"
+  | "cavities"
+  | "voids"
+  | "channels"
+  | "threads"
+  | "surface"
+  | "wallThickness"
+  | "clearance"
+  | "components"
+  | "complexity"
+  | "orientation"
+  | "bodies"
+  | "alignment"
+  | "deviation";
+
+// A metric of two revisions of a part side by side
+export interface MetricChange {
+  id: string;
+  label: string;
+  unit: string;
+  // Decimals shown, and below which a change does not count
+  digits: number;
+  // null when the revision has nothing to measure (no fillets, no facing surfaces)
+  before: number | null;
+  after: number | null;
+  // Moved the way that makes the part harder to produce
+  regression: boolean;
+  improvement: boolean;
+}
+
+// A rule that passed in one revision and fails in the other
+export interface RuleFlip {
+  ruleId: string;
+  name: string;
+  before: ValidationResult;
+  after: ValidationResult;
+}
+
+export interface RevisionComparison {
+  metrics: MetricChange[];
+  flips: RuleFlip[];
+  // One sentence per change for the worse, rule failures first
+  regressions: string[];
+  improvements: string[];
+}
+
+export interface DeviationOptions {
+  // Register the new revision onto the old one before measuring; off keeps the files' own coordinates
+  align: boolean;
+  // Distances within this band count as unchanged (mm)
+  tolerance: number;
+}
+
+// Geometric deviation of the new revision from the old surface
+export interface RevisionDeviation {
+  // Rigid transform (column-major 4×4) applied to the new revision before measuring
+  matrix: number[];
+  // RMS distance of the sampled points once aligned, after dropping the farthest tenth
+  alignmentRms: number;
+  // The new revision, aligned and with long triangles split, as an unindexed buffer
+  positions: Float32Array;
+  // Signed distance of each vertex of `positions` to the old surface:
+  // positive outside it (material added), negative inside (material removed)
+  values: Float32Array;
+  min: number;
+  max: number;
+  meanAbsolute: number;
+  rms: number;
+  // Fraction of the vertices within the tolerance
+  withinTolerance: number;
+}
+
+export type AnalysisWorkerRequest =
+  | { type: "analyze"; fileName: string; buffer: ArrayBuffer; guidelines: Guidelines; units: LengthUnit | null }
+  | { type: "repair"; positions: Float32Array; options: MeshRepairOptions; guidelines: Guidelines }
+  | { type: "compare"; reference: Float32Array; revision: Float32Array; options: DeviationOptions };
+
+// Body metrics as posted by the worker; the client slices each body's geometry out of the model's
+export type AssemblyMetrics = Omit<AssemblyAnalysis, "bodies"> & {
+  bodies: (Omit<AssemblyBody, "data"> & { data: Omit<ModelData, "geometry" | "assembly"> })[];
+};
+
+export type AnalysisWorkerResponse =
+  | { type: "progress"; stage: AnalysisStage }
+  | {
+      type: "result";
+      data: Omit<ModelData, "geometry" | "assembly">;
+      positions: Float32Array;
+      assembly?: AssemblyMetrics;
+      repairReport?: MeshRepairReport;
+    }
+  | { type: "deviation"; deviation: RevisionDeviation }
+  | { type: "error"; message: string };
@@ -0,0 +1,64 @@
+import * as THREE from "three";
+import type { LengthUnit, UnitInfo } from "./types";
+
+export const LENGTH_UNITS: Record<LengthUnit, { label: string; scale: number }> = {
+  micron: { label: "µm", scale: 0.001 },
+  mm: { label: "mm", scale: 1 },
+  cm: { label: "cm", scale: 10 },
+  m: { label: "m", scale: 1000 },
+  inch: { label: "pollici", scale: 25.4 },
+  foot: { label: "piedi", scale: 304.8 },
+};
+
+// Longest side of a typical part for this process, in mm
+const TYPICAL_SIZE = { min: 10, max: 150 };
+// Most unitless files come from CAD set to mm; inches are the next most common
+const UNIT_PRIOR: Record<LengthUnit, number> = { micron: -1, mm: 0.35, cm: -0.1, m: 0, inch: 0.1, foot: -1 };
+// Beyond these a reading is not a printable part at all
+const MIN_FEATURE = 0.2;
+const MAX_SIZE = 1000;
+
+// Whether `value` sits on the grid a designer in this unit would round to
+function isRound(value: number, unit: LengthUnit): boolean {
+  const step = unit === "inch" ? 1 / 64 : 0.1 / LENGTH_UNITS[unit].scale;
+  const steps = value / step;
+  return Math.abs(steps - Math.round(steps)) < 0.02;
+}
+
+// Orders of magnitude `value` lies outside [min, max]
+function decadesOutside(value: number, { min, max }: { min: number; max: number }): number {
+  return value < min ? Math.log10(min / value) : value > max ? Math.log10(value / max) : 0;
+}
+
+// Likely unit of a unitless mesh. Each unit is scored on how plausible the part would be in mm:
+// longest side in the range of typical parts, thinnest side still printable, and bounding
+// box sides that are round numbers in that unit. Ties go to the more common export unit.
+export function detectUnit(geometry: THREE.BufferGeometry): LengthUnit {
+  geometry.computeBoundingBox();
+  const size = geometry.boundingBox!.getSize(new THREE.Vector3());
+  const sides = [size.x, size.y, size.z].sort((a, b) => a - b);
+  if (!(sides[2] > 0)) return "mm";
+
+  let best: LengthUnit = "mm";
+  let bestScore = -Infinity;
+  for (const unit of Object.keys(LENGTH_UNITS) as LengthUnit[]) {
+    const { scale } = LENGTH_UNITS[unit];
+    let score = UNIT_PRIOR[unit] - decadesOutside(sides[2] * scale, TYPICAL_SIZE);
+    score += 0.25 * sides.filter(side => isRound(side, unit)).length / 3;
+    if (sides[0] * scale < MIN_FEATURE || sides[2] * scale > MAX_SIZE) score -= 2;
+    if (score > bestScore) {
+      bestScore = score;
+      best = unit;
+    }
+  }
+  return best;
+}
+
+// Rescales a unitless mesh to mm in place, in the chosen unit or else the detected one
+export function applyUnits(geometry: THREE.BufferGeometry, chosen: LengthUnit | null): UnitInfo {
+  const detected = detectUnit(geometry);
+  const unit = chosen ?? detected;
+  const { scale } = LENGTH_UNITS[unit];
+  if (scale !== 1) geometry.scale(scale, scale, scale);
+  return { unit, source: chosen ? "chosen" : "detected", detected };
+}
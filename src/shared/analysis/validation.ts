@@ -0,0 +1,584 @@
+import type * as THREE from "three";
+import { customRule } from "./customRules";
+import { toleranceBand } from "./dimensions";
+import { LENGTH_UNITS } from "./units";
+import type {
+  ChannelSpec,
+  DimensionMeasurement,
+  GapLocation,
+  Guidelines,
+  HoleInfo,
+  InternalVoid,
+  MeshDefect,
+  ModelData,
+  PartGap,
+  RuleCategory,
+  SurfaceFeature,
+  ThreadInfo,
+  ValidationResult,
+  ValidationRule,
+} from "./types";
+
+export const RULE_CATEGORIES: Record<RuleCategory, string> = {
+  dimensions: "Dimensioni",
+  geometry: "Geometria",
+  features: "Dettagli",
+  manufacturing: "Producibilità",
+  mesh: "Mesh",
+  custom: "Personalizzate",
+};
+
+const formatPoint = (p: THREE.Vector3) => `(${p.x.toFixed(2)}, ${p.y.toFixed(2)}, ${p.z.toFixed(2)})`;
+
+// Built-in rules, in the order they are listed
+const BUILTIN_RULES: ValidationRule[] = [
+  // 1. Dimensioni massime
+  {
+    id: "max-dimensions",
+    name: "Dimensioni Massime",
+    category: "dimensions",
+    severity: { passed: "info", failed: "error" },
+    check: ({ data, guidelines }) => {
+      const { length, width, height } = data.dimensions;
+      const bestPose = data.orientation.poses[0];
+      const units = data.units && data.units.unit !== "mm"
+        ? ` File in ${LENGTH_UNITS[data.units.unit].label} (${data.units.source === "detected" ? 'unità rilevata' : 'unità scelta'}), convertito in mm.`
+        : '';
+      const withinDimensions =
+        length <= guidelines.maxDimensions.length &&
+        width <= guidelines.maxDimensions.width &&
+        height <= guidelines.maxDimensions.height;
+
+      return {
+        passed: withinDimensions,
+        message: withinDimensions
+          ? `Dimensioni OK: ${length.toFixed(2)} × ${width.toFixed(2)} × ${height.toFixed(2)} mm`
+          : `ERRORE: Dimensioni superano il limite di ${guidelines.maxDimensions.length} × ${guidelines.maxDimensions.width} × ${guidelines.maxDimensions.height} mm`,
+        details: `Dimensioni rilevate: L=${length.toFixed(3)}mm, W=${width.toFixed(3)}mm, H=${height.toFixed(3)}mm. Limiti: ${guidelines.maxDimensions.length}mm × ${guidelines.maxDimensions.width}mm × ${guidelines.maxDimensions.height}mm.${
+          bestPose && !withinDimensions
+            ? ` Orientamento suggerito: ${bestPose.dimensions.length.toFixed(2)} × ${bestPose.dimensions.width.toFixed(2)} × ${bestPose.dimensions.height.toFixed(2)} mm (${bestPose.fitsEnvelope ? 'rientra nei limiti' : 'non rientra nei limiti in nessuna posa stabile'}).`
+            : ''
+        }${units}`,
+      };
+    },
+  },
+
+  // 2. Tolleranze
+  {
+    id: "tolerances",
+    name: "Tolleranze Applicabili",
+    category: "dimensions",
+    severity: { passed: "info", failed: "info" },
+    check: ({ data, guidelines }) => {
+      const { length, width, height } = data.dimensions;
+      const { threshold } = guidelines.tolerance;
+      const toleranceInfo = ([["L", length], ["W", width], ["H", height]] as const).map(([axis, size]) =>
+        size < threshold
+          ? `${axis}: ±${toleranceBand(size, guidelines)}mm (${size.toFixed(2)}mm < ${threshold}mm)`
+          : `${axis}: ±${toleranceBand(size, guidelines).toFixed(3)}mm (${guidelines.tolerance.percent}% di ${size.toFixed(2)}mm)`
+      );
+
+      return {
+        passed: true,
+        message: "Tolleranze calcolate in base alle dimensioni",
+        details: toleranceInfo.join(" | "),
+      };
+    },
+  },
+
+  // 3. Aspect Ratio
+  {
+    id: "aspect-ratio",
+    name: "Aspect Ratio",
+    category: "geometry",
+    severity: { passed: "info", failed: "error" },
+    check: ({ data, guidelines }) => {
+      const { length, width, height } = data.dimensions;
+      const dims = [length, width, height].sort((a, b) => b - a);
+      const aspectRatio = dims[0] / dims[2];
+      const aspectOk = aspectRatio <= guidelines.aspectRatioMax;
+      const aspectRecommended = aspectRatio <= guidelines.aspectRatioRecommended;
+
+      return {
+        passed: aspectOk,
+        severity: aspectOk && !aspectRecommended ? "warning" : undefined,
+        message: aspectOk
+          ? aspectRecommended
+            ? `Ottimo: ${aspectRatio.toFixed(2)}:1 (≤${guidelines.aspectRatioRecommended}:1 consigliato)`
+            : `Accettabile: ${aspectRatio.toFixed(2)}:1 (consigliato ≤${guidelines.aspectRatioRecommended}:1)`
+          : `ERRORE: ${aspectRatio.toFixed(2)}:1 supera il massimo ${guidelines.aspectRatioMax}:1`,
+        details: `Dimensione maggiore: ${dims[0].toFixed(2)}mm, minore: ${dims[2].toFixed(2)}mm. Rapporto: ${aspectRatio.toFixed(3)}:1`,
+      };
+    },
+  },
+
+  // 4. Spigoli e Raccordi (Edge Analysis)
+  {
+    id: "edges",
+    name: "Spigoli e Raccordi",
+    category: "geometry",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data, guidelines }) => {
+      const { fillets, sharpEdgeChains, minFilletRadius, minTJunctionRadius } = data.edgeAnalysis;
+      const edgeIssues = [
+        ...sharpEdgeChains.filter(c => c.convex).map(c =>
+          `Spigolo vivo ${c.angle.toFixed(0)}°, L=${c.length.toFixed(1)}mm in ${formatPoint(c.center)}: senza raccordo (min ${guidelines.minCurvatureRadius}mm)`),
+        ...fillets.filter(f => f.convex && f.radius < guidelines.minCurvatureRadius).map(f =>
+          `Raccordo R${f.radius.toFixed(2)}mm in ${formatPoint(f.center)}: < ${guidelines.minCurvatureRadius}mm`),
+        ...sharpEdgeChains.filter(c => !c.convex).map(c =>
+          `Giunzione a T ${c.angle.toFixed(0)}°, L=${c.length.toFixed(1)}mm in ${formatPoint(c.center)}: senza raccordo (min ${guidelines.minTJunctionRadius}mm)`),
+        ...fillets.filter(f => !f.convex && f.radius < guidelines.minTJunctionRadius).map(f =>
+          `Raccordo interno R${f.radius.toFixed(2)}mm in ${formatPoint(f.center)}: < ${guidelines.minTJunctionRadius}mm`),
+      ];
+      const edgeOk = minFilletRadius === null || minFilletRadius >= guidelines.minCurvatureRadius;
+      const tJunctionOk = minTJunctionRadius === null || minTJunctionRadius >= guidelines.minTJunctionRadius;
+      const formatRadius = (radius: number | null) => radius === null ? 'N/A' : radius === 0 ? '0 (spigolo vivo)' : `${radius.toFixed(3)}mm`;
+
+      return {
+        passed: edgeOk && tJunctionOk,
+        accuracy: data.brep ? "exact" : "estimated",
+        message: edgeOk && tJunctionOk
+          ? `${fillets.length} raccordi conformi, nessuno spigolo vivo`
+          : `ATTENZIONE: ${edgeIssues.length} spigoli o raccordi sotto il raggio minimo`,
+        details: `${edgeIssues.length > 0 ? `Violazioni: ${edgeIssues.slice(0, 10).join('; ')}${edgeIssues.length > 10 ? `; +${edgeIssues.length - 10} altre` : ''}. ` : ''}Raccordi esterni: ${fillets.filter(f => f.convex).length}, raggio min ${formatRadius(minFilletRadius)}. Giunzioni a T: ${data.edgeAnalysis.tJunctionCount}, raggio min ${formatRadius(minTJunctionRadius)}. Spigoli vivi: ${data.edgeAnalysis.sharpEdges}. ${data.brep ? 'Raggi letti dalle superfici cilindriche e toroidali del modello CAD' : 'Raggi misurati da curvatura discreta e fit cilindrico delle fasce di raccordo'}. Requisiti: raggio min ${guidelines.minCurvatureRadius}mm, giunzioni T min ${guidelines.minTJunctionRadius}mm.`,
+      };
+    },
+  },
+
+  // 5. Cavità e Fori Ciechi
+  {
+    id: "cavities",
+    name: "Cavità e Fori Ciechi",
+    category: "features",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data, guidelines }) => {
+      const { holes } = data.cavityAnalysis;
+      const narrowHoles = holes.filter(h => h.diameter < guidelines.minCavityWidth);
+      const deepHoles = holes.filter(h => h.type === "blind" && h.depthRatio > guidelines.cavityDepthRatio.max);
+      const borderlineHoles = holes.filter(h =>
+        h.type === "blind" && h.depthRatio > guidelines.cavityDepthRatio.min && h.depthRatio <= guidelines.cavityDepthRatio.max
+      );
+      const cavityOk = narrowHoles.length === 0 && deepHoles.length === 0;
+      const describeHole = (h: HoleInfo) =>
+        `${h.type === "blind" ? "Cieco" : "Passante"} Ø${h.diameter.toFixed(2)}mm × ${h.depth.toFixed(2)}mm (${h.depthRatio.toFixed(1)}:1) in (${h.center.x.toFixed(2)}, ${h.center.y.toFixed(2)}, ${h.center.z.toFixed(2)})`;
+      const holeIssues = [
+        ...narrowHoles.map(h => `${describeHole(h)}: larghezza < ${guidelines.minCavityWidth}mm`),
+        ...deepHoles.map(h => `${describeHole(h)}: rapporto > ${guidelines.cavityDepthRatio.max}:1`),
+      ];
+
+      return {
+        passed: cavityOk,
+        accuracy: holes.length > 0 && holes.every(h => h.accuracy === "exact") ? "exact" : "estimated",
+        severity: cavityOk ? (borderlineHoles.length > 0 ? "warning" : undefined) : (narrowHoles.length > 0 ? "error" : undefined),
+        message: holes.length === 0
+          ? "Nessun foro rilevato"
+          : cavityOk
+          ? `${holes.length} fori conformi (${data.cavityAnalysis.blindHoleCount} ciechi, ${data.cavityAnalysis.throughHoleCount} passanti)`
+          : `ERRORE: ${holeIssues.length} fori fuori specifica`,
+        details: `${holeIssues.length > 0 ? `Violazioni: ${holeIssues.join('; ')}. ` : ""}${
+          borderlineHoles.length > 0 ? `Fori ciechi oltre ${guidelines.cavityDepthRatio.min}:1 (accettabili): ${borderlineHoles.map(describeHole).join('; ')}. ` : ""
+        }Fori ciechi: ${data.cavityAnalysis.blindHoleCount}. Fori passanti: ${data.cavityAnalysis.throughHoleCount}. Loop di bordo: ${data.cavityAnalysis.boundaryLoops}. Cavità potenziali: ${data.cavityAnalysis.potentialCavities}. Requisiti: larghezza min ${guidelines.minCavityWidth}mm, rapporto profondità/larghezza ${guidelines.cavityDepthRatio.min}:1-${guidelines.cavityDepthRatio.max}:1.`,
+      };
+    },
+  },
+
+  // 6. Canali Aperti
+  {
+    id: "channels",
+    name: "Canali Aperti",
+    category: "features",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data, guidelines }) => {
+      const channelResults: string[] = [];
+      let channelOk = true;
+      const formatRange = (spec: ChannelSpec) => spec.diameterRange[1] === Infinity
+        ? `Ø>${spec.diameterRange[0]}mm`
+        : `Ø${spec.diameterRange[0]}-${spec.diameterRange[1]}mm`;
+      const minChannelDiameter = Math.min(...guidelines.channelSpecs.map(spec => spec.diameterRange[0]));
+
+      data.channelAnalysis.channels.forEach((channel) => {
+        const d = channel.diameter;
+        const label = `Canale ${channel.curved ? "curvo" : "rettilineo"} Ø${d.toFixed(2)}mm, L=${channel.length.toFixed(1)}mm${
+          channel.bendRadius !== null ? `, raggio curvatura ${channel.bendRadius.toFixed(1)}mm` : ""
+        } da (${channel.start.x.toFixed(1)}, ${channel.start.y.toFixed(1)}, ${channel.start.z.toFixed(1)})`;
+        const spec = guidelines.channelSpecs.find(s => d >= s.diameterRange[0] && d <= s.diameterRange[1]);
+
+        if (!spec) {
+          channelOk = false;
+          channelResults.push(`${label}: diametro sotto il minimo ${minChannelDiameter}mm`);
+        } else if (spec.maxDepth !== undefined && channel.curved) {
+          channelOk = false;
+          channelResults.push(`${label}: per ${formatRange(spec)} il canale deve essere rettilineo`);
+        } else if (spec.maxDepth !== undefined && channel.length > spec.maxDepth) {
+          channelOk = false;
+          channelResults.push(`${label}: profondità > ${spec.maxDepth}mm max per ${formatRange(spec)}`);
+        } else if (spec.minCurvatureRadius !== undefined && channel.bendRadius !== null && channel.bendRadius < spec.minCurvatureRadius) {
+          channelOk = false;
+          channelResults.push(`${label}: raggio curvatura < ${spec.minCurvatureRadius}mm min per ${formatRange(spec)}`);
+        } else {
+          channelResults.push(`${label}: conforme`);
+        }
+      });
+
+      // Both limits are optional, so a tier may set one, both or neither
+      const specSummary = guidelines.channelSpecs.map(spec => {
+        const limits = [
+          ...(spec.maxDepth !== undefined ? [`max ${spec.maxDepth}mm rettilineo`] : []),
+          ...(spec.minCurvatureRadius !== undefined ? [`raggio curvatura min ${spec.minCurvatureRadius}mm`] : []),
+        ];
+        return `${formatRange(spec)} ${limits.length > 0 ? limits.join(", ") : "senza limiti"}`;
+      }).join("; ");
+
+      return {
+        passed: channelOk,
+        message: data.channelAnalysis.potentialChannels > 0
+          ? `${data.channelAnalysis.potentialChannels} canali (${data.channelAnalysis.straightChannels} rettilinei, ${data.channelAnalysis.curvedChannels} curvi)`
+          : "Nessun canale rilevato",
+        details: `${channelResults.length > 0 ? channelResults.join(". ") + ". " : ""}Specifiche: ${specSummary}.`,
+      };
+    },
+  },
+
+  // 7. Rilievi e Incisioni
+  {
+    id: "surface-features",
+    name: "Rilievi e Incisioni",
+    category: "features",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data, guidelines }) => {
+      const { features, reliefCount, engravingCount } = data.surfaceFeatures;
+      const describeFeature = (f: SurfaceFeature) =>
+        `${f.kind === "relief" ? "Rilievo" : "Incisione"} ${f.length.toFixed(2)}×${f.width.toFixed(2)}mm, ${f.kind === "relief" ? "altezza" : "profondità"} ${f.height.toFixed(2)}mm in ${formatPoint(f.center)}`;
+      const featureIssues = [
+        ...features.filter(f => f.characterHeight < guidelines.minCharacterHeight).map(f =>
+          `${describeFeature(f)}: altezza carattere ${f.characterHeight.toFixed(2)}mm < ${guidelines.minCharacterHeight}mm`),
+        ...features.filter(f => f.strokeWidth < guidelines.minLineWidth).map(f =>
+          `${describeFeature(f)}: tratto ${f.strokeWidth.toFixed(2)}mm < ${guidelines.minLineWidth}mm`),
+      ];
+      const featureOk = featureIssues.length === 0;
+      const formatMeasure = (value: number | null) => value === null ? 'N/A' : `${value.toFixed(3)}mm`;
+
+      return {
+        passed: featureOk,
+        message: features.length === 0
+          ? "Nessun rilievo/incisione significativo rilevato"
+          : featureOk
+          ? `${reliefCount} rilievi, ${engravingCount} incisioni conformi`
+          : `ATTENZIONE: ${featureIssues.length} rilievi/incisioni sotto i minimi`,
+        details: `${featureIssues.length > 0 ? `Violazioni: ${featureIssues.slice(0, 10).join('; ')}${featureIssues.length > 10 ? `; +${featureIssues.length - 10} altre` : ''}. ` : ''}Rilievi: ${reliefCount} (altezza max ${data.surfaceFeatures.maxReliefHeight.toFixed(3)}mm). Incisioni: ${engravingCount} (profondità max ${data.surfaceFeatures.maxEngravingDepth.toFixed(3)}mm). Tratto min: ${formatMeasure(data.surfaceFeatures.minStrokeWidth)}. Altezza carattere min: ${formatMeasure(data.surfaceFeatures.minCharacterHeight)}. Mappe di altezza su ${data.surfaceFeatures.scannedSurfaces} facce. Requisiti: altezza caratteri min ${guidelines.minCharacterHeight}mm, linee min ${guidelines.minLineWidth}mm.`,
+      };
+    },
+  },
+
+  // 8. Spessore Parete
+  {
+    id: "wall-thickness",
+    name: "Spessore Parete",
+    category: "manufacturing",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data, guidelines }) => {
+      const wallOk = data.wallThickness.minThickness >= guidelines.wallThickness.min &&
+        data.wallThickness.maxThickness <= guidelines.wallThickness.max;
+
+      return {
+        passed: wallOk,
+        severity: data.wallThickness.minThickness < guidelines.wallThickness.min ? "error" : undefined,
+        message: wallOk
+          ? `Spessore OK: ${data.wallThickness.minThickness.toFixed(2)} - ${data.wallThickness.maxThickness.toFixed(2)} mm | Qualità: ${data.wallThickness.qualityGrade}`
+          : `Spessore fuori range: ${data.wallThickness.minThickness.toFixed(2)} - ${data.wallThickness.maxThickness.toFixed(2)} mm | Qualità: ${data.wallThickness.qualityGrade}`,
+        details: `STATISTICHE DETTAGLIATE:
+• Minimo: ${data.wallThickness.minThickness.toFixed(4)}mm | Massimo: ${data.wallThickness.maxThickness.toFixed(4)}mm
+• Media: ${data.wallThickness.avgThickness.toFixed(4)}mm | Mediana: ${data.wallThickness.medianThickness.toFixed(4)}mm
+• Deviazione Standard: ${data.wallThickness.stdDeviation.toFixed(4)}mm
+• Punteggio Qualità: ${data.wallThickness.qualityScore}/100 (${data.wallThickness.qualityGrade})
+
+ANALISI CAMPIONAMENTO:
+• Triangoli misurati: ${data.wallThickness.sampleCount.toLocaleString()} (${data.wallThickness.coveragePercent.toFixed(1)}% della mesh)
+• Raggi multi-angolo verso l'interno con ray-casting accelerato (BVH)
+
+AREE CRITICHE:
+• Aree <${guidelines.wallThickness.min}mm: ${data.wallThickness.thinAreas} (${data.wallThickness.percentBelow1mm.toFixed(2)}% della superficie)
+• Aree borderline ${guidelines.wallThickness.min}-${guidelines.hollowWallThickness}mm: ${data.wallThickness.borderlineAreas} (${(data.wallThickness.percentBelow1_2mm - data.wallThickness.percentBelow1mm).toFixed(2)}% aggiuntivo)
+• Totale <${guidelines.hollowWallThickness}mm: ${data.wallThickness.percentBelow1_2mm.toFixed(2)}%
+
+Range richiesto: ${guidelines.wallThickness.min}-${guidelines.wallThickness.max}mm`,
+      };
+    },
+  },
+
+  // 9. Base di Appoggio
+  {
+    id: "flat-base",
+    name: "Base di Appoggio",
+    category: "manufacturing",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data }) => {
+      // The part is printed in its best stable pose, so that pose's contact decides
+      const bestPose = data.orientation.poses[0];
+      const hasFlatBase = bestPose !== undefined && bestPose.baseArea > 0;
+      return {
+        passed: hasFlatBase,
+        accuracy: "estimated",
+        message: hasFlatBase
+          ? `Base piana nell'orientamento suggerito (${bestPose.baseArea.toFixed(2)} mm²)`
+          : "ATTENZIONE: Nessuna base piana significativa nell'orientamento suggerito",
+        details: `${
+          bestPose
+            ? `Orientamento suggerito: base di ${bestPose.baseArea.toFixed(3)} mm² sulla faccia con normale (${bestPose.baseNormal.x.toFixed(2)}, ${bestPose.baseNormal.y.toFixed(2)}, ${bestPose.baseNormal.z.toFixed(2)}), margine di stabilità ${bestPose.stabilityMargin.toFixed(2)} mm.`
+            : 'Nessuna posa stabile trovata.'
+        } Requisito: almeno una superficie piana per l'appoggio.`,
+      };
+    },
+  },
+
+  // 10. Filettature
+  {
+    id: "threads",
+    name: "Filettature",
+    category: "features",
+    severity: { passed: "info", failed: "error" },
+    check: ({ data, guidelines }) => {
+      const { threads } = data.threadAnalysis;
+      // Nominal metric size from the measured major diameter (crest of a bolt, root of a nut)
+      const nominalThreadSize = (t: ThreadInfo) => Math.round(t.majorDiameter);
+      const describeThread = (t: ThreadInfo) =>
+        `M${nominalThreadSize(t)} ${t.type === "internal" ? "interno" : "esterno"} (Ø${t.majorDiameter.toFixed(2)}mm, passo ${t.pitch.toFixed(2)}mm, L=${t.length.toFixed(1)}mm) in ${formatPoint(t.center)}`;
+      const smallThreads = threads.filter(t => nominalThreadSize(t) < guidelines.minThreadSize);
+      const threadsOk = smallThreads.length === 0;
+
+      return {
+        passed: threadsOk,
+        message: threads.length === 0
+          ? "Nessuna filettatura rilevata"
+          : threadsOk
+          ? `${threads.length} filettature conformi (≥M${guidelines.minThreadSize})`
+          : `ERRORE: ${smallThreads.length} filettature sotto M${guidelines.minThreadSize}`,
+        details: `${smallThreads.length > 0 ? `Violazioni: ${smallThreads.map(t => `${describeThread(t)}: < M${guidelines.minThreadSize}`).join('; ')}. ` : ''}${
+          threads.length > smallThreads.length ? `Conformi: ${threads.filter(t => !smallThreads.includes(t)).map(describeThread).join('; ')}. ` : ''
+        }Filettature esterne: ${data.threadAnalysis.externalThreadCount}. Interne: ${data.threadAnalysis.internalThreadCount}. Rilevate da superfici elicoidali dei fianchi. Requisito: filetto abbozzato a partire da M${guidelines.minThreadSize}.`,
+      };
+    },
+  },
+
+  // 11. Oggetti Cavi
+  {
+    id: "hollow-parts",
+    name: "Oggetti Cavi",
+    category: "manufacturing",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data, guidelines }) => {
+      const { voids } = data.voidAnalysis;
+      const drainHoles = (v: InternalVoid) => v.openingDiameters.filter(d => d >= guidelines.drainHoleDiameter.min).length;
+      const undrainedVoids = voids.filter(v => drainHoles(v) < guidelines.minDrainHoles);
+      const thinVoids = voids.filter(v => v.shellThickness !== null && v.shellThickness < guidelines.hollowWallThickness);
+      const hollowOk = undrainedVoids.length === 0 && thinVoids.length === 0;
+      const describeVoid = (v: InternalVoid) =>
+        `Cavità ${v.volume.toFixed(1)}mm³ in ${formatPoint(v.center)}, guscio ${v.shellThickness === null ? 'N/A' : `${v.shellThickness.toFixed(2)}mm`}, ${
+          v.openingDiameters.length === 0 ? 'chiusa' : `aperture Ø${v.openingDiameters.map(d => d.toFixed(2)).join(', Ø')}mm`
+        }`;
+      const voidIssues = [
+        ...undrainedVoids.map(v => `${describeVoid(v)}: ${drainHoles(v)} fori di svuotamento ≥ Ø${guidelines.drainHoleDiameter.min}mm (min ${guidelines.minDrainHoles})`),
+        ...thinVoids.map(v => `${describeVoid(v)}: guscio < ${guidelines.hollowWallThickness}mm`),
+      ];
+
+      return {
+        passed: hollowOk,
+        severity: undrainedVoids.length > 0 ? "error" : undefined,
+        message: voids.length === 0
+          ? "Nessuna cavità interna rilevata"
+          : hollowOk
+          ? `${voids.length} cavità interne con fori di svuotamento e guscio adeguati`
+          : undrainedVoids.length > 0
+          ? `ERRORE: ${undrainedVoids.length} cavità interne senza fori di svuotamento sufficienti`
+          : `Verifica spessore per oggetti cavi: min ${guidelines.hollowWallThickness}mm richiesto`,
+        details: `${voidIssues.length > 0 ? `Violazioni: ${voidIssues.join('; ')}. ` : ''}${
+          voids.length > 0 && hollowOk ? `Cavità: ${voids.map(describeVoid).join('; ')}. ` : ''
+        }Volume cavità totale: ${data.voidAnalysis.totalVoidVolume.toFixed(1)}mm³. Per oggetti cavi: guscio min ${guidelines.hollowWallThickness}mm. Fori svuotamento necessari: ${guidelines.minDrainHoles}, diametro min ${guidelines.drainHoleDiameter.min}mm (consigliato ${guidelines.drainHoleDiameter.recommended}mm).`,
+      };
+    },
+  },
+
+  // 12. Parti Concatenate
+  {
+    id: "interlocked-parts",
+    name: "Parti Concatenate",
+    category: "manufacturing",
+    severity: { passed: "info", failed: "error" },
+    check: ({ data, guidelines }) => {
+      const { componentCount, components, partGaps, minPartGap } = data.componentAnalysis;
+      const tightGaps = partGaps.filter(g => g.distance < guidelines.minGap);
+      const gapsOk = tightGaps.length === 0;
+      const formatGap = (g: PartGap) =>
+        `Parte ${g.partA + 1} ↔ Parte ${g.partB + 1}: ${g.isLowerBound ? '≥' : ''}${g.distance.toFixed(3)}mm`;
+
+      return {
+        passed: gapsOk,
+        message: componentCount <= 1
+          ? "Modello monocorpo: nessuna parte concatenata"
+          : gapsOk
+          ? `${componentCount} parti, distanza minima ${minPartGap !== null ? minPartGap.toFixed(3) : 'N/A'}mm (≥${guidelines.minGap}mm)`
+          : `ERRORE: ${tightGaps.length} coppie di parti sotto ${guidelines.minGap}mm`,
+        details: componentCount <= 1
+          ? `Rilevato un solo guscio (volume ${components[0]?.volume.toFixed(3) ?? '0'} mm³). Requisito per parti concatenate o mobili: distanza minima ${guidelines.minGap}mm.`
+          : `Parti rilevate: ${components.map(c => `Parte ${c.index + 1} (${c.volume.toFixed(2)} mm³, ${c.triangleCount} triangoli)`).join(', ')}. ${
+              gapsOk
+                ? `Distanze più ridotte: ${partGaps.slice(0, 5).map(formatGap).join('; ')}.`
+                : `Violazioni: ${tightGaps.map(g => `${formatGap(g)} tra ${formatPoint(g.pointA)} e ${formatPoint(g.pointB)}`).join('; ')}.`
+            } Requisito: distanza minima ${guidelines.minGap}mm tra le parti.`,
+      };
+    },
+  },
+
+  // 13. Fessure e Giochi
+  {
+    id: "clearance",
+    name: "Fessure e Giochi",
+    category: "manufacturing",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data, guidelines }) => {
+      const clearance = data.clearance;
+      const closedGaps = clearance.narrowest.filter(g => g.distance < guidelines.minCavityWidth);
+      const narrowGaps = clearance.narrowest.filter(g => g.distance >= guidelines.minCavityWidth && g.distance < guidelines.minGap);
+      const clearanceOk = closedGaps.length === 0 && narrowGaps.length === 0;
+      const describeGap = (g: GapLocation) =>
+        `${g.distance.toFixed(3)}mm tra ${formatPoint(g.pointA)} e ${formatPoint(g.pointB)}`;
+      const gapViolations = [
+        ...closedGaps.map(g => `${describeGap(g)}: < ${guidelines.minCavityWidth}mm`),
+        ...narrowGaps.map(g => `${describeGap(g)}: < ${guidelines.minGap}mm`),
+      ];
+      let previousBound = 0;
+      const gapBins = clearance.distribution.map(b => {
+        const label = `${previousBound}-${b.upTo}mm: ${b.areaPercent.toFixed(1)}%`;
+        previousBound = b.upTo;
+        return label;
+      });
+
+      return {
+        passed: clearanceOk,
+        severity: closedGaps.length > 0 ? "error" : undefined,
+        message: clearance.minGap === null
+          ? "Nessuna coppia di superfici affacciate rilevata"
+          : clearanceOk
+          ? `Fessura minima ${clearance.minGap.toFixed(2)}mm (≥${guidelines.minGap}mm)`
+          : closedGaps.length > 0
+          ? `ERRORE: ${closedGaps.length} fessure sotto ${guidelines.minCavityWidth}mm (min ${clearance.minGap.toFixed(3)}mm)`
+          : `${narrowGaps.length} fessure sotto ${guidelines.minGap}mm (min ${clearance.minGap.toFixed(3)}mm)`,
+        details: `${gapViolations.length > 0 ? `Violazioni: ${gapViolations.join('; ')}. ` : ''}${
+          clearance.minGap !== null
+            ? `Fessura mediana: ${clearance.medianGap!.toFixed(2)}mm su ${clearance.measuredFaceCount} facce affacciate. Distribuzione (area): ${gapBins.join(', ')}. `
+            : ''
+        }Requisiti: distanza minima ${guidelines.minGap}mm tra superfici affacciate, larghezza min ${guidelines.minCavityWidth}mm per fessure e scanalature.`,
+      };
+    },
+  },
+
+  // 14. Integrità Mesh
+  {
+    id: "mesh-integrity",
+    name: "Integrità Mesh",
+    category: "mesh",
+    severity: { passed: "info", failed: "warning" },
+    check: ({ data }) => {
+      const integrity = data.meshIntegrity;
+      const defectRows: [string, MeshDefect][] = [
+        ["Spigoli aperti", integrity.openEdges],
+        ["Spigoli non-manifold", integrity.nonManifoldEdges],
+        ["Vertici non-manifold", integrity.nonManifoldVertices],
+        ["Auto-intersezioni", integrity.selfIntersections],
+        ["Facce invertite", integrity.flippedFaces],
+        ["Facce degeneri", integrity.degenerateFaces],
+        ["Facce ad area nulla", integrity.zeroAreaFaces],
+        ["Facce duplicate", integrity.duplicateFaces],
+      ];
+      const criticalDefects = integrity.openEdges.count + integrity.nonManifoldEdges.count +
+        integrity.nonManifoldVertices.count + integrity.selfIntersections.count;
+      const minorDefects = integrity.flippedFaces.count + integrity.degenerateFaces.count +
+        integrity.zeroAreaFaces.count + integrity.duplicateFaces.count;
+      const integrityOk = criticalDefects === 0 && minorDefects === 0;
+      const formatDefect = ([label, defect]: [string, MeshDefect]) =>
+        `• ${label}: ${defect.count}${defect.locations.length > 0
+          ? ` — es. ${defect.locations.slice(0, 5).map(formatPoint).join(', ')}${defect.count > 5 ? '…' : ''}`
+          : ''}`;
+
+      return {
+        passed: integrityOk,
+        severity: criticalDefects > 0 ? "error" : undefined,
+        message: integrityOk
+          ? "Mesh chiusa e manifold, nessun difetto rilevato"
+          : criticalDefects > 0
+          ? `ERRORE: mesh ${integrity.isWatertight ? 'con difetti topologici' : 'non chiusa'} (${criticalDefects} difetti critici)`
+          : `${minorDefects} facce da correggere (invertite, degeneri o duplicate)`,
+        details: `${defectRows.map(formatDefect).join('\n')}
+• Gusci con orientamento invertito: ${integrity.invertedShells}
+
+${data.volumeReliable
+  ? 'Volume calcolato su mesh chiusa: valore affidabile.'
+  : 'Volume NON affidabile: la mesh presenta spigoli aperti o non-manifold.'} Requisito: mesh chiusa, manifold e senza auto-intersezioni.`,
+      };
+    },
+  },
+
+  // 15. Quote Nominali
+  {
+    id: "nominal-dimensions",
+    name: "Quote Nominali",
+    category: "dimensions",
+    severity: { passed: "info", failed: "error" },
+    check: ({ guidelines, dimensions }) => {
+      if (dimensions.length === 0) return null;
+      const outOfBand = dimensions.filter(d => !d.withinTolerance);
+      const describeDimension = (d: DimensionMeasurement) => {
+        // `|| 0` turns a rounded -0 into 0
+        const deviation = Number(d.deviation.toFixed(3)) || 0;
+        return `${d.label}: ${d.nominal.toFixed(3)}mm ±${d.tolerance.toFixed(3)}, misurato ${d.measured.toFixed(3)}mm (${deviation >= 0 ? '+' : ''}${deviation.toFixed(3)}mm)`;
+      };
+
+      return {
+        passed: outOfBand.length === 0,
+        message: outOfBand.length === 0
+          ? `${dimensions.length} quote entro tolleranza`
+          : `ERRORE: ${outOfBand.length} di ${dimensions.length} quote fuori tolleranza`,
+        details: `${outOfBand.length > 0 ? `Violazioni: ${outOfBand.map(describeDimension).join('; ')}. ` : ''}${
+          outOfBand.length < dimensions.length ? `Entro tolleranza: ${dimensions.filter(d => d.withinTolerance).map(describeDimension).join('; ')}. ` : ''
+        }Tolleranza: ±${guidelines.tolerance.absolute}mm sotto ${guidelines.tolerance.threshold}mm, ±${guidelines.tolerance.percent}% oltre.`,
+      };
+    },
+  },
+];
+
+const registry: ValidationRule[] = [...BUILTIN_RULES];
+
+// New checks plug in here instead of growing validateModel
+export function registerRule(rule: ValidationRule): void {
+  if (registry.some(r => r.id === rule.id)) {
+    throw new Error(`Regola "${rule.id}" già registrata`);
+  }
+  registry.push(rule);
+}
+
+export function listRules(): readonly ValidationRule[] {
+  return registry;
+}
+
+export function validateModel(data: ModelData, guidelines: Guidelines, dimensions: DimensionMeasurement[] = []): ValidationResult[] {
+  const context = { data, guidelines, dimensions };
+  const disabled = new Set(guidelines.disabledRules);
+
+  // Custom rules of the profile are listed after the registered ones
+  return [...registry, ...guidelines.customRules.map(customRule)]
+    .filter(rule => !disabled.has(rule.id))
+    .flatMap(rule => {
+      const outcome = rule.check(context);
+      if (!outcome) return [];
+      return [{
+        ruleId: rule.id,
+        category: rule.category,
+        name: rule.name,
+        passed: outcome.passed,
+        severity: outcome.severity ?? (outcome.passed ? rule.severity.passed : rule.severity.failed),
+        message: outcome.message,
+        details: outcome.details,
+        accuracy: outcome.accuracy,
+      }];
+    });
+}
@@ -0,0 +1,161 @@
+import * as THREE from "three";
+import { buildTriangleBVH, closestPointOnBVH, raycastBVH, type TriangleBVH } from "./bvh";
+import { computeShellDepths } from "./integrity";
+import { buildEdgeMap, computeSignedVolume } from "./mesh";
+import { buildFaceAdjacency, fitCylinder, growSmoothRegions } from "./surfaces";
+import type { InternalVoid, VoidAnalysis } from "./types";
+
+// Void vertices measured against the surrounding shell
+const MAX_THICKNESS_SAMPLES = 2000;
+
+// Probe directions for the escape test: cube faces, edges and corners, turned off
+// the axes so probes do not run exactly along the edges of axis-aligned tessellations
+const PROBE_ROTATION = new THREE.Quaternion().setFromEuler(new THREE.Euler(0.31, 0.53, 0.71));
+const PROBE_DIRECTIONS = [-1, 0, 1]
+  .flatMap(x => [-1, 0, 1].flatMap(y => [-1, 0, 1].map(z => new THREE.Vector3(x, y, z))))
+  .filter(d => d.lengthSq() > 0)
+  .map(d => d.normalize().applyQuaternion(PROBE_ROTATION));
+
+// Air at `point` is open when some ray leaves the model without hitting it.
+// Directions close to `axis` are skipped so a probe does not look back up the bore it came from.
+function escapesToOutside(bvh: TriangleBVH, point: THREE.Vector3, axis: THREE.Vector3): boolean {
+  return PROBE_DIRECTIONS.some(direction =>
+    Math.abs(direction.dot(axis)) < Math.SQRT1_2 && raycastBVH(bvh, point, direction) === null
+  );
+}
+
+// Cavities inside the part: closed shells nested in a body, and hollows whose only
+// connection to the outside is through cylindrical bores (drain holes). A bore is an
+// opening when the air past one end escapes the model and the air past the other does not;
+// cutting the surface at those bores leaves the hollow's inner skin on its own.
+export function analyzeVoids(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[]): VoidAnalysis {
+  const triangleCount = positions.count / 3;
+  const outwardSign = computeSignedVolume(positions) < 0 ? -1 : 1;
+  const orientedNormals = outwardSign < 0 ? faceNormals.map(n => n.clone().negate()) : faceNormals;
+  const adjacency = buildFaceAdjacency(buildEdgeMap(positions), triangleCount);
+  let bvh: TriangleBVH | null = null;
+
+  const openingOf = new Int32Array(triangleCount).fill(-1);
+  const openingDiameters: number[] = [];
+  for (const region of growSmoothRegions(adjacency, orientedNormals, 40)) {
+    if (region.length < 6) continue;
+    const fit = fitCylinder(positions, orientedNormals, region);
+    if (!fit || !fit.concave || fit.residual > 0.08 || fit.coverage < 300) continue;
+
+    bvh ??= buildTriangleBVH(positions, Array.from({ length: triangleCount }, (_, i) => i));
+    const reach = fit.length / 2 + 2 * fit.radius;
+    const ends = [1, -1].map(sign =>
+      escapesToOutside(bvh!, fit.center.clone().addScaledVector(fit.axis, sign * reach), fit.axis)
+    );
+    if (ends[0] === ends[1]) continue;
+    region.forEach(face => { openingOf[face] = openingDiameters.length; });
+    openingDiameters.push(fit.radius * 2);
+  }
+
+  // Edge-connected pieces of surface, first whole and then cut at the openings
+  const flood = (crossOpenings: boolean): { pieces: number[][]; pieceOf: Int32Array } => {
+    const pieceOf = new Int32Array(triangleCount).fill(-1);
+    const pieces: number[][] = [];
+    for (let seed = 0; seed < triangleCount; seed++) {
+      if (pieceOf[seed] !== -1 || (!crossOpenings && openingOf[seed] !== -1)) continue;
+      const piece: number[] = [];
+      const stack = [seed];
+      pieceOf[seed] = pieces.length;
+      while (stack.length > 0) {
+        const face = stack.pop()!;
+        piece.push(face);
+        for (const neighbour of adjacency[face]) {
+          if (pieceOf[neighbour] !== -1 || (!crossOpenings && openingOf[neighbour] !== -1)) continue;
+          pieceOf[neighbour] = pieces.length;
+          stack.push(neighbour);
+        }
+      }
+      pieces.push(piece);
+    }
+    return { pieces, pieceOf };
+  };
+
+  const shells = flood(true);
+  const shellDepths = computeShellDepths(positions, shells.pieces);
+  const skins = flood(false);
+
+  // Openings touching each skin, and skins touching each opening
+  const skinOpenings = skins.pieces.map(() => new Set<number>());
+  const openingSkins = openingDiameters.map(() => new Set<number>());
+  for (let face = 0; face < triangleCount; face++) {
+    if (openingOf[face] === -1) continue;
+    for (const neighbour of adjacency[face]) {
+      const skin = skins.pieceOf[neighbour];
+      if (skin === -1) continue;
+      skinOpenings[skin].add(openingOf[face]);
+      openingSkins[openingOf[face]].add(skin);
+    }
+  }
+
+  const v0 = new THREE.Vector3();
+  const v1 = new THREE.Vector3();
+  const v2 = new THREE.Vector3();
+  const voids: InternalVoid[] = [];
+
+  skins.pieces.forEach((skin, s) => {
+    // Signed volume about the skin's own centroid, so the small gaps left at
+    // the openings barely change it; voids are wound inward and come out negative
+    const center = new THREE.Vector3();
+    for (const face of skin) {
+      for (let k = 0; k < 3; k++) center.add(v0.fromBufferAttribute(positions, face * 3 + k));
+    }
+    center.divideScalar(skin.length * 3);
+    let signedVolume = 0;
+    for (const face of skin) {
+      v0.fromBufferAttribute(positions, face * 3).sub(center);
+      v1.fromBufferAttribute(positions, face * 3 + 1).sub(center);
+      v2.fromBufferAttribute(positions, face * 3 + 2).sub(center);
+      signedVolume += v0.dot(v1.cross(v2)) / 6;
+    }
+    const volume = -signedVolume * outwardSign;
+    if (volume <= 1e-3) return;
+
+    const openings = Array.from(skinOpenings[s]).filter(opening => openingSkins[opening].size > 1);
+    if (openings.length === 0) {
+      // A closed shell is a void only when another shell encloses it
+      if (shellDepths[shells.pieceOf[skin[0]]] % 2 === 0) return;
+    } else {
+      // The blind end of a bore encloses less than a ball as wide as the bore
+      const widest = Math.max(...openings.map(opening => openingDiameters[opening]));
+      if (volume <= Math.PI / 6 * widest ** 3) return;
+    }
+
+    // Shell thickness: closest distance from the void to any other surface but its own openings
+    const inSkin = new Set(skin);
+    const surrounding: number[] = [];
+    for (let face = 0; face < triangleCount; face++) {
+      if (!inSkin.has(face) && !openings.includes(openingOf[face])) surrounding.push(face);
+    }
+    let shellThickness: number | null = null;
+    if (surrounding.length > 0) {
+      const target = buildTriangleBVH(positions, surrounding);
+      const stride = Math.max(1, Math.ceil(skin.length * 3 / MAX_THICKNESS_SAMPLES));
+      let best = Infinity;
+      for (let i = 0; i < skin.length * 3; i += stride) {
+        const face = skin[Math.floor(i / 3)];
+        v0.fromBufferAttribute(positions, face * 3 + i % 3);
+        const hit = closestPointOnBVH(target, v0, best);
+        if (hit) best = hit.distance;
+      }
+      if (best < Infinity) shellThickness = best;
+    }
+
+    voids.push({
+      volume,
+      center,
+      shellThickness,
+      openingDiameters: openings.map(opening => openingDiameters[opening]).sort((a, b) => b - a),
+    });
+  });
+
+  voids.sort((a, b) => b.volume - a.volume);
+  return {
+    voids,
+    totalVoidVolume: voids.reduce((sum, v) => sum + v.volume, 0),
+  };
+}
@@ -1,5 +1,8 @@
 import { Route, Switch } from "wouter";
+import Compare from "./pages/compare";
+import History from "./pages/history";
 import Index from "./pages/index";
+import Profiles from "./pages/profiles";
 import { Provider } from "./components/provider";
 
 function App() {
@@ -7,6 +10,9 @@ function App() {
 		<Provider>
 			<Switch>
 				<Route path="/" component={Index} />
+				<Route path="/profili" component={Profiles} />
+				<Route path="/history" component={History} />
+				<Route path="/confronto" component={Compare} />
 			</Switch>
 		</Provider>
 	);
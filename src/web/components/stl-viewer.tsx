@@ -0,0 +1,309 @@
+import { useRef, useEffect } from "react";
+import * as THREE from "three";
+import { OrbitControls } from "three/addons/controls/OrbitControls.js";
+import type { DimensionPick } from "../../shared/analysis/types";
+
+interface STLViewerProps {
+  geometry: THREE.BufferGeometry | null;
+  // Build pose to show the part in (Z-up, like the envelope); null keeps the file's orientation
+  orientation?: THREE.Quaternion | null;
+  // Points to mark on the model, in the file's coordinates
+  markers?: THREE.Vector3[];
+  // When set, a click that does not move the view picks the triangle under the cursor
+  onPick?: ((pick: DimensionPick) => void) | null;
+  // Triangles to show in color, with the rest of the model faded out
+  highlight?: { start: number; count: number } | null;
+  // One signed value per vertex of the unindexed geometry, colored blue (-range) to white (0) to red (+range)
+  heatmap?: { values: Float32Array; range: number } | null;
+}
+
+const NO_MARKERS: THREE.Vector3[] = [];
+
+const HEATMAP_NEGATIVE = new THREE.Color(0x3b82f6);
+const HEATMAP_ZERO = new THREE.Color(0xffffff);
+const HEATMAP_POSITIVE = new THREE.Color(0xef4444);
+
+function heatmapColors(values: Float32Array, range: number): Float32Array {
+  const colors = new Float32Array(values.length * 3);
+  const color = new THREE.Color();
+  for (let i = 0; i < values.length; i++) {
+    const t = range > 0 ? Math.max(-1, Math.min(1, values[i] / range)) : 0;
+    color.copy(HEATMAP_ZERO).lerp(t < 0 ? HEATMAP_NEGATIVE : HEATMAP_POSITIVE, Math.abs(t));
+    color.toArray(colors, i * 3);
+  }
+  return colors;
+}
+
+// Directional lights shine toward their target, kept alongside them so the lights can ride on a camera
+function addLights(scene: THREE.Object3D): void {
+  const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
+  scene.add(ambientLight);
+
+  const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+  directionalLight.position.set(1, 1, 1);
+  scene.add(directionalLight, directionalLight.target);
+
+  const directionalLight2 = new THREE.DirectionalLight(0xffffff, 0.4);
+  directionalLight2.position.set(-1, -1, -1);
+  scene.add(directionalLight2, directionalLight2.target);
+}
+
+export interface ViewSnapshot {
+  label: string;
+  // PNG as a data URL
+  image: string;
+}
+
+// Views in the part's own frame, Z up as in the build envelope: direction the camera looks
+// from, and which way is up on the picture
+const SNAPSHOT_VIEWS: { label: string; from: THREE.Vector3; up: THREE.Vector3 }[] = [
+  { label: "Isometrica", from: new THREE.Vector3(1, -1, 1), up: new THREE.Vector3(0, 0, 1) },
+  { label: "Dall'alto", from: new THREE.Vector3(0, 0, 1), up: new THREE.Vector3(0, 1, 0) },
+  { label: "Frontale", from: new THREE.Vector3(0, -1, 0), up: new THREE.Vector3(0, 0, 1) },
+];
+
+// Still pictures of the model for print: orthographic, on white, lit as in the viewer. With a
+// range only those triangles are drawn (one body of an assembly); with an orientation the part
+// is shown in that build pose.
+export function renderSnapshots(
+  geometry: THREE.BufferGeometry,
+  { range = null, orientation = null, size = 800 }: { range?: { start: number; count: number } | null; orientation?: THREE.Quaternion | null; size?: number } = {}
+): ViewSnapshot[] {
+  const scene = new THREE.Scene();
+  scene.background = new THREE.Color(0xffffff);
+  const material = new THREE.MeshPhongMaterial({ color: 0x9ca3af, specular: 0x333333, shininess: 30 });
+  const mesh = new THREE.Mesh(geometry, material);
+  if (orientation) mesh.quaternion.copy(orientation);
+  scene.add(mesh);
+
+  // The lights follow the camera, so every view is lit from the same side
+  const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 10);
+  addLights(camera);
+  scene.add(camera);
+
+  if (!geometry.getAttribute("normal")) geometry.computeVertexNormals();
+  const position = geometry.getAttribute("position");
+  const start = range ? range.start * 3 : 0;
+  const end = range ? start + range.count * 3 : position.count;
+  const drawRange = { ...geometry.drawRange };
+  geometry.setDrawRange(start, end - start);
+
+  mesh.updateMatrixWorld();
+  const box = new THREE.Box3();
+  const point = new THREE.Vector3();
+  for (let i = start; i < end; i++) box.expandByPoint(point.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld));
+  const sphere = box.getBoundingSphere(new THREE.Sphere());
+  const radius = Math.max(sphere.radius, 1e-6);
+
+  const renderer = new THREE.WebGLRenderer({ antialias: true, preserveDrawingBuffer: true });
+  renderer.setSize(size, size, false);
+  try {
+    return SNAPSHOT_VIEWS.map(({ label, from, up }) => {
+      camera.left = camera.bottom = -radius * 1.1;
+      camera.right = camera.top = radius * 1.1;
+      camera.near = radius * 0.1;
+      camera.far = radius * 4;
+      camera.up.copy(up);
+      camera.position.copy(sphere.center).addScaledVector(from.clone().normalize(), radius * 2);
+      camera.lookAt(sphere.center);
+      camera.updateProjectionMatrix();
+      renderer.render(scene, camera);
+      return { label, image: renderer.domElement.toDataURL("image/png") };
+    });
+  } finally {
+    geometry.setDrawRange(drawRange.start, drawRange.count);
+    renderer.dispose();
+    material.dispose();
+  }
+}
+
+export function STLViewer({ geometry, orientation = null, markers = NO_MARKERS, onPick = null, highlight = null, heatmap = null }: STLViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const meshRef = useRef<THREE.Mesh | null>(null);
+  const markerLayerRef = useRef<{ group: THREE.Group; radius: number } | null>(null);
+  const onPickRef = useRef(onPick);
+
+  useEffect(() => {
+    onPickRef.current = onPick;
+  }, [onPick]);
+
+  useEffect(() => {
+    if (!containerRef.current || !geometry) return;
+
+    const container = containerRef.current;
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x0a0a0a);
+
+    const camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 10000);
+    
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setSize(width, height);
+    renderer.setPixelRatio(window.devicePixelRatio);
+    container.appendChild(renderer.domElement);
+    rendererRef.current = renderer;
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+    controls.dampingFactor = 0.05;
+
+    addLights(scene);
+
+    const material = new THREE.MeshPhongMaterial({
+      color: 0xffffff,
+      specular: 0x333333,
+      shininess: 30,
+      flatShading: false,
+    });
+
+    geometry.computeVertexNormals();
+    const mesh = new THREE.Mesh(geometry, material);
+
+    geometry.computeBoundingBox();
+    const size = new THREE.Vector3();
+    geometry.boundingBox!.getSize(size);
+    const maxDim = Math.max(size.x, size.y, size.z);
+    const scale = 100 / maxDim;
+    mesh.scale.multiplyScalar(scale);
+
+    if (orientation) {
+      // The pose is Z-up like the build envelope, the scene is Y-up
+      mesh.quaternion.setFromAxisAngle(new THREE.Vector3(1, 0, 0), -Math.PI / 2).multiply(orientation);
+    }
+    const placed = new THREE.Box3().setFromObject(mesh);
+    mesh.position.sub(placed.getCenter(new THREE.Vector3()));
+
+    scene.add(mesh);
+    meshRef.current = mesh;
+
+    // Markers live in the mesh's own space so they follow its scale and pose
+    const markerGroup = new THREE.Group();
+    mesh.add(markerGroup);
+    markerLayerRef.current = { group: markerGroup, radius: maxDim * 0.012 };
+
+    const raycaster = new THREE.Raycaster();
+    let pressedAt: { x: number; y: number } | null = null;
+    const handlePointerDown = (e: PointerEvent) => {
+      pressedAt = { x: e.clientX, y: e.clientY };
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      const pick = onPickRef.current;
+      if (!pick || !pressedAt || Math.hypot(e.clientX - pressedAt.x, e.clientY - pressedAt.y) > 4) return;
+      const rect = renderer.domElement.getBoundingClientRect();
+      const pointer = new THREE.Vector2(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+      const hit = raycaster.intersectObject(mesh, false)[0];
+      // The geometry is unindexed, so the face index is the triangle index used by the analysis
+      if (hit?.faceIndex != null) {
+        pick({ triangle: hit.faceIndex, point: mesh.worldToLocal(hit.point.clone()) });
+      }
+    };
+    renderer.domElement.addEventListener("pointerdown", handlePointerDown);
+    renderer.domElement.addEventListener("pointerup", handlePointerUp);
+
+    const gridHelper = new THREE.GridHelper(200, 20, 0x333333, 0x222222);
+    gridHelper.position.y = -(placed.max.y - placed.min.y) / 2;
+    scene.add(gridHelper);
+
+    camera.position.set(150, 100, 150);
+    camera.lookAt(0, 0, 0);
+
+    let animationId: number;
+    const animate = () => {
+      animationId = requestAnimationFrame(animate);
+      controls.update();
+      renderer.render(scene, camera);
+    };
+    animate();
+
+    const handleResize = () => {
+      const newWidth = container.clientWidth;
+      const newHeight = container.clientHeight;
+      camera.aspect = newWidth / newHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(newWidth, newHeight);
+    };
+    window.addEventListener("resize", handleResize);
+
+    return () => {
+      cancelAnimationFrame(animationId);
+      window.removeEventListener("resize", handleResize);
+      renderer.domElement.removeEventListener("pointerdown", handlePointerDown);
+      renderer.domElement.removeEventListener("pointerup", handlePointerUp);
+      markerLayerRef.current = null;
+      meshRef.current = null;
+      controls.dispose();
+      renderer.dispose();
+      if (container.contains(renderer.domElement)) {
+        container.removeChild(renderer.domElement);
+      }
+    };
+  }, [geometry, orientation]);
+
+  useEffect(() => {
+    const layer = markerLayerRef.current;
+    if (!layer) return;
+    const sphere = new THREE.SphereGeometry(layer.radius, 16, 12);
+    // Drawn over the surface so a marker on a far wall stays visible
+    const material = new THREE.MeshBasicMaterial({ color: 0xf59e0b, depthTest: false });
+    for (const point of markers) {
+      const marker = new THREE.Mesh(sphere, material);
+      marker.position.copy(point);
+      marker.renderOrder = 1;
+      layer.group.add(marker);
+    }
+    return () => {
+      layer.group.clear();
+      sphere.dispose();
+      material.dispose();
+    };
+  }, [markers, geometry, orientation]);
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh || !geometry || !highlight) return;
+    const baseMaterial = mesh.material;
+    const faded = new THREE.MeshPhongMaterial({ color: 0xffffff, transparent: true, opacity: 0.15, depthWrite: false });
+    const selected = new THREE.MeshPhongMaterial({ color: 0x60a5fa, specular: 0x333333, shininess: 30 });
+    // Groups count vertices: three per triangle of the unindexed geometry
+    const start = highlight.start * 3;
+    const end = start + highlight.count * 3;
+    geometry.addGroup(0, start, 0);
+    geometry.addGroup(start, end - start, 1);
+    geometry.addGroup(end, geometry.getAttribute("position").count - end, 0);
+    mesh.material = [faded, selected];
+    return () => {
+      geometry.clearGroups();
+      mesh.material = baseMaterial;
+      faded.dispose();
+      selected.dispose();
+    };
+  }, [highlight, geometry, orientation]);
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh || !geometry || !heatmap) return;
+    const baseMaterial = mesh.material;
+    const material = new THREE.MeshPhongMaterial({ vertexColors: true, specular: 0x222222, shininess: 20 });
+    geometry.setAttribute("color", new THREE.BufferAttribute(heatmapColors(heatmap.values, heatmap.range), 3));
+    mesh.material = material;
+    return () => {
+      geometry.deleteAttribute("color");
+      mesh.material = baseMaterial;
+      material.dispose();
+    };
+  }, [heatmap, geometry, orientation]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`w-full h-[400px] rounded-lg overflow-hidden bg-[#0a0a0a] border ${onPick ? 'border-amber-500/50 cursor-crosshair' : 'border-white/10'}`}
+    />
+  );
+}
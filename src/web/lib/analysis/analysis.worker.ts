@@ -0,0 +1,91 @@
+import * as THREE from "three";
+import occtWasmUrl from "occt-import-js/dist/occt-import-js.wasm?url";
+import { analyzeSTLGeometry } from "../../../shared/analysis/analyzers";
+import { measureDeviation } from "../../../shared/analysis/deviation";
+import { formatOf } from "../../../shared/analysis/formats";
+import { loadModel, type LoadedModel, type OcctOptions } from "../../../shared/analysis/parsers";
+import { analyzeModel } from "../../../shared/analysis/pipeline";
+import { repairMesh } from "../../../shared/analysis/repair";
+import type {
+  AnalysisStage,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  AssemblyMetrics,
+  MeshRepairReport,
+  ModelData,
+} from "../../../shared/analysis/types";
+
+// The wasm is bundled by Vite, so its URL resolves from the worker too
+const OCCT_OPTIONS: OcctOptions = {
+  locateFile: (file) => file.endsWith(".wasm") ? occtWasmUrl : file,
+};
+
+const post = (message: AnalysisWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const postResult = (data: ModelData, extra: { repairReport?: MeshRepairReport; assembly?: AssemblyMetrics } = {}) => {
+  const { geometry, ...metrics } = data;
+  const positions = geometry.getAttribute("position").array as Float32Array;
+  post({ type: "result", data: metrics, positions, ...extra }, [positions.buffer]);
+};
+
+self.addEventListener("message", async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+  const onProgress = (stage: AnalysisStage) => post({ type: "progress", stage });
+
+  if (request.type === "repair") {
+    try {
+      onProgress("repair");
+      const { positions, report } = repairMesh(request.positions, request.options);
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+      postResult(analyzeSTLGeometry(geometry, request.guidelines, onProgress), { repairReport: report });
+    } catch (err) {
+      console.error(err);
+      post({ type: "error", message: "Errore durante la riparazione della mesh" });
+    }
+    return;
+  }
+
+  if (request.type === "compare") {
+    try {
+      const deviation = measureDeviation(
+        new THREE.BufferAttribute(request.reference, 3),
+        new THREE.BufferAttribute(request.revision, 3),
+        request.options,
+        onProgress
+      );
+      post({ type: "deviation", deviation }, [deviation.positions.buffer, deviation.values.buffer]);
+    } catch (err) {
+      console.error(err);
+      post({ type: "error", message: "Errore durante il confronto delle revisioni" });
+    }
+    return;
+  }
+
+  const format = formatOf(request.fileName);
+  if (!format) {
+    post({ type: "error", message: `Formato non supportato: ${request.fileName}` });
+    return;
+  }
+
+  let model: LoadedModel;
+  try {
+    onProgress("parsing");
+    // Everything is brought to mm before anything is measured
+    model = await loadModel(request.buffer, format, request.units, OCCT_OPTIONS);
+  } catch (err) {
+    console.error(err);
+    post({ type: "error", message: err instanceof Error && err.message ? err.message : `Errore nel parsing del file ${format}` });
+    return;
+  }
+
+  try {
+    const { data, assembly } = analyzeModel(model, format, request.guidelines, onProgress);
+    postResult(data, { assembly });
+  } catch (err) {
+    console.error(err);
+    post({ type: "error", message: `Errore durante l'analisi del file ${format}` });
+  }
+});
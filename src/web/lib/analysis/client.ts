@@ -0,0 +1,151 @@
+import * as THREE from "three";
+import type {
+  AnalysisStage,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  AssemblyAnalysis,
+  AssemblyMetrics,
+  DeviationOptions,
+  Guidelines,
+  LengthUnit,
+  MeshRepairOptions,
+  MeshRepairReport,
+  ModelData,
+  RevisionDeviation,
+} from "../../../shared/analysis/types";
+
+// Structured clone drops prototypes but keeps own properties: turn {x,y,z} back into a Vector3,
+// and a box (which carries its own isBox3 flag) back into a Box3
+function reviveThreeObjects(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(reviveThreeObjects);
+  if (!value || typeof value !== "object" || ArrayBuffer.isView(value)) return value;
+
+  const obj = value as Record<string, unknown>;
+  const keys = Object.keys(obj);
+  if (keys.length === 3 && typeof obj.x === "number" && typeof obj.y === "number" && typeof obj.z === "number") {
+    return new THREE.Vector3(obj.x, obj.y, obj.z);
+  }
+
+  for (const key of keys) {
+    obj[key] = reviveThreeObjects(obj[key]);
+  }
+  if (obj.isBox3 === true && obj.min instanceof THREE.Vector3 && obj.max instanceof THREE.Vector3) {
+    return new THREE.Box3(obj.min, obj.max);
+  }
+  return obj;
+}
+
+// Body geometries are views on the model's positions, which hold each body as one run of triangles
+function reviveAssembly(assembly: AssemblyMetrics, positions: Float32Array): AssemblyAnalysis {
+  const bodies = assembly.bodies.map((body) => {
+    const geometry = new THREE.BufferGeometry();
+    const start = body.triangleStart * 9;
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions.subarray(start, start + body.triangleCount * 9), 3));
+    const metrics = reviveThreeObjects(body.data) as Omit<ModelData, "geometry">;
+    return { ...body, data: { ...metrics, geometry } };
+  });
+  return { root: assembly.root, bodies };
+}
+
+interface RunAnalysisOptions {
+  onProgress?: (stage: AnalysisStage) => void;
+  signal?: AbortSignal;
+}
+
+type WorkerOutcome = Extract<AnalysisWorkerResponse, { type: "result" | "deviation" }>;
+
+function toModelData(message: Extract<AnalysisWorkerResponse, { type: "result" }>): ModelData {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(message.positions, 3));
+  const metrics = reviveThreeObjects(message.data) as Omit<ModelData, "geometry">;
+  const assembly = message.assembly && reviveAssembly(message.assembly, message.positions);
+  return { ...metrics, geometry, ...(assembly && { assembly }) };
+}
+
+// Send one request to a dedicated worker and resolve with its outcome; aborting terminates the worker
+function runInWorker<T extends WorkerOutcome["type"]>(
+  request: AnalysisWorkerRequest,
+  transfer: Transferable[],
+  { onProgress, signal }: RunAnalysisOptions
+): Promise<Extract<WorkerOutcome, { type: T }>> {
+  const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" });
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    worker.addEventListener("message", (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.stage);
+        return;
+      }
+
+      finish();
+      if (message.type === "error") {
+        reject(new Error(message.message));
+        return;
+      }
+
+      resolve(message as Extract<WorkerOutcome, { type: T }>);
+    });
+
+    worker.addEventListener("error", (event) => {
+      finish();
+      reject(new Error(event.message || "Errore del worker di analisi"));
+    });
+
+    worker.postMessage(request, transfer);
+  });
+}
+
+// Parse and analyze a model file off the main thread against the given guidelines.
+// `units` forces the unit of files that carry none (STL, OBJ, PLY); null lets the worker detect it.
+export async function runAnalysis(
+  file: File,
+  guidelines: Guidelines,
+  units: LengthUnit | null,
+  options: RunAnalysisOptions = {}
+): Promise<ModelData> {
+  const buffer = await file.arrayBuffer();
+  options.signal?.throwIfAborted();
+
+  const message = await runInWorker<"result">({ type: "analyze", fileName: file.name, buffer, guidelines, units }, [buffer], options);
+  return toModelData(message);
+}
+
+// Repair a copy of the loaded geometry and analyze the result off the main thread
+export async function runRepair(
+  geometry: THREE.BufferGeometry,
+  repairOptions: MeshRepairOptions,
+  guidelines: Guidelines,
+  options: RunAnalysisOptions = {}
+): Promise<{ data: ModelData; report: MeshRepairReport }> {
+  const positions = new Float32Array(geometry.getAttribute("position").array);
+  const message = await runInWorker<"result">({ type: "repair", positions, options: repairOptions, guidelines }, [positions.buffer], options);
+  return { data: toModelData(message), report: message.repairReport! };
+}
+
+// Align a new revision onto the old one and measure how far its surface moved, off the main thread
+export async function runComparison(
+  reference: THREE.BufferGeometry,
+  revision: THREE.BufferGeometry,
+  deviationOptions: DeviationOptions,
+  options: RunAnalysisOptions = {}
+): Promise<RevisionDeviation> {
+  const referencePositions = new Float32Array(reference.getAttribute("position").array);
+  const revisionPositions = new Float32Array(revision.getAttribute("position").array);
+  const message = await runInWorker<"deviation">(
+    { type: "compare", reference: referencePositions, revision: revisionPositions, options: deviationOptions },
+    [referencePositions.buffer, revisionPositions.buffer],
+    options
+  );
+  return message.deviation;
+}
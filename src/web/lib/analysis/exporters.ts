@@ -0,0 +1,17 @@
+import * as THREE from "three";
+import { STLExporter } from "three/addons/exporters/STLExporter.js";
+
+export function exportBinarySTL(geometry: THREE.BufferGeometry): Blob {
+  const exporter = new STLExporter();
+  const data = exporter.parse(new THREE.Mesh(geometry), { binary: true });
+  return new Blob([data], { type: "model/stl" });
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,27 @@
+import type { AnalysisStage } from "../../../shared/analysis/types";
+
+// Pipeline stages in execution order, with the label shown while each one runs
+export const ANALYSIS_STAGES: { id: AnalysisStage; label: string }[] = [
+  { id: "parsing", label: "Lettura del file" },
+  { id: "repair", label: "Riparazione mesh" },
+  { id: "mesh", label: "Statistiche mesh" },
+  { id: "integrity", label: "Integrità mesh" },
+  { id: "edges", label: "Spigoli e raccordi" },
+  { id: "cavities", label: "Cavità e fori" },
+  { id: "voids", label: "Cavità interne" },
+  { id: "channels", label: "Canali" },
+  { id: "threads", label: "Filettature" },
+  { id: "surface", label: "Rilievi e incisioni" },
+  { id: "wallThickness", label: "Spessore parete" },
+  { id: "clearance", label: "Fessure e giochi" },
+  { id: "components", label: "Parti e distanze" },
+  { id: "complexity", label: "Complessità geometrica" },
+  { id: "orientation", label: "Orientamento ottimale" },
+  { id: "bodies", label: "Analisi dei singoli corpi" },
+];
+
+// Steps of a revision comparison after both files are analyzed
+export const COMPARISON_STAGES: { id: AnalysisStage; label: string }[] = [
+  { id: "alignment", label: "Allineamento delle revisioni" },
+  { id: "deviation", label: "Deviazione geometrica" },
+];
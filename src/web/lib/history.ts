@@ -0,0 +1,85 @@
+import { reviveGuidelines } from "../../shared/analysis/guidelines";
+import type {
+  AnalysisMetrics,
+  GuidelineProfile,
+  HistoryEntry,
+  HistoryEntryDetail,
+  ModelData,
+  ModelFormat,
+  ValidationResult,
+} from "../../shared/analysis/types";
+
+export type HistoryStatus = "errors" | "warnings" | "ok";
+
+export interface HistoryFilters {
+  q?: string;
+  format?: ModelFormat;
+  status?: HistoryStatus;
+  // Days as YYYY-MM-DD, both included
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+async function send(path: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(`/api/history${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { message?: string } | null;
+    throw new Error(body?.message ?? `Errore del server (${response.status})`);
+  }
+  return response;
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await send(path, init);
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+export function summarizeMetrics(data: ModelData): AnalysisMetrics {
+  return {
+    dimensions: data.dimensions,
+    volume: data.volume,
+    surfaceArea: data.surfaceArea,
+    triangleCount: data.triangleCount,
+    minWallThickness: Number.isFinite(data.wallThickness.minThickness) ? data.wallThickness.minThickness : null,
+    isWatertight: data.meshIntegrity.isWatertight,
+    componentCount: data.componentAnalysis.componentCount,
+  };
+}
+
+// The file goes along so the entry can be opened again later
+export async function saveAnalysis(file: File, data: ModelData, results: ValidationResult[], profile: GuidelineProfile): Promise<HistoryEntry> {
+  const form = new FormData();
+  form.append("file", file);
+  form.append("analysis", JSON.stringify({
+    profile: { id: profile.id, name: profile.name, guidelines: profile.guidelines },
+    units: data.units ?? null,
+    metrics: summarizeMetrics(data),
+    results,
+  }));
+  return request("", { method: "POST", body: form });
+}
+
+export async function listHistory(filters: HistoryFilters = {}): Promise<{ entries: HistoryEntry[]; total: number }> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  const query = params.toString();
+  return request(query ? `?${query}` : "");
+}
+
+export async function getHistoryEntry(id: number): Promise<HistoryEntryDetail> {
+  const entry = await request<HistoryEntryDetail>(`/${id}`);
+  return { ...entry, guidelines: reviveGuidelines(entry.guidelines) };
+}
+
+export async function fetchHistoryFile(entry: HistoryEntry): Promise<File> {
+  const response = await send(`/${entry.id}/file`);
+  return new File([await response.blob()], entry.fileName);
+}
+
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  await request(`/${id}`, { method: "DELETE" });
+}
@@ -0,0 +1,137 @@
+import { GUIDELINES, reviveGuidelines } from "../../shared/analysis/guidelines";
+import type { GuidelineProfile, Guidelines } from "../../shared/analysis/types";
+
+const ACTIVE_PROFILE_KEY = "guidelineProfileId";
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/profiles${path}`, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { message?: string } | null;
+    throw new Error(body?.message ?? `Errore del server (${response.status})`);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+const revive = (profile: GuidelineProfile): GuidelineProfile => ({ ...profile, guidelines: reviveGuidelines(profile.guidelines) });
+
+export async function listProfiles(): Promise<GuidelineProfile[]> {
+  return (await request<GuidelineProfile[]>("")).map(revive);
+}
+
+export async function createProfile(name: string, guidelines: Guidelines): Promise<GuidelineProfile> {
+  return revive(await request("", { method: "POST", body: JSON.stringify({ name, guidelines }) }));
+}
+
+export async function updateProfile(id: number, name: string, guidelines: Guidelines): Promise<GuidelineProfile> {
+  return revive(await request(`/${id}`, { method: "PUT", body: JSON.stringify({ name, guidelines }) }));
+}
+
+export async function duplicateProfile(id: number): Promise<GuidelineProfile> {
+  return revive(await request(`/${id}/duplicate`, { method: "POST" }));
+}
+
+export async function deleteProfile(id: number): Promise<void> {
+  await request(`/${id}`, { method: "DELETE" });
+}
+
+// The built-in guidelines, shown alongside the stored profiles; it cannot be edited, only copied
+export const DEFAULT_PROFILE: GuidelineProfile = {
+  id: 0,
+  name: "Predefinito",
+  guidelines: GUIDELINES,
+  createdAt: "",
+  updatedAt: "",
+};
+
+// The picked profile survives reloads and the move between pages
+export function getActiveProfileId(): number {
+  return Number(localStorage.getItem(ACTIVE_PROFILE_KEY)) || DEFAULT_PROFILE.id;
+}
+
+export function setActiveProfileId(id: number): void {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, String(id));
+}
+
+interface FieldLabel {
+  label: string;
+  unit?: string;
+  step?: number;
+}
+
+// Reads and writes its own number, so every field is checked against the Guidelines type
+export interface GuidelineField extends FieldLabel {
+  path: string;
+  get: (guidelines: Guidelines) => number;
+  set: (guidelines: Guidelines, value: number) => Guidelines;
+}
+
+type NumberKey<T> = { [K in keyof T]: T[K] extends number ? K : never }[keyof T];
+type SectionKey = { [K in keyof Guidelines]: Guidelines[K] extends Record<string, number> ? K : never }[keyof Guidelines];
+
+const field = (key: NumberKey<Guidelines>, label: FieldLabel): GuidelineField => ({
+  ...label,
+  path: key,
+  get: (guidelines) => guidelines[key],
+  set: (guidelines, value) => ({ ...guidelines, [key]: value }),
+});
+
+// Only the section along the path is copied, so the rest of the draft is shared
+const sectionField = <S extends SectionKey>(section: S, key: keyof Guidelines[S] & string, label: FieldLabel): GuidelineField => ({
+  ...label,
+  path: `${section}.${key}`,
+  get: (guidelines) => {
+    const values: Record<string, number> = guidelines[section];
+    return values[key];
+  },
+  set: (guidelines, value) => ({ ...guidelines, [section]: { ...guidelines[section], [key]: value } }),
+});
+
+// The numeric guidelines, grouped as in the profile editor and the printed report
+export const FIELD_GROUPS: { title: string; fields: GuidelineField[] }[] = [
+  {
+    title: "Ingombro e Tolleranze",
+    fields: [
+      sectionField("maxDimensions", "length", { label: "Lunghezza max", unit: "mm" }),
+      sectionField("maxDimensions", "width", { label: "Larghezza max", unit: "mm" }),
+      sectionField("maxDimensions", "height", { label: "Altezza max", unit: "mm" }),
+      sectionField("tolerance", "absolute", { label: "Tolleranza assoluta", unit: "mm", step: 0.01 }),
+      sectionField("tolerance", "threshold", { label: "Soglia tolleranza assoluta", unit: "mm" }),
+      sectionField("tolerance", "percent", { label: "Tolleranza oltre la soglia", unit: "%", step: 0.1 }),
+    ],
+  },
+  {
+    title: "Pareti e Distanze",
+    fields: [
+      sectionField("wallThickness", "min", { label: "Spessore parete min", unit: "mm", step: 0.1 }),
+      sectionField("wallThickness", "max", { label: "Spessore parete max", unit: "mm", step: 0.1 }),
+      field("hollowWallThickness", { label: "Spessore guscio cavo", unit: "mm", step: 0.1 }),
+      field("minGap", { label: "Distanza min tra parti", unit: "mm", step: 0.1 }),
+      field("minCavityWidth", { label: "Larghezza min cavità", unit: "mm", step: 0.1 }),
+    ],
+  },
+  {
+    title: "Spigoli e Proporzioni",
+    fields: [
+      field("minCurvatureRadius", { label: "Raggio min curvatura", unit: "mm", step: 0.1 }),
+      field("minTJunctionRadius", { label: "Raggio min giunzioni a T", unit: "mm", step: 0.1 }),
+      field("aspectRatioRecommended", { label: "Aspect ratio consigliato", unit: ":1" }),
+      field("aspectRatioMax", { label: "Aspect ratio max", unit: ":1" }),
+      sectionField("cavityDepthRatio", "min", { label: "Profondità/diametro fori accettabile", unit: ":1", step: 0.5 }),
+      sectionField("cavityDepthRatio", "max", { label: "Profondità/diametro fori max", unit: ":1", step: 0.5 }),
+    ],
+  },
+  {
+    title: "Dettagli e Svuotamento",
+    fields: [
+      field("minCharacterHeight", { label: "Altezza min caratteri", unit: "mm", step: 0.1 }),
+      field("minLineWidth", { label: "Larghezza min linee", unit: "mm", step: 0.1 }),
+      field("minThreadSize", { label: "Filetto min", unit: "mm" }),
+      sectionField("drainHoleDiameter", "min", { label: "Foro di scarico min", unit: "mm", step: 0.1 }),
+      sectionField("drainHoleDiameter", "recommended", { label: "Foro di scarico consigliato", unit: "mm", step: 0.1 }),
+      field("minDrainHoles", { label: "Fori di scarico min", step: 1 }),
+    ],
+  },
+];
@@ -0,0 +1,225 @@
+import { LENGTH_UNITS } from "../../shared/analysis/units";
+import { RULE_CATEGORIES, listRules } from "../../shared/analysis/validation";
+import type { Guidelines, ModelData, Severity, ValidationResult } from "../../shared/analysis/types";
+import type { ViewSnapshot } from "../components/stl-viewer";
+import { FIELD_GROUPS } from "./profiles";
+import { modelStatistics, type StatisticItem } from "./statistics";
+
+export interface ReportInput {
+  fileName: string;
+  // Bytes of the uploaded file, when it is at hand
+  fileSize: number | null;
+  // Set when the report covers one body of an assembly
+  bodyName: string | null;
+  // Description of the build pose the part was checked in; null for the file's own orientation
+  pose: string | null;
+  data: ModelData;
+  results: ValidationResult[];
+  profileName: string;
+  guidelines: Guidelines;
+  // When the analysis was first run, for one reopened from the history
+  analyzedAt: string | null;
+  views: ViewSnapshot[];
+}
+
+const SEVERITY_LABELS: Record<Severity, string> = { error: "Errore", warning: "Avviso", info: "Info" };
+
+const escapeHTML = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!);
+
+const formatDate = (date: Date) =>
+  date.toLocaleString("it-IT", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const table = (rows: string[], head = "") => `<table>${head && `<thead>${head}</thead>`}<tbody>${rows.join("")}</tbody></table>`;
+const pair = (label: string, value: string) => `<tr><th>${escapeHTML(label)}</th><td>${escapeHTML(value)}</td></tr>`;
+
+function statisticRow(item: StatisticItem): string {
+  switch (item.kind) {
+    case "row": {
+      const value = typeof item.value === "number" ? item.value.toLocaleString("it-IT") : item.value;
+      return `<tr${item.highlight ? ' class="highlight"' : ""}><td>${escapeHTML(item.label)}</td><td class="num">${escapeHTML(value)}${item.unit ? ` ${escapeHTML(item.unit)}` : ""}</td></tr>`;
+    }
+    case "note":
+      return `<tr${item.highlight ? ' class="highlight"' : ""}><td colspan="2">${escapeHTML(item.label)}: <span class="mono">${escapeHTML(item.text)}</span></td></tr>`;
+    case "heading":
+      return `<tr><td colspan="2" class="subheading">${escapeHTML(item.label)}</td></tr>`;
+    case "score":
+      return `<tr${item.score < 50 ? ' class="highlight"' : ""}><td>${escapeHTML(item.label)}</td><td class="num">${escapeHTML(item.grade)} (${item.score}/100)</td></tr>`;
+  }
+}
+
+function resultsSection(results: ValidationResult[]): string {
+  const rows = results.map((result) => {
+    const severity = result.severity ?? "info";
+    const tags = [RULE_CATEGORIES[result.category], result.accuracy && (result.accuracy === "exact" ? "esatto" : "stimato")].filter(Boolean).join(" • ");
+    return `<tr class="result ${severity}">` +
+      `<td class="severity">${result.passed && severity === "info" ? "Superata" : SEVERITY_LABELS[severity]}</td>` +
+      `<td><strong>${escapeHTML(result.name)}</strong><div class="muted">${escapeHTML(tags)}</div></td>` +
+      `<td>${escapeHTML(result.message)}${result.details ? `<div class="details">${escapeHTML(result.details)}</div>` : ""}</td>` +
+      `</tr>`;
+  });
+  return table(rows, "<tr><th>Esito</th><th>Regola</th><th>Messaggio e dettagli</th></tr>");
+}
+
+function guidelinesSection(profileName: string, guidelines: Guidelines): string {
+  const groups = FIELD_GROUPS.map(group =>
+    `<div class="block"><h3>${escapeHTML(group.title)}</h3>${table(group.fields.map((field) => {
+      const value = field.get(guidelines);
+      return `<tr><td>${escapeHTML(field.label)}</td><td class="num">${escapeHTML(value.toLocaleString("it-IT"))}${field.unit ? ` ${escapeHTML(field.unit)}` : ""}</td></tr>`;
+    }))}</div>`
+  );
+
+  const channels = guidelines.channelSpecs.map(spec =>
+    `<tr><td class="num">Ø ${spec.diameterRange[0]}–${Number.isFinite(spec.diameterRange[1]) ? spec.diameterRange[1] : "∞"} mm</td>` +
+    `<td class="num">${spec.maxDepth !== undefined ? `${spec.maxDepth} mm` : "—"}</td>` +
+    `<td class="num">${spec.minCurvatureRadius !== undefined ? `${spec.minCurvatureRadius} mm` : "—"}</td></tr>`
+  );
+  groups.push(`<div class="block"><h3>Canali</h3>${table(channels, "<tr><th>Diametro</th><th>Profondità max</th><th>Raggio curva min</th></tr>")}</div>`);
+
+  const names = new Map([...listRules(), ...guidelines.customRules].map(rule => [rule.id, rule.name]));
+  const disabled = guidelines.disabledRules.map(id => escapeHTML(names.get(id) ?? id));
+  const custom = guidelines.customRules.map(rule =>
+    `<tr><td>${escapeHTML(rule.name)}</td><td class="mono">${escapeHTML(rule.expression)}</td><td>${SEVERITY_LABELS[rule.severity]}</td></tr>`
+  );
+
+  return `<p>Profilo: <strong>${escapeHTML(profileName)}</strong></p>` +
+    `<div class="columns">${groups.join("")}</div>` +
+    `<h3>Regole escluse</h3><p>${disabled.length > 0 ? disabled.join(", ") : "Nessuna"}</p>` +
+    (custom.length > 0 ? `<h3>Regole personalizzate</h3>${table(custom, "<tr><th>Nome</th><th>Condizione</th><th>Gravità</th></tr>")}` : "");
+}
+
+const STYLE = `
+@page { size: A4; margin: 14mm 12mm; }
+* { box-sizing: border-box; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+body { margin: 0; font: 9.5pt/1.4 system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; }
+@media screen { body { max-width: 186mm; margin: 10mm auto; } }
+header { display: flex; justify-content: space-between; align-items: flex-start; gap: 6mm; border-bottom: 1pt solid #111; padding-bottom: 3mm; }
+h1 { font-size: 17pt; margin: 0; }
+h2 { font-size: 12.5pt; margin: 6mm 0 2.5mm; padding-bottom: 1mm; border-bottom: 0.5pt solid #999; break-after: avoid; }
+h3 { font-size: 10pt; margin: 3mm 0 1mm; break-after: avoid; }
+p { margin: 1mm 0; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; vertical-align: top; padding: 0.8mm 1.5mm; border-bottom: 0.25pt solid #ddd; }
+thead th { border-bottom: 0.75pt solid #555; font-size: 8.5pt; }
+tbody th { width: 35%; font-weight: 500; color: #444; }
+tr { break-inside: avoid; }
+.num { text-align: right; white-space: nowrap; font-family: ui-monospace, Menlo, Consolas, monospace; }
+.mono, .details { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 8.5pt; }
+.details { color: #444; margin-top: 0.8mm; white-space: pre-wrap; }
+.muted { color: #666; font-size: 8pt; }
+.subheading { font-size: 8pt; text-transform: uppercase; letter-spacing: 0.05em; color: #666; padding-top: 2mm; }
+.highlight td { background: #fef3c7; }
+.outcome { padding: 1.5mm 3mm; border-radius: 1.5mm; font-weight: 700; white-space: nowrap; }
+.outcome.error { background: #fee2e2; color: #991b1b; }
+.outcome.warning { background: #fef3c7; color: #92400e; }
+.outcome.info { background: #d1fae5; color: #065f46; }
+.result .severity { width: 17mm; font-weight: 700; }
+.result.error .severity { color: #b91c1c; }
+.result.warning .severity { color: #b45309; }
+.result.info .severity { color: #047857; }
+.result td:nth-child(2) { width: 50mm; }
+.views { display: grid; grid-template-columns: repeat(3, 1fr); gap: 3mm; break-inside: avoid; }
+figure { margin: 0; border: 0.5pt solid #ccc; }
+figure img { display: block; width: 100%; }
+figcaption { text-align: center; font-size: 8pt; color: #444; padding: 1mm; border-top: 0.5pt solid #ccc; }
+.columns { columns: 2; column-gap: 6mm; }
+.block { break-inside: avoid; }
+footer { margin-top: 8mm; padding-top: 2mm; border-top: 0.5pt solid #999; font-size: 8pt; color: #666; }
+`;
+
+// A self-contained A4 page with everything the analysis found, for a quote or a
+// non-conformance record; images are embedded, so the file can be archived on its own
+export function buildReport(input: ReportInput): string {
+  const { data, results } = input;
+  const errors = results.filter(r => r.severity === "error").length;
+  const warnings = results.filter(r => r.severity === "warning").length;
+  const passed = results.filter(r => r.passed).length;
+  const outcome: Severity = errors > 0 ? "error" : warnings > 0 ? "warning" : "info";
+  const outcomeLabel = errors > 0 ? "Non conforme" : warnings > 0 ? "Conforme con avvisi" : "Conforme";
+  const generatedAt = formatDate(new Date());
+  const title = input.bodyName ? `${input.fileName} / ${input.bodyName}` : input.fileName;
+
+  const units = data.units
+    ? `${LENGTH_UNITS[data.units.unit].label}${data.units.source === "detected" ? " (rilevata)" : data.units.source === "chosen" ? " (scelta)" : " (dal file)"}`
+    : "mm";
+  const metadata = [
+    pair("File", input.fileName),
+    ...(input.bodyName ? [pair("Corpo", input.bodyName)] : []),
+    pair("Formato", data.fileFormat ?? "STL"),
+    ...(input.fileSize !== null ? [pair("Dimensione file", formatSize(input.fileSize))] : []),
+    pair("Unità", units),
+    pair("Ingombro", `${data.dimensions.length.toFixed(2)} × ${data.dimensions.width.toFixed(2)} × ${data.dimensions.height.toFixed(2)} mm`),
+    pair(data.volumeReliable ? "Volume" : "Volume (non affidabile)", `${data.volume.toFixed(2)} mm³`),
+    pair("Triangoli", data.triangleCount.toLocaleString("it-IT")),
+    pair("Orientamento", input.pose ?? "Originale del file"),
+    pair("Profilo linee guida", input.profileName),
+    ...(input.analyzedAt ? [pair("Analisi eseguita il", formatDate(new Date(input.analyzedAt)))] : []),
+    pair("Rapporto generato il", generatedAt),
+  ];
+
+  const views = input.views.map(view =>
+    `<figure><img src="${view.image}" alt="${escapeHTML(view.label)}"><figcaption>${escapeHTML(view.label)}</figcaption></figure>`
+  );
+
+  const statistics = modelStatistics(data, input.guidelines).map(section =>
+    `<div class="block"><h3>${escapeHTML(section.title)}</h3>${table(section.items.map(statisticRow))}</div>`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="it">
+<head>
+<meta charset="utf-8">
+<title>Rapporto di validazione – ${escapeHTML(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>Rapporto di Validazione</h1>
+    <p>${escapeHTML(title)}</p>
+  </div>
+  <span class="outcome ${outcome}">${outcomeLabel}</span>
+</header>
+
+<h2>Modello</h2>
+${table(metadata)}
+
+<h2>Viste</h2>
+<div class="views">${views.join("")}</div>
+
+<h2>Risultati della Validazione</h2>
+<p>${results.length} regole verificate: ${errors} errori, ${warnings} avvisi, ${passed} superate.</p>
+${resultsSection(results)}
+
+<h2>Dati Estratti dal Modello</h2>
+<div class="columns">${statistics.join("")}</div>
+
+<h2>Linee Guida Applicate</h2>
+${guidelinesSection(input.profileName, input.guidelines)}
+
+<footer>Validatore 3D Pro • ${escapeHTML(input.fileName)} • generato il ${generatedAt}</footer>
+</body>
+</html>
+`;
+}
+
+// Prints the report from a hidden frame; the print dialog can also save it as PDF
+export function printReport(html: string): void {
+  const frame = document.createElement("iframe");
+  frame.style.cssText = "position: fixed; width: 0; height: 0; border: 0; visibility: hidden";
+  // Loading waits for the embedded views, so none is missing from the print
+  frame.addEventListener("load", () => {
+    const win = frame.contentWindow!;
+    win.addEventListener("afterprint", () => frame.remove());
+    win.focus();
+    win.print();
+  }, { once: true });
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,264 @@
+import type { Guidelines, ModelData } from "../../shared/analysis/types";
+
+// One line of the statistics: a value, a free-form note (the list of holes, say), the
+// heading of a group of rows, or the wall thickness grade
+export type StatisticItem =
+  | { kind: "row"; label: string; value: string | number; unit?: string; highlight?: boolean }
+  | { kind: "note"; label: string; text: string; highlight?: boolean }
+  | { kind: "heading"; label: string }
+  | { kind: "score"; label: string; score: number; grade: string };
+
+export interface StatisticSection {
+  id: string;
+  title: string;
+  icon: string;
+  items: StatisticItem[];
+}
+
+const row = (label: string, value: string | number, unit = "", highlight = false): StatisticItem => ({ kind: "row", label, value, unit, highlight });
+const note = (label: string, text: string, highlight = false): StatisticItem => ({ kind: "note", label, text, highlight });
+const heading = (label: string): StatisticItem => ({ kind: "heading", label });
+
+// A length that may be missing, shown as N/A without a unit, highlighted below `limit`
+const optional = (label: string, value: number | null, digits: number, limit = -Infinity) =>
+  row(label, value !== null ? value.toFixed(digits) : "N/A", value !== null ? "mm" : "", value !== null && value < limit);
+
+// The first few items of a long list, and how many were left out
+const firstFive = <T>(items: T[], format: (item: T) => string, others: string) =>
+  items.slice(0, 5).map(format).join(", ") + (items.length > 5 ? ` +${items.length - 5} ${others}` : "");
+
+// Everything extracted from the model, grouped as in the data panel and the printed report
+export function modelStatistics(data: ModelData, guidelines: Guidelines): StatisticSection[] {
+  const { meshIntegrity, edgeAnalysis, cavityAnalysis, voidAnalysis, channelAnalysis, threadAnalysis } = data;
+  const { surfaceFeatures, wallThickness, clearance, geometricComplexity, componentAnalysis } = data;
+
+  return [
+    {
+      id: "mesh",
+      title: "Statistiche Mesh",
+      icon: "🔺",
+      items: [
+        row("Triangoli", data.triangleCount),
+        row("Vertici", data.vertexCount),
+        row("Spigoli", data.edgeCount),
+        row(data.volumeReliable ? "Volume" : "Volume (non affidabile)", data.volume.toFixed(3), "mm³", !data.volumeReliable),
+        row("Area Superficiale", data.surfaceArea.toFixed(3), "mm²"),
+      ],
+    },
+    {
+      id: "integrity",
+      title: "Integrità Mesh",
+      icon: "🩹",
+      items: [
+        row("Mesh Chiusa (Watertight)", meshIntegrity.isWatertight ? "Sì" : "No", "", !meshIntegrity.isWatertight),
+        row("Spigoli Aperti", meshIntegrity.openEdges.count, "", meshIntegrity.openEdges.count > 0),
+        row("Spigoli Non-Manifold", meshIntegrity.nonManifoldEdges.count, "", meshIntegrity.nonManifoldEdges.count > 0),
+        row("Vertici Non-Manifold", meshIntegrity.nonManifoldVertices.count, "", meshIntegrity.nonManifoldVertices.count > 0),
+        row("Auto-Intersezioni", meshIntegrity.selfIntersections.count, "", meshIntegrity.selfIntersections.count > 0),
+        row("Facce Invertite", meshIntegrity.flippedFaces.count, "", meshIntegrity.flippedFaces.count > 0),
+        row("Gusci Invertiti", meshIntegrity.invertedShells, "", meshIntegrity.invertedShells > 0),
+        row("Facce Degeneri", meshIntegrity.degenerateFaces.count, "", meshIntegrity.degenerateFaces.count > 0),
+        row("Facce ad Area Nulla", meshIntegrity.zeroAreaFaces.count, "", meshIntegrity.zeroAreaFaces.count > 0),
+        row("Facce Duplicate", meshIntegrity.duplicateFaces.count, "", meshIntegrity.duplicateFaces.count > 0),
+      ],
+    },
+    {
+      id: "dimensions",
+      title: "Dimensioni e Bounding Box",
+      icon: "📐",
+      items: [
+        row("Lunghezza (X)", data.dimensions.length.toFixed(4), "mm"),
+        row("Larghezza (Y)", data.dimensions.width.toFixed(4), "mm"),
+        row("Altezza (Z)", data.dimensions.height.toFixed(4), "mm"),
+        row("Min X", data.boundingBox.min.x.toFixed(4), "mm"),
+        row("Max X", data.boundingBox.max.x.toFixed(4), "mm"),
+        row("Min Y", data.boundingBox.min.y.toFixed(4), "mm"),
+        row("Max Y", data.boundingBox.max.y.toFixed(4), "mm"),
+        row("Min Z", data.boundingBox.min.z.toFixed(4), "mm"),
+        row("Max Z", data.boundingBox.max.z.toFixed(4), "mm"),
+        row("Distribuzione Normali X", (data.normalDistribution.x * 100).toFixed(1), "%"),
+        row("Distribuzione Normali Y", (data.normalDistribution.y * 100).toFixed(1), "%"),
+        row("Distribuzione Normali Z", (data.normalDistribution.z * 100).toFixed(1), "%"),
+      ],
+    },
+    {
+      id: "edges",
+      title: "Analisi Spigoli e Raccordi",
+      icon: "📏",
+      items: [
+        row("Spigoli Totali", edgeAnalysis.totalEdges),
+        row("Spigoli Vivi", edgeAnalysis.sharpEdges, "", edgeAnalysis.sharpEdges > 0),
+        ...(data.brep
+          ? [row("Facce CAD (piani/cilindri/tori/altre)", `${data.brep.planeCount}/${data.brep.cylinderCount}/${data.brep.torusCount}/${data.brep.otherCount}`)]
+          : []),
+        row("Raccordi Rilevati", edgeAnalysis.fillets.length),
+        optional("Raggio Raccordo Min", edgeAnalysis.minFilletRadius, 4, guidelines.minCurvatureRadius),
+        row("Giunzioni a T", edgeAnalysis.tJunctionCount),
+        optional("Raggio Giunzioni a T Min", edgeAnalysis.minTJunctionRadius, 4, guidelines.minTJunctionRadius),
+        ...(edgeAnalysis.fillets.length > 0
+          ? [note("Raggi Raccordi", firstFive(edgeAnalysis.fillets, f => `${f.convex ? "R" : "Ri"}${f.radius.toFixed(2)}mm`, "altri"))]
+          : []),
+        ...(edgeAnalysis.sharpEdgeAngles.length > 0
+          ? [note("Angoli Spigoli Vivi", firstFive(edgeAnalysis.sharpEdgeAngles, a => `${a.toFixed(1)}°`, "altri"))]
+          : []),
+      ],
+    },
+    {
+      id: "cavities",
+      title: "Cavità e Fori",
+      icon: "🕳️",
+      items: [
+        row("Cavità Potenziali", cavityAnalysis.potentialCavities),
+        row("Fori Ciechi", cavityAnalysis.blindHoleCount),
+        row("Fori Passanti", cavityAnalysis.throughHoleCount),
+        row("Loop di Bordo", cavityAnalysis.boundaryLoops, "", cavityAnalysis.boundaryLoops > 0),
+        ...cavityAnalysis.holes.map((hole, i) => note(
+          `Foro ${i + 1} (${hole.type === "blind" ? "cieco" : "passante"}, ${hole.accuracy === "exact" ? "esatto" : "stimato"})`,
+          `Ø${hole.diameter.toFixed(2)}mm • prof. ${hole.depth.toFixed(2)}mm • ${hole.depthRatio.toFixed(1)}:1`
+        )),
+        ...(cavityAnalysis.boundaryLoopDetails.length > 0
+          ? [note("Aperture Mesh", firstFive(cavityAnalysis.boundaryLoopDetails, l => `Ø${l.diameter.toFixed(2)}mm (${l.edgeCount} spigoli)`, "altre"))]
+          : []),
+      ],
+    },
+    {
+      id: "voids",
+      title: "Cavità Interne",
+      icon: "🫧",
+      items: [
+        row("Cavità Rilevate", voidAnalysis.voids.length),
+        row("Volume Totale", voidAnalysis.totalVoidVolume.toFixed(3), "mm³"),
+        ...voidAnalysis.voids.map((cavity, i) => note(
+          `Cavità ${i + 1} (${cavity.openingDiameters.length === 0 ? "chiusa" : `${cavity.openingDiameters.length} aperture`})`,
+          `${cavity.volume.toFixed(1)}mm³ • guscio ${cavity.shellThickness === null ? "N/A" : `${cavity.shellThickness.toFixed(2)}mm`}` +
+            (cavity.openingDiameters.length > 0 ? ` • Ø${cavity.openingDiameters.map(d => d.toFixed(2)).join(", Ø")}mm` : "")
+        )),
+      ],
+    },
+    {
+      id: "channels",
+      title: "Canali Aperti",
+      icon: "🚇",
+      items: [
+        row("Canali Potenziali", channelAnalysis.potentialChannels),
+        row("Canali Rettilinei", channelAnalysis.straightChannels),
+        row("Canali Curvi", channelAnalysis.curvedChannels),
+        ...channelAnalysis.channels.map((channel, i) => note(
+          `Canale ${i + 1} (${channel.curved ? "curvo" : "rettilineo"})`,
+          `Ø${channel.diameter.toFixed(2)}mm • L ${channel.length.toFixed(2)}mm` +
+            (channel.bendRadius !== null ? ` • R ${channel.bendRadius.toFixed(1)}mm` : "")
+        )),
+      ],
+    },
+    {
+      id: "threads",
+      title: "Filettature",
+      icon: "🔩",
+      items: [
+        row("Filettature Esterne", threadAnalysis.externalThreadCount),
+        row("Filettature Interne", threadAnalysis.internalThreadCount),
+        ...threadAnalysis.threads.map((thread, i) => note(
+          `Filetto ${i + 1} (${thread.type === "internal" ? "interno" : "esterno"})`,
+          `Ø${thread.majorDiameter.toFixed(2)}mm • passo ${thread.pitch.toFixed(2)}mm • L ${thread.length.toFixed(2)}mm`
+        )),
+      ],
+    },
+    {
+      id: "surface",
+      title: "Rilievi e Incisioni",
+      icon: "✨",
+      items: [
+        row("Rilievi", surfaceFeatures.reliefCount),
+        row("Incisioni", surfaceFeatures.engravingCount),
+        row("Tratto Minimo", surfaceFeatures.minStrokeWidth !== null ? surfaceFeatures.minStrokeWidth.toFixed(3) : "N/A", surfaceFeatures.minStrokeWidth !== null ? "mm" : ""),
+        row("Altezza Carattere Min", surfaceFeatures.minCharacterHeight !== null ? surfaceFeatures.minCharacterHeight.toFixed(3) : "N/A", surfaceFeatures.minCharacterHeight !== null ? "mm" : ""),
+        row("Altezza Max Rilievo", surfaceFeatures.maxReliefHeight.toFixed(3), "mm"),
+        row("Profondità Max Incisione", surfaceFeatures.maxEngravingDepth.toFixed(3), "mm"),
+        row("Facce Analizzate", surfaceFeatures.scannedSurfaces),
+        ...surfaceFeatures.features.slice(0, 20).map((feature, i) => note(
+          `${feature.kind === "relief" ? "Rilievo" : "Incisione"} ${i + 1}`,
+          `${feature.length.toFixed(2)}×${feature.width.toFixed(2)}mm • ${feature.kind === "relief" ? "h" : "p"} ${feature.height.toFixed(2)}mm • tratto ${feature.strokeWidth.toFixed(2)}mm`
+        )),
+      ],
+    },
+    {
+      id: "walls",
+      title: "Spessore Parete",
+      icon: "🧱",
+      items: [
+        { kind: "score", label: "Qualità Spessore", score: wallThickness.qualityScore, grade: wallThickness.qualityGrade },
+        row("Spessore Minimo", wallThickness.minThickness.toFixed(4), "mm", wallThickness.minThickness < guidelines.wallThickness.min),
+        row("Spessore Massimo", wallThickness.maxThickness.toFixed(4), "mm"),
+        row("Spessore Medio", wallThickness.avgThickness.toFixed(4), "mm"),
+        row("Spessore Mediano", wallThickness.medianThickness.toFixed(4), "mm"),
+        row("Deviazione Standard", wallThickness.stdDeviation.toFixed(4), "mm"),
+        heading("Analisi Campionamento"),
+        row("Triangoli Misurati", wallThickness.sampleCount.toLocaleString()),
+        row("Copertura Mesh", wallThickness.coveragePercent.toFixed(1), "%", wallThickness.coveragePercent < 90),
+        heading("Aree Critiche"),
+        row(`Aree Sottili (<${guidelines.wallThickness.min}mm)`, wallThickness.thinAreas, "", wallThickness.thinAreas > 0),
+        row(`Aree Borderline (${guidelines.wallThickness.min}-${guidelines.hollowWallThickness}mm)`, wallThickness.borderlineAreas, "", wallThickness.borderlineAreas > 0),
+        row(`% Superficie <${guidelines.wallThickness.min}mm`, wallThickness.percentBelow1mm.toFixed(2), "%", wallThickness.percentBelow1mm > 0),
+        row(`% Superficie <${guidelines.hollowWallThickness}mm`, wallThickness.percentBelow1_2mm.toFixed(2), "%", wallThickness.percentBelow1_2mm > 5),
+      ],
+    },
+    {
+      id: "clearance",
+      title: "Fessure e Giochi",
+      icon: "↔️",
+      items: [
+        optional("Fessura Minima", clearance.minGap, 4, guidelines.minGap),
+        optional("Fessura Mediana", clearance.medianGap, 4),
+        row("Facce Affacciate", clearance.measuredFaceCount.toLocaleString()),
+        row(`Facce <${guidelines.minGap}mm`, clearance.facesBelowMinGap, "", clearance.facesBelowMinGap > 0),
+        row(`Facce <${guidelines.minCavityWidth}mm`, clearance.facesBelowMinCavityWidth, "", clearance.facesBelowMinCavityWidth > 0),
+        heading("Distribuzione"),
+        ...clearance.distribution.map((bin, i) =>
+          row(`${i === 0 ? 0 : clearance.distribution[i - 1].upTo}-${bin.upTo}mm`, bin.areaPercent.toFixed(1), "%")
+        ),
+        ...(clearance.narrowest.length > 0 ? [heading("Punti più Stretti")] : []),
+        ...clearance.narrowest.map((gap, i) => note(
+          `Fessura ${i + 1}`,
+          `${gap.distance.toFixed(3)}mm • (${gap.pointA.x.toFixed(1)}, ${gap.pointA.y.toFixed(1)}, ${gap.pointA.z.toFixed(1)})`,
+          gap.distance < guidelines.minGap
+        )),
+      ],
+    },
+    {
+      id: "complexity",
+      title: "Complessità Geometrica",
+      icon: "🔬",
+      items: [
+        row("Densità Triangoli", geometricComplexity.triangleDensity.toFixed(6), "tri/mm²"),
+        row("Varianza Curvatura", geometricComplexity.surfaceCurvatureVariance.toFixed(6)),
+        row("Componenti", geometricComplexity.componentCount),
+        row("Genus (Fori Topologici)", geometricComplexity.genus),
+        row("Base Piana", geometricComplexity.hasFlatBase ? "Sì" : "No", "", !geometricComplexity.hasFlatBase),
+        row(geometricComplexity.flatBaseAccuracy === "exact" ? "Area Base Piana (esatta)" : "Area Base Piana", geometricComplexity.flatBaseArea.toFixed(4), "mm²"),
+        ...(geometricComplexity.flatBaseNormal
+          ? [note("Normale Base", `(${geometricComplexity.flatBaseNormal.x.toFixed(3)}, ${geometricComplexity.flatBaseNormal.y.toFixed(3)}, ${geometricComplexity.flatBaseNormal.z.toFixed(3)})`)]
+          : []),
+      ],
+    },
+    {
+      id: "components",
+      title: "Parti e Gusci",
+      icon: "🔗",
+      items: [
+        row("Parti Separate", componentAnalysis.componentCount),
+        optional("Distanza Min tra Parti", componentAnalysis.minPartGap, 4, guidelines.minGap),
+        ...componentAnalysis.components.map((component) => {
+          const { min, max } = component.boundingBox;
+          return note(
+            `Parte ${component.index + 1}`,
+            `${component.volume.toFixed(2)}mm³ • ${component.triangleCount.toLocaleString()} tri • ` +
+              `${(max.x - min.x).toFixed(2)} × ${(max.y - min.y).toFixed(2)} × ${(max.z - min.z).toFixed(2)}mm`
+          );
+        }),
+        ...(componentAnalysis.partGaps.length > 0
+          ? [note("Distanze tra Parti", firstFive(componentAnalysis.partGaps, g => `P${g.partA + 1}↔P${g.partB + 1} ${g.isLowerBound ? "≥" : ""}${g.distance.toFixed(2)}mm`, "altre"))]
+          : []),
+      ],
+    },
+  ];
+}
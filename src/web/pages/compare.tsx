@@ -0,0 +1,400 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import * as THREE from "three";
+import { Link } from "wouter";
+import { STLViewer } from "../components/stl-viewer";
+import { runAnalysis, runComparison } from "../lib/analysis/client";
+import { ANALYSIS_STAGES, COMPARISON_STAGES } from "../lib/analysis/stages";
+import { DEFAULT_PROFILE, getActiveProfileId, listProfiles, setActiveProfileId } from "../lib/profiles";
+import { ACCEPTED_EXTENSIONS, UNITLESS_FORMATS, formatOf } from "../../shared/analysis/formats";
+import { compareRevisions } from "../../shared/analysis/revisions";
+import { LENGTH_UNITS } from "../../shared/analysis/units";
+import { validateModel } from "../../shared/analysis/validation";
+import type {
+  AnalysisStage,
+  GuidelineProfile,
+  LengthUnit,
+  MetricChange,
+  ModelData,
+  RevisionComparison,
+  RevisionDeviation,
+} from "../../shared/analysis/types";
+
+type Slot = "before" | "after";
+
+const SLOT_LABELS: Record<Slot, string> = { before: "Revisione precedente", after: "Nuova revisione" };
+
+interface ComparisonOutcome {
+  before: ModelData;
+  after: ModelData;
+  comparison: RevisionComparison;
+  deviation: RevisionDeviation;
+  tolerance: number;
+  // As they were when the comparison ran
+  fileNames: Record<Slot, string>;
+  aligned: boolean;
+}
+
+// Where the run is: which file is being analyzed, or the comparison itself
+interface Progress {
+  step: string;
+  stage: AnalysisStage | null;
+}
+
+const stageLabel = (stage: AnalysisStage | null) =>
+  [...ANALYSIS_STAGES, ...COMPARISON_STAGES].find(s => s.id === stage)?.label ?? "Caricamento file";
+
+function FileSlot({ slot, file, disabled, onFile }: { slot: Slot; file: File | null; disabled: boolean; onFile: (file: File) => void }) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const dropped = e.dataTransfer.files[0];
+        if (dropped && !disabled) onFile(dropped);
+      }}
+      onClick={() => !disabled && inputRef.current?.click()}
+      className={`cursor-pointer rounded-xl border-2 border-dashed p-6 text-center transition-colors ${isDragging ? "border-white bg-white/10" : "border-white/20 hover:border-white/40 hover:bg-white/5"}`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_EXTENSIONS.join(",")}
+        onChange={(e) => {
+          const selected = e.target.files?.[0];
+          if (selected) onFile(selected);
+          e.target.value = "";
+        }}
+        className="hidden"
+      />
+      <p className="text-sm text-white/50 mb-1">{SLOT_LABELS[slot]}</p>
+      <p className="font-medium truncate">{file ? file.name : "Trascina qui il file o clicca per selezionarlo"}</p>
+    </div>
+  );
+}
+
+function formatMetric(value: number | null, change: MetricChange): string {
+  if (value === null) return "—";
+  return `${value.toFixed(change.digits)}${change.unit ? ` ${change.unit}` : ""}`;
+}
+
+function formatDelta(change: MetricChange): string {
+  if (change.before === null || change.after === null) return "";
+  const delta = Number((change.after - change.before).toFixed(change.digits)) || 0;
+  return delta === 0 ? "=" : `${delta > 0 ? "+" : ""}${delta.toFixed(change.digits)}`;
+}
+
+// How far the alignment moved and turned the new revision
+function describeAlignment(deviation: RevisionDeviation): string {
+  const matrix = new THREE.Matrix4().fromArray(deviation.matrix);
+  const shift = new THREE.Vector3().setFromMatrixPosition(matrix).length();
+  const angle = 2 * Math.acos(Math.min(1, Math.abs(new THREE.Quaternion().setFromRotationMatrix(matrix).w)));
+  return `spostata di ${shift.toFixed(3)} mm e ruotata di ${THREE.MathUtils.radToDeg(angle).toFixed(2)}°, residuo ${deviation.alignmentRms.toFixed(3)} mm`;
+}
+
+function Compare() {
+  const [files, setFiles] = useState<Record<Slot, File | null>>({ before: null, after: null });
+  const [profiles, setProfiles] = useState<GuidelineProfile[]>([DEFAULT_PROFILE]);
+  const [activeProfileId, setActiveProfile] = useState(getActiveProfileId);
+  const [meshUnit, setMeshUnit] = useState<LengthUnit | null>(null);
+  const [align, setAlign] = useState(true);
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [error, setError] = useState("");
+  const [outcome, setOutcome] = useState<ComparisonOutcome | null>(null);
+  // Heatmap full scale in mm; null follows the largest deviation
+  const [scale, setScale] = useState<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listProfiles()
+      .then(stored => setProfiles([DEFAULT_PROFILE, ...stored]))
+      .catch(err => console.error(err));
+  }, []);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? DEFAULT_PROFILE;
+
+  const selectProfile = (id: number) => {
+    setActiveProfileId(id);
+    setActiveProfile(id);
+  };
+
+  const setFile = (slot: Slot, file: File) => {
+    if (!formatOf(file.name)) {
+      setError(`Formato non supportato: carica un file ${ACCEPTED_EXTENSIONS.join(", ")}`);
+      return;
+    }
+    setError("");
+    setFiles(prev => ({ ...prev, [slot]: file }));
+  };
+
+  const compare = useCallback(async () => {
+    if (!files.before || !files.after) return;
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const guidelines = activeProfile.guidelines;
+    setError("");
+    setScale(null);
+
+    try {
+      const analyze = (slot: Slot) => runAnalysis(files[slot]!, guidelines, meshUnit, {
+        onProgress: stage => setProgress({ step: SLOT_LABELS[slot], stage }),
+        signal: controller.signal,
+      });
+      setProgress({ step: SLOT_LABELS.before, stage: null });
+      const before = await analyze("before");
+      setProgress({ step: SLOT_LABELS.after, stage: null });
+      const after = await analyze("after");
+
+      setProgress({ step: "Confronto", stage: null });
+      const tolerance = guidelines.tolerance.absolute;
+      const deviation = await runComparison(before.geometry, after.geometry, { align, tolerance }, {
+        onProgress: stage => setProgress({ step: "Confronto", stage }),
+        signal: controller.signal,
+      });
+      const comparison = compareRevisions(before, after, validateModel(before, guidelines), validateModel(after, guidelines));
+      setOutcome({
+        before,
+        after,
+        comparison,
+        deviation,
+        tolerance,
+        fileNames: { before: files.before.name, after: files.after.name },
+        aligned: align,
+      });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error && err.message ? err.message : "Errore durante il confronto");
+      console.error(err);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  }, [files, activeProfile, meshUnit, align]);
+
+  const cancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setProgress(null);
+    setError("Confronto annullato");
+  };
+
+  const deviationGeometry = useMemo(() => {
+    if (!outcome) return null;
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(outcome.deviation.positions, 3));
+    return geometry;
+  }, [outcome]);
+
+  const autoScale = outcome
+    ? Math.max(Math.abs(outcome.deviation.min), Math.abs(outcome.deviation.max), outcome.tolerance)
+    : 0;
+  const range = scale ?? autoScale;
+  const heatmap = useMemo(() => (outcome ? { values: outcome.deviation.values, range } : null), [outcome, range]);
+
+  const isRunning = progress !== null;
+  const selectClass = "px-3 py-1.5 text-sm rounded-md bg-white/5 border border-white/10 focus:outline-none focus:border-white/30 disabled:opacity-50";
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="max-w-6xl mx-auto px-6 pt-12 pb-8">
+        <Link href="/" className="text-sm text-white/50 hover:text-white transition-colors">
+          ← Torna al validatore
+        </Link>
+        <h1 className="text-4xl md:text-5xl font-bold tracking-tight mt-4 mb-3">Confronto Revisioni</h1>
+        <p className="text-white/60 max-w-2xl">
+          Carica due versioni dello stesso pezzo: vengono analizzate con lo stesso profilo, allineate e confrontate per metriche, esito delle regole e deviazione geometrica.
+        </p>
+      </header>
+
+      <section className="max-w-6xl mx-auto px-6 pb-8 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <label htmlFor="compare-profile" className="text-sm text-white/60">Profilo linee guida</label>
+          <select id="compare-profile" value={activeProfile.id} onChange={(e) => selectProfile(Number(e.target.value))} disabled={isRunning} className={selectClass}>
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id} className="bg-black">{profile.name}</option>
+            ))}
+          </select>
+          <label htmlFor="compare-unit" className="ml-4 text-sm text-white/60">Unità {UNITLESS_FORMATS.join("/")}</label>
+          <select
+            id="compare-unit"
+            value={meshUnit ?? ""}
+            onChange={(e) => setMeshUnit((e.target.value || null) as LengthUnit | null)}
+            disabled={isRunning}
+            className={selectClass}
+          >
+            <option value="" className="bg-black">Rilevamento automatico</option>
+            {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map((unit) => (
+              <option key={unit} value={unit} className="bg-black">{LENGTH_UNITS[unit].label}</option>
+            ))}
+          </select>
+          <label className="ml-4 flex items-center gap-2 text-sm text-white/60">
+            <input type="checkbox" checked={align} onChange={(e) => setAlign(e.target.checked)} disabled={isRunning} />
+            Allinea automaticamente
+          </label>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          {(["before", "after"] as Slot[]).map((slot) => (
+            <FileSlot key={slot} slot={slot} file={files[slot]} disabled={isRunning} onFile={(file) => setFile(slot, file)} />
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={compare}
+            disabled={!files.before || !files.after || isRunning}
+            className="px-6 py-2 rounded-lg bg-white text-black font-semibold hover:bg-white/90 transition-colors disabled:opacity-50"
+          >
+            Confronta
+          </button>
+          {progress && (
+            <>
+              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              <span className="text-sm text-white/60">{progress.step}: {stageLabel(progress.stage)}...</span>
+              <button onClick={cancel} className="px-3 py-1 text-sm rounded-md bg-white/5 hover:bg-white/10 border border-white/10 transition-colors">
+                Annulla
+              </button>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400">{error}</div>
+        )}
+      </section>
+
+      {outcome && deviationGeometry && heatmap && (
+        <section className="max-w-6xl mx-auto px-6 pb-16 space-y-8 animate-fade-in">
+          {/* Summary */}
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className={`p-4 rounded-xl border ${outcome.comparison.regressions.length > 0 ? "bg-red-500/10 border-red-500/20" : "bg-emerald-500/10 border-emerald-500/20"}`}>
+              <h2 className={`font-semibold mb-2 ${outcome.comparison.regressions.length > 0 ? "text-red-400" : "text-emerald-400"}`}>
+                {outcome.comparison.regressions.length > 0 ? `Regressioni (${outcome.comparison.regressions.length})` : "Nessuna regressione"}
+              </h2>
+              <ul className="space-y-1 text-sm text-white/80">
+                {outcome.comparison.regressions.map((line) => <li key={line}>• {line}</li>)}
+              </ul>
+            </div>
+            <div className="p-4 rounded-xl border bg-white/5 border-white/10">
+              <h2 className="font-semibold mb-2 text-emerald-400">
+                {outcome.comparison.improvements.length > 0 ? `Miglioramenti (${outcome.comparison.improvements.length})` : "Nessun miglioramento"}
+              </h2>
+              <ul className="space-y-1 text-sm text-white/80">
+                {outcome.comparison.improvements.map((line) => <li key={line}>• {line}</li>)}
+              </ul>
+            </div>
+          </div>
+
+          {/* Viewers */}
+          <div className="grid lg:grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm text-white/50 mb-2">{SLOT_LABELS.before}: {outcome.fileNames.before}</p>
+              <STLViewer geometry={outcome.before.geometry} />
+            </div>
+            <div>
+              <p className="text-sm text-white/50 mb-2">{SLOT_LABELS.after}: {outcome.fileNames.after} — deviazione dalla precedente</p>
+              <STLViewer geometry={deviationGeometry} heatmap={heatmap} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex-1 min-w-[260px]">
+              <div className="h-3 rounded-full bg-gradient-to-r from-blue-500 via-white to-red-500" />
+              <div className="flex justify-between text-xs text-white/50 font-mono mt-1">
+                <span>−{range.toFixed(3)} mm (materiale tolto)</span>
+                <span>0</span>
+                <span>+{range.toFixed(3)} mm (aggiunto)</span>
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-white/60">
+              Scala ±
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={Number(range.toFixed(3))}
+                onChange={(e) => setScale(Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+                className="w-24 px-2 py-1 rounded-md bg-white/5 border border-white/10 font-mono text-sm focus:outline-none focus:border-white/30"
+              />
+              mm
+            </label>
+            {scale !== null && (
+              <button onClick={() => setScale(null)} className="text-sm text-white/50 hover:text-white underline underline-offset-4">
+                Automatica
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {[
+              { title: "Deviazione min", value: `${outcome.deviation.min.toFixed(3)} mm` },
+              { title: "Deviazione max", value: `+${Math.max(0, outcome.deviation.max).toFixed(3)} mm` },
+              { title: "Media assoluta", value: `${outcome.deviation.meanAbsolute.toFixed(3)} mm` },
+              { title: "RMS", value: `${outcome.deviation.rms.toFixed(3)} mm` },
+              { title: `Entro ±${outcome.tolerance} mm`, value: `${(outcome.deviation.withinTolerance * 100).toFixed(1)}%` },
+            ].map((stat) => (
+              <div key={stat.title} className="p-3 rounded-lg bg-white/5 border border-white/10">
+                <p className="text-xs text-white/50 mb-1">{stat.title}</p>
+                <p className="font-mono text-sm">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-white/50">
+            {outcome.aligned ? `Nuova revisione ${describeAlignment(outcome.deviation)}.` : "Revisioni confrontate nelle coordinate dei file, senza allineamento."}
+          </p>
+
+          {/* Rule Flips */}
+          <div className="bg-white/5 rounded-xl border border-white/10 p-4">
+            <h3 className="font-semibold mb-3">Regole con esito cambiato</h3>
+            {outcome.comparison.flips.length === 0 ? (
+              <p className="text-sm text-white/50">Tutte le regole hanno lo stesso esito nelle due revisioni</p>
+            ) : (
+              <div className="space-y-2">
+                {outcome.comparison.flips.map((flip) => (
+                  <div key={flip.ruleId} className="flex flex-wrap items-center gap-3 text-sm">
+                    <span className="font-medium min-w-[180px]">{flip.name}</span>
+                    <span className={flip.before.passed ? "text-emerald-400" : "text-red-400"}>{flip.before.passed ? "Conforme" : "Non conforme"}</span>
+                    <span className="text-white/40">→</span>
+                    <span className={flip.after.passed ? "text-emerald-400" : "text-red-400"}>{flip.after.passed ? "Conforme" : "Non conforme"}</span>
+                    <span className="text-white/50 flex-1">{flip.after.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Metrics */}
+          <div className="bg-white/5 rounded-xl border border-white/10 p-4">
+            <h3 className="font-semibold mb-3">Metriche</h3>
+            <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-6 gap-y-1 text-sm">
+              <span className="text-white/40">Metrica</span>
+              <span className="text-white/40 text-right">Precedente</span>
+              <span className="text-white/40 text-right">Nuova</span>
+              <span className="text-white/40 text-right">Differenza</span>
+              {outcome.comparison.metrics.map((change) => {
+                const tone = change.regression ? "text-red-400" : change.improvement ? "text-emerald-400" : "";
+                return [
+                  <span key={`${change.id}-label`} className={tone || "text-white/60"}>{change.label}</span>,
+                  <span key={`${change.id}-before`} className="font-mono text-right">{formatMetric(change.before, change)}</span>,
+                  <span key={`${change.id}-after`} className={`font-mono text-right ${tone}`}>{formatMetric(change.after, change)}</span>,
+                  <span key={`${change.id}-delta`} className={`font-mono text-right ${tone}`}>{formatDelta(change)}</span>,
+                ];
+              })}
+            </div>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+export default Compare;
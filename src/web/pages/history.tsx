@@ -0,0 +1,212 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "wouter";
+import { MODEL_FORMATS } from "../../shared/analysis/formats";
+import type { HistoryEntry, ModelFormat } from "../../shared/analysis/types";
+import { deleteHistoryEntry, listHistory, type HistoryFilters, type HistoryStatus } from "../lib/history";
+
+const PAGE_SIZE = 25;
+
+const STATUS_LABELS: Record<HistoryStatus, string> = {
+  errors: "Con errori",
+  warnings: "Solo avvisi",
+  ok: "Conformi",
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString("it-IT", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function HistoryRow({ entry, onDelete, disabled }: { entry: HistoryEntry; onDelete: () => void; disabled: boolean }) {
+  const { dimensions, volume, minWallThickness, triangleCount, isWatertight } = entry.metrics;
+  return (
+    <div className="bg-white/5 rounded-xl border border-white/10 p-4 flex flex-wrap items-center gap-4">
+      <div className="flex-1 min-w-[220px]">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold truncate">{entry.fileName}</span>
+          <span className="flex-shrink-0 px-2 py-0.5 rounded text-xs font-mono bg-white/10 text-white/70">{entry.format}</span>
+        </div>
+        <p className="text-sm text-white/50 mt-1">
+          {formatDate(entry.createdAt)} • profilo {entry.profileName}
+          {entry.units && ` • ${entry.units.unit}`}
+        </p>
+        <p className="text-xs text-white/40 font-mono mt-2">
+          {dimensions.length.toFixed(1)} × {dimensions.width.toFixed(1)} × {dimensions.height.toFixed(1)} mm
+          {" • "}{volume.toFixed(1)} mm³
+          {" • "}parete min {minWallThickness !== null ? `${minWallThickness.toFixed(2)} mm` : "n/d"}
+          {" • "}{triangleCount.toLocaleString()} tri
+          {!isWatertight && <span className="text-amber-400"> • mesh aperta</span>}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs font-medium">
+        <span className={`px-2 py-0.5 rounded-full ${entry.errorCount > 0 ? 'bg-red-500/20 text-red-400' : 'bg-white/5 text-white/40'}`}>
+          {entry.errorCount} errori
+        </span>
+        <span className={`px-2 py-0.5 rounded-full ${entry.warningCount > 0 ? 'bg-amber-500/20 text-amber-400' : 'bg-white/5 text-white/40'}`}>
+          {entry.warningCount} avvisi
+        </span>
+        <span className="px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-400">
+          {entry.passedCount} superati
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Link
+          href={`/?analisi=${entry.id}`}
+          className="px-3 py-1.5 text-sm rounded-lg bg-white text-black font-semibold hover:bg-white/90 transition-colors"
+        >
+          Apri
+        </Link>
+        <button
+          onClick={onDelete}
+          disabled={disabled}
+          className="px-3 py-1.5 text-sm rounded-lg bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-400 transition-colors disabled:opacity-50"
+        >
+          Elimina
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function History() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<HistoryFilters>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  // The search box waits for a pause in typing before asking the server
+  useEffect(() => {
+    const timer = setTimeout(() => setFilters(prev => (prev.q === search.trim() ? prev : { ...prev, q: search.trim() })), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const load = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setError("");
+    try {
+      const page = await listHistory({ ...filters, limit: PAGE_SIZE, offset });
+      setEntries(prev => (offset === 0 ? page.entries : [...prev, ...page.entries]));
+      setTotal(page.total);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Impossibile caricare lo storico");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    load(0);
+  }, [load]);
+
+  const setFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+
+  const remove = async (entry: HistoryEntry) => {
+    if (!confirm(`Eliminare l'analisi di "${entry.fileName}" del ${formatDate(entry.createdAt)}?`)) return;
+    setIsLoading(true);
+    try {
+      await deleteHistoryEntry(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+      setTotal(prev => prev - 1);
+      setError("");
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Eliminazione non riuscita");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filtered = Boolean(filters.q || filters.format || filters.status || filters.from || filters.to);
+  const inputClass = "px-3 py-1.5 text-sm rounded-md bg-white/5 border border-white/10 focus:outline-none focus:border-white/30";
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="max-w-6xl mx-auto px-6 pt-12 pb-8">
+        <Link href="/" className="text-sm text-white/50 hover:text-white transition-colors">
+          ← Torna al validatore
+        </Link>
+        <h1 className="text-4xl md:text-5xl font-bold tracking-tight mt-4 mb-3">Storico Analisi</h1>
+        <p className="text-white/60 max-w-2xl">
+          Le analisi avviate dal validatore vengono salvate insieme al file. Aprendone una si vedono i risultati salvati, e il modello può essere ricaricato e rianalizzato con le linee guida di allora.
+        </p>
+      </header>
+
+      <section className="max-w-6xl mx-auto px-6 pb-16 space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex-1 min-w-[220px]">
+            <span className="block text-sm text-white/50 mb-1">Cerca</span>
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Nome file o profilo"
+              className={`w-full ${inputClass}`}
+            />
+          </label>
+          <label>
+            <span className="block text-sm text-white/50 mb-1">Formato</span>
+            <select value={filters.format ?? ""} onChange={(e) => setFilter("format", e.target.value as ModelFormat)} className={inputClass}>
+              <option value="" className="bg-black">Tutti</option>
+              {MODEL_FORMATS.map((format) => (
+                <option key={format} value={format} className="bg-black">{format}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className="block text-sm text-white/50 mb-1">Esito</span>
+            <select value={filters.status ?? ""} onChange={(e) => setFilter("status", e.target.value as HistoryStatus)} className={inputClass}>
+              <option value="" className="bg-black">Tutti</option>
+              {(Object.keys(STATUS_LABELS) as HistoryStatus[]).map((status) => (
+                <option key={status} value={status} className="bg-black">{STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className="block text-sm text-white/50 mb-1">Dal</span>
+            <input type="date" value={filters.from ?? ""} onChange={(e) => setFilter("from", e.target.value)} className={`${inputClass} [color-scheme:dark]`} />
+          </label>
+          <label>
+            <span className="block text-sm text-white/50 mb-1">Al</span>
+            <input type="date" value={filters.to ?? ""} onChange={(e) => setFilter("to", e.target.value)} className={`${inputClass} [color-scheme:dark]`} />
+          </label>
+        </div>
+
+        {error && (
+          <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400">{error}</div>
+        )}
+
+        <p className="text-sm text-white/50">
+          {total === 1 ? "1 analisi" : `${total} analisi`}{filtered && " corrispondenti ai filtri"}
+        </p>
+
+        <div className="space-y-3">
+          {entries.map((entry) => (
+            <HistoryRow key={entry.id} entry={entry} onDelete={() => remove(entry)} disabled={isLoading} />
+          ))}
+          {!isLoading && !error && entries.length === 0 && (
+            <p className="text-center text-white/40 py-12">
+              {filtered ? "Nessuna analisi corrisponde ai filtri" : "Nessuna analisi salvata: carica un modello dal validatore"}
+            </p>
+          )}
+        </div>
+
+        {entries.length < total && (
+          <button
+            onClick={() => load(entries.length)}
+            disabled={isLoading}
+            className="w-full px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? "Caricamento..." : "Carica altre"}
+          </button>
+        )}
+      </section>
+    </div>
+  );
+}
+
+export default History;
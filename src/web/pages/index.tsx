@@ -1,1323 +1,763 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import * as THREE from "three";
-import { STLLoader } from "three/addons/loaders/STLLoader.js";
-import { OrbitControls } from "three/addons/controls/OrbitControls.js";
-import occtimportjs from "occt-import-js";
-
-interface ValidationResult {
-  name: string;
-  passed: boolean;
-  message: string;
-  details?: string;
-  severity?: "error" | "warning" | "info";
-}
-
-interface EdgeAnalysis {
-  totalEdges: number;
-  sharpEdges: number;
-  sharpEdgeAngles: number[];
-  estimatedMinCurvatureRadius: number;
-  tJunctionCount: number;
-}
-
-interface CavityAnalysis {
-  potentialCavities: number;
-  boundaryLoops: number;
-  estimatedHoleDepths: number[];
-  blindHoleCount: number;
-  throughHoleCount: number;
-}
-
-interface ChannelAnalysis {
-  potentialChannels: number;
-  estimatedDiameters: number[];
-  estimatedDepths: number[];
-  straightChannels: number;
-  curvedChannels: number;
-}
-
-interface SurfaceFeatureAnalysis {
-  heightVariations: number[];
-  potentialReliefs: number;
-  potentialEngravings: number;
-  minFeatureWidth: number;
-  maxFeatureHeight: number;
-}
-
-interface WallThicknessAnalysis {
-  minThickness: number;
-  maxThickness: number;
-  avgThickness: number;
-  medianThickness: number;
-  stdDeviation: number;
-  samples: number[];
-  thinAreas: number;
-  borderlineAreas: number;
-  percentBelow1mm: number;
-  percentBelow1_2mm: number;
-  qualityScore: number;
-  qualityGrade: string;
-  sampleCount: number;
-}
-
-interface GeometricComplexity {
-  triangleDensity: number;
-  surfaceCurvatureVariance: number;
-  componentCount: number;
-  genus: number;
-  hasFlatBase: boolean;
-  flatBaseArea: number;
-  flatBaseNormal: THREE.Vector3 | null;
-}
+import { Link, useLocation, useSearch } from "wouter";
+import { runAnalysis, runRepair } from "../lib/analysis/client";
+import { measureDimensions, parseDimensionTable } from "../../shared/analysis/dimensions";
+import { downloadBlob, exportBinarySTL } from "../lib/analysis/exporters";
+import { applyPose, poseQuaternion } from "../../shared/analysis/orientation";
+import { DEFAULT_REPAIR_OPTIONS } from "../../shared/analysis/repair";
+import { ANALYSIS_STAGES } from "../lib/analysis/stages";
+import { ACCEPTED_EXTENSIONS, UNITLESS_FORMATS, formatOf } from "../../shared/analysis/formats";
+import { LENGTH_UNITS } from "../../shared/analysis/units";
+import type {
+  AnalysisStage,
+  AssemblyAnalysis,
+  AssemblyNode,
+  DimensionMeasurement,
+  DimensionPick,
+  GuidelineProfile,
+  Guidelines,
+  HistoryEntryDetail,
+  LengthUnit,
+  MeshRepairReport,
+  ModelData,
+  NominalDimension,
+  OrientationPose,
+  ValidationResult,
+} from "../../shared/analysis/types";
+import { validateModel } from "../../shared/analysis/validation";
+import { DEFAULT_PROFILE, getActiveProfileId, listProfiles, setActiveProfileId } from "../lib/profiles";
+import { fetchHistoryFile, getHistoryEntry, saveAnalysis } from "../lib/history";
+import { STLViewer, renderSnapshots } from "../components/stl-viewer";
+import { buildReport, printReport } from "../lib/report";
+import { modelStatistics, type StatisticItem } from "../lib/statistics";
 
-interface ModelData {
-  geometry: THREE.BufferGeometry;
-  dimensions: { length: number; width: number; height: number };
-  volume: number;
-  surfaceArea: number;
-  triangleCount: number;
-  vertexCount: number;
-  edgeCount: number;
-  boundingBox: THREE.Box3;
-  normalDistribution: { x: number; y: number; z: number };
-  edgeAnalysis: EdgeAnalysis;
-  cavityAnalysis: CavityAnalysis;
-  channelAnalysis: ChannelAnalysis;
-  surfaceFeatures: SurfaceFeatureAnalysis;
-  wallThickness: WallThicknessAnalysis;
-  geometricComplexity: GeometricComplexity;
-  fileFormat?: "STL" | "STEP";
+interface DataPanelProps {
+  data: ModelData;
+  guidelines: Guidelines;
 }
 
-const GUIDELINES = {
-  maxDimensions: { length: 50, width: 80, height: 40 },
-  wallThickness: { min: 1, max: 15 },
-  minGap: 1,
-  aspectRatioMax: 10,
-  aspectRatioRecommended: 5,
-  minCurvatureRadius: 0.5,
-  minTJunctionRadius: 2,
-  minCavityWidth: 0.4,
-  cavityDepthRatio: { min: 2, max: 4 },
-  channelSpecs: [
-    { diameterRange: [1, 3], maxDepth: 10 },
-    { diameterRange: [3, 5], maxDepth: 30 },
-    { diameterRange: [5, Infinity], minCurvatureRadius: 25 },
-  ],
-  minCharacterHeight: 4,
-  minLineWidth: 0.5,
-  minThreadSize: 10,
-  hollowWallThickness: 1.2,
-  drainHoleDiameter: { min: 2, recommended: 4 },
-};
+function DataPanel({ data, guidelines }: DataPanelProps) {
+  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
+    mesh: true,
+    dimensions: true,
+  });
+  const sections = useMemo(() => modelStatistics(data, guidelines), [data, guidelines]);
 
-function buildEdgeMap(positions: THREE.BufferAttribute): Map<string, { faces: number[]; vertices: [THREE.Vector3, THREE.Vector3] }> {
-  const edgeMap = new Map<string, { faces: number[]; vertices: [THREE.Vector3, THREE.Vector3] }>();
-  
-  const makeEdgeKey = (v1: THREE.Vector3, v2: THREE.Vector3) => {
-    const key1 = `${v1.x.toFixed(4)},${v1.y.toFixed(4)},${v1.z.toFixed(4)}`;
-    const key2 = `${v2.x.toFixed(4)},${v2.y.toFixed(4)},${v2.z.toFixed(4)}`;
-    return key1 < key2 ? `${key1}-${key2}` : `${key2}-${key1}`;
+  const toggleSection = (section: string) => {
+    setExpandedSections(prev => ({ ...prev, [section]: !prev[section] }));
   };
 
-  const triangleCount = positions.count / 3;
-  for (let i = 0; i < triangleCount; i++) {
-    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
-    const v1 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1);
-    const v2 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2);
-
-    const edges = [
-      [v0, v1],
-      [v1, v2],
-      [v2, v0],
-    ] as [THREE.Vector3, THREE.Vector3][];
-
-    for (const [va, vb] of edges) {
-      const key = makeEdgeKey(va, vb);
-      if (!edgeMap.has(key)) {
-        edgeMap.set(key, { faces: [], vertices: [va, vb] });
-      }
-      edgeMap.get(key)!.faces.push(i);
-    }
-  }
-
-  return edgeMap;
-}
+  const SectionHeader = ({ id, title, icon }: { id: string; title: string; icon: string }) => (
+    <button
+      onClick={() => toggleSection(id)}
+      className="w-full flex items-center justify-between p-3 hover:bg-white/5 transition-colors"
+    >
+      <span className="flex items-center gap-2 font-medium">
+        <span className="text-lg">{icon}</span>
+        {title}
+      </span>
+      <svg
+        className={`w-4 h-4 transition-transform ${expandedSections[id] ? 'rotate-180' : ''}`}
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+      </svg>
+    </button>
+  );
 
-function calculateFaceNormals(positions: THREE.BufferAttribute): THREE.Vector3[] {
-  const normals: THREE.Vector3[] = [];
-  const triangleCount = positions.count / 3;
-  
-  for (let i = 0; i < triangleCount; i++) {
-    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
-    const v1 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1);
-    const v2 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2);
-    
-    const edge1 = new THREE.Vector3().subVectors(v1, v0);
-    const edge2 = new THREE.Vector3().subVectors(v2, v0);
-    const normal = new THREE.Vector3().crossVectors(edge1, edge2).normalize();
-    normals.push(normal);
-  }
-  
-  return normals;
-}
+  const DataRow = ({ label, value, unit = "", highlight = false }: { label: string; value: string | number; unit?: string; highlight?: boolean }) => (
+    <div className={`flex justify-between items-center py-1.5 px-3 ${highlight ? 'bg-white/5' : ''}`}>
+      <span className="text-white/60 text-sm">{label}</span>
+      <span className="font-mono text-sm">{typeof value === 'number' ? value.toLocaleString() : value}{unit && <span className="text-white/40 ml-1">{unit}</span>}</span>
+    </div>
+  );
 
-function analyzeEdges(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[]): EdgeAnalysis {
-  const edgeMap = buildEdgeMap(positions);
-  
-  let sharpEdges = 0;
-  const sharpEdgeAngles: number[] = [];
-  let tJunctionCount = 0;
-  let minCurvatureRadius = Infinity;
-
-  edgeMap.forEach((edge) => {
-    if (edge.faces.length >= 3) {
-      tJunctionCount++;
-    }
-    
-    if (edge.faces.length === 2) {
-      const n1 = faceNormals[edge.faces[0]];
-      const n2 = faceNormals[edge.faces[1]];
-      
-      const dotProduct = n1.dot(n2);
-      const angle = Math.acos(Math.min(1, Math.max(-1, dotProduct))) * (180 / Math.PI);
-      const dihedralAngle = 180 - angle;
-      
-      if (dihedralAngle < 90) {
-        sharpEdges++;
-        sharpEdgeAngles.push(dihedralAngle);
-        
-        // Estimate curvature radius from edge length and angle
-        const edgeLength = edge.vertices[0].distanceTo(edge.vertices[1]);
-        const estimatedRadius = edgeLength / (2 * Math.sin((90 - dihedralAngle) * Math.PI / 360));
-        minCurvatureRadius = Math.min(minCurvatureRadius, estimatedRadius);
-      }
+  const renderItem = (item: StatisticItem, key: number) => {
+    switch (item.kind) {
+      case "row":
+        return <DataRow key={key} label={item.label} value={item.value} unit={item.unit} highlight={item.highlight} />;
+      case "note":
+        return (
+          <div key={key} className="px-3 py-2">
+            <span className="text-white/60 text-sm">{item.label}: </span>
+            <span className={`font-mono text-xs ${item.highlight ? 'text-red-400' : ''}`}>{item.text}</span>
+          </div>
+        );
+      case "heading":
+        return (
+          <div key={key} className="px-3 py-2 border-t border-white/5 mt-2">
+            <p className="text-white/40 text-xs uppercase tracking-wider mb-2">{item.label}</p>
+          </div>
+        );
+      case "score":
+        return (
+          <div key={key} className="px-3 py-3 bg-white/5 border-b border-white/5">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-white/60 text-sm">{item.label}</span>
+              <span className={`font-bold text-lg ${
+                item.score >= 75 ? 'text-emerald-400' :
+                item.score >= 50 ? 'text-amber-400' :
+                'text-red-400'
+              }`}>
+                {item.grade} ({item.score}/100)
+              </span>
+            </div>
+            <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+              <div 
+                className={`h-full transition-all ${
+                  item.score >= 75 ? 'bg-emerald-500' :
+                  item.score >= 50 ? 'bg-amber-500' :
+                  'bg-red-500'
+                }`}
+                style={{ width: `${item.score}%` }}
+              />
+            </div>
+          </div>
+        );
     }
-  });
-
-  return {
-    totalEdges: edgeMap.size,
-    sharpEdges,
-    sharpEdgeAngles,
-    estimatedMinCurvatureRadius: minCurvatureRadius === Infinity ? 0 : minCurvatureRadius,
-    tJunctionCount,
   };
-}
 
-function analyzeCavities(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[], boundingBox: THREE.Box3): CavityAnalysis {
-  const edgeMap = buildEdgeMap(positions);
-  
-  // Find boundary edges (edges with only one face - indicates holes/openings)
-  let boundaryEdges = 0;
-  const boundaryLoops: THREE.Vector3[][] = [];
-  
-  edgeMap.forEach((edge) => {
-    if (edge.faces.length === 1) {
-      boundaryEdges++;
-    }
-  });
+  return (
+    <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden">
+      <div className="p-4 border-b border-white/10 bg-white/5">
+        <h3 className="font-semibold flex items-center gap-2">
+          <span className="text-lg">📊</span>
+          Dati Estratti dal Modello
+        </h3>
+        <p className="text-sm text-white/50 mt-1">Tutti i parametri analizzati dal modello</p>
+      </div>
 
-  // Estimate potential cavities from concave regions
-  let concaveRegions = 0;
-  const triangleCount = positions.count / 3;
-  
-  for (let i = 0; i < triangleCount; i++) {
-    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
-    const centroid = new THREE.Vector3().addVectors(v0, 
-      new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1))
-      .add(new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2))
-      .divideScalar(3);
-    
-    // Check if normal points inward (potential cavity indicator)
-    const boxCenter = new THREE.Vector3();
-    boundingBox.getCenter(boxCenter);
-    const toCenter = new THREE.Vector3().subVectors(boxCenter, centroid).normalize();
-    
-    if (faceNormals[i].dot(toCenter) > 0.7) {
-      concaveRegions++;
-    }
-  }
-
-  // Estimate hole depths based on bounding box and face distribution
-  const size = new THREE.Vector3();
-  boundingBox.getSize(size);
-  const estimatedHoleDepths = concaveRegions > 0 
-    ? [Math.min(size.x, size.y, size.z) * 0.3] 
-    : [];
-
-  return {
-    potentialCavities: Math.floor(concaveRegions / 10),
-    boundaryLoops: Math.floor(boundaryEdges / 3),
-    estimatedHoleDepths,
-    blindHoleCount: Math.floor(boundaryEdges / 6),
-    throughHoleCount: Math.floor(boundaryEdges / 12),
-  };
+      <div className="divide-y divide-white/5">
+        {sections.map((section) => (
+          <div key={section.id}>
+            <SectionHeader id={section.id} title={section.title} icon={section.icon} />
+            {expandedSections[section.id] && (
+              <div className="pb-2 border-t border-white/5">
+                {section.items.map(renderItem)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
 }
 
-function analyzeChannels(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[], boundingBox: THREE.Box3): ChannelAnalysis {
-  const size = new THREE.Vector3();
-  boundingBox.getSize(size);
-  
-  // Detect tubular regions by analyzing cylindrical surface patterns
-  let tubularRegions = 0;
-  let straightTubes = 0;
-  let curvedTubes = 0;
-  
-  const triangleCount = positions.count / 3;
-  const normalVariance: number[] = [];
-  
-  // Sample normal directions to find cylindrical patterns
-  for (let i = 0; i < triangleCount; i += 10) {
-    const normal = faceNormals[i];
-    const horizontalComponent = Math.sqrt(normal.x * normal.x + normal.y * normal.y);
-    
-    // Cylindrical surfaces have normals perpendicular to the axis
-    if (horizontalComponent > 0.8 && Math.abs(normal.z) < 0.3) {
-      tubularRegions++;
-    }
-  }
-
-  // Estimate channel properties
-  const estimatedDiameters = tubularRegions > 5 ? [size.x * 0.1, size.y * 0.1] : [];
-  const estimatedDepths = tubularRegions > 5 ? [size.z * 0.5] : [];
+interface AssemblyPanelProps {
+  assembly: AssemblyAnalysis;
+  // Validation of each body, in the order of assembly.bodies
+  results: ValidationResult[][];
+  selected: number | null;
+  onSelect: (body: number | null) => void;
+}
 
-  if (tubularRegions > 10) {
-    if (normalVariance.length > 0) {
-      curvedTubes = 1;
-    } else {
-      straightTubes = 1;
-    }
-  }
-
-  return {
-    potentialChannels: Math.floor(tubularRegions / 20),
-    estimatedDiameters,
-    estimatedDepths,
-    straightChannels: straightTubes,
-    curvedChannels: curvedTubes,
+function AssemblyPanel({ assembly, results, selected, onSelect }: AssemblyPanelProps) {
+  const counts = results.map(bodyResults => ({
+    errors: bodyResults.filter(r => r.severity === "error").length,
+    warnings: bodyResults.filter(r => r.severity === "warning").length,
+  }));
+  const totalVolume = assembly.bodies.reduce((sum, body) => sum + body.data.volume, 0);
+
+  const renderBody = (index: number, depth: number) => {
+    const body = assembly.bodies[index];
+    const { errors, warnings } = counts[index];
+    return (
+      <button
+        key={`body-${index}`}
+        onClick={() => onSelect(index)}
+        className={`w-full flex justify-between items-center gap-3 py-2 px-3 text-left transition-colors ${selected === index ? 'bg-white/10' : 'hover:bg-white/5'}`}
+        style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+      >
+        <span className="flex items-center gap-2 min-w-0 text-sm">
+          <span
+            className="flex-shrink-0 w-3 h-3 rounded-sm border border-white/20"
+            style={{ backgroundColor: body.color ? `rgb(${body.color.map(c => Math.round(c * 255)).join(",")})` : "transparent" }}
+          />
+          <span className="truncate">{body.name}</span>
+          <span className="flex-shrink-0 text-xs text-white/40 font-mono">{body.data.volume.toFixed(1)} mm³</span>
+        </span>
+        <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${
+          errors > 0 ? 'bg-red-500/20 text-red-400' : warnings > 0 ? 'bg-amber-500/20 text-amber-400' : 'bg-emerald-500/20 text-emerald-400'
+        }`}>
+          {errors > 0 ? `${errors} Errori` : warnings > 0 ? `${warnings} Avvisi` : 'OK'}
+        </span>
+      </button>
+    );
   };
-}
 
-function analyzeSurfaceFeatures(positions: THREE.BufferAttribute, boundingBox: THREE.Box3): SurfaceFeatureAnalysis {
-  const size = new THREE.Vector3();
-  boundingBox.getSize(size);
-  
-  const heightVariations: number[] = [];
-  const triangleCount = positions.count / 3;
-  
-  // Sample heights to detect reliefs/engravings
-  let prevHeight = 0;
-  let reliefCount = 0;
-  let engravingCount = 0;
-  let minWidth = Infinity;
-  let maxHeight = 0;
-  
-  for (let i = 0; i < Math.min(triangleCount, 1000); i += 3) {
-    const v = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
-    const height = v.z;
-    
-    const variation = Math.abs(height - prevHeight);
-    if (variation > 0.1) {
-      heightVariations.push(variation);
-      
-      if (variation > GUIDELINES.minCharacterHeight * 0.5) {
-        if (height > prevHeight) {
-          reliefCount++;
-        } else {
-          engravingCount++;
-        }
-        maxHeight = Math.max(maxHeight, variation);
-      }
-    }
-    prevHeight = height;
-  }
-
-  // Estimate feature widths from triangle sizes
-  for (let i = 0; i < Math.min(triangleCount, 500); i++) {
-    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
-    const v1 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1);
-    const edgeLength = v0.distanceTo(v1);
-    if (edgeLength > 0.01) {
-      minWidth = Math.min(minWidth, edgeLength);
+  // Unnamed grouping nodes (occt wraps the whole file in one) add no level of their own
+  const renderNode = (node: AssemblyNode, depth: number, key: string): React.ReactNode[] => {
+    if (!node.name) {
+      return [
+        ...node.bodies.map(index => renderBody(index, depth)),
+        ...node.children.flatMap((child, i) => renderNode(child, depth, `${key}-${i}`)),
+      ];
     }
-  }
-
-  return {
-    heightVariations,
-    potentialReliefs: Math.floor(reliefCount / 5),
-    potentialEngravings: Math.floor(engravingCount / 5),
-    minFeatureWidth: minWidth === Infinity ? 0 : minWidth,
-    maxFeatureHeight: maxHeight,
+    return [
+      <p key={key} className="py-1.5 px-3 text-xs uppercase tracking-wide text-white/40" style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}>
+        {node.name}
+      </p>,
+      ...node.bodies.map(index => renderBody(index, depth + 1)),
+      ...node.children.flatMap((child, i) => renderNode(child, depth + 1, `${key}-${i}`)),
+    ];
   };
-}
 
-// Ray-triangle intersection using Möller–Trumbore algorithm
-function rayTriangleIntersect(
-  rayOrigin: THREE.Vector3,
-  rayDir: THREE.Vector3,
-  v0: THREE.Vector3,
-  v1: THREE.Vector3,
-  v2: THREE.Vector3
-): number | null {
-  const EPSILON = 0.0000001;
-  const edge1 = new THREE.Vector3().subVectors(v1, v0);
-  const edge2 = new THREE.Vector3().subVectors(v2, v0);
-  const h = new THREE.Vector3().crossVectors(rayDir, edge2);
-  const a = edge1.dot(h);
-  
-  if (a > -EPSILON && a < EPSILON) return null;
-  
-  const f = 1.0 / a;
-  const s = new THREE.Vector3().subVectors(rayOrigin, v0);
-  const u = f * s.dot(h);
-  
-  if (u < 0.0 || u > 1.0) return null;
-  
-  const q = new THREE.Vector3().crossVectors(s, edge1);
-  const v = f * rayDir.dot(q);
-  
-  if (v < 0.0 || u + v > 1.0) return null;
-  
-  const t = f * edge2.dot(q);
-  
-  if (t > EPSILON) return t;
-  
-  return null;
-}
+  return (
+    <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden">
+      <div className="p-4 border-b border-white/10 bg-white/5">
+        <h3 className="font-semibold flex items-center gap-2">
+          <span className="text-lg">🧩</span>
+          Struttura dell'Assieme
+        </h3>
+        <p className="text-sm text-white/50 mt-1">
+          {assembly.bodies.length} corpi • {counts.filter(c => c.errors > 0).length} con errori • {counts.filter(c => c.errors === 0 && c.warnings > 0).length} con soli avvisi • volume totale {totalVolume.toFixed(1)} mm³
+        </p>
+      </div>
 
-function analyzeWallThickness(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[], boundingBox: THREE.Box3): WallThicknessAnalysis {
-  const samples: number[] = [];
-  const triangleCount = positions.count / 3;
-  
-  // Use stratified sampling: target 500-1000 samples for good coverage
-  const targetSamples = Math.min(1000, Math.max(500, triangleCount));
-  const sampleStep = Math.max(1, Math.floor(triangleCount / targetSamples));
-  
-  // Pre-build triangle data for efficient ray casting
-  const triangles: { v0: THREE.Vector3; v1: THREE.Vector3; v2: THREE.Vector3; centroid: THREE.Vector3; normal: THREE.Vector3 }[] = [];
-  
-  for (let i = 0; i < triangleCount; i++) {
-    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
-    const v1 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1);
-    const v2 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2);
-    const centroid = new THREE.Vector3().addVectors(v0, v1).add(v2).divideScalar(3);
-    triangles.push({ v0, v1, v2, centroid, normal: faceNormals[i] });
-  }
-  
-  // Multi-angle ray directions (normal + offset angles)
-  const angleOffsets = [
-    new THREE.Vector3(0, 0, 0), // Normal direction
-    new THREE.Vector3(0.1, 0, 0),
-    new THREE.Vector3(-0.1, 0, 0),
-    new THREE.Vector3(0, 0.1, 0),
-    new THREE.Vector3(0, -0.1, 0),
-  ];
-  
-  // Stratified sampling across triangles
-  for (let i = 0; i < triangleCount; i += sampleStep) {
-    const tri = triangles[i];
-    const normal = tri.normal;
-    
-    // Cast rays in multiple directions for each sample point
-    for (const offset of angleOffsets) {
-      // Bidirectional rays: inward and outward
-      for (const direction of [1, -1]) {
-        const rayDir = normal.clone().add(offset).normalize().multiplyScalar(direction);
-        const rayOrigin = tri.centroid.clone().add(rayDir.clone().multiplyScalar(0.01));
-        
-        let minHitDist = Infinity;
-        
-        // Cast ray against all triangles
-        for (let j = 0; j < triangleCount; j++) {
-          if (j === i) continue;
-          
-          const checkTri = triangles[j];
-          // Only consider triangles roughly facing the ray
-          const dotProd = normal.dot(checkTri.normal);
-          if (direction === 1 && dotProd > -0.3) continue;
-          if (direction === -1 && dotProd < 0.3) continue;
-          
-          const hitDist = rayTriangleIntersect(
-            rayOrigin, rayDir,
-            checkTri.v0, checkTri.v1, checkTri.v2
-          );
-          
-          if (hitDist !== null && hitDist > 0.01 && hitDist < minHitDist) {
-            minHitDist = hitDist;
-          }
-        }
-        
-        if (minHitDist < Infinity && minHitDist > 0.01) {
-          samples.push(minHitDist);
-        }
-      }
-    }
-  }
-
-  // Fallback if no samples found
-  if (samples.length === 0) {
-    const size = new THREE.Vector3();
-    boundingBox.getSize(size);
-    samples.push(Math.min(size.x, size.y, size.z) * 0.1);
-  }
-
-  // Sort samples for statistics
-  samples.sort((a, b) => a - b);
-  
-  // Calculate comprehensive statistics
-  const minThickness = samples[0] || 0;
-  const maxThickness = samples[samples.length - 1] || 0;
-  const avgThickness = samples.reduce((a, b) => a + b, 0) / samples.length;
-  
-  // Median
-  const midIndex = Math.floor(samples.length / 2);
-  const medianThickness = samples.length % 2 === 0
-    ? (samples[midIndex - 1] + samples[midIndex]) / 2
-    : samples[midIndex];
-  
-  // Standard deviation
-  const variance = samples.reduce((sum, val) => sum + Math.pow(val - avgThickness, 2), 0) / samples.length;
-  const stdDeviation = Math.sqrt(variance);
-  
-  // Count thin areas
-  const thinAreas = samples.filter(s => s < GUIDELINES.wallThickness.min).length;
-  const borderlineAreas = samples.filter(s => s >= GUIDELINES.wallThickness.min && s < GUIDELINES.hollowWallThickness).length;
-  
-  // Percentages
-  const percentBelow1mm = (thinAreas / samples.length) * 100;
-  const percentBelow1_2mm = ((thinAreas + borderlineAreas) / samples.length) * 100;
-  
-  // Calculate quality score (0-100)
-  // Based on: % above threshold, consistency (low std dev), and minimum thickness
-  const thicknessScore = Math.min(100, (minThickness / GUIDELINES.wallThickness.min) * 50);
-  const consistencyScore = Math.max(0, 30 - (stdDeviation / avgThickness) * 30);
-  const coverageScore = Math.max(0, 20 - percentBelow1mm);
-  const qualityScore = Math.round(thicknessScore + consistencyScore + coverageScore);
-  
-  // Quality grade
-  let qualityGrade: string;
-  if (qualityScore >= 90) qualityGrade = "Eccellente";
-  else if (qualityScore >= 75) qualityGrade = "Buono";
-  else if (qualityScore >= 50) qualityGrade = "Accettabile";
-  else if (qualityScore >= 25) qualityGrade = "Critico";
-  else qualityGrade = "Insufficiente";
-
-  return {
-    minThickness,
-    maxThickness,
-    avgThickness,
-    medianThickness,
-    stdDeviation,
-    samples,
-    thinAreas,
-    borderlineAreas,
-    percentBelow1mm,
-    percentBelow1_2mm,
-    qualityScore,
-    qualityGrade,
-    sampleCount: samples.length,
-  };
+      <div className="divide-y divide-white/5 max-h-[400px] overflow-y-auto">
+        <button
+          onClick={() => onSelect(null)}
+          className={`w-full flex justify-between items-center py-2 px-3 text-left transition-colors ${selected === null ? 'bg-white/10' : 'hover:bg-white/5'}`}
+        >
+          <span className="text-sm">Assieme completo</span>
+          {selected === null && <span className="text-xs text-white/50">Attivo</span>}
+        </button>
+        {renderNode(assembly.root, 0, "node")}
+      </div>
+    </div>
+  );
 }
 
-function analyzeGeometricComplexity(positions: THREE.BufferAttribute, faceNormals: THREE.Vector3[], boundingBox: THREE.Box3, surfaceArea: number): GeometricComplexity {
-  const triangleCount = positions.count / 3;
-  const size = new THREE.Vector3();
-  boundingBox.getSize(size);
-  
-  // Triangle density
-  const triangleDensity = triangleCount / surfaceArea;
-  
-  // Surface curvature variance
-  let curvatureSum = 0;
-  let curvatureSqSum = 0;
-  
-  for (let i = 1; i < faceNormals.length; i++) {
-    const angleDiff = 1 - faceNormals[i].dot(faceNormals[i - 1]);
-    curvatureSum += angleDiff;
-    curvatureSqSum += angleDiff * angleDiff;
-  }
-  
-  const avgCurvature = curvatureSum / faceNormals.length;
-  const curvatureVariance = (curvatureSqSum / faceNormals.length) - (avgCurvature * avgCurvature);
-  
-  // Detect flat base
-  let flatBaseArea = 0;
-  let flatBaseNormal: THREE.Vector3 | null = null;
-  let hasFlatBase = false;
-  
-  // Group faces by normal direction (binned)
-  const normalBins = new Map<string, { area: number; normal: THREE.Vector3 }>();
-  
-  for (let i = 0; i < triangleCount; i++) {
-    const normal = faceNormals[i];
-    const binKey = `${Math.round(normal.x * 10)},${Math.round(normal.y * 10)},${Math.round(normal.z * 10)}`;
-    
-    const v0 = new THREE.Vector3().fromBufferAttribute(positions, i * 3);
-    const v1 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 1);
-    const v2 = new THREE.Vector3().fromBufferAttribute(positions, i * 3 + 2);
-    
-    const edge1 = new THREE.Vector3().subVectors(v1, v0);
-    const edge2 = new THREE.Vector3().subVectors(v2, v0);
-    const triArea = new THREE.Vector3().crossVectors(edge1, edge2).length() * 0.5;
-    
-    if (!normalBins.has(binKey)) {
-      normalBins.set(binKey, { area: 0, normal: normal.clone() });
-    }
-    normalBins.get(binKey)!.area += triArea;
-  }
-  
-  // Find largest planar region facing down (negative Y or Z)
-  normalBins.forEach((bin) => {
-    if (bin.area > flatBaseArea && (bin.normal.y < -0.9 || bin.normal.z < -0.9)) {
-      flatBaseArea = bin.area;
-      flatBaseNormal = bin.normal.clone();
-      hasFlatBase = true;
-    }
-  });
-  
-  // Estimate genus (simplified - based on boundary edges)
-  const edgeMap = buildEdgeMap(positions);
-  let boundaryEdges = 0;
-  edgeMap.forEach((edge) => {
-    if (edge.faces.length === 1) boundaryEdges++;
-  });
-  const estimatedGenus = Math.max(0, Math.floor(boundaryEdges / 6) - 1);
-
-  return {
-    triangleDensity,
-    surfaceCurvatureVariance: curvatureVariance,
-    componentCount: 1, // Simplified - would need connected component analysis
-    genus: estimatedGenus,
-    hasFlatBase,
-    flatBaseArea,
-    flatBaseNormal,
-  };
+interface OrientationPanelProps {
+  poses: OrientationPose[];
+  guidelines: Guidelines;
+  selected: number | null;
+  onSelect: (index: number | null) => void;
 }
 
-function analyzeSTLGeometry(geometry: THREE.BufferGeometry): ModelData {
-  geometry.computeBoundingBox();
-  const boundingBox = geometry.boundingBox!;
-  
-  const size = new THREE.Vector3();
-  boundingBox.getSize(size);
-
-  const positions = geometry.getAttribute("position") as THREE.BufferAttribute;
-  const triangleCount = positions.count / 3;
-  const vertexCount = positions.count;
-
-  // Calculate volume and surface area
-  let volume = 0;
-  let surfaceArea = 0;
-  let normalSum = new THREE.Vector3();
-
-  const pA = new THREE.Vector3();
-  const pB = new THREE.Vector3();
-  const pC = new THREE.Vector3();
-  const cb = new THREE.Vector3();
-  const ab = new THREE.Vector3();
-
-  for (let i = 0; i < positions.count; i += 3) {
-    pA.fromBufferAttribute(positions, i);
-    pB.fromBufferAttribute(positions, i + 1);
-    pC.fromBufferAttribute(positions, i + 2);
-
-    cb.subVectors(pC, pB);
-    ab.subVectors(pA, pB);
-    const cross = new THREE.Vector3().crossVectors(cb, ab);
-    surfaceArea += cross.length() * 0.5;
-    normalSum.add(cross.normalize());
-
-    volume += pA.dot(pB.cross(pC)) / 6;
-  }
-
-  volume = Math.abs(volume);
-  
-  // Normalize normal distribution
-  const normalDistribution = {
-    x: Math.abs(normalSum.x) / triangleCount,
-    y: Math.abs(normalSum.y) / triangleCount,
-    z: Math.abs(normalSum.z) / triangleCount,
-  };
+function OrientationPanel({ poses, guidelines, selected, onSelect }: OrientationPanelProps) {
+  return (
+    <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden">
+      <div className="p-4 border-b border-white/10 bg-white/5">
+        <h3 className="font-semibold flex items-center gap-2">
+          <span className="text-lg">🧭</span>
+          Orientamento di Stampa
+        </h3>
+        <p className="text-sm text-white/50 mt-1">
+          Pose stabili sull'inviluppo convesso, ordinate per ingombro {guidelines.maxDimensions.length} × {guidelines.maxDimensions.width} × {guidelines.maxDimensions.height} mm, base piana e altezza
+        </p>
+      </div>
 
-  // Calculate face normals for analysis
-  const faceNormals = calculateFaceNormals(positions);
-  
-  // Build edge map and count edges
-  const edgeMap = buildEdgeMap(positions);
-  const edgeCount = edgeMap.size;
-
-  // Perform detailed analyses
-  const edgeAnalysis = analyzeEdges(positions, faceNormals);
-  const cavityAnalysis = analyzeCavities(positions, faceNormals, boundingBox);
-  const channelAnalysis = analyzeChannels(positions, faceNormals, boundingBox);
-  const surfaceFeatures = analyzeSurfaceFeatures(positions, boundingBox);
-  const wallThickness = analyzeWallThickness(positions, faceNormals, boundingBox);
-  const geometricComplexity = analyzeGeometricComplexity(positions, faceNormals, boundingBox, surfaceArea);
-
-  return {
-    geometry,
-    dimensions: {
-      length: size.x,
-      width: size.y,
-      height: size.z,
-    },
-    volume,
-    surfaceArea,
-    triangleCount,
-    vertexCount,
-    edgeCount,
-    boundingBox,
-    normalDistribution,
-    edgeAnalysis,
-    cavityAnalysis,
-    channelAnalysis,
-    surfaceFeatures,
-    wallThickness,
-    geometricComplexity,
-    fileFormat: "STL",
-  };
+      <div className="divide-y divide-white/5">
+        <button
+          onClick={() => onSelect(null)}
+          className={`w-full flex justify-between items-center py-2 px-3 text-left transition-colors ${selected === null ? 'bg-white/10' : 'hover:bg-white/5'}`}
+        >
+          <span className="text-sm">Orientamento originale del file</span>
+          {selected === null && <span className="text-xs text-white/50">Attivo</span>}
+        </button>
+        {poses.length === 0 && (
+          <p className="py-2 px-3 text-sm text-white/50">Nessuna posa stabile trovata</p>
+        )}
+        {poses.map((pose, index) => (
+          <button
+            key={index}
+            onClick={() => onSelect(index)}
+            className={`w-full flex justify-between items-center gap-3 py-2 px-3 text-left transition-colors ${selected === index ? 'bg-white/10' : 'hover:bg-white/5'}`}
+          >
+            <span className="text-sm">
+              <span className="text-white/50">#{index + 1}</span>{' '}
+              <span className="font-mono">
+                {pose.dimensions.length.toFixed(1)} × {pose.dimensions.width.toFixed(1)} × {pose.dimensions.height.toFixed(1)} mm
+              </span>
+              <span className="block text-xs text-white/50 font-mono">
+                base {pose.baseArea.toFixed(1)} mm² • margine stabilità {pose.stabilityMargin.toFixed(1)} mm • punteggio {pose.score.toFixed(0)}
+              </span>
+            </span>
+            <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${pose.fitsEnvelope ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
+              {pose.fitsEnvelope ? 'Rientra' : 'Fuori ingombro'}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
 }
 
-async function parseSTEPFile(fileBuffer: ArrayBuffer): Promise<THREE.BufferGeometry> {
-  // Configure WASM location for occt-import-js
-  const occt = await occtimportjs({
-    locateFile: (file: string) => {
-      if (file.endsWith('.wasm')) {
-        return './occt-import-js.wasm';
-      }
-      return file;
-    }
-  });
-  const fileContent = new Uint8Array(fileBuffer);
-  
-  const result = occt.ReadStepFile(fileContent, {
-    linearUnit: "millimeter",
-    linearDeflectionType: "bounding_box_ratio",
-    linearDeflection: 0.001,
-    angularDeflection: 0.5
-  });
-  
-  if (!result.success || result.meshes.length === 0) {
-    throw new Error("Impossibile analizzare il file STEP");
-  }
-  
-  // Combine all meshes into a single geometry
-  const geometry = new THREE.BufferGeometry();
-  const positions: number[] = [];
-  const normals: number[] = [];
-  
-  for (const mesh of result.meshes) {
-    const meshPositions = mesh.attributes.position.array;
-    const meshNormals = mesh.attributes.normal?.array;
-    const indices = mesh.index.array;
-    
-    // Convert indexed geometry to non-indexed for consistency with STL
-    for (let i = 0; i < indices.length; i++) {
-      const idx = indices[i];
-      positions.push(
-        meshPositions[idx * 3],
-        meshPositions[idx * 3 + 1],
-        meshPositions[idx * 3 + 2]
-      );
-      if (meshNormals) {
-        normals.push(
-          meshNormals[idx * 3],
-          meshNormals[idx * 3 + 1],
-          meshNormals[idx * 3 + 2]
-        );
-      }
-    }
-  }
-  
-  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
-  if (normals.length > 0) {
-    geometry.setAttribute("normal", new THREE.Float32BufferAttribute(normals, 3));
-  } else {
-    geometry.computeVertexNormals();
-  }
-  
-  return geometry;
+// The end of a dimension the next click in the viewer will set
+interface PickTarget {
+  id: number;
+  end: "a" | "b";
 }
 
-function analyzeSTEPGeometry(geometry: THREE.BufferGeometry): ModelData {
-  const stlData = analyzeSTLGeometry(geometry);
-  return {
-    ...stlData,
-    fileFormat: "STEP",
-  };
+interface DimensionPanelProps {
+  geometry: THREE.BufferGeometry;
+  dimensions: NominalDimension[];
+  measurements: DimensionMeasurement[];
+  guidelines: Guidelines;
+  pickTarget: PickTarget | null;
+  onChange: (dimensions: NominalDimension[]) => void;
+  onPickTarget: (target: PickTarget | null) => void;
 }
 
-function validateModel(data: ModelData): ValidationResult[] {
-  const results: ValidationResult[] = [];
-  const { length, width, height } = data.dimensions;
-
-  // 1. Dimensioni massime
-  const withinDimensions =
-    length <= GUIDELINES.maxDimensions.length &&
-    width <= GUIDELINES.maxDimensions.width &&
-    height <= GUIDELINES.maxDimensions.height;
-  
-  results.push({
-    name: "Dimensioni Massime",
-    passed: withinDimensions,
-    severity: withinDimensions ? "info" : "error",
-    message: withinDimensions
-      ? `Dimensioni OK: ${length.toFixed(2)} × ${width.toFixed(2)} × ${height.toFixed(2)} mm`
-      : `ERRORE: Dimensioni superano il limite di ${GUIDELINES.maxDimensions.length} × ${GUIDELINES.maxDimensions.width} × ${GUIDELINES.maxDimensions.height} mm`,
-    details: `Dimensioni rilevate: L=${length.toFixed(3)}mm, W=${width.toFixed(3)}mm, H=${height.toFixed(3)}mm. Limiti: 50mm × 80mm × 40mm.`,
-  });
-
-  // 2. Tolleranze
-  const toleranceInfo = [];
-  if (length < 10) toleranceInfo.push(`L: ±0.1mm (${length.toFixed(2)}mm < 10mm)`);
-  else toleranceInfo.push(`L: ±${(length * 0.01).toFixed(3)}mm (1% di ${length.toFixed(2)}mm)`);
-  if (width < 10) toleranceInfo.push(`W: ±0.1mm (${width.toFixed(2)}mm < 10mm)`);
-  else toleranceInfo.push(`W: ±${(width * 0.01).toFixed(3)}mm (1% di ${width.toFixed(2)}mm)`);
-  if (height < 10) toleranceInfo.push(`H: ±0.1mm (${height.toFixed(2)}mm < 10mm)`);
-  else toleranceInfo.push(`H: ±${(height * 0.01).toFixed(3)}mm (1% di ${height.toFixed(2)}mm)`);
-  
-  results.push({
-    name: "Tolleranze Applicabili",
-    passed: true,
-    severity: "info",
-    message: "Tolleranze calcolate in base alle dimensioni",
-    details: toleranceInfo.join(" | "),
-  });
+const MEASUREMENT_METHODS: Record<DimensionMeasurement["method"], string> = {
+  points: "tra punti",
+  planes: "tra piani",
+  diameter: "diametro",
+  axes: "interasse",
+  axisToPlane: "asse-piano",
+};
 
-  // 3. Aspect Ratio
-  const dims = [length, width, height].sort((a, b) => b - a);
-  const aspectRatio = dims[0] / dims[2];
-  const aspectOk = aspectRatio <= GUIDELINES.aspectRatioMax;
-  const aspectRecommended = aspectRatio <= GUIDELINES.aspectRatioRecommended;
-
-  results.push({
-    name: "Aspect Ratio",
-    passed: aspectOk,
-    severity: aspectOk ? (aspectRecommended ? "info" : "warning") : "error",
-    message: aspectOk
-      ? aspectRecommended
-        ? `Ottimo: ${aspectRatio.toFixed(2)}:1 (≤5:1 consigliato)`
-        : `Accettabile: ${aspectRatio.toFixed(2)}:1 (consigliato ≤5:1)`
-      : `ERRORE: ${aspectRatio.toFixed(2)}:1 supera il massimo 10:1`,
-    details: `Dimensione maggiore: ${dims[0].toFixed(2)}mm, minore: ${dims[2].toFixed(2)}mm. Rapporto: ${aspectRatio.toFixed(3)}:1`,
-  });
+function DimensionPanel({ geometry, dimensions, measurements, guidelines, pickTarget, onChange, onPickTarget }: DimensionPanelProps) {
+  const [importError, setImportError] = useState("");
+  const tableInputRef = useRef<HTMLInputElement>(null);
+  const nextId = dimensions.reduce((max, d) => Math.max(max, d.id), 0) + 1;
 
-  // 4. Spigoli e Raccordi (Edge Analysis)
-  const edgeOk = data.edgeAnalysis.sharpEdges === 0 && 
-    (data.edgeAnalysis.estimatedMinCurvatureRadius === 0 || data.edgeAnalysis.estimatedMinCurvatureRadius >= GUIDELINES.minCurvatureRadius);
-  const tJunctionOk = data.edgeAnalysis.tJunctionCount === 0 || 
-    data.edgeAnalysis.estimatedMinCurvatureRadius >= GUIDELINES.minTJunctionRadius;
-
-  results.push({
-    name: "Spigoli e Raccordi",
-    passed: edgeOk && tJunctionOk,
-    severity: (edgeOk && tJunctionOk) ? "info" : "warning",
-    message: data.edgeAnalysis.sharpEdges > 0
-      ? `ATTENZIONE: ${data.edgeAnalysis.sharpEdges} spigoli vivi rilevati`
-      : "Nessuno spigolo vivo rilevato",
-    details: `Spigoli totali: ${data.edgeAnalysis.totalEdges.toLocaleString()}. Spigoli vivi (<90°): ${data.edgeAnalysis.sharpEdges}. Giunzioni a T: ${data.edgeAnalysis.tJunctionCount}. Raggio curvatura min stimato: ${data.edgeAnalysis.estimatedMinCurvatureRadius > 0 ? data.edgeAnalysis.estimatedMinCurvatureRadius.toFixed(3) + 'mm' : 'N/A'}. Requisiti: raggio min 0.5mm, giunzioni T min 2mm.`,
-  });
-
-  // 5. Cavità e Fori Ciechi
-  const cavityOk = data.cavityAnalysis.potentialCavities === 0 || 
-    (data.cavityAnalysis.estimatedHoleDepths.length === 0 || 
-     data.cavityAnalysis.estimatedHoleDepths.every(d => d >= GUIDELINES.minCavityWidth));
-
-  results.push({
-    name: "Cavità e Fori Ciechi",
-    passed: cavityOk,
-    severity: cavityOk ? "info" : "warning",
-    message: data.cavityAnalysis.potentialCavities > 0
-      ? `${data.cavityAnalysis.potentialCavities} potenziali cavità rilevate`
-      : "Nessuna cavità significativa rilevata",
-    details: `Cavità potenziali: ${data.cavityAnalysis.potentialCavities}. Fori ciechi stimati: ${data.cavityAnalysis.blindHoleCount}. Fori passanti stimati: ${data.cavityAnalysis.throughHoleCount}. Loop di bordo: ${data.cavityAnalysis.boundaryLoops}. Requisiti: larghezza min ${GUIDELINES.minCavityWidth}mm, rapporto profondità/larghezza 2:1-4:1.`,
-  });
+  const update = (id: number, changes: Partial<NominalDimension>) => {
+    onChange(dimensions.map(d => (d.id === id ? { ...d, ...changes } : d)));
+  };
 
-  // 6. Canali Aperti
-  const channelResults: string[] = [];
-  let channelOk = true;
-  
-  if (data.channelAnalysis.potentialChannels > 0) {
-    data.channelAnalysis.estimatedDiameters.forEach((d, i) => {
-      const depth = data.channelAnalysis.estimatedDepths[i] || 0;
-      
-      if (d >= 1 && d <= 3 && depth > 10) {
-        channelOk = false;
-        channelResults.push(`Canale Ø${d.toFixed(1)}mm: profondità ${depth.toFixed(1)}mm > 10mm max`);
-      } else if (d > 3 && d <= 5 && depth > 30) {
-        channelOk = false;
-        channelResults.push(`Canale Ø${d.toFixed(1)}mm: profondità ${depth.toFixed(1)}mm > 30mm max`);
-      } else {
-        channelResults.push(`Canale Ø${d.toFixed(1)}mm: conforme`);
-      }
-    });
-  }
-
-  results.push({
-    name: "Canali Aperti",
-    passed: channelOk,
-    severity: channelOk ? "info" : "warning",
-    message: data.channelAnalysis.potentialChannels > 0
-      ? `${data.channelAnalysis.potentialChannels} canali potenziali (${data.channelAnalysis.straightChannels} rettilinei, ${data.channelAnalysis.curvedChannels} curvi)`
-      : "Nessun canale rilevato",
-    details: `${channelResults.length > 0 ? channelResults.join(". ") + ". " : ""}Specifiche: Ø1-3mm max 10mm rettilineo, Ø3-5mm max 30mm rettilineo, Ø>5mm raggio curvatura min 25mm.`,
-  });
+  const addDimension = () => {
+    onChange([...dimensions, { id: nextId, label: `Quota ${nextId}`, nominal: 0, mode: "faces", a: null, b: null }]);
+    onPickTarget({ id: nextId, end: "a" });
+  };
 
-  // 7. Rilievi e Incisioni
-  const featureOk = data.surfaceFeatures.minFeatureWidth === 0 || 
-    data.surfaceFeatures.minFeatureWidth >= GUIDELINES.minLineWidth;
-
-  results.push({
-    name: "Rilievi e Incisioni",
-    passed: featureOk,
-    severity: featureOk ? "info" : "warning",
-    message: data.surfaceFeatures.potentialReliefs > 0 || data.surfaceFeatures.potentialEngravings > 0
-      ? `${data.surfaceFeatures.potentialReliefs} rilievi, ${data.surfaceFeatures.potentialEngravings} incisioni rilevate`
-      : "Nessun rilievo/incisione significativo rilevato",
-    details: `Rilievi: ${data.surfaceFeatures.potentialReliefs}. Incisioni: ${data.surfaceFeatures.potentialEngravings}. Larghezza min caratteristica: ${data.surfaceFeatures.minFeatureWidth > 0 ? data.surfaceFeatures.minFeatureWidth.toFixed(3) + 'mm' : 'N/A'}. Altezza max variazione: ${data.surfaceFeatures.maxFeatureHeight.toFixed(3)}mm. Requisiti: altezza caratteri min 4mm, linee min 0.5mm.`,
-  });
+  const removeDimension = (id: number) => {
+    onChange(dimensions.filter(d => d.id !== id));
+    if (pickTarget?.id === id) onPickTarget(null);
+  };
 
-  // 8. Spessore Parete
-  const wallOk = data.wallThickness.minThickness >= GUIDELINES.wallThickness.min &&
-    data.wallThickness.maxThickness <= GUIDELINES.wallThickness.max;
-
-  results.push({
-    name: "Spessore Parete",
-    passed: wallOk,
-    severity: wallOk ? "info" : (data.wallThickness.minThickness < GUIDELINES.wallThickness.min ? "error" : "warning"),
-    message: wallOk
-      ? `Spessore OK: ${data.wallThickness.minThickness.toFixed(2)} - ${data.wallThickness.maxThickness.toFixed(2)} mm | Qualità: ${data.wallThickness.qualityGrade}`
-      : `Spessore fuori range: ${data.wallThickness.minThickness.toFixed(2)} - ${data.wallThickness.maxThickness.toFixed(2)} mm | Qualità: ${data.wallThickness.qualityGrade}`,
-    details: `STATISTICHE DETTAGLIATE:
-• Minimo: ${data.wallThickness.minThickness.toFixed(4)}mm | Massimo: ${data.wallThickness.maxThickness.toFixed(4)}mm
-• Media: ${data.wallThickness.avgThickness.toFixed(4)}mm | Mediana: ${data.wallThickness.medianThickness.toFixed(4)}mm
-• Deviazione Standard: ${data.wallThickness.stdDeviation.toFixed(4)}mm
-• Punteggio Qualità: ${data.wallThickness.qualityScore}/100 (${data.wallThickness.qualityGrade})
-
-ANALISI CAMPIONAMENTO:
-• Punti campionati: ${data.wallThickness.sampleCount.toLocaleString()}
-• Raggi multi-angolo con ray-casting bidirezionale
-
-AREE CRITICHE:
-• Aree <1mm: ${data.wallThickness.thinAreas} (${data.wallThickness.percentBelow1mm.toFixed(2)}% della superficie)
-• Aree borderline 1-1.2mm: ${data.wallThickness.borderlineAreas} (${(data.wallThickness.percentBelow1_2mm - data.wallThickness.percentBelow1mm).toFixed(2)}% aggiuntivo)
-• Totale <1.2mm: ${data.wallThickness.percentBelow1_2mm.toFixed(2)}%
-
-Range richiesto: ${GUIDELINES.wallThickness.min}-${GUIDELINES.wallThickness.max}mm`,
-  });
+  const importTable = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const positions = geometry.getAttribute("position") as THREE.BufferAttribute;
+      onChange([...dimensions, ...parseDimensionTable(await file.text(), positions, nextId)]);
+      setImportError("");
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Errore nella lettura della tabella quote");
+    }
+  };
 
-  // 9. Base di Appoggio
-  results.push({
-    name: "Base di Appoggio",
-    passed: data.geometricComplexity.hasFlatBase,
-    severity: data.geometricComplexity.hasFlatBase ? "info" : "warning",
-    message: data.geometricComplexity.hasFlatBase
-      ? `Base piana rilevata (${data.geometricComplexity.flatBaseArea.toFixed(2)} mm²)`
-      : "ATTENZIONE: Nessuna base piana significativa rilevata",
-    details: `Base piana: ${data.geometricComplexity.hasFlatBase ? 'Sì' : 'No'}. Area base: ${data.geometricComplexity.flatBaseArea.toFixed(3)} mm². Normale base: ${data.geometricComplexity.flatBaseNormal ? `(${data.geometricComplexity.flatBaseNormal.x.toFixed(2)}, ${data.geometricComplexity.flatBaseNormal.y.toFixed(2)}, ${data.geometricComplexity.flatBaseNormal.z.toFixed(2)})` : 'N/A'}. Requisito: almeno una superficie piana per l'appoggio.`,
-  });
+  const pickButton = (dimension: NominalDimension, end: "a" | "b") => {
+    const active = pickTarget?.id === dimension.id && pickTarget.end === end;
+    return (
+      <button
+        onClick={() => onPickTarget(active ? null : { id: dimension.id, end })}
+        title={dimension.mode === "faces" ? "Seleziona la faccia sul modello" : "Seleziona il punto sul modello"}
+        className={`w-7 h-7 rounded-md text-xs font-medium border transition-colors ${
+          active
+            ? 'bg-amber-500/30 border-amber-500/60 text-amber-300'
+            : dimension[end]
+            ? 'bg-white/10 border-white/20'
+            : 'bg-transparent border-white/20 text-white/40 hover:bg-white/5'
+        }`}
+      >
+        {end.toUpperCase()}
+      </button>
+    );
+  };
 
-  // 10. Filettature
-  results.push({
-    name: "Filettature",
-    passed: true,
-    severity: "info",
-    message: "Filetto abbozzato da M10",
-    details: `Per filettature: utilizzare filetto abbozzato a partire da M${GUIDELINES.minThreadSize}. Verifica manuale consigliata per dettagli filettatura.`,
-  });
+  return (
+    <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden">
+      <div className="p-4 border-b border-white/10 bg-white/5">
+        <h3 className="font-semibold flex items-center gap-2">
+          <span className="text-lg">📏</span>
+          Quote Nominali
+        </h3>
+        <p className="text-sm text-white/50 mt-1">
+          {pickTarget
+            ? `Clicca sul modello per ${pickTarget.end === "a" ? "il primo" : "il secondo"} riferimento della quota`
+            : `Quote del disegno misurate tra due punti o due facce (piani, fori, perni); tolleranza ±${guidelines.tolerance.absolute}mm sotto ${guidelines.tolerance.threshold}mm, ±${guidelines.tolerance.percent}% oltre`}
+        </p>
+      </div>
 
-  // 11. Oggetti Cavi
-  const hollowOk = data.wallThickness.minThickness >= GUIDELINES.hollowWallThickness;
-  
-  results.push({
-    name: "Oggetti Cavi",
-    passed: hollowOk,
-    severity: hollowOk ? "info" : "warning",
-    message: hollowOk
-      ? `Spessore parete adeguato per oggetti cavi (≥${GUIDELINES.hollowWallThickness}mm)`
-      : `Verifica spessore per oggetti cavi: min ${GUIDELINES.hollowWallThickness}mm richiesto`,
-    details: `Spessore minimo rilevato: ${data.wallThickness.minThickness.toFixed(3)}mm. Per oggetti cavi: min ${GUIDELINES.hollowWallThickness}mm. Fori svuotamento necessari: 2, diametro min ${GUIDELINES.drainHoleDiameter.min}mm (consigliato ${GUIDELINES.drainHoleDiameter.recommended}mm).`,
-  });
+      <div className="divide-y divide-white/5">
+        {dimensions.map((dimension) => {
+          const measurement = measurements.find(m => m.id === dimension.id);
+          return (
+            <div key={dimension.id} className="py-2 px-3 flex flex-wrap items-center gap-2">
+              <input
+                value={dimension.label}
+                onChange={(e) => update(dimension.id, { label: e.target.value })}
+                className="w-28 px-2 py-1 rounded-md bg-black border border-white/20 text-sm"
+              />
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={dimension.nominal || ""}
+                placeholder="Nominale"
+                onChange={(e) => update(dimension.id, { nominal: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-24 px-2 py-1 rounded-md bg-black border border-white/20 font-mono text-sm"
+              />
+              <select
+                value={dimension.mode}
+                onChange={(e) => update(dimension.id, { mode: e.target.value as NominalDimension["mode"] })}
+                className="px-2 py-1 rounded-md bg-black border border-white/20 text-sm"
+              >
+                <option value="faces">Facce</option>
+                <option value="points">Punti</option>
+              </select>
+              {pickButton(dimension, "a")}
+              {pickButton(dimension, "b")}
+              <span className="flex-1 text-right font-mono text-xs">
+                {measurement ? (
+                  <span className={measurement.withinTolerance ? 'text-emerald-400' : 'text-red-400'}>
+                    {measurement.measured.toFixed(3)}mm ({MEASUREMENT_METHODS[measurement.method]}) •{' '}
+                    {measurement.deviation >= 0 ? '+' : ''}{measurement.deviation.toFixed(3)} / ±{measurement.tolerance.toFixed(3)}
+                  </span>
+                ) : (
+                  <span className="text-white/40">
+                    {dimension.nominal > 0 ? 'Seleziona A e B' : 'Inserisci il nominale'}
+                  </span>
+                )}
+              </span>
+              <button
+                onClick={() => removeDimension(dimension.id)}
+                title="Rimuovi quota"
+                className="w-7 h-7 rounded-md text-white/40 hover:text-red-400 hover:bg-white/5 transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+        {dimensions.length === 0 && (
+          <p className="py-2 px-3 text-sm text-white/50">Nessuna quota: aggiungine una o importa una tabella</p>
+        )}
+      </div>
 
-  // 12. Parti Concatenate
-  results.push({
-    name: "Parti Concatenate",
-    passed: true,
-    severity: "info",
-    message: `Distanza minima tra parti: ${GUIDELINES.minGap}mm`,
-    details: "Se il modello contiene parti concatenate o mobili, mantenere distanza minima di 1mm tra le parti. Verifica manuale consigliata.",
-  });
+      <div className="p-4 border-t border-white/5 flex flex-wrap items-center gap-3">
+        <button
+          onClick={addDimension}
+          className="px-4 py-2 bg-white text-black font-medium rounded-lg hover:bg-white/90 transition-colors"
+        >
+          Aggiungi Quota
+        </button>
+        <button
+          onClick={() => tableInputRef.current?.click()}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors"
+        >
+          Importa CSV
+        </button>
+        <input ref={tableInputRef} type="file" accept=".csv,.txt" onChange={importTable} className="hidden" />
+        <p className="w-full text-xs text-white/40 font-mono">
+          CSV: nome;nominale;ax;ay;az;bx;by;bz[;punti|facce] — coordinate in mm nel sistema del file
+        </p>
+      </div>
 
-  return results;
+      {importError && (
+        <div className="mx-4 mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {importError}
+        </div>
+      )}
+    </div>
+  );
 }
 
-function STLViewer({ geometry }: { geometry: THREE.BufferGeometry | null }) {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-
-  useEffect(() => {
-    if (!containerRef.current || !geometry) return;
-
-    const container = containerRef.current;
-    const width = container.clientWidth;
-    const height = container.clientHeight;
-
-    const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x0a0a0a);
-
-    const camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 10000);
-    
-    const renderer = new THREE.WebGLRenderer({ antialias: true });
-    renderer.setSize(width, height);
-    renderer.setPixelRatio(window.devicePixelRatio);
-    container.appendChild(renderer.domElement);
-    rendererRef.current = renderer;
-
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;
-    controls.dampingFactor = 0.05;
-
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
-    scene.add(ambientLight);
-
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(1, 1, 1);
-    scene.add(directionalLight);
-
-    const directionalLight2 = new THREE.DirectionalLight(0xffffff, 0.4);
-    directionalLight2.position.set(-1, -1, -1);
-    scene.add(directionalLight2);
-
-    const material = new THREE.MeshPhongMaterial({
-      color: 0xffffff,
-      specular: 0x333333,
-      shininess: 30,
-      flatShading: false,
-    });
-
-    geometry.computeVertexNormals();
-    const mesh = new THREE.Mesh(geometry, material);
-
-    geometry.computeBoundingBox();
-    const center = new THREE.Vector3();
-    geometry.boundingBox!.getCenter(center);
-    mesh.position.sub(center);
-
-    const size = new THREE.Vector3();
-    geometry.boundingBox!.getSize(size);
-    const maxDim = Math.max(size.x, size.y, size.z);
-    const scale = 100 / maxDim;
-    mesh.scale.multiplyScalar(scale);
-
-    scene.add(mesh);
-
-    const gridHelper = new THREE.GridHelper(200, 20, 0x333333, 0x222222);
-    gridHelper.position.y = -size.y * scale / 2;
-    scene.add(gridHelper);
-
-    camera.position.set(150, 100, 150);
-    camera.lookAt(0, 0, 0);
-
-    let animationId: number;
-    const animate = () => {
-      animationId = requestAnimationFrame(animate);
-      controls.update();
-      renderer.render(scene, camera);
-    };
-    animate();
-
-    const handleResize = () => {
-      const newWidth = container.clientWidth;
-      const newHeight = container.clientHeight;
-      camera.aspect = newWidth / newHeight;
-      camera.updateProjectionMatrix();
-      renderer.setSize(newWidth, newHeight);
-    };
-    window.addEventListener("resize", handleResize);
-
-    return () => {
-      cancelAnimationFrame(animationId);
-      window.removeEventListener("resize", handleResize);
-      controls.dispose();
-      renderer.dispose();
-      if (container.contains(renderer.domElement)) {
-        container.removeChild(renderer.domElement);
-      }
-    };
-  }, [geometry]);
-
+function ResultList({ results }: { results: ValidationResult[] }) {
   return (
-    <div
-      ref={containerRef}
-      className="w-full h-[400px] rounded-lg overflow-hidden bg-[#0a0a0a] border border-white/10"
-    />
+    <div className="space-y-3 max-h-[900px] overflow-y-auto pr-2">
+      {results.map((result, index) => (
+        <details
+          key={index}
+          className={`group rounded-lg border transition-all ${
+            result.severity === "error"
+              ? "bg-red-500/10 border-red-500/30 hover:border-red-500/50"
+              : result.severity === "warning"
+              ? "bg-amber-500/10 border-amber-500/30 hover:border-amber-500/50"
+              : "bg-white/5 border-white/10 hover:border-white/20"
+          }`}
+        >
+          <summary className="flex items-center gap-3 p-4 cursor-pointer list-none">
+            <span className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center ${
+              result.severity === "error" ? "bg-red-500/20" :
+              result.severity === "warning" ? "bg-amber-500/20" :
+              result.passed ? "bg-emerald-500/20" : "bg-white/10"
+            }`}>
+              {result.severity === "error" ? (
+                <svg className="w-4 h-4 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              ) : result.severity === "warning" ? (
+                <svg className="w-4 h-4 text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+              ) : (
+                <svg className="w-4 h-4 text-emerald-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                </svg>
+              )}
+            </span>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium">
+                {result.name}
+                {result.category === "custom" && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full bg-white/10 text-white/60 text-xs font-normal">Personalizzata</span>
+                )}
+                {result.accuracy && (
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-normal ${result.accuracy === "exact" ? 'bg-emerald-500/20 text-emerald-300' : 'bg-white/10 text-white/60'}`}>
+                    {result.accuracy === "exact" ? 'Esatto' : 'Stimato'}
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-white/60 truncate">{result.message}</p>
+            </div>
+            <svg className="w-5 h-5 text-white/40 transition-transform group-open:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </summary>
+          {result.details && (
+            <div className="px-4 pb-4 pt-2 border-t border-white/5">
+              <p className="text-sm text-white/70 leading-relaxed font-mono">{result.details}</p>
+            </div>
+          )}
+        </details>
+      ))}
+    </div>
   );
 }
 
-interface DataPanelProps {
+interface MeshRepairPanelProps {
   data: ModelData;
+  results: ValidationResult[];
+  guidelines: Guidelines;
+  fileName: string;
 }
 
-function DataPanel({ data }: DataPanelProps) {
-  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
-    mesh: true,
-    dimensions: true,
-    edges: false,
-    cavities: false,
-    channels: false,
-    surface: false,
-    walls: false,
-    complexity: false,
-  });
+interface RepairOutcome {
+  data: ModelData;
+  results: ValidationResult[];
+  report: MeshRepairReport;
+}
 
-  const toggleSection = (section: string) => {
-    setExpandedSections(prev => ({ ...prev, [section]: !prev[section] }));
+function MeshRepairPanel({ data, results, guidelines, fileName }: MeshRepairPanelProps) {
+  const [maxHoleDiameter, setMaxHoleDiameter] = useState(DEFAULT_REPAIR_OPTIONS.maxHoleDiameter);
+  const [repair, setRepair] = useState<RepairOutcome | null>(null);
+  const [repairStage, setRepairStage] = useState<AnalysisStage | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [repairError, setRepairError] = useState("");
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // A new model invalidates any previous repair
+  useEffect(() => {
+    setRepair(null);
+    setRepairError("");
+    return () => controllerRef.current?.abort();
+  }, [data]);
+
+  const startRepair = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRepairing(true);
+    setRepairError("");
+
+    try {
+      const { data: repaired, report } = await runRepair(
+        data.geometry,
+        { ...DEFAULT_REPAIR_OPTIONS, maxHoleDiameter },
+        guidelines,
+        { onProgress: setRepairStage, signal: controller.signal }
+      );
+      // The repaired mesh keeps the scale, and so the units, of the one it came from
+      setRepair({ data: { ...repaired, units: data.units, fileFormat: data.fileFormat }, results: validateModel(repaired, guidelines), report });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setRepairError(err instanceof Error && err.message ? err.message : "Errore durante la riparazione della mesh");
+      console.error(err);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsRepairing(false);
+        setRepairStage(null);
+      }
+    }
   };
 
-  const SectionHeader = ({ id, title, icon }: { id: string; title: string; icon: string }) => (
-    <button
-      onClick={() => toggleSection(id)}
-      className="w-full flex items-center justify-between p-3 hover:bg-white/5 transition-colors"
-    >
-      <span className="flex items-center gap-2 font-medium">
-        <span className="text-lg">{icon}</span>
-        {title}
-      </span>
-      <svg
-        className={`w-4 h-4 transition-transform ${expandedSections[id] ? 'rotate-180' : ''}`}
-        fill="none"
-        stroke="currentColor"
-        viewBox="0 0 24 24"
-      >
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-      </svg>
-    </button>
-  );
+  const downloadRepaired = () => {
+    if (!repair) return;
+    const baseName = fileName.replace(/\.[^.]+$/, "");
+    downloadBlob(exportBinarySTL(repair.data.geometry), `${baseName}_riparato.stl`);
+  };
 
-  const DataRow = ({ label, value, unit = "", highlight = false }: { label: string; value: string | number; unit?: string; highlight?: boolean }) => (
-    <div className={`flex justify-between items-center py-1.5 px-3 ${highlight ? 'bg-white/5' : ''}`}>
-      <span className="text-white/60 text-sm">{label}</span>
-      <span className="font-mono text-sm">{typeof value === 'number' ? value.toLocaleString() : value}{unit && <span className="text-white/40 ml-1">{unit}</span>}</span>
-    </div>
-  );
+  const integrity = data.meshIntegrity;
+  const hasDefects = !integrity.isWatertight || integrity.flippedFaces.count + integrity.degenerateFaces.count +
+    integrity.zeroAreaFaces.count + integrity.duplicateFaces.count + integrity.nonManifoldVertices.count > 0;
+  const countErrors = (list: ValidationResult[]) => list.filter(r => r.severity === "error").length;
+  const comparisonRows: { label: string; value: (d: ModelData, r: ValidationResult[]) => string | number }[] = [
+    { label: "Triangoli", value: (d) => d.triangleCount },
+    { label: "Spigoli Aperti", value: (d) => d.meshIntegrity.openEdges.count },
+    { label: "Spigoli Non-Manifold", value: (d) => d.meshIntegrity.nonManifoldEdges.count },
+    { label: "Vertici Non-Manifold", value: (d) => d.meshIntegrity.nonManifoldVertices.count },
+    { label: "Facce Invertite", value: (d) => d.meshIntegrity.flippedFaces.count },
+    { label: "Facce Degeneri", value: (d) => d.meshIntegrity.degenerateFaces.count + d.meshIntegrity.zeroAreaFaces.count },
+    { label: "Facce Duplicate", value: (d) => d.meshIntegrity.duplicateFaces.count },
+    { label: "Auto-Intersezioni", value: (d) => d.meshIntegrity.selfIntersections.count },
+    { label: "Volume (mm³)", value: (d) => `${d.volume.toFixed(2)}${d.volumeReliable ? "" : " *"}` },
+    { label: "Controlli Superati", value: (_, r) => `${r.filter(x => x.passed).length}/${r.length}` },
+    { label: "Errori", value: (_, r) => countErrors(r) },
+  ];
 
   return (
     <div className="bg-white/5 rounded-xl border border-white/10 overflow-hidden">
       <div className="p-4 border-b border-white/10 bg-white/5">
         <h3 className="font-semibold flex items-center gap-2">
-          <span className="text-lg">📊</span>
-          Dati Estratti dal Modello
+          <span className="text-lg">🔧</span>
+          Riparazione Mesh
         </h3>
-        <p className="text-sm text-white/50 mt-1">Tutti i parametri analizzati dal file STL</p>
+        <p className="text-sm text-white/50 mt-1">
+          {hasDefects
+            ? "Salda i vertici, rimuove facce degeneri e duplicate, riorienta le normali e chiude i fori piccoli"
+            : "Nessun difetto rilevato: la riparazione non è necessaria"}
+        </p>
       </div>
 
-      <div className="divide-y divide-white/5">
-        {/* Mesh Statistics */}
-        <div>
-          <SectionHeader id="mesh" title="Statistiche Mesh" icon="🔺" />
-          {expandedSections.mesh && (
-            <div className="pb-2 border-t border-white/5">
-              <DataRow label="Triangoli" value={data.triangleCount} />
-              <DataRow label="Vertici" value={data.vertexCount} />
-              <DataRow label="Spigoli" value={data.edgeCount} />
-              <DataRow label="Volume" value={data.volume.toFixed(3)} unit="mm³" />
-              <DataRow label="Area Superficiale" value={data.surfaceArea.toFixed(3)} unit="mm²" />
-            </div>
-          )}
-        </div>
+      <div className="p-4 flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-white/60">
+          Diametro max fori da chiudere
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={maxHoleDiameter}
+            onChange={(e) => setMaxHoleDiameter(Math.max(0, Number(e.target.value) || 0))}
+            className="w-20 px-2 py-1 rounded-md bg-black border border-white/20 font-mono text-sm"
+          />
+          mm
+        </label>
+        <button
+          onClick={startRepair}
+          disabled={isRepairing}
+          className="px-4 py-2 bg-white text-black font-medium rounded-lg hover:bg-white/90 transition-colors disabled:opacity-50"
+        >
+          {isRepairing
+            ? `${ANALYSIS_STAGES.find(s => s.id === repairStage)?.label ?? "Riparazione"}...`
+            : "Ripara Mesh"}
+        </button>
+        {isRepairing && (
+          <button
+            onClick={() => controllerRef.current?.abort()}
+            className="px-3 py-2 text-sm rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+          >
+            Annulla
+          </button>
+        )}
+        {repair && (
+          <button
+            onClick={downloadRepaired}
+            className="px-4 py-2 bg-emerald-500/20 text-emerald-400 font-medium rounded-lg hover:bg-emerald-500/30 border border-emerald-500/30 transition-colors"
+          >
+            Scarica STL Riparato
+          </button>
+        )}
+      </div>
 
-        {/* Dimensions & Bounding Box */}
-        <div>
-          <SectionHeader id="dimensions" title="Dimensioni e Bounding Box" icon="📐" />
-          {expandedSections.dimensions && (
-            <div className="pb-2 border-t border-white/5">
-              <DataRow label="Lunghezza (X)" value={data.dimensions.length.toFixed(4)} unit="mm" />
-              <DataRow label="Larghezza (Y)" value={data.dimensions.width.toFixed(4)} unit="mm" />
-              <DataRow label="Altezza (Z)" value={data.dimensions.height.toFixed(4)} unit="mm" />
-              <DataRow label="Min X" value={data.boundingBox.min.x.toFixed(4)} unit="mm" />
-              <DataRow label="Max X" value={data.boundingBox.max.x.toFixed(4)} unit="mm" />
-              <DataRow label="Min Y" value={data.boundingBox.min.y.toFixed(4)} unit="mm" />
-              <DataRow label="Max Y" value={data.boundingBox.max.y.toFixed(4)} unit="mm" />
-              <DataRow label="Min Z" value={data.boundingBox.min.z.toFixed(4)} unit="mm" />
-              <DataRow label="Max Z" value={data.boundingBox.max.z.toFixed(4)} unit="mm" />
-              <DataRow label="Distribuzione Normali X" value={(data.normalDistribution.x * 100).toFixed(1)} unit="%" />
-              <DataRow label="Distribuzione Normali Y" value={(data.normalDistribution.y * 100).toFixed(1)} unit="%" />
-              <DataRow label="Distribuzione Normali Z" value={(data.normalDistribution.z * 100).toFixed(1)} unit="%" />
-            </div>
-          )}
+      {repairError && (
+        <div className="mx-4 mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {repairError}
         </div>
+      )}
 
-        {/* Edge Analysis */}
-        <div>
-          <SectionHeader id="edges" title="Analisi Spigoli e Raccordi" icon="📏" />
-          {expandedSections.edges && (
-            <div className="pb-2 border-t border-white/5">
-              <DataRow label="Spigoli Totali" value={data.edgeAnalysis.totalEdges} />
-              <DataRow label="Spigoli Vivi (<90°)" value={data.edgeAnalysis.sharpEdges} highlight={data.edgeAnalysis.sharpEdges > 0} />
-              <DataRow label="Giunzioni a T" value={data.edgeAnalysis.tJunctionCount} highlight={data.edgeAnalysis.tJunctionCount > 0} />
-              <DataRow 
-                label="Raggio Curvatura Min Stimato" 
-                value={data.edgeAnalysis.estimatedMinCurvatureRadius > 0 ? data.edgeAnalysis.estimatedMinCurvatureRadius.toFixed(4) : 'N/A'} 
-                unit={data.edgeAnalysis.estimatedMinCurvatureRadius > 0 ? 'mm' : ''} 
-              />
-              {data.edgeAnalysis.sharpEdgeAngles.length > 0 && (
-                <div className="px-3 py-2">
-                  <span className="text-white/60 text-sm">Angoli Spigoli Vivi: </span>
-                  <span className="font-mono text-xs">
-                    {data.edgeAnalysis.sharpEdgeAngles.slice(0, 5).map(a => `${a.toFixed(1)}°`).join(', ')}
-                    {data.edgeAnalysis.sharpEdgeAngles.length > 5 && ` +${data.edgeAnalysis.sharpEdgeAngles.length - 5} altri`}
-                  </span>
-                </div>
-              )}
-            </div>
-          )}
+      {repair && (
+        <div className="border-t border-white/5">
+          <div className="grid grid-cols-3 py-2 px-3 text-xs text-white/50">
+            <span>Parametro</span>
+            <span className="text-right">Prima</span>
+            <span className="text-right">Dopo</span>
+          </div>
+          {comparisonRows.map((row) => {
+            const before = row.value(data, results);
+            const after = row.value(repair.data, repair.results);
+            return (
+              <div key={row.label} className={`grid grid-cols-3 py-1.5 px-3 ${before !== after ? 'bg-white/5' : ''}`}>
+                <span className="text-white/60 text-sm">{row.label}</span>
+                <span className="font-mono text-sm text-right">{typeof before === 'number' ? before.toLocaleString() : before}</span>
+                <span className="font-mono text-sm text-right">{typeof after === 'number' ? after.toLocaleString() : after}</span>
+              </div>
+            );
+          })}
+          <p className="px-3 py-2 text-xs text-white/50 font-mono">
+            Vertici saldati: {repair.report.weldedVertices} • Facce degeneri rimosse: {repair.report.removedDegenerateFaces} •
+            Duplicate rimosse: {repair.report.removedDuplicateFaces} • Facce riorientate: {repair.report.flippedFaces} •
+            Fori chiusi: {repair.report.filledHoles} ({repair.report.addedFaces} facce aggiunte) • Fori troppo grandi: {repair.report.unfilledHoles}
+            {repair.data.volumeReliable ? "" : " • * volume non affidabile"}
+          </p>
         </div>
+      )}
+    </div>
+  );
+}
 
-        {/* Cavity Analysis */}
-        <div>
-          <SectionHeader id="cavities" title="Cavità e Fori" icon="🕳️" />
-          {expandedSections.cavities && (
-            <div className="pb-2 border-t border-white/5">
-              <DataRow label="Cavità Potenziali" value={data.cavityAnalysis.potentialCavities} />
-              <DataRow label="Fori Ciechi Stimati" value={data.cavityAnalysis.blindHoleCount} />
-              <DataRow label="Fori Passanti Stimati" value={data.cavityAnalysis.throughHoleCount} />
-              <DataRow label="Loop di Bordo" value={data.cavityAnalysis.boundaryLoops} />
-              {data.cavityAnalysis.estimatedHoleDepths.length > 0 && (
-                <div className="px-3 py-2">
-                  <span className="text-white/60 text-sm">Profondità Stimate: </span>
-                  <span className="font-mono text-xs">
-                    {data.cavityAnalysis.estimatedHoleDepths.map(d => `${d.toFixed(2)}mm`).join(', ')}
-                  </span>
-                </div>
-              )}
-            </div>
-          )}
-        </div>
+interface StoredAnalysisProps {
+  entry: HistoryEntryDetail;
+  isLoading: boolean;
+  onReanalyze: () => void;
+}
 
-        {/* Channel Analysis */}
-        <div>
-          <SectionHeader id="channels" title="Canali Aperti" icon="🚇" />
-          {expandedSections.channels && (
-            <div className="pb-2 border-t border-white/5">
-              <DataRow label="Canali Potenziali" value={data.channelAnalysis.potentialChannels} />
-              <DataRow label="Canali Rettilinei" value={data.channelAnalysis.straightChannels} />
-              <DataRow label="Canali Curvi" value={data.channelAnalysis.curvedChannels} />
-              {data.channelAnalysis.estimatedDiameters.length > 0 && (
-                <div className="px-3 py-2">
-                  <span className="text-white/60 text-sm">Diametri Stimati: </span>
-                  <span className="font-mono text-xs">
-                    {data.channelAnalysis.estimatedDiameters.map(d => `${d.toFixed(2)}mm`).join(', ')}
-                  </span>
-                </div>
-              )}
-              {data.channelAnalysis.estimatedDepths.length > 0 && (
-                <div className="px-3 py-2">
-                  <span className="text-white/60 text-sm">Profondità Stimate: </span>
-                  <span className="font-mono text-xs">
-                    {data.channelAnalysis.estimatedDepths.map(d => `${d.toFixed(2)}mm`).join(', ')}
-                  </span>
-                </div>
-              )}
-            </div>
+// An analysis from the history as it was saved: its headline numbers and rule results,
+// without downloading the model until asked
+function StoredAnalysis({ entry, isLoading, onReanalyze }: StoredAnalysisProps) {
+  const { dimensions, volume, surfaceArea, triangleCount, minWallThickness, isWatertight } = entry.metrics;
+  return (
+    <section className="max-w-6xl mx-auto px-6 py-12 animate-fade-in">
+      <div className="flex flex-wrap items-center gap-4 mb-8">
+        <h2 className="text-2xl font-bold">{entry.fileName}</h2>
+        <div className="flex gap-2">
+          <span className="px-3 py-1 rounded-full bg-blue-500/20 text-blue-400 text-sm font-medium">{entry.format}</span>
+          {entry.units && (
+            <span className="px-3 py-1 rounded-full bg-white/10 text-white/70 text-sm font-medium">{LENGTH_UNITS[entry.units.unit].label}</span>
           )}
-        </div>
-
-        {/* Surface Features */}
-        <div>
-          <SectionHeader id="surface" title="Rilievi e Incisioni" icon="✨" />
-          {expandedSections.surface && (
-            <div className="pb-2 border-t border-white/5">
-              <DataRow label="Rilievi Potenziali" value={data.surfaceFeatures.potentialReliefs} />
-              <DataRow label="Incisioni Potenziali" value={data.surfaceFeatures.potentialEngravings} />
-              <DataRow 
-                label="Larghezza Min Caratteristica" 
-                value={data.surfaceFeatures.minFeatureWidth > 0 ? data.surfaceFeatures.minFeatureWidth.toFixed(4) : 'N/A'} 
-                unit={data.surfaceFeatures.minFeatureWidth > 0 ? 'mm' : ''} 
-              />
-              <DataRow label="Altezza Max Variazione" value={data.surfaceFeatures.maxFeatureHeight.toFixed(4)} unit="mm" />
-              <DataRow label="Variazioni Altezza Rilevate" value={data.surfaceFeatures.heightVariations.length} />
-            </div>
+          <span className="px-3 py-1 rounded-full bg-emerald-500/20 text-emerald-400 text-sm font-medium">
+            {entry.passedCount} OK
+          </span>
+          {entry.warningCount > 0 && (
+            <span className="px-3 py-1 rounded-full bg-amber-500/20 text-amber-400 text-sm font-medium">
+              {entry.warningCount} Avvisi
+            </span>
           )}
-        </div>
-
-        {/* Wall Thickness */}
-        <div>
-          <SectionHeader id="walls" title="Spessore Parete" icon="🧱" />
-          {expandedSections.walls && (
-            <div className="pb-2 border-t border-white/5">
-              {/* Quality Indicator */}
-              <div className="px-3 py-3 bg-white/5 border-b border-white/5">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-white/60 text-sm">Qualità Spessore</span>
-                  <span className={`font-bold text-lg ${
-                    data.wallThickness.qualityScore >= 75 ? 'text-emerald-400' :
-                    data.wallThickness.qualityScore >= 50 ? 'text-amber-400' :
-                    'text-red-400'
-                  }`}>
-                    {data.wallThickness.qualityGrade} ({data.wallThickness.qualityScore}/100)
-                  </span>
-                </div>
-                <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
-                  <div 
-                    className={`h-full transition-all ${
-                      data.wallThickness.qualityScore >= 75 ? 'bg-emerald-500' :
-                      data.wallThickness.qualityScore >= 50 ? 'bg-amber-500' :
-                      'bg-red-500'
-                    }`}
-                    style={{ width: `${data.wallThickness.qualityScore}%` }}
-                  />
-                </div>
-              </div>
-              
-              {/* Core Measurements */}
-              <DataRow label="Spessore Minimo" value={data.wallThickness.minThickness.toFixed(4)} unit="mm" highlight={data.wallThickness.minThickness < 1} />
-              <DataRow label="Spessore Massimo" value={data.wallThickness.maxThickness.toFixed(4)} unit="mm" />
-              <DataRow label="Spessore Medio" value={data.wallThickness.avgThickness.toFixed(4)} unit="mm" />
-              <DataRow label="Spessore Mediano" value={data.wallThickness.medianThickness.toFixed(4)} unit="mm" />
-              <DataRow label="Deviazione Standard" value={data.wallThickness.stdDeviation.toFixed(4)} unit="mm" />
-              
-              {/* Sampling Info */}
-              <div className="px-3 py-2 border-t border-white/5 mt-2">
-                <p className="text-white/40 text-xs uppercase tracking-wider mb-2">Analisi Campionamento</p>
-              </div>
-              <DataRow label="Punti Campionati" value={data.wallThickness.sampleCount.toLocaleString()} />
-              
-              {/* Thin Area Detection */}
-              <div className="px-3 py-2 border-t border-white/5 mt-2">
-                <p className="text-white/40 text-xs uppercase tracking-wider mb-2">Aree Critiche</p>
-              </div>
-              <DataRow label="Aree Sottili (<1mm)" value={data.wallThickness.thinAreas} highlight={data.wallThickness.thinAreas > 0} />
-              <DataRow label="Aree Borderline (1-1.2mm)" value={data.wallThickness.borderlineAreas} highlight={data.wallThickness.borderlineAreas > 0} />
-              <DataRow label="% Superficie <1mm" value={data.wallThickness.percentBelow1mm.toFixed(2)} unit="%" highlight={data.wallThickness.percentBelow1mm > 0} />
-              <DataRow label="% Superficie <1.2mm" value={data.wallThickness.percentBelow1_2mm.toFixed(2)} unit="%" highlight={data.wallThickness.percentBelow1_2mm > 5} />
-            </div>
+          {entry.errorCount > 0 && (
+            <span className="px-3 py-1 rounded-full bg-red-500/20 text-red-400 text-sm font-medium">
+              {entry.errorCount} Errori
+            </span>
           )}
         </div>
+        <button
+          onClick={onReanalyze}
+          disabled={isLoading}
+          className="px-3 py-1 text-sm rounded-md bg-white text-black font-semibold hover:bg-white/90 transition-colors disabled:opacity-50"
+        >
+          Ricarica e rianalizza il modello
+        </button>
+      </div>
 
-        {/* Geometric Complexity */}
-        <div>
-          <SectionHeader id="complexity" title="Complessità Geometrica" icon="🔬" />
-          {expandedSections.complexity && (
-            <div className="pb-2 border-t border-white/5">
-              <DataRow label="Densità Triangoli" value={data.geometricComplexity.triangleDensity.toFixed(6)} unit="tri/mm²" />
-              <DataRow label="Varianza Curvatura" value={data.geometricComplexity.surfaceCurvatureVariance.toFixed(6)} />
-              <DataRow label="Componenti" value={data.geometricComplexity.componentCount} />
-              <DataRow label="Genus (Fori Topologici)" value={data.geometricComplexity.genus} />
-              <DataRow label="Base Piana" value={data.geometricComplexity.hasFlatBase ? 'Sì' : 'No'} highlight={!data.geometricComplexity.hasFlatBase} />
-              <DataRow label="Area Base Piana" value={data.geometricComplexity.flatBaseArea.toFixed(4)} unit="mm²" />
-              {data.geometricComplexity.flatBaseNormal && (
-                <div className="px-3 py-2">
-                  <span className="text-white/60 text-sm">Normale Base: </span>
-                  <span className="font-mono text-xs">
-                    ({data.geometricComplexity.flatBaseNormal.x.toFixed(3)}, {data.geometricComplexity.flatBaseNormal.y.toFixed(3)}, {data.geometricComplexity.flatBaseNormal.z.toFixed(3)})
-                  </span>
-                </div>
-              )}
-            </div>
-          )}
-        </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 mb-8">
+        {[
+          { label: "Dimensioni", value: `${dimensions.length.toFixed(1)} × ${dimensions.width.toFixed(1)} × ${dimensions.height.toFixed(1)}` },
+          { label: "Volume", value: `${volume.toFixed(1)} mm³` },
+          { label: "Area", value: `${surfaceArea.toFixed(1)} mm²` },
+          { label: "Triangoli", value: triangleCount.toLocaleString() },
+          { label: "Spessore Min", value: minWallThickness !== null ? `${minWallThickness.toFixed(2)} mm` : "N/A" },
+          { label: "Mesh Chiusa", value: isWatertight ? "Sì" : "No" },
+        ].map((item) => (
+          <div key={item.label} className="p-3 rounded-lg bg-white/5 border border-white/10">
+            <p className="text-xs text-white/50 mb-1">{item.label}</p>
+            <p className="font-mono text-sm">{item.value}</p>
+          </div>
+        ))}
       </div>
-    </div>
+
+      <h3 className="text-lg font-semibold mb-4 text-white/80">Risultati Validazione (salvati)</h3>
+      <p className="text-sm text-white/50 mb-4">
+        Vista 3D, dati completi, orientamento e quote richiedono il modello: ricaricalo per rianalizzarlo con le stesse linee guida.
+      </p>
+      <ResultList results={entry.results} />
+    </section>
   );
 }
 
@@ -1329,61 +769,293 @@ function Index() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>("");
   const [showDataPanel, setShowDataPanel] = useState(true);
+  const [analysisStage, setAnalysisStage] = useState<AnalysisStage | null>(null);
+  const [selectedPose, setSelectedPose] = useState<number | null>(null);
+  const [selectedBody, setSelectedBody] = useState<number | null>(null);
+  const [dimensions, setDimensions] = useState<NominalDimension[]>([]);
+  const [pickTarget, setPickTarget] = useState<PickTarget | null>(null);
+  const [profiles, setProfiles] = useState<GuidelineProfile[]>([DEFAULT_PROFILE]);
+  const [activeProfileId, setActiveProfile] = useState(getActiveProfileId);
+  const [profileError, setProfileError] = useState("");
+  // Unit forced on files without one (STL, OBJ, PLY); null leaves it to detection
+  const [meshUnit, setMeshUnit] = useState<LengthUnit | null>(null);
+  // An analysis opened from the history, shown with the guidelines it was run with
+  const [restored, setRestored] = useState<HistoryEntryDetail | null>(null);
+  const [historyNotice, setHistoryNotice] = useState<{ saved: boolean; text: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const lastRunRef = useRef<{ file: File; unit?: LengthUnit; entry: HistoryEntryDetail | null } | null>(null);
+  const search = useSearch();
+  const [, navigate] = useLocation();
+  const restoreId = Number(new URLSearchParams(search).get("analisi")) || null;
 
-  const processFile = useCallback(async (file: File) => {
-    const lowerName = file.name.toLowerCase();
-    const isSTL = lowerName.endsWith(".stl");
-    const isSTEP = lowerName.endsWith(".step") || lowerName.endsWith(".stp");
+  useEffect(() => {
+    listProfiles()
+      .then(stored => setProfiles([DEFAULT_PROFILE, ...stored]))
+      .catch(err => {
+        setProfileError("Profili salvati non disponibili, in uso il profilo predefinito");
+        console.error(err);
+      });
+  }, []);
+
+  // A profile deleted elsewhere falls back to the built-in one
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? DEFAULT_PROFILE;
+  const guidelines = restored?.guidelines ?? activeProfile.guidelines;
+
+  // A new file, profile or unit is a new analysis, no longer the one opened from the history
+  const leaveRestore = useCallback(() => {
+    if (lastRunRef.current) lastRunRef.current.entry = null;
+    setRestored(null);
+    if (restoreId) navigate("/", { replace: true });
+  }, [restoreId, navigate]);
+
+  // Stored results without a model stay on screen until the user runs an analysis
+  const selectProfile = useCallback((id: number) => {
+    if (lastRunRef.current) leaveRestore();
+    setActiveProfileId(id);
+    setActiveProfile(id);
+  }, [leaveRestore]);
+
+  const selectMeshUnit = useCallback((unit: LengthUnit | null) => {
+    if (lastRunRef.current) leaveRestore();
+    setMeshUnit(unit);
+  }, [leaveRestore]);
+
+  // A restored entry is analyzed again as it was. Only analyses the user started are saved,
+  // not the re-runs that follow a change of profile or unit.
+  const processFile = useCallback(async (file: File, { entry = null, save = false }: { entry?: HistoryEntryDetail | null; save?: boolean } = {}) => {
+    const format = formatOf(file.name);
     
-    if (!isSTL && !isSTEP) {
-      setError("Per favore carica un file STL o STEP/STP");
+    if (!format) {
+      setError(`Formato non supportato: carica un file ${ACCEPTED_EXTENSIONS.join(", ")}`);
       return;
     }
 
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     setIsLoading(true);
     setError("");
+    setAnalysisStage(null);
     setFileName(file.name);
+    setHistoryNotice(null);
 
+    const runGuidelines = entry?.guidelines ?? activeProfile.guidelines;
+    const units = entry ? (entry.units?.source === "chosen" ? entry.units.unit : null) : meshUnit;
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      
-      if (isSTL) {
-        const loader = new STLLoader();
-        const geometry = loader.parse(arrayBuffer);
-        const data = analyzeSTLGeometry(geometry);
-        setModelData(data);
-        setValidationResults(validateModel(data));
-      } else {
-        // STEP/STP file
-        const geometry = await parseSTEPFile(arrayBuffer);
-        const data = analyzeSTEPGeometry(geometry);
-        setModelData(data);
-        setValidationResults(validateModel(data));
+      const data = await runAnalysis(file, runGuidelines, units, {
+        onProgress: setAnalysisStage,
+        signal: controller.signal,
+      });
+      const results = validateModel(data, runGuidelines);
+      setModelData(data);
+      setValidationResults(results);
+      setSelectedPose(null);
+      setSelectedBody(null);
+      // Picks refer to triangles and coordinates of the previous mesh; re-analyzing the
+      // same file at the same scale keeps them
+      const lastRun = lastRunRef.current;
+      if (file !== lastRun?.file || data.units?.unit !== lastRun.unit) {
+        setDimensions([]);
+        setPickTarget(null);
+      }
+      lastRunRef.current = { file, unit: data.units?.unit, entry };
+      if (save && !entry) {
+        saveAnalysis(file, data, results, activeProfile)
+          .then(() => setHistoryNotice({ saved: true, text: "Salvata nello storico" }))
+          .catch(err => {
+            setHistoryNotice({ saved: false, text: `Non salvata nello storico: ${err instanceof Error ? err.message : err}` });
+            console.error(err);
+          });
       }
     } catch (err) {
-      setError(isSTL ? "Errore nel parsing del file STL" : "Errore nel parsing del file STEP");
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error && err.message ? err.message : `Errore nel parsing del file ${format}`);
       console.error(err);
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+        setAnalysisStage(null);
+      }
+    }
+  }, [activeProfile, meshUnit]);
+
+  const cancelAnalysis = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setError("Analisi annullata");
+  }, []);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Part of the analysis itself is measured against the profile, and a new unit rescales
+  // the mesh, so either means a new run
+  useEffect(() => {
+    if (lastRunRef.current) processFile(lastRunRef.current.file, { entry: lastRunRef.current.entry });
+  }, [processFile]);
+
+  // Opening an entry of the history (/?analisi=<id>) shows what was saved; the model is
+  // downloaded and analyzed again only on request
+  useEffect(() => {
+    if (!restoreId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError("");
+    getHistoryEntry(restoreId)
+      .then(entry => {
+        if (cancelled) return;
+        abortControllerRef.current?.abort();
+        // The previous file must not be re-run for the unit change below
+        lastRunRef.current = null;
+        setModelData(null);
+        setValidationResults([]);
+        setHistoryNotice(null);
+        setFileName(entry.fileName);
+        setRestored(entry);
+        setMeshUnit(entry.units?.source === "chosen" ? entry.units.unit : null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error && err.message ? err.message : "Impossibile aprire l'analisi dallo storico");
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [restoreId]);
+
+  // The model of a restored entry, downloaded the first time it is needed
+  const restoredFile = useCallback(async (entry: HistoryEntryDetail) => {
+    const lastRun = lastRunRef.current;
+    if (lastRun) return lastRun.file;
+    setIsLoading(true);
+    setError("");
+    try {
+      return await fetchHistoryFile(entry);
+    } catch (err) {
       setIsLoading(false);
+      setError(err instanceof Error && err.message ? err.message : "Impossibile scaricare il modello dallo storico");
+      console.error(err);
+      return null;
     }
   }, []);
 
+  const reanalyzeRestored = useCallback(async () => {
+    if (!restored) return;
+    const file = await restoredFile(restored);
+    if (file) processFile(file, { entry: restored });
+  }, [restored, restoredFile, processFile]);
+
+  const rerunWithActiveProfile = useCallback(async () => {
+    if (!restored) return;
+    const file = await restoredFile(restored);
+    if (!file) return;
+    leaveRestore();
+    processFile(file, { save: true });
+  }, [restored, restoredFile, leaveRestore, processFile]);
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     const file = e.dataTransfer.files[0];
-    if (file) processFile(file);
-  }, [processFile]);
+    if (file) {
+      leaveRestore();
+      processFile(file, { save: true });
+    }
+  }, [processFile, leaveRestore]);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) processFile(file);
-  }, [processFile]);
+    if (file) {
+      leaveRestore();
+      processFile(file, { save: true });
+    }
+  }, [processFile, leaveRestore]);
+
+  // In an assembly the results are those of the selected body, or of the whole file
+  const assembly = modelData?.assembly ?? null;
+  const body = assembly && selectedBody !== null ? assembly.bodies[selectedBody] : null;
+  const subject = body ? body.data : modelData;
+  const bodyResults = useMemo(
+    () => (assembly ? assembly.bodies.map(b => validateModel(b.data, guidelines)) : []),
+    [assembly, guidelines]
+  );
+  const selectBody = useCallback((index: number | null) => {
+    setSelectedBody(index);
+    setSelectedPose(null);
+  }, []);
 
-  const passedCount = validationResults.filter((r) => r.passed).length;
-  const failedCount = validationResults.filter((r) => !r.passed).length;
-  const warningCount = validationResults.filter((r) => r.severity === "warning").length;
+  // Validation is re-run in the chosen build pose; the file's own orientation otherwise
+  const pose = subject && selectedPose !== null ? subject.orientation.poses[selectedPose] : null;
+  const displayData = useMemo(() => (subject && pose ? applyPose(subject, pose) : subject), [subject, pose]);
+  // Nominal dimensions are picked on the whole model
+  const measurements = useMemo(
+    () => (modelData ? measureDimensions(modelData.geometry.getAttribute("position") as THREE.BufferAttribute, dimensions, guidelines) : []),
+    [modelData, dimensions, guidelines]
+  );
+  const displayResults = useMemo(() => {
+    if (body && selectedBody !== null) return pose && displayData ? validateModel(displayData, guidelines) : bodyResults[selectedBody];
+    return displayData && (displayData !== modelData || measurements.length > 0) ? validateModel(displayData, guidelines, measurements) : validationResults;
+  }, [body, selectedBody, pose, displayData, modelData, measurements, guidelines, bodyResults, validationResults]);
+  const viewerOrientation = useMemo(() => (pose ? poseQuaternion(pose) : null), [pose]);
+  const viewerHighlight = useMemo(() => (body ? { start: body.triangleStart, count: body.triangleCount } : null), [body]);
+  const dimensionMarkers = useMemo(
+    () => dimensions.flatMap(d => [d.a, d.b].flatMap(pick => (pick ? [pick.point] : []))),
+    [dimensions]
+  );
+
+  // After the first end of a dimension the viewer waits for the second one
+  const handlePick = useCallback((pick: DimensionPick) => {
+    if (!pickTarget) return;
+    setDimensions(prev => prev.map(d => (d.id === pickTarget.id ? { ...d, [pickTarget.end]: pick } : d)));
+    setPickTarget(pickTarget.end === "a" ? { id: pickTarget.id, end: "b" } : null);
+  }, [pickTarget]);
+
+  // The profile of a restored analysis may have been edited or deleted since
+  const restoredProfile = restored ? profiles.find(p => p.id === restored.profileId) : undefined;
+  const restoredDrift = !restored
+    ? ""
+    : !restoredProfile
+    ? " Il profilo non esiste più."
+    : JSON.stringify(restoredProfile.guidelines) !== JSON.stringify(restored.guidelines)
+    ? " Il profilo è stato modificato da allora."
+    : "";
+
+  // The report covers what is on screen: the selected body, in the selected pose
+  const createReport = (output: "print" | "download") => {
+    if (!modelData || !displayData) return;
+    try {
+      const html = buildReport({
+        fileName,
+        fileSize: lastRunRef.current?.file.size ?? null,
+        bodyName: body?.name ?? null,
+        pose: pose && selectedPose !== null
+          ? `Posa #${selectedPose + 1}: ${pose.dimensions.length.toFixed(1)} × ${pose.dimensions.width.toFixed(1)} × ${pose.dimensions.height.toFixed(1)} mm`
+          : null,
+        data: displayData,
+        results: displayResults,
+        profileName: restored?.profileName ?? activeProfile.name,
+        guidelines,
+        analyzedAt: restored?.createdAt ?? null,
+        views: renderSnapshots(modelData.geometry, { range: viewerHighlight, orientation: viewerOrientation }),
+      });
+      if (output === "print") {
+        printReport(html);
+      } else {
+        downloadBlob(new Blob([html], { type: "text/html" }), `${fileName.replace(/\.[^.]+$/, "")}_rapporto.html`);
+      }
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Impossibile creare il rapporto");
+      console.error(err);
+    }
+  };
+
+  const passedCount = displayResults.filter((r) => r.passed).length;
+  const failedCount = displayResults.filter((r) => !r.passed).length;
+  const warningCount = displayResults.filter((r) => r.severity === "warning").length;
+  const stageIndex = ANALYSIS_STAGES.findIndex((s) => s.id === analysisStage);
 
   return (
     <div className="min-h-screen bg-black text-white">
@@ -1402,7 +1074,7 @@ function Index() {
             </h1>
             
             <p className="text-lg md:text-xl text-white/60 max-w-2xl mb-12 leading-relaxed">
-              Analisi avanzata di file STL e STEP/STP con validazione precisa secondo le linee guida di produzione italiana. 
+              Analisi avanzata di file STL, STEP, IGES, OBJ, 3MF, PLY e glTF con validazione precisa secondo le linee guida di produzione italiana. 
               Estrazione completa di dati geometrici, spigoli, cavità, spessore parete e complessità.
             </p>
 
@@ -1413,7 +1085,7 @@ function Index() {
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
               </svg>
-              Carica File STL/STEP
+              Carica Modello 3D
             </button>
           </div>
         </div>
@@ -1421,6 +1093,60 @@ function Index() {
 
       {/* Upload Area */}
       <section className="max-w-6xl mx-auto px-6 py-12">
+        {/* Guideline Profile */}
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label htmlFor="guideline-profile" className="text-sm text-white/60">Profilo linee guida</label>
+          <select
+            id="guideline-profile"
+            value={activeProfile.id}
+            onChange={(e) => selectProfile(Number(e.target.value))}
+            disabled={isLoading}
+            className="px-3 py-1.5 text-sm rounded-md bg-white/5 border border-white/10 focus:outline-none focus:border-white/30 disabled:opacity-50"
+          >
+            {profiles.map((profile) => (
+              <option key={profile.id} value={profile.id} className="bg-black">{profile.name}</option>
+            ))}
+          </select>
+          <Link href="/profili" className="text-sm text-white/50 hover:text-white underline underline-offset-4 transition-colors">
+            Gestisci profili
+          </Link>
+          <Link href="/history" className="text-sm text-white/50 hover:text-white underline underline-offset-4 transition-colors">
+            Storico analisi
+          </Link>
+          <Link href="/confronto" className="text-sm text-white/50 hover:text-white underline underline-offset-4 transition-colors">
+            Confronta revisioni
+          </Link>
+          <label htmlFor="mesh-unit" className="ml-4 text-sm text-white/60">Unità {UNITLESS_FORMATS.join("/")}</label>
+          <select
+            id="mesh-unit"
+            value={meshUnit ?? ""}
+            onChange={(e) => selectMeshUnit((e.target.value || null) as LengthUnit | null)}
+            disabled={isLoading}
+            className="px-3 py-1.5 text-sm rounded-md bg-white/5 border border-white/10 focus:outline-none focus:border-white/30 disabled:opacity-50"
+          >
+            <option value="" className="bg-black">Rilevamento automatico</option>
+            {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map((unit) => (
+              <option key={unit} value={unit} className="bg-black">{LENGTH_UNITS[unit].label}</option>
+            ))}
+          </select>
+          {profileError && <span className="text-sm text-amber-400">{profileError}</span>}
+        </div>
+
+        {restored && (
+          <div className="flex flex-wrap items-center gap-3 mb-4 p-4 rounded-lg bg-blue-500/10 border border-blue-500/20 text-sm text-blue-300">
+            <span className="flex-1">
+              Analisi dallo storico del {new Date(restored.createdAt).toLocaleString("it-IT")}, con le linee guida di allora del profilo «{restored.profileName}».{restoredDrift}
+            </span>
+            <button
+              onClick={rerunWithActiveProfile}
+              disabled={isLoading}
+              className="px-3 py-1 rounded-md bg-white/5 hover:bg-white/10 border border-white/10 text-white transition-colors disabled:opacity-50"
+            >
+              Rianalizza con «{activeProfile.name}»
+            </button>
+          </div>
+        )}
+
         <div
           onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
           onDragLeave={() => setIsDragging(false)}
@@ -1437,7 +1163,7 @@ function Index() {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".stl,.step,.stp"
+            accept={ACCEPTED_EXTENSIONS.join(",")}
             onChange={handleFileChange}
             className="hidden"
           />
@@ -1449,9 +1175,9 @@ function Index() {
               </svg>
             </div>
             <p className="text-xl font-medium mb-2">
-              {isDragging ? "Rilascia il file qui" : "Trascina il file STL o STEP qui"}
+              {isDragging ? "Rilascia il file qui" : "Trascina qui il modello 3D"}
             </p>
-            <p className="text-white/50">oppure clicca per selezionare • Formati: .stl, .step, .stp</p>
+            <p className="text-white/50">oppure clicca per selezionare • Formati: {ACCEPTED_EXTENSIONS.join(", ")}</p>
           </div>
         </div>
 
@@ -1462,23 +1188,54 @@ function Index() {
         )}
 
         {isLoading && (
-          <div className="mt-8 flex items-center justify-center gap-3">
-            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-            <span className="text-white/60">Analisi avanzata in corso...</span>
+          <div className="mt-8 max-w-md mx-auto">
+            <div className="flex items-center justify-center gap-3">
+              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              <span className="text-white/60">
+                {analysisStage
+                  ? `${ANALYSIS_STAGES.find(s => s.id === analysisStage)?.label}... (${stageIndex + 1}/${ANALYSIS_STAGES.length})`
+                  : "Caricamento file..."}
+              </span>
+              <button
+                onClick={cancelAnalysis}
+                className="ml-2 px-3 py-1 text-sm rounded-md bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+              >
+                Annulla
+              </button>
+            </div>
+            <div className="mt-3 w-full h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-white/60 transition-all"
+                style={{ width: `${((stageIndex + 1) / ANALYSIS_STAGES.length) * 100}%` }}
+              />
+            </div>
           </div>
         )}
       </section>
 
       {/* Results Section */}
-      {modelData && (
+      {modelData && subject && displayData && (
         <section className="max-w-6xl mx-auto px-6 py-12 animate-fade-in">
           {/* File Info */}
           <div className="flex flex-wrap items-center gap-4 mb-8">
-            <h2 className="text-2xl font-bold">{fileName}</h2>
+            <h2 className="text-2xl font-bold">
+              {fileName}
+              {body && <span className="text-white/50 font-normal"> / {body.name}</span>}
+            </h2>
             <div className="flex gap-2">
               <span className="px-3 py-1 rounded-full bg-blue-500/20 text-blue-400 text-sm font-medium">
                 {modelData.fileFormat || "STL"}
               </span>
+              {modelData.units && (
+                <span
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${modelData.units.unit === "mm" ? 'bg-white/10 text-white/70' : 'bg-amber-500/20 text-amber-400'}`}
+                  title={modelData.units.detected && modelData.units.source === "chosen" ? `Unità rilevata: ${LENGTH_UNITS[modelData.units.detected].label}` : undefined}
+                >
+                  {LENGTH_UNITS[modelData.units.unit].label}
+                  {modelData.units.unit !== "mm" && " → mm"}
+                  {modelData.units.source === "detected" ? " (rilevata)" : modelData.units.source === "chosen" ? " (scelta)" : " (dal file)"}
+                </span>
+              )}
               <span className="px-3 py-1 rounded-full bg-emerald-500/20 text-emerald-400 text-sm font-medium">
                 {passedCount} OK
               </span>
@@ -1493,6 +1250,23 @@ function Index() {
                 </span>
               )}
             </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => createReport("print")}
+                className="px-3 py-1 text-sm rounded-md bg-white text-black font-semibold hover:bg-white/90 transition-colors"
+              >
+                Stampa rapporto / PDF
+              </button>
+              <button
+                onClick={() => createReport("download")}
+                className="px-3 py-1 text-sm rounded-md bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+              >
+                Scarica HTML
+              </button>
+            </div>
+            {historyNotice && (
+              <span className={`text-sm ${historyNotice.saved ? 'text-white/40' : 'text-amber-400'}`}>{historyNotice.text}</span>
+            )}
           </div>
 
           {/* Quick Stats Row */}
@@ -1500,31 +1274,31 @@ function Index() {
             <div className="p-3 rounded-lg bg-white/5 border border-white/10">
               <p className="text-xs text-white/50 mb-1">Dimensioni</p>
               <p className="font-mono text-sm">
-                {modelData.dimensions.length.toFixed(1)} × {modelData.dimensions.width.toFixed(1)} × {modelData.dimensions.height.toFixed(1)}
+                {displayData.dimensions.length.toFixed(1)} × {displayData.dimensions.width.toFixed(1)} × {displayData.dimensions.height.toFixed(1)}
               </p>
             </div>
             <div className="p-3 rounded-lg bg-white/5 border border-white/10">
-              <p className="text-xs text-white/50 mb-1">Volume</p>
-              <p className="font-mono text-sm">{modelData.volume.toFixed(1)} mm³</p>
+              <p className="text-xs text-white/50 mb-1">Volume{!displayData.volumeReliable && " (non affidabile)"}</p>
+              <p className={`font-mono text-sm ${displayData.volumeReliable ? '' : 'text-amber-400'}`}>{displayData.volume.toFixed(1)} mm³</p>
             </div>
             <div className="p-3 rounded-lg bg-white/5 border border-white/10">
               <p className="text-xs text-white/50 mb-1">Area</p>
-              <p className="font-mono text-sm">{modelData.surfaceArea.toFixed(1)} mm²</p>
+              <p className="font-mono text-sm">{displayData.surfaceArea.toFixed(1)} mm²</p>
             </div>
             <div className="p-3 rounded-lg bg-white/5 border border-white/10">
               <p className="text-xs text-white/50 mb-1">Triangoli</p>
-              <p className="font-mono text-sm">{modelData.triangleCount.toLocaleString()}</p>
+              <p className="font-mono text-sm">{displayData.triangleCount.toLocaleString()}</p>
             </div>
             <div className="p-3 rounded-lg bg-white/5 border border-white/10">
               <p className="text-xs text-white/50 mb-1">Spigoli Vivi</p>
-              <p className={`font-mono text-sm ${modelData.edgeAnalysis.sharpEdges > 0 ? 'text-amber-400' : ''}`}>
-                {modelData.edgeAnalysis.sharpEdges}
+              <p className={`font-mono text-sm ${displayData.edgeAnalysis.sharpEdges > 0 ? 'text-amber-400' : ''}`}>
+                {displayData.edgeAnalysis.sharpEdges}
               </p>
             </div>
             <div className="p-3 rounded-lg bg-white/5 border border-white/10">
               <p className="text-xs text-white/50 mb-1">Spessore Min</p>
-              <p className={`font-mono text-sm ${modelData.wallThickness.minThickness < 1 ? 'text-red-400' : ''}`}>
-                {modelData.wallThickness.minThickness.toFixed(2)} mm
+              <p className={`font-mono text-sm ${displayData.wallThickness.minThickness < guidelines.wallThickness.min ? 'text-red-400' : ''}`}>
+                {displayData.wallThickness.minThickness.toFixed(2)} mm
               </p>
             </div>
           </div>
@@ -1548,89 +1322,77 @@ function Index() {
             </button>
           </div>
 
+          {/* Assembly Tree */}
+          {assembly && (
+            <div className="mb-8">
+              <AssemblyPanel assembly={assembly} results={bodyResults} selected={selectedBody} onSelect={selectBody} />
+            </div>
+          )}
+
           <div className="grid lg:grid-cols-2 gap-8">
             {/* Left Column */}
             <div className="space-y-6">
               {/* 3D Preview */}
               <div>
                 <h3 className="text-lg font-semibold mb-4 text-white/80">Anteprima 3D</h3>
-                <STLViewer geometry={modelData.geometry} />
+                <STLViewer
+                  geometry={modelData.geometry}
+                  orientation={viewerOrientation}
+                  markers={dimensionMarkers}
+                  onPick={pickTarget ? handlePick : null}
+                  highlight={viewerHighlight}
+                />
               </div>
 
               {/* Data Panel */}
-              {showDataPanel && <DataPanel data={modelData} />}
+              {showDataPanel && <DataPanel data={displayData} guidelines={guidelines} />}
+
+              {/* Print Orientation */}
+              <OrientationPanel poses={subject.orientation.poses} guidelines={guidelines} selected={selectedPose} onSelect={setSelectedPose} />
+
+              {/* Nominal Dimensions */}
+              <DimensionPanel
+                geometry={modelData.geometry}
+                dimensions={dimensions}
+                measurements={measurements}
+                guidelines={guidelines}
+                pickTarget={pickTarget}
+                onChange={setDimensions}
+                onPickTarget={setPickTarget}
+              />
+
+              {/* Mesh Repair */}
+              <MeshRepairPanel data={modelData} results={validationResults} guidelines={guidelines} fileName={fileName} />
             </div>
 
             {/* Validation Results */}
             <div>
               <h3 className="text-lg font-semibold mb-4 text-white/80">Risultati Validazione</h3>
-              <div className="space-y-3 max-h-[900px] overflow-y-auto pr-2">
-                {validationResults.map((result, index) => (
-                  <details
-                    key={index}
-                    className={`group rounded-lg border transition-all ${
-                      result.severity === "error"
-                        ? "bg-red-500/10 border-red-500/30 hover:border-red-500/50"
-                        : result.severity === "warning"
-                        ? "bg-amber-500/10 border-amber-500/30 hover:border-amber-500/50"
-                        : "bg-white/5 border-white/10 hover:border-white/20"
-                    }`}
-                  >
-                    <summary className="flex items-center gap-3 p-4 cursor-pointer list-none">
-                      <span className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center ${
-                        result.severity === "error" ? "bg-red-500/20" :
-                        result.severity === "warning" ? "bg-amber-500/20" :
-                        result.passed ? "bg-emerald-500/20" : "bg-white/10"
-                      }`}>
-                        {result.severity === "error" ? (
-                          <svg className="w-4 h-4 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                          </svg>
-                        ) : result.severity === "warning" ? (
-                          <svg className="w-4 h-4 text-amber-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                          </svg>
-                        ) : (
-                          <svg className="w-4 h-4 text-emerald-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                          </svg>
-                        )}
-                      </span>
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium">{result.name}</p>
-                        <p className="text-sm text-white/60 truncate">{result.message}</p>
-                      </div>
-                      <svg className="w-5 h-5 text-white/40 transition-transform group-open:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                      </svg>
-                    </summary>
-                    {result.details && (
-                      <div className="px-4 pb-4 pt-2 border-t border-white/5">
-                        <p className="text-sm text-white/70 leading-relaxed font-mono">{result.details}</p>
-                      </div>
-                    )}
-                  </details>
-                ))}
-              </div>
+              <ResultList results={displayResults} />
             </div>
           </div>
         </section>
       )}
 
+      {restored && !modelData && (
+        <StoredAnalysis entry={restored} isLoading={isLoading} onReanalyze={reanalyzeRestored} />
+      )}
+
       {/* Guidelines Reference */}
       <section className="max-w-6xl mx-auto px-6 py-16 border-t border-white/10 mt-12">
-        <h2 className="text-2xl font-bold mb-8">Linee Guida di Produzione</h2>
+        <h2 className="text-2xl font-bold mb-2">Linee Guida di Produzione</h2>
+        <p className="text-white/50 mb-8">Profilo attivo: {activeProfile.name}</p>
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
           {[
-            { title: "Dimensioni Max", value: "50 × 80 × 40 mm" },
-            { title: "Spessore Parete", value: "1 - 15 mm" },
-            { title: "Tolleranza (<10mm)", value: "±0.1 mm" },
-            { title: "Tolleranza (≥10mm)", value: "±1%" },
-            { title: "Aspect Ratio", value: "Max 10:1" },
-            { title: "Raggio Min Curvatura", value: "0.5 mm" },
-            { title: "Distanza Parti", value: "Min 1 mm" },
-            { title: "Caratteri Min", value: "4 mm altezza" },
-            { title: "Linee Min", value: "0.5 mm larghezza" },
+            { title: "Dimensioni Max", value: `${guidelines.maxDimensions.length} × ${guidelines.maxDimensions.width} × ${guidelines.maxDimensions.height} mm` },
+            { title: "Spessore Parete", value: `${guidelines.wallThickness.min} - ${guidelines.wallThickness.max} mm` },
+            { title: `Tolleranza (<${guidelines.tolerance.threshold}mm)`, value: `±${guidelines.tolerance.absolute} mm` },
+            { title: `Tolleranza (≥${guidelines.tolerance.threshold}mm)`, value: `±${guidelines.tolerance.percent}%` },
+            { title: "Aspect Ratio", value: `Max ${guidelines.aspectRatioMax}:1` },
+            { title: "Raggio Min Curvatura", value: `${guidelines.minCurvatureRadius} mm` },
+            { title: "Distanza Parti", value: `Min ${guidelines.minGap} mm` },
+            { title: "Caratteri Min", value: `${guidelines.minCharacterHeight} mm altezza` },
+            { title: "Linee Min", value: `${guidelines.minLineWidth} mm larghezza` },
           ].map((item, i) => (
             <div key={i} className="p-4 rounded-lg bg-white/5 border border-white/10">
               <p className="text-sm text-white/50 mb-1">{item.title}</p>
@@ -1643,7 +1405,7 @@ function Index() {
       {/* Footer */}
       <footer className="max-w-6xl mx-auto px-6 py-8 border-t border-white/10">
         <p className="text-center text-white/40 text-sm">
-          Validatore 3D Pro per stampa industriale • Supporta STL e STEP/STP • Analisi avanzata secondo linee guida manifattura italiana
+          Validatore 3D Pro per stampa industriale • Supporta STL, STEP, IGES, BREP, OBJ, 3MF, PLY e glTF • Analisi avanzata secondo linee guida manifattura italiana
         </p>
       </footer>
 
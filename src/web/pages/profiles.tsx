@@ -0,0 +1,469 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "wouter";
+import { expressionError } from "../../shared/analysis/customRules";
+import { GUIDELINES } from "../../shared/analysis/guidelines";
+import type { ChannelSpec, CustomRule, GuidelineProfile, Guidelines, RuleCategory } from "../../shared/analysis/types";
+import { RULE_CATEGORIES, listRules } from "../../shared/analysis/validation";
+import {
+  DEFAULT_PROFILE,
+  FIELD_GROUPS,
+  createProfile,
+  deleteProfile,
+  duplicateProfile,
+  getActiveProfileId,
+  listProfiles,
+  setActiveProfileId,
+  updateProfile,
+} from "../lib/profiles";
+
+// Empty inputs stay NaN in the draft and are rejected when saving
+const parseNumber = (text: string) => (text.trim() === "" ? NaN : Number(text));
+const formatNumber = (value: number | undefined) => (value === undefined || !Number.isFinite(value) ? "" : String(value));
+
+// The profile being edited; a new one has no id until it is saved
+interface ProfileDraft {
+  id: number | null;
+  name: string;
+  guidelines: Guidelines;
+}
+
+const draftOf = (profile: GuidelineProfile): ProfileDraft => ({ id: profile.id, name: profile.name, guidelines: profile.guidelines });
+
+interface ChannelTableProps {
+  specs: ChannelSpec[];
+  readOnly: boolean;
+  onChange: (specs: ChannelSpec[]) => void;
+}
+
+function ChannelTable({ specs, readOnly, onChange }: ChannelTableProps) {
+  const update = (index: number, patch: Partial<ChannelSpec>) => {
+    onChange(specs.map((spec, i) => (i === index ? { ...spec, ...patch } : spec)));
+  };
+  // A blank optional limit is no limit at all
+  const optional = (text: string) => (text.trim() === "" ? undefined : Number(text));
+
+  return (
+    <div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-white/50">
+            <th className="font-normal py-1 pr-2">Ø da (mm)</th>
+            <th className="font-normal py-1 pr-2">Ø fino a (mm)</th>
+            <th className="font-normal py-1 pr-2">Profondità max (mm)</th>
+            <th className="font-normal py-1 pr-2">Raggio curva min (mm)</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {specs.map((spec, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  step={0.1}
+                  value={formatNumber(spec.diameterRange[0])}
+                  disabled={readOnly}
+                  onChange={(e) => update(index, { diameterRange: [parseNumber(e.target.value), spec.diameterRange[1]] })}
+                  className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 font-mono disabled:opacity-60"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  step={0.1}
+                  placeholder="∞"
+                  value={formatNumber(spec.diameterRange[1])}
+                  disabled={readOnly}
+                  onChange={(e) => update(index, { diameterRange: [spec.diameterRange[0], optional(e.target.value) ?? Infinity] })}
+                  className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 font-mono disabled:opacity-60"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  placeholder="—"
+                  value={formatNumber(spec.maxDepth)}
+                  disabled={readOnly}
+                  onChange={(e) => update(index, { maxDepth: optional(e.target.value) })}
+                  className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 font-mono disabled:opacity-60"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  placeholder="—"
+                  value={formatNumber(spec.minCurvatureRadius)}
+                  disabled={readOnly}
+                  onChange={(e) => update(index, { minCurvatureRadius: optional(e.target.value) })}
+                  className="w-full px-2 py-1 rounded bg-white/5 border border-white/10 font-mono disabled:opacity-60"
+                />
+              </td>
+              <td className="py-1 text-right">
+                {!readOnly && specs.length > 1 && (
+                  <button
+                    onClick={() => onChange(specs.filter((_, i) => i !== index))}
+                    className="px-2 text-white/40 hover:text-red-400 transition-colors"
+                    title="Rimuovi fascia"
+                  >
+                    ✕
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {!readOnly && (
+        <button
+          onClick={() => onChange([...specs, { diameterRange: [specs[specs.length - 1]?.diameterRange[1] ?? 0, Infinity] }])}
+          className="mt-2 px-3 py-1 text-sm rounded-md bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+        >
+          Aggiungi Fascia
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface RuleListProps {
+  guidelines: Guidelines;
+  readOnly: boolean;
+  onChange: (guidelines: Guidelines) => void;
+}
+
+function RuleList({ guidelines, readOnly, onChange }: RuleListProps) {
+  const disabled = new Set(guidelines.disabledRules);
+  const toggle = (id: string, enabled: boolean) => onChange({
+    ...guidelines,
+    disabledRules: enabled ? guidelines.disabledRules.filter(r => r !== id) : [...guidelines.disabledRules, id],
+  });
+  const updateRule = (id: string, patch: Partial<CustomRule>) => onChange({
+    ...guidelines,
+    customRules: guidelines.customRules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)),
+  });
+  const removeRule = (id: string) => onChange({
+    ...guidelines,
+    disabledRules: guidelines.disabledRules.filter(r => r !== id),
+    customRules: guidelines.customRules.filter(rule => rule.id !== id),
+  });
+  const addRule = () => {
+    const next = Math.max(0, ...guidelines.customRules.map(rule => Number(rule.id.replace("custom-", "")) || 0)) + 1;
+    onChange({
+      ...guidelines,
+      customRules: [...guidelines.customRules, { id: `custom-${next}`, name: `Regola ${next}`, expression: "", severity: "warning" }],
+    });
+  };
+  const builtinCategories = Object.keys(RULE_CATEGORIES).filter(c => c !== "custom") as RuleCategory[];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-x-6 gap-y-3">
+        {builtinCategories.map((category) => (
+          <div key={category}>
+            <p className="text-xs uppercase tracking-wide text-white/40 mb-1">{RULE_CATEGORIES[category]}</p>
+            {listRules().filter(rule => rule.category === category).map((rule) => (
+              <label key={rule.id} className="flex items-center gap-2 py-0.5 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!disabled.has(rule.id)}
+                  disabled={readOnly}
+                  onChange={(e) => toggle(rule.id, e.target.checked)}
+                />
+                {rule.name}
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-xs uppercase tracking-wide text-white/40 mb-1">{RULE_CATEGORIES.custom}</p>
+        <p className="text-sm text-white/50 mb-2">
+          Condizioni mathjs sui campi del modello, rispettate quando sono vere: es. <span className="font-mono">volume / surfaceArea &gt; 0.8</span> o{' '}
+          <span className="font-mono">wallThickness.minThickness &gt;= guidelines.wallThickness.min * 1.5</span>
+        </p>
+        {guidelines.customRules.length === 0 && (
+          <p className="text-sm text-white/40 py-1">Nessuna regola personalizzata</p>
+        )}
+        {guidelines.customRules.map((rule) => {
+          const syntaxError = rule.expression.trim() === "" ? null : expressionError(rule.expression);
+          return (
+            <div key={rule.id} className="py-2 border-t border-white/5">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!disabled.has(rule.id)}
+                  disabled={readOnly}
+                  onChange={(e) => toggle(rule.id, e.target.checked)}
+                  title="Attiva"
+                />
+                <input
+                  type="text"
+                  value={rule.name}
+                  disabled={readOnly}
+                  onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                  className="w-40 px-2 py-1 text-sm rounded bg-white/5 border border-white/10 disabled:opacity-60"
+                />
+                <input
+                  type="text"
+                  value={rule.expression}
+                  disabled={readOnly}
+                  placeholder="volume / surfaceArea > 0.8"
+                  onChange={(e) => updateRule(rule.id, { expression: e.target.value })}
+                  className={`flex-1 min-w-[220px] px-2 py-1 text-sm rounded bg-white/5 border font-mono disabled:opacity-60 ${syntaxError ? 'border-red-500/50' : 'border-white/10'}`}
+                />
+                <select
+                  value={rule.severity}
+                  disabled={readOnly}
+                  onChange={(e) => updateRule(rule.id, { severity: e.target.value as CustomRule["severity"] })}
+                  className="px-2 py-1 text-sm rounded bg-white/5 border border-white/10 disabled:opacity-60"
+                >
+                  <option value="error" className="bg-black">Errore</option>
+                  <option value="warning" className="bg-black">Avviso</option>
+                </select>
+                {!readOnly && (
+                  <button
+                    onClick={() => removeRule(rule.id)}
+                    className="px-2 text-white/40 hover:text-red-400 transition-colors"
+                    title="Rimuovi regola"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+              {syntaxError && <p className="mt-1 text-xs text-red-400">{syntaxError}</p>}
+            </div>
+          );
+        })}
+        {!readOnly && (
+          <button
+            onClick={addRule}
+            className="mt-2 px-3 py-1 text-sm rounded-md bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+          >
+            Aggiungi Regola
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Profiles() {
+  const [profiles, setProfiles] = useState<GuidelineProfile[]>([DEFAULT_PROFILE]);
+  const [draft, setDraft] = useState<ProfileDraft>(draftOf(DEFAULT_PROFILE));
+  const [activeProfileId, setActiveProfile] = useState(getActiveProfileId);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const refresh = useCallback(async (selectId?: number) => {
+    const stored = await listProfiles();
+    const all = [DEFAULT_PROFILE, ...stored];
+    setProfiles(all);
+    const selected = all.find(p => p.id === selectId);
+    if (selected) setDraft(draftOf(selected));
+  }, []);
+
+  useEffect(() => {
+    refresh(getActiveProfileId()).catch(err => {
+      setError(err instanceof Error && err.message ? err.message : "Impossibile caricare i profili");
+      console.error(err);
+    });
+  }, [refresh]);
+
+  // Every action reports its own failure; the server's message says what was wrong
+  const run = async (action: () => Promise<void>, done: string) => {
+    setIsSaving(true);
+    setError("");
+    setNotice("");
+    try {
+      await action();
+      setNotice(done);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : "Operazione non riuscita");
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const readOnly = draft.id === DEFAULT_PROFILE.id;
+
+  const activate = (id: number) => {
+    setActiveProfileId(id);
+    setActiveProfile(id);
+  };
+
+  const save = () => run(async () => {
+    const saved = draft.id === null
+      ? await createProfile(draft.name, draft.guidelines)
+      : await updateProfile(draft.id, draft.name, draft.guidelines);
+    await refresh(saved.id);
+  }, "Profilo salvato");
+
+  // The built-in profile is not stored, so its copy is a plain create
+  const duplicate = () => run(async () => {
+    const copy = draft.id === DEFAULT_PROFILE.id
+      ? await createProfile(`${DEFAULT_PROFILE.name} (copia)`, GUIDELINES)
+      : await duplicateProfile(draft.id!);
+    await refresh(copy.id);
+  }, "Profilo duplicato");
+
+  const remove = () => {
+    if (draft.id === null || !window.confirm(`Eliminare il profilo "${draft.name}"?`)) return;
+    const id = draft.id;
+    run(async () => {
+      await deleteProfile(id);
+      if (activeProfileId === id) activate(DEFAULT_PROFILE.id);
+      await refresh(DEFAULT_PROFILE.id);
+    }, "Profilo eliminato");
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <header className="max-w-6xl mx-auto px-6 pt-12 pb-8">
+        <Link href="/" className="text-sm text-white/50 hover:text-white transition-colors">
+          ← Torna al validatore
+        </Link>
+        <h1 className="text-4xl md:text-5xl font-bold tracking-tight mt-4 mb-3">Profili Linee Guida</h1>
+        <p className="text-white/60 max-w-2xl">
+          Limiti di produzione con cui vengono analizzati e validati i modelli. Il profilo attivo si sceglie prima del caricamento del file.
+        </p>
+      </header>
+
+      <section className="max-w-6xl mx-auto px-6 pb-16 grid lg:grid-cols-[260px_1fr] gap-8">
+        {/* Profile List */}
+        <div className="space-y-2">
+          {profiles.map((profile) => (
+            <button
+              key={profile.id}
+              onClick={() => { setDraft(draftOf(profile)); setError(""); setNotice(""); }}
+              className={`w-full flex justify-between items-center gap-2 px-3 py-2 rounded-lg border text-left transition-colors ${draft.id === profile.id ? 'bg-white/10 border-white/30' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+            >
+              <span className="truncate">{profile.name}</span>
+              {profile.id === activeProfileId && (
+                <span className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-500/20 text-emerald-400">Attivo</span>
+              )}
+            </button>
+          ))}
+          <button
+            onClick={() => { setDraft({ id: null, name: "", guidelines: GUIDELINES }); setError(""); setNotice(""); }}
+            className="w-full px-3 py-2 rounded-lg border border-dashed border-white/20 text-white/60 hover:text-white hover:border-white/40 transition-colors"
+          >
+            + Nuovo Profilo
+          </button>
+        </div>
+
+        {/* Profile Editor */}
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex-1 min-w-[200px]">
+              <span className="block text-sm text-white/50 mb-1">Nome</span>
+              <input
+                type="text"
+                value={draft.name}
+                disabled={readOnly}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Es. Stampa SLS nylon"
+                className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 focus:outline-none focus:border-white/30 disabled:opacity-60"
+              />
+            </label>
+            {!readOnly && (
+              <button
+                onClick={save}
+                disabled={isSaving}
+                className="px-4 py-2 rounded-lg bg-white text-black font-semibold hover:bg-white/90 transition-colors disabled:opacity-50"
+              >
+                Salva
+              </button>
+            )}
+            {draft.id !== null && (
+              <button
+                onClick={duplicate}
+                disabled={isSaving}
+                className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 transition-colors disabled:opacity-50"
+              >
+                Duplica
+              </button>
+            )}
+            {draft.id !== null && draft.id !== activeProfileId && (
+              <button
+                onClick={() => activate(draft.id!)}
+                className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
+              >
+                Usa per l'analisi
+              </button>
+            )}
+            {draft.id !== null && !readOnly && (
+              <button
+                onClick={remove}
+                disabled={isSaving}
+                className="px-4 py-2 rounded-lg bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-400 transition-colors disabled:opacity-50"
+              >
+                Elimina
+              </button>
+            )}
+          </div>
+
+          {readOnly && (
+            <p className="text-sm text-white/50">Il profilo predefinito non è modificabile: duplicalo per personalizzarlo.</p>
+          )}
+          {error && (
+            <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400">{error}</div>
+          )}
+          {notice && !error && (
+            <div className="p-4 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-emerald-400">{notice}</div>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {FIELD_GROUPS.map((group) => (
+              <div key={group.title} className="bg-white/5 rounded-xl border border-white/10 p-4">
+                <h3 className="font-semibold mb-3">{group.title}</h3>
+                <div className="space-y-2">
+                  {group.fields.map((field) => (
+                    <label key={field.path} className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-white/60">{field.label}</span>
+                      <span className="flex items-center gap-2">
+                        <input
+                          type="number"
+                          step={field.step ?? 1}
+                          value={formatNumber(field.get(draft.guidelines))}
+                          disabled={readOnly}
+                          onChange={(e) => setDraft({ ...draft, guidelines: field.set(draft.guidelines, parseNumber(e.target.value)) })}
+                          className="w-24 px-2 py-1 rounded bg-white/5 border border-white/10 font-mono text-right disabled:opacity-60"
+                        />
+                        <span className="w-6 text-xs text-white/40">{field.unit}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white/5 rounded-xl border border-white/10 p-4">
+            <h3 className="font-semibold mb-1">Canali Interni</h3>
+            <p className="text-sm text-white/50 mb-3">Limiti per fascia di diametro; un limite vuoto non viene verificato.</p>
+            <ChannelTable
+              specs={draft.guidelines.channelSpecs}
+              readOnly={readOnly}
+              onChange={(channelSpecs) => setDraft({ ...draft, guidelines: { ...draft.guidelines, channelSpecs } })}
+            />
+          </div>
+
+          <div className="bg-white/5 rounded-xl border border-white/10 p-4">
+            <h3 className="font-semibold mb-1">Regole</h3>
+            <p className="text-sm text-white/50 mb-3">Verifiche eseguite con questo profilo; quelle disattivate non compaiono nei risultati.</p>
+            <RuleList
+              guidelines={draft.guidelines}
+              readOnly={readOnly}
+              onChange={(guidelines) => setDraft({ ...draft, guidelines })}
+            />
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+export default Profiles;
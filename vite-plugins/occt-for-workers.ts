@@ -0,0 +1,60 @@
+import { readFileSync } from "fs";
+import path from "path";
+import type { Plugin } from "vite";
+
+// The edits match the glue of this release only; package.json pins it exactly
+const OCCT_VERSION = "0.0.23";
+
+// Edits to occt's Emscripten glue so it also runs in the Worker. Bundles never run under
+// Node, but nodejs_compat gives Workers a `process` that sends the glue after __dirname.
+// The embind wrappers around the C++ calls are compiled with `Function`, which Workers
+// refuse to run: each is swapped for a closure doing the same calls.
+const OCCT_PATCHES: [string, string][] = [
+	[
+		'var ENVIRONMENT_IS_NODE=typeof process=="object"&&typeof process.versions=="object"&&typeof process.versions.node=="string"&&process.type!="renderer";',
+		"var ENVIRONMENT_IS_NODE=false;",
+	],
+	[
+		"var invokerFn=newFunc(Function,args)(...closureArgs);",
+		`var invokerFn=function(...args){
+			var destructors=needsDestructorStack?[]:null;
+			var wired=[cppTargetFunc];
+			if(isClassMethodFunc)wired.push(argTypes[1]["toWireType"](destructors,this));
+			for(var i=0;i<argCount-2;++i)wired.push(argTypes[i+2]["toWireType"](destructors,args[i]));
+			var rv=cppInvokerFunc(...wired);
+			if(needsDestructorStack)runDestructors(destructors);
+			else for(var i=isClassMethodFunc?1:2;i<argTypes.length;++i){
+				if(argTypes[i].destructorFunction!==null)argTypes[i].destructorFunction(wired[isClassMethodFunc?i:i-1]);
+			}
+			if(returns)return argTypes[0]["fromWireType"](rv);
+		};`,
+	],
+	[
+		"var invokerFunction=newFunc(Function,params)(...args);",
+		`var invokerFunction=(obj,func,destructorsRef,argsPtr)=>{
+			var values=[];
+			for(var i=0,offset=0;i<argCount;offset+=types[i].argPackAdvance,++i)values.push(types[i].readValueFromPointer(argsPtr+offset));
+			var rv=kind===1?new func(...values):kind===0?func.call(obj,...values):func.call(...values);
+			if(!retType.isVoid)return emval_returnValue(retType,destructorsRef,rv);
+		};`,
+	],
+];
+
+// The CLI runs the untouched glue under bun, which is Node to it: only bundles are edited.
+// Any other occt release or a patch that no longer matches stops the build.
+export default function occtForWorkers(): Plugin {
+	return {
+		name: "occt-for-workers",
+		transform(code, id) {
+			if (!id.endsWith("occt-import-js/dist/occt-import-js.js")) return;
+			const { version } = JSON.parse(readFileSync(path.join(path.dirname(id), "../package.json"), "utf8"));
+			if (version !== OCCT_VERSION) {
+				this.error(`occt-import-js ${version} installed, the Worker patches are for ${OCCT_VERSION}: update OCCT_PATCHES`);
+			}
+			return OCCT_PATCHES.reduce((source, [original, patched]) => {
+				if (!source.includes(original)) this.error(`occt-import-js no longer contains "${original}": update OCCT_PATCHES`);
+				return source.replace(original, () => patched);
+			}, code);
+		},
+	};
+}
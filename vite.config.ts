@@ -4,9 +4,10 @@ import { cloudflare } from "@cloudflare/vite-plugin";
 import tailwind from "@tailwindcss/vite"
 import path from "path";
 import runableWebsiteRuntime from "runable-website-runtime"
+import occtForWorkers from "./vite-plugins/occt-for-workers";
 
 export default defineConfig({
-	plugins: [react(), runableWebsiteRuntime(), cloudflare(), tailwind()],
+	plugins: [react(), runableWebsiteRuntime(), occtForWorkers(), cloudflare(), tailwind()],
 	resolve: {
 		alias: {
 			"@": path.resolve(__dirname, "./src/web"),